@@ -0,0 +1,383 @@
+import React, { useState, useEffect } from 'react';
+import { Accessibility, X, Download, RefreshCw, AlertTriangle } from 'lucide-react';
+import { clsx } from 'clsx';
+import { API_URL } from '../config';
+import { toCsv } from '../utils/csv';
+
+interface RouteOption {
+    route_id: string;
+    route_short_name: string;
+}
+
+interface ServiceOption {
+    service_id: string;
+}
+
+interface AccessibilityDefault {
+    scope: 'route' | 'service';
+    scope_id: string;
+    wheelchair_accessible: number | null;
+    bikes_allowed: number | null;
+}
+
+interface Counts {
+    total: number;
+    accessible: number;
+    not_accessible: number;
+    unknown: number;
+}
+
+interface RouteCoverage {
+    route_id: string;
+    route_short_name: string | null;
+    route_long_name: string | null;
+    trips: number;
+    accessible: number;
+    not_accessible: number;
+    unknown: number;
+    bikes_allowed: number;
+    accessible_share: number | null;
+}
+
+interface Audit {
+    generated_at: string;
+    stops: Counts;
+    trips: Counts & { accessible_share: number | null };
+    routes: RouteCoverage[];
+    unknown_stops: { stop_id: string; stop_code: string | null; stop_name: string }[];
+    unknown_trips: { trip_id: string; route_id: string; service_id: string; trip_headsign: string | null; direction_id: number | null }[];
+    truncated: boolean;
+}
+
+interface AccessibilityPanelProps {
+    onClose: () => void;
+    routes: RouteOption[];
+}
+
+type DefaultField = 'wheelchair_accessible' | 'bikes_allowed';
+
+const percent = (share: number | null) => share === null ? '—' : `${Math.round(share * 1000) / 10}%`;
+
+const downloadCsv = (content: string, filename: string) => {
+    const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({ onClose, routes }) => {
+    const [tab, setTab] = useState<'audit' | 'defaults'>('audit');
+    const [audit, setAudit] = useState<Audit | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [defaults, setDefaults] = useState<AccessibilityDefault[]>([]);
+    const [services, setServices] = useState<ServiceOption[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchAudit = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const res = await fetch(`${API_URL}/accessibility/audit`);
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to load audit');
+                return;
+            }
+            setAudit(data);
+        } catch (err) {
+            console.error(err);
+            setError('Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchDefaults = async () => {
+        try {
+            const [defaultsRes, servicesRes] = await Promise.all([
+                fetch(`${API_URL}/accessibility/defaults`),
+                fetch(`${API_URL}/calendar`)
+            ]);
+            if (defaultsRes.ok) setDefaults(await defaultsRes.json());
+            if (servicesRes.ok) setServices(await servicesRes.json());
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    useEffect(() => {
+        fetchAudit();
+        fetchDefaults();
+    }, []);
+
+    const defaultOf = (scope: AccessibilityDefault['scope'], id: string) =>
+        defaults.find(d => d.scope === scope && d.scope_id === id);
+
+    const handleDefaultChange = async (scope: AccessibilityDefault['scope'], id: string, field: DefaultField, value: number | null) => {
+        const current = defaultOf(scope, id);
+        const body = {
+            wheelchair_accessible: current?.wheelchair_accessible ?? null,
+            bikes_allowed: current?.bikes_allowed ?? null,
+            [field]: value
+        };
+        setError(null);
+        try {
+            const res = await fetch(`${API_URL}/accessibility/defaults/${scope}/${encodeURIComponent(id)}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body)
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to save default');
+                return;
+            }
+            const rest = defaults.filter(d => !(d.scope === scope && d.scope_id === id));
+            setDefaults(data.wheelchair_accessible || data.bikes_allowed ? [...rest, data] : rest);
+        } catch (err) {
+            console.error(err);
+            setError('Network error');
+        }
+    };
+
+    const handleExportCSV = () => {
+        if (!audit) return;
+        const headers = ['Route', 'Route name', 'Trips', 'Accessible', 'Not accessible', 'Unknown', 'Accessible share (%)', 'Bikes allowed'];
+        const rows = audit.routes.map(r => ({
+            'Route': r.route_short_name || r.route_id,
+            'Route name': r.route_long_name || '',
+            'Trips': r.trips,
+            'Accessible': r.accessible,
+            'Not accessible': r.not_accessible,
+            'Unknown': r.unknown,
+            'Accessible share (%)': r.accessible_share === null ? '' : (r.accessible_share * 100).toFixed(1),
+            'Bikes allowed': r.bikes_allowed
+        }));
+        downloadCsv(toCsv(rows, headers), `accessibility_audit_${audit.generated_at.slice(0, 10)}.csv`);
+    };
+
+    const selectClass = "text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded px-1.5 py-1 text-gray-900 dark:text-gray-100";
+    const valueSelect = (scope: AccessibilityDefault['scope'], id: string, field: DefaultField) => (
+        <select
+            value={defaultOf(scope, id)?.[field] ?? ''}
+            onChange={(e) => handleDefaultChange(scope, id, field, e.target.value === '' ? null : parseInt(e.target.value, 10))}
+            className={selectClass}
+        >
+            <option value="">Not set</option>
+            <option value="1">Yes</option>
+            <option value="2">No</option>
+        </select>
+    );
+
+    const summaryCard = (label: string, counts: Counts, extra?: string) => (
+        <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+            <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">{label}</div>
+            <div className="text-2xl font-bold text-gray-900 dark:text-white">{counts.total}</div>
+            <div className="text-xs text-gray-600 dark:text-gray-300 flex flex-wrap gap-x-3">
+                <span className="text-green-600 dark:text-green-400">{counts.accessible} accessible</span>
+                <span className="text-red-600 dark:text-red-400">{counts.not_accessible} not accessible</span>
+                <span className="text-amber-600 dark:text-amber-400">{counts.unknown} unknown</span>
+                {extra && <span>{extra}</span>}
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/50 overflow-y-auto h-full w-full z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="relative bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200 transition-colors">
+
+                {/* Header */}
+                <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900/50 transition-colors">
+                    <div>
+                        <h3 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                            <Accessibility className="w-6 h-6 text-blue-600" />
+                            Accessibility
+                        </h3>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Wheelchair and bike coverage of the published timetable.</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                {/* Tabs */}
+                <div className="flex border-b border-gray-100 dark:border-gray-700 px-6">
+                    {(['audit', 'defaults'] as const).map(t => (
+                        <button
+                            key={t}
+                            onClick={() => setTab(t)}
+                            className={clsx(
+                                "px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors",
+                                tab === t ? "border-blue-600 text-blue-600 dark:text-blue-400" : "border-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                            )}
+                        >
+                            {t === 'audit' ? 'Audit' : 'Defaults'}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-4">
+                    {error && (
+                        <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 px-3 py-2 rounded border border-red-200 dark:border-red-800 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {tab === 'audit' && (
+                        <>
+                            <div className="flex justify-between items-center">
+                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                    {audit ? `Generated ${new Date(audit.generated_at).toLocaleString()}` : loading ? 'Loading...' : ''}
+                                </span>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={fetchAudit}
+                                        disabled={loading}
+                                        title="Refresh"
+                                        className="p-2 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg text-gray-500 hover:text-blue-600 transition-colors disabled:opacity-50"
+                                    >
+                                        <RefreshCw size={18} className={clsx(loading && "animate-spin")} />
+                                    </button>
+                                    <button
+                                        onClick={handleExportCSV}
+                                        disabled={!audit}
+                                        title="Export CSV"
+                                        className="p-2 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg text-gray-500 hover:text-blue-600 transition-colors disabled:opacity-50"
+                                    >
+                                        <Download size={18} />
+                                    </button>
+                                </div>
+                            </div>
+
+                            {audit && (
+                                <>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        {summaryCard('Served stops', audit.stops)}
+                                        {summaryCard('Trips', audit.trips, `${percent(audit.trips.accessible_share)} accessible`)}
+                                    </div>
+
+                                    <div>
+                                        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Coverage per route</h4>
+                                        <table className="w-full text-sm">
+                                            <thead>
+                                                <tr className="text-xs text-gray-500 dark:text-gray-400 text-left">
+                                                    <th className="py-1 pr-2">Route</th>
+                                                    <th className="py-1 pr-2 text-right">Trips</th>
+                                                    <th className="py-1 pr-2 text-right">Accessible</th>
+                                                    <th className="py-1 pr-2 text-right">Not accessible</th>
+                                                    <th className="py-1 pr-2 text-right">Unknown</th>
+                                                    <th className="py-1 pr-2 text-right">Bikes</th>
+                                                    <th className="py-1 w-40">Share</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {audit.routes.map(r => (
+                                                    <tr key={r.route_id} className="border-t border-gray-100 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                                                        <td className="py-1 pr-2 truncate max-w-[220px]" title={r.route_long_name || r.route_id}>
+                                                            <span className="font-medium">{r.route_short_name || r.route_id}</span>
+                                                            {r.route_long_name && <span className="text-xs text-gray-500 ml-2">{r.route_long_name}</span>}
+                                                        </td>
+                                                        <td className="py-1 pr-2 text-right font-mono">{r.trips}</td>
+                                                        <td className="py-1 pr-2 text-right font-mono">{r.accessible}</td>
+                                                        <td className="py-1 pr-2 text-right font-mono">{r.not_accessible}</td>
+                                                        <td className={clsx("py-1 pr-2 text-right font-mono", r.unknown > 0 && "text-amber-600 dark:text-amber-400")}>{r.unknown}</td>
+                                                        <td className="py-1 pr-2 text-right font-mono">{r.bikes_allowed}</td>
+                                                        <td className="py-1">
+                                                            <div className="flex items-center gap-2">
+                                                                <div className="flex-1 h-2 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+                                                                    <div className="h-full bg-green-500" style={{ width: `${(r.accessible_share || 0) * 100}%` }} />
+                                                                </div>
+                                                                <span className="text-xs font-mono w-12 text-right">{percent(r.accessible_share)}</span>
+                                                            </div>
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                                {audit.routes.length === 0 && (
+                                                    <tr><td colSpan={7} className="py-4 text-center text-gray-400 text-sm">No trips in the timetable.</td></tr>
+                                                )}
+                                            </tbody>
+                                        </table>
+                                    </div>
+
+                                    {audit.truncated && (
+                                        <div className="flex items-center gap-2 text-xs text-amber-600 dark:text-amber-400">
+                                            <AlertTriangle size={14} /> Only the first entries of each list are shown.
+                                        </div>
+                                    )}
+
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Stops with unknown access ({audit.stops.unknown})</h4>
+                                            <ul className="max-h-60 overflow-y-auto text-xs divide-y divide-gray-100 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded">
+                                                {audit.unknown_stops.map(s => (
+                                                    <li key={s.stop_id} className="px-2 py-1 text-gray-700 dark:text-gray-300 flex justify-between gap-2">
+                                                        <span className="truncate">{s.stop_name}</span>
+                                                        <span className="font-mono text-gray-400">{s.stop_code || s.stop_id}</span>
+                                                    </li>
+                                                ))}
+                                                {audit.unknown_stops.length === 0 && <li className="px-2 py-2 text-gray-400">None</li>}
+                                            </ul>
+                                        </div>
+                                        <div>
+                                            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Trips with unknown access ({audit.trips.unknown})</h4>
+                                            <ul className="max-h-60 overflow-y-auto text-xs divide-y divide-gray-100 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded">
+                                                {audit.unknown_trips.map(t => (
+                                                    <li key={t.trip_id} className="px-2 py-1 text-gray-700 dark:text-gray-300 flex justify-between gap-2">
+                                                        <span className="font-mono truncate">{t.trip_id}</span>
+                                                        <span className="text-gray-400 truncate">{t.route_id} · {t.service_id}</span>
+                                                    </li>
+                                                ))}
+                                                {audit.unknown_trips.length === 0 && <li className="px-2 py-2 text-gray-400">None</li>}
+                                            </ul>
+                                        </div>
+                                    </div>
+                                </>
+                            )}
+                        </>
+                    )}
+
+                    {tab === 'defaults' && (
+                        <>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                Trips without their own value take the route default, then the service default. Changes apply to the audit and the export.
+                            </p>
+                            {([
+                                { scope: 'route' as const, title: 'Routes', items: routes.map(r => ({ id: r.route_id, label: r.route_short_name || r.route_id })) },
+                                { scope: 'service' as const, title: 'Services', items: services.map(s => ({ id: s.service_id, label: s.service_id })) }
+                            ]).map(group => (
+                                <div key={group.scope}>
+                                    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">{group.title}</h4>
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="text-xs text-gray-500 dark:text-gray-400 text-left">
+                                                <th className="py-1 pr-2">{group.scope === 'route' ? 'Route' : 'Service'}</th>
+                                                <th className="py-1 pr-2 w-32">Wheelchair</th>
+                                                <th className="py-1 w-32">Bikes</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {group.items.map(item => (
+                                                <tr key={item.id} className="border-t border-gray-100 dark:border-gray-700">
+                                                    <td className="py-1 pr-2 text-gray-800 dark:text-gray-200">{item.label}</td>
+                                                    <td className="py-1 pr-2">{valueSelect(group.scope, item.id, 'wheelchair_accessible')}</td>
+                                                    <td className="py-1">{valueSelect(group.scope, item.id, 'bikes_allowed')}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AccessibilityPanel;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Trash2, Edit2, Building2, Globe, Clock, Languages, Phone, Mail, X } from 'lucide-react';
 import ConfirmModal from './ConfirmModal';
+import TranslationsEditor from './TranslationsEditor';
 import { COMMON_TIMEZONES } from '../utils/TimeUtils';
 
 interface Agency {
@@ -178,6 +179,7 @@ const AgencyManager: React.FC = () => {
                             <input
                                 type="text"
                                 placeholder="en"
+                                title="Language of the names; translations are given for other languages"
                                 className="w-full px-3 py-2 rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-sm focus:ring-2 focus:ring-blue-500 outline-none dark:text-gray-100"
                                 value={currentAgency.agency_lang || ''}
                                 onChange={e => setCurrentAgency({ ...currentAgency, agency_lang: e.target.value })}
@@ -210,6 +212,16 @@ const AgencyManager: React.FC = () => {
                         />
                     </div>
 
+                    {currentAgency.agency_id && (
+                        <div className="pt-2 border-t border-gray-100 dark:border-gray-800">
+                            <TranslationsEditor
+                                tableName="agency"
+                                recordId={currentAgency.agency_id}
+                                fields={[{ name: 'agency_name', label: 'Agency name' }, { name: 'agency_url', label: 'Agency URL' }]}
+                            />
+                        </div>
+                    )}
+
                     <div className="flex gap-2 pt-2">
                         <button
                             onClick={() => setIsEditing(false)}
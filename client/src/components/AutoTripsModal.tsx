@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { X, Plus, Trash2, Wand2 } from 'lucide-react';
+import { X, Plus, Trash2, Wand2, Repeat } from 'lucide-react';
 import { clsx } from 'clsx';
 import { formatTimeInput } from '../utils/TimeUtils';
 
@@ -11,8 +11,12 @@ interface AutoTripsModalProps {
     onGenerate: (config: AutoTripsConfig) => void;
 }
 
+// Sent as is to POST /routes/:id/trips/generate, which computes departures and stop times
 export interface AutoTripsConfig {
-    trips: string[]; // Array of start times "HH:MM:SS"
+    mode: 'interval' | 'buses';
+    output: 'trips' | 'frequencies'; // frequencies: one trip per direction published as frequencies.txt
+    bands: { start_time: string; end_time: string; value: number }[];
+    layover: { min_secs: number; percent: number };
 }
 
 interface TimeRange {
@@ -30,9 +34,12 @@ const AutoTripsModal: React.FC<AutoTripsModalProps> = ({
     onGenerate
 }) => {
     const [mode, setMode] = useState<'interval' | 'buses'>('interval');
+    const [output, setOutput] = useState<'trips' | 'frequencies'>('trips');
     const [ranges, setRanges] = useState<TimeRange[]>([
         { id: '1', start_time: '06:00:00', end_time: '09:00:00', value: 15 }
     ]);
+    const [layoverMins, setLayoverMins] = useState(0);
+    const [layoverPercent, setLayoverPercent] = useState(0);
 
     if (!isOpen) return null;
 
@@ -68,56 +75,17 @@ const AutoTripsModal: React.FC<AutoTripsModalProps> = ({
     };
 
     const generateTimes = () => {
-        const generatedTimes: string[] = [];
-
-        ranges.forEach(range => {
-            const startPoints = range.start_time.split(':').map(Number);
-            const endPoints = range.end_time.split(':').map(Number);
-
-            // Handle optional seconds
-            const startH = startPoints[0] || 0;
-            const startM = startPoints[1] || 0;
-            const startS = startPoints[2] || 0;
-
-            const endH = endPoints[0] || 0;
-            const endM = endPoints[1] || 0;
-            const endS = endPoints[2] || 0;
-
-            let currentSeconds = (startH * 3600) + (startM * 60) + startS;
-            const endSeconds = (endH * 3600) + (endM * 60) + endS;
-
-            let intervalSeconds = 0;
-
-            if (mode === 'interval') {
-                intervalSeconds = range.value * 60;
-            } else {
-                // By Buses: Interval = TotalTravelTime / NumBuses
-                if (range.value <= 0) return;
-                intervalSeconds = totalTravelTime / range.value;
-            }
-
-            if (intervalSeconds <= 0) return;
-
-            while (currentSeconds <= endSeconds) {
-                // Format to HH:MM:SS
-                const h = Math.floor(currentSeconds / 3600);
-                const m = Math.floor((currentSeconds % 3600) / 60);
-                const s = Math.floor(currentSeconds % 60);
-
-                const formatted = [h, m, s]
-                    .map(v => v.toString().padStart(2, '0'))
-                    .join(':');
-
-                generatedTimes.push(formatted);
-                currentSeconds += intervalSeconds;
-            }
-        });
-
-        // Deduplicate and sort
-        const uniqueTimes = Array.from(new Set(generatedTimes)).sort();
-
         onGenerate({
-            trips: uniqueTimes
+            mode,
+            output,
+            bands: ranges
+                .map(range => ({
+                    start_time: formatTimeInput(range.start_time),
+                    end_time: formatTimeInput(range.end_time),
+                    value: range.value
+                }))
+                .filter(band => band.value > 0 && band.start_time < band.end_time),
+            layover: { min_secs: layoverMins * 60, percent: layoverPercent }
         });
         onClose();
     };
@@ -161,6 +129,34 @@ const AutoTripsModal: React.FC<AutoTripsModalProps> = ({
                                 </button>
                             </div>
                         </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Output</label>
+                            <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+                                <button
+                                    onClick={() => setOutput('trips')}
+                                    className={clsx(
+                                        "flex-1 py-1.5 text-sm font-medium rounded-md transition-all",
+                                        output === 'trips' ? "bg-white dark:bg-gray-600 shadow text-blue-600 dark:text-blue-300" : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                                    )}
+                                >
+                                    Explicit Trips
+                                </button>
+                                <button
+                                    onClick={() => setOutput('frequencies')}
+                                    className={clsx(
+                                        "flex-1 py-1.5 text-sm font-medium rounded-md transition-all",
+                                        output === 'frequencies' ? "bg-white dark:bg-gray-600 shadow text-blue-600 dark:text-blue-300" : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                                    )}
+                                >
+                                    Headways (frequencies.txt)
+                                </button>
+                            </div>
+                            {output === 'frequencies' && (
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                    Creates one frequency-based trip per direction instead of one trip per departure.
+                                </p>
+                            )}
+                        </div>
                     </div>
 
                     {/* Ranges */}
@@ -168,7 +164,7 @@ const AutoTripsModal: React.FC<AutoTripsModalProps> = ({
                         <div className="flex justify-between items-center text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700 pb-2">
                             <span>Time Ranges</span>
                             <span className="text-gray-500 font-normal text-xs">
-                                {mode === 'buses' && `Cycle Travel Time: ${Math.round(totalTravelTime / 60)} min`}
+                                {mode === 'buses' && `Cycle Travel Time: ${Math.round(totalTravelTime / 60)} min + layovers`}
                             </span>
                         </div>
 
@@ -232,6 +228,38 @@ const AutoTripsModal: React.FC<AutoTripsModalProps> = ({
                             <Plus size={16} /> Add Time Range
                         </button>
                     </div>
+
+                    {/* Layover */}
+                    <div className="space-y-2">
+                        <div className="text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700 pb-2">
+                            Layover at Terminals
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="text-xs text-gray-500 dark:text-gray-400 block mb-1">Minimum (min)</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={layoverMins}
+                                    onChange={(e) => setLayoverMins(Math.max(0, parseInt(e.target.value) || 0))}
+                                    className="w-full text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 text-gray-900 dark:text-gray-100 font-mono"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-gray-500 dark:text-gray-400 block mb-1">% of Running Time</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={layoverPercent}
+                                    onChange={(e) => setLayoverPercent(Math.max(0, parseInt(e.target.value) || 0))}
+                                    className="w-full text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 text-gray-900 dark:text-gray-100 font-mono"
+                                />
+                            </div>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            The return trip leaves after the larger of both, on top of the turnaround segment. Layover rules of the route's terminals are the minimum.
+                        </p>
+                    </div>
                 </div>
 
                 <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3 bg-gray-50 dark:bg-gray-800/50 rounded-b-xl">
@@ -245,7 +273,8 @@ const AutoTripsModal: React.FC<AutoTripsModalProps> = ({
                         onClick={generateTimes}
                         className="px-6 py-2 text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 rounded-lg shadow-sm transition-colors flex items-center gap-2"
                     >
-                        <Wand2 size={16} /> Generate Trips
+                        {output === 'frequencies' ? <Repeat size={16} /> : <Wand2 size={16} />}
+                        {output === 'frequencies' ? 'Generate Frequencies' : 'Generate Trips'}
                     </button>
                 </div>
             </div>
@@ -0,0 +1,364 @@
+import React, { useEffect, useState } from 'react';
+import { Satellite, FileText, CheckCircle, AlertCircle, X, ArrowRight } from 'lucide-react';
+import { clsx } from 'clsx';
+import { API_URL } from '../config';
+import { watchJob } from '../utils/jobs';
+
+interface ProposedSlot {
+    start: number; // seconds
+    end: number;
+    min_time: number;
+    travel_time: number;
+    max_time: number;
+    samples: number;
+}
+
+interface SlotProposal {
+    segment_id: string;
+    from_name: string;
+    to_name: string;
+    runs: number;
+    current: { id: string; start_time: string; end_time: string; travel_time: number }[];
+    proposed: ProposedSlot[];
+}
+
+interface AvlImportResult {
+    pings: number;
+    skipped_rows: number;
+    vehicles: number;
+    passages: number;
+    matched_runs: number;
+    off_corridor_runs: number;
+    proposals: SlotProposal[];
+}
+
+interface AvlImportPanelProps {
+    onClose: () => void;
+}
+
+const inputClass = "w-full text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 text-gray-900 dark:text-gray-100";
+const labelClass = "text-xs text-gray-500 dark:text-gray-400 block mb-1";
+
+const clock = (secs: number) => `${String(Math.floor(secs / 3600)).padStart(2, '0')}:${String(Math.floor((secs % 3600) / 60)).padStart(2, '0')}`;
+const mins = (secs: number) => (secs / 60).toFixed(1);
+
+const AvlImportPanel: React.FC<AvlImportPanelProps> = ({ onClose }) => {
+    const [file, setFile] = useState<File | null>(null);
+    // '' for all days, 'day:NAME' or 'service:ID', as in the slot editor
+    const [scope, setScope] = useState('');
+    const [dayTypes, setDayTypes] = useState<string[]>([]);
+    const [serviceIds, setServiceIds] = useState<string[]>([]);
+    const [timezone, setTimezone] = useState('');
+    const [stopRadius, setStopRadius] = useState(30);
+    const [corridor, setCorridor] = useState(50);
+    const [bandMins, setBandMins] = useState(60);
+    const [toleranceSecs, setToleranceSecs] = useState(30);
+
+    const [status, setStatus] = useState<'idle' | 'running' | 'review' | 'applied' | 'error'>('idle');
+    const [message, setMessage] = useState('');
+    const [jobId, setJobId] = useState<string | null>(null);
+    const [result, setResult] = useState<AvlImportResult | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+
+    useEffect(() => {
+        Promise.all([fetch(`${API_URL}/day_types`), fetch(`${API_URL}/calendar`), fetch(`${API_URL}/agency`)])
+            .then(async ([dayTypesRes, calendarRes, agencyRes]) => {
+                if (dayTypesRes.ok) setDayTypes((await dayTypesRes.json()).map((d: { day_type: string }) => d.day_type));
+                if (calendarRes.ok) setServiceIds((await calendarRes.json()).map((c: { service_id: string }) => c.service_id));
+                if (agencyRes.ok) {
+                    const agencies = await agencyRes.json();
+                    if (Array.isArray(agencies) && agencies[0]?.agency_timezone) setTimezone(agencies[0].agency_timezone);
+                }
+            })
+            .catch(err => console.error(err));
+    }, []);
+
+    const handleRun = async () => {
+        if (!file) return;
+        setStatus('running');
+        setMessage('Uploading GPS pings...');
+        setResult(null);
+
+        const formData = new FormData();
+        if (timezone) formData.append('timezone', timezone);
+        formData.append('stop_radius_m', String(stopRadius));
+        formData.append('corridor_m', String(corridor));
+        formData.append('band_mins', String(bandMins));
+        formData.append('tolerance_secs', String(toleranceSecs));
+        if (scope.startsWith('service:')) formData.append('service_id', scope.slice('service:'.length));
+        if (scope.startsWith('day:')) formData.append('day_type', scope.slice('day:'.length));
+        formData.append('file', file);
+
+        try {
+            const res = await fetch(`${API_URL}/avl/import`, { method: 'POST', body: formData });
+            const started = await res.json();
+            if (!res.ok) {
+                setStatus('error');
+                setMessage(started.error || 'Import failed.');
+                return;
+            }
+
+            // Matching runs as a background job on the server
+            const job = await watchJob<AvlImportResult>(started.jobId, j => {
+                if (j.message) setMessage(j.message);
+            });
+            if (job.status !== 'completed' || !job.result) {
+                setStatus('error');
+                setMessage(job.error || (job.status === 'cancelled' ? 'Import cancelled.' : 'Import failed.'));
+                return;
+            }
+            setJobId(job.job_id);
+            setResult(job.result);
+            setSelected(new Set(job.result.proposals.map(p => p.segment_id)));
+            setStatus('review');
+            setMessage('');
+        } catch (err) {
+            console.error(err);
+            setStatus('error');
+            setMessage(`Network error: ${(err as Error).message}`);
+        }
+    };
+
+    const handleApply = async () => {
+        if (!jobId || selected.size === 0) return;
+        try {
+            const res = await fetch(`${API_URL}/avl/jobs/${jobId}/apply`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ segment_ids: [...selected] })
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setMessage(data.error || 'Failed to apply proposals.');
+                return;
+            }
+            setStatus('applied');
+            setMessage(data.message);
+        } catch (err) {
+            console.error(err);
+            setMessage(`Network error: ${(err as Error).message}`);
+        }
+    };
+
+    const toggle = (segmentId: string) => setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(segmentId)) next.delete(segmentId); else next.add(segmentId);
+        return next;
+    });
+
+    const numberField = (label: string, value: number, onChange: (v: number) => void, min: number, max: number) => (
+        <div>
+            <label className={labelClass}>{label}</label>
+            <input type="number" min={min} max={max} value={value} onChange={(e) => onChange(parseInt(e.target.value) || 0)} className={clsx(inputClass, "font-mono")} />
+        </div>
+    );
+
+    return (
+        <div className="absolute top-0 right-0 h-full w-[30rem] bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700 shadow-2xl z-30 flex flex-col transition-transform duration-300">
+            {/* Header */}
+            <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
+                <div className="flex items-center gap-2">
+                    <Satellite className="text-blue-600" size={20} />
+                    <h2 className="font-bold text-gray-800 dark:text-gray-100">GPS Traces</h2>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full transition-colors"
+                >
+                    <X size={20} className="text-gray-500" />
+                </button>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-6">
+                {(status === 'idle' || status === 'running' || status === 'error') && (
+                    <>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                            Upload vehicle GPS pings (CSV with vehicle_id, timestamp, lat, lon) to measure the running time of each segment between stops.
+                            Proposed slots are shown for review before they replace any.
+                        </p>
+
+                        <div className={`border-2 border-dashed rounded-lg p-3 flex flex-col items-center justify-center transition-colors ${file ? 'border-green-500 bg-green-50 dark:bg-green-900/10' : 'border-gray-300 dark:border-gray-700 hover:border-blue-400'}`}>
+                            <input
+                                type="file"
+                                accept=".csv, text/csv, application/vnd.ms-excel, text/x-csv, text/plain"
+                                onChange={(e) => { if (e.target.files?.[0]) setFile(e.target.files[0]); }}
+                                className="hidden"
+                                id="file-avl"
+                            />
+                            <label htmlFor="file-avl" className="cursor-pointer w-full flex flex-col items-center gap-1">
+                                {file ? (
+                                    <>
+                                        <CheckCircle size={20} className="text-green-600" />
+                                        <span className="text-xs font-semibold text-green-700 dark:text-green-400 truncate w-full text-center">{file.name}</span>
+                                        <span className="text-xs text-gray-500">{(file.size / 1024).toFixed(1)} KB</span>
+                                    </>
+                                ) : (
+                                    <>
+                                        <FileText size={20} className="text-gray-400" />
+                                        <span className="text-xs text-blue-600 font-medium">Click to upload</span>
+                                    </>
+                                )}
+                            </label>
+                        </div>
+
+                        <div className="space-y-3">
+                            <div className="text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700 pb-2">Matching</div>
+                            <div>
+                                <label className={labelClass}>Timezone of times without an offset</label>
+                                <input type="text" value={timezone} onChange={(e) => setTimezone(e.target.value)} placeholder="UTC" className={inputClass} />
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                {numberField('Stop radius (m)', stopRadius, setStopRadius, 5, 200)}
+                                {numberField('Corridor around segment (m)', corridor, setCorridor, 10, 500)}
+                            </div>
+                        </div>
+
+                        <div className="space-y-3">
+                            <div className="text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700 pb-2">Proposed Slots</div>
+                            <div>
+                                <label className={labelClass}>Slot set to update</label>
+                                <select value={scope} onChange={(e) => setScope(e.target.value)} className={inputClass}>
+                                    <option value="">All days</option>
+                                    {dayTypes.length > 0 && (
+                                        <optgroup label="Day types">
+                                            {dayTypes.map(d => <option key={d} value={`day:${d}`}>{d}</option>)}
+                                        </optgroup>
+                                    )}
+                                    {serviceIds.length > 0 && (
+                                        <optgroup label="Services">
+                                            {serviceIds.map(id => <option key={id} value={`service:${id}`}>{id}</option>)}
+                                        </optgroup>
+                                    )}
+                                </select>
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                {numberField('Band length (min)', bandMins, setBandMins, 5, 360)}
+                                {numberField('Merge when medians within (s)', toleranceSecs, setToleranceSecs, 0, 3600)}
+                            </div>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">Slots take the 15th, 50th and 85th percentiles of the runs as min, optimal and max.</p>
+                        </div>
+
+                        {message && (
+                            <div className={clsx(
+                                "p-3 rounded-lg text-sm flex items-start gap-2",
+                                status === 'error' ? "bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300" : "bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300"
+                            )}>
+                                {status === 'error' && <AlertCircle size={16} className="shrink-0 mt-0.5" />}
+                                <span>{message}</span>
+                            </div>
+                        )}
+
+                        <button
+                            onClick={handleRun}
+                            disabled={!file || status === 'running'}
+                            className="w-full py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm transition-colors disabled:opacity-50"
+                        >
+                            {status === 'running' ? 'Matching...' : 'Match Traces'}
+                        </button>
+                    </>
+                )}
+
+                {(status === 'review' || status === 'applied') && result && (
+                    <>
+                        <div className="grid grid-cols-3 gap-2 text-center">
+                            {[
+                                ['Pings', result.pings],
+                                ['Vehicles', result.vehicles],
+                                ['Stop passages', result.passages],
+                                ['Matched runs', result.matched_runs],
+                                ['Off corridor', result.off_corridor_runs],
+                                ['Unreadable rows', result.skipped_rows]
+                            ].map(([label, value]) => (
+                                <div key={label} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2">
+                                    <div className="text-lg font-bold text-gray-800 dark:text-gray-100">{value}</div>
+                                    <div className="text-[10px] uppercase text-gray-500">{label}</div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {message && (
+                            <div className={clsx(
+                                "p-3 rounded-lg text-sm",
+                                status === 'applied' ? "bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-300" : "bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300"
+                            )}>
+                                {message}
+                            </div>
+                        )}
+
+                        {result.proposals.length === 0 ? (
+                            <div className="text-center py-8 text-sm text-gray-500">No runs matched a segment. Check the stop radius and the timezone.</div>
+                        ) : (
+                            <div className="space-y-2">
+                                <div className="flex justify-between items-center text-xs text-gray-500">
+                                    <span>{selected.size} of {result.proposals.length} segments selected</span>
+                                    <div className="flex gap-2">
+                                        <button onClick={() => setSelected(new Set(result.proposals.map(p => p.segment_id)))} className="text-blue-600 hover:underline">All</button>
+                                        <button onClick={() => setSelected(new Set())} className="text-blue-600 hover:underline">None</button>
+                                    </div>
+                                </div>
+                                {result.proposals.map(p => (
+                                    <label
+                                        key={p.segment_id}
+                                        className={clsx(
+                                            "block border rounded-lg p-3 cursor-pointer transition-colors",
+                                            selected.has(p.segment_id) ? "border-blue-300 bg-blue-50/50 dark:border-blue-800 dark:bg-blue-900/10" : "border-gray-200 dark:border-gray-700"
+                                        )}
+                                    >
+                                        <div className="flex items-center gap-2 text-sm font-medium text-gray-800 dark:text-gray-200">
+                                            <input type="checkbox" checked={selected.has(p.segment_id)} onChange={() => toggle(p.segment_id)} disabled={status === 'applied'} className="rounded" />
+                                            <span className="truncate">{p.from_name}</span>
+                                            <ArrowRight size={12} className="text-gray-400 shrink-0" />
+                                            <span className="truncate">{p.to_name}</span>
+                                            <span className="ml-auto text-xs text-gray-500 shrink-0">{p.runs} runs</span>
+                                        </div>
+                                        <div className="mt-2 grid grid-cols-2 gap-3 text-[11px] font-mono">
+                                            <div>
+                                                <div className="text-[10px] uppercase font-sans text-gray-400 mb-1">Current</div>
+                                                {p.current.length === 0 ? (
+                                                    <div className="text-gray-400 font-sans">No slots</div>
+                                                ) : p.current.map(s => (
+                                                    <div key={s.id} className="text-gray-500">{s.start_time.slice(0, 5)}-{s.end_time.slice(0, 5)} {mins(s.travel_time)}'</div>
+                                                ))}
+                                            </div>
+                                            <div>
+                                                <div className="text-[10px] uppercase font-sans text-gray-400 mb-1">Proposed (min-max)</div>
+                                                {p.proposed.map(s => (
+                                                    <div key={s.start} className="text-gray-800 dark:text-gray-200" title={`${s.samples} runs`}>
+                                                        {clock(s.start)}-{clock(s.end)} {mins(s.travel_time)}' <span className="text-gray-400">({mins(s.min_time)}-{mins(s.max_time)})</span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+
+            {(status === 'review' || status === 'applied') && (
+                <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-between gap-3 bg-gray-50 dark:bg-gray-800/50">
+                    <button
+                        onClick={() => { setStatus('idle'); setMessage(''); setResult(null); }}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                        New Import
+                    </button>
+                    {status === 'review' && (
+                        <button
+                            onClick={handleApply}
+                            disabled={selected.size === 0}
+                            className="px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm transition-colors disabled:opacity-50"
+                        >
+                            Apply {selected.size} Segments
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AvlImportPanel;
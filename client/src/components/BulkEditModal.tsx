@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { X, Layers, MoveHorizontal, Maximize2, Copy, Trash2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { API_URL } from '../config';
+import { formatTimeInput } from '../utils/TimeUtils';
+import type { RoutePattern } from '../types';
+
+type Operation = 'shift' | 'stretch' | 'copy' | 'delete';
+
+interface BulkEditModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    routeId: string;
+    directionId: number;
+    serviceId: string;
+    serviceIds: string[];
+    patterns: RoutePattern[]; // Patterns of the route, both directions
+    onApplied: (message: string) => void;
+}
+
+const OPERATIONS: { id: Operation; label: string; icon: React.ElementType }[] = [
+    { id: 'shift', label: 'Shift', icon: MoveHorizontal },
+    { id: 'stretch', label: 'Stretch', icon: Maximize2 },
+    { id: 'copy', label: 'Copy to Service', icon: Copy },
+    { id: 'delete', label: 'Delete', icon: Trash2 }
+];
+
+const inputClass = "w-full text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 text-gray-900 dark:text-gray-100";
+const labelClass = "text-xs text-gray-500 dark:text-gray-400 block mb-1";
+
+const BulkEditModal: React.FC<BulkEditModalProps> = ({
+    isOpen,
+    onClose,
+    routeId,
+    directionId,
+    serviceId,
+    serviceIds,
+    patterns,
+    onApplied
+}) => {
+    // Parent mounts the modal when opened, so props only seed the filter
+    const [direction, setDirection] = useState<'' | '0' | '1'>(String(directionId) as '0' | '1');
+    const [service, setService] = useState(serviceId);
+    const [patternId, setPatternId] = useState('');
+    const [fromTime, setFromTime] = useState('');
+    const [toTime, setToTime] = useState('');
+    const [operation, setOperation] = useState<Operation>('shift');
+    const [minutes, setMinutes] = useState(5);
+    const [percent, setPercent] = useState(10);
+    const [targetServiceId, setTargetServiceId] = useState(serviceIds.find(id => id !== serviceId) || '');
+    const [minHeadway, setMinHeadway] = useState(0);
+    const [matchCount, setMatchCount] = useState<number | null>(null);
+    const [applying, setApplying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const filter = {
+        direction_id: direction === '' ? null : Number(direction),
+        service_id: service || null,
+        pattern_id: patternId || null,
+        from_time: fromTime ? formatTimeInput(fromTime) : null,
+        to_time: toTime ? formatTimeInput(toTime) : null
+    };
+    const filterKey = JSON.stringify(filter);
+
+    // Number of trips the filter matches, refreshed as it changes
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        fetch(`${API_URL}/routes/${routeId}/trips/bulk`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...JSON.parse(filterKey), operation: 'delete', preview: true })
+        })
+            .then(res => res.ok ? res.json() : null)
+            .then(data => { if (!cancelled) setMatchCount(data ? data.trip_ids.length : null); })
+            .catch(() => { if (!cancelled) setMatchCount(null); });
+        return () => { cancelled = true; };
+    }, [isOpen, routeId, filterKey]);
+
+    if (!isOpen) return null;
+
+    const visiblePatterns = patterns.filter(p => direction === '' || p.direction_id === Number(direction));
+
+    const handleApply = async () => {
+        if (operation === 'delete' && !confirm(`Delete ${matchCount ?? 'the matching'} trips? This cannot be undone.`)) return;
+
+        setApplying(true);
+        setError(null);
+        try {
+            const res = await fetch(`${API_URL}/routes/${routeId}/trips/bulk`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...filter,
+                    operation,
+                    minutes,
+                    percent,
+                    target_service_id: targetServiceId,
+                    min_headway_mins: minHeadway > 0 ? minHeadway : null
+                })
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to edit trips');
+                return;
+            }
+            const skipped = data.skipped?.length ? ` (${data.skipped.length} already in ${targetServiceId} skipped)` : '';
+            onApplied(`${data.message}${skipped}`);
+            onClose();
+        } catch (err) {
+            console.error(err);
+            setError('Network error');
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-2xl animate-in fade-in zoom-in duration-200">
+                <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700">
+                    <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                        <Layers className="text-indigo-600" size={20} />
+                        Bulk Edit Trips
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors text-gray-500 dark:text-gray-400">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                    {error && (
+                        <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 px-3 py-2 rounded border border-red-200 dark:border-red-800 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Trips */}
+                    <div className="space-y-3">
+                        <div className="flex justify-between items-center text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700 pb-2">
+                            <span>Trips</span>
+                            <span className="text-gray-500 font-normal text-xs">
+                                {matchCount === null ? '…' : `${matchCount} trips match`}
+                            </span>
+                        </div>
+                        <div className="grid grid-cols-3 gap-3">
+                            <div>
+                                <label className={labelClass}>Direction</label>
+                                <select value={direction} onChange={(e) => { setDirection(e.target.value as '' | '0' | '1'); setPatternId(''); }} className={inputClass}>
+                                    <option value="">Both</option>
+                                    <option value="0">Outbound</option>
+                                    <option value="1">Inbound</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className={labelClass}>Service</label>
+                                <select value={service} onChange={(e) => setService(e.target.value)} className={inputClass}>
+                                    <option value="">All services</option>
+                                    {serviceIds.map(id => <option key={id} value={id}>{id}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={labelClass}>Pattern</label>
+                                <select value={patternId} onChange={(e) => setPatternId(e.target.value)} className={inputClass}>
+                                    <option value="">All patterns</option>
+                                    {visiblePatterns.map(p => (
+                                        <option key={p.pattern_id} value={p.pattern_id}>
+                                            {direction === '' ? `${p.direction_id === 0 ? 'Out' : 'In'} · ` : ''}{p.pattern_name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={labelClass}>Departing from</label>
+                                <input
+                                    type="text"
+                                    placeholder="HH:MM:SS"
+                                    maxLength={8}
+                                    value={fromTime}
+                                    onChange={(e) => setFromTime(e.target.value)}
+                                    onBlur={(e) => setFromTime(e.target.value ? formatTimeInput(e.target.value) : '')}
+                                    className={clsx(inputClass, "font-mono")}
+                                />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Departing until</label>
+                                <input
+                                    type="text"
+                                    placeholder="HH:MM:SS"
+                                    maxLength={8}
+                                    value={toTime}
+                                    onChange={(e) => setToTime(e.target.value)}
+                                    onBlur={(e) => setToTime(e.target.value ? formatTimeInput(e.target.value) : '')}
+                                    className={clsx(inputClass, "font-mono")}
+                                />
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Operation */}
+                    <div className="space-y-3">
+                        <div className="text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700 pb-2">
+                            Operation
+                        </div>
+                        <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+                            {OPERATIONS.map(({ id, label, icon: Icon }) => (
+                                <button
+                                    key={id}
+                                    onClick={() => setOperation(id)}
+                                    className={clsx(
+                                        "flex-1 py-1.5 text-sm font-medium rounded-md transition-all flex items-center justify-center gap-1.5",
+                                        operation === id ? "bg-white dark:bg-gray-600 shadow text-blue-600 dark:text-blue-300" : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                                    )}
+                                >
+                                    <Icon size={14} /> {label}
+                                </button>
+                            ))}
+                        </div>
+
+                        {operation === 'shift' && (
+                            <div className="w-48">
+                                <label className={labelClass}>Minutes (negative: earlier)</label>
+                                <input type="number" value={minutes} onChange={(e) => setMinutes(parseInt(e.target.value) || 0)} className={clsx(inputClass, "font-mono")} />
+                            </div>
+                        )}
+                        {operation === 'stretch' && (
+                            <div className="space-y-1">
+                                <div className="w-48">
+                                    <label className={labelClass}>Running time change (%)</label>
+                                    <input type="number" value={percent} onChange={(e) => setPercent(parseInt(e.target.value) || 0)} className={clsx(inputClass, "font-mono")} />
+                                </div>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">First departures stay put; later stops move by the share of the time it takes to reach them.</p>
+                            </div>
+                        )}
+                        {operation === 'copy' && (
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className={labelClass}>To service</label>
+                                    <select value={targetServiceId} onChange={(e) => setTargetServiceId(e.target.value)} className={inputClass}>
+                                        <option value="">Select…</option>
+                                        {serviceIds.filter(id => id !== service).map(id => <option key={id} value={id}>{id}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Keep one trip every (min, 0: all)</label>
+                                    <input type="number" min="0" value={minHeadway} onChange={(e) => setMinHeadway(Math.max(0, parseInt(e.target.value) || 0))} className={clsx(inputClass, "font-mono")} />
+                                </div>
+                            </div>
+                        )}
+                        {operation === 'delete' && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400">Deletes the matching trips with their stop times, frequencies and transfers.</p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3 bg-gray-50 dark:bg-gray-800/50 rounded-b-xl">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={applying || !matchCount || (operation === 'copy' && !targetServiceId)}
+                        className={clsx(
+                            "px-6 py-2 text-sm font-medium text-white rounded-lg shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50",
+                            operation === 'delete' ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"
+                        )}
+                    >
+                        {applying ? 'Applying...' : `Apply to ${matchCount ?? 0} trips`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BulkEditModal;
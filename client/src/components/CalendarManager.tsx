@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar as CalendarIcon, Plus, X, Trash2, Check } from 'lucide-react';
+import { Calendar as CalendarIcon, Plus, X, Trash2, Check, CalendarX2 } from 'lucide-react';
 import { clsx } from 'clsx';
 
 interface Calendar {
@@ -13,6 +13,13 @@ interface Calendar {
     sunday: number;
     start_date: string;
     end_date: string;
+    day_type?: string | null; // Picks the segment time slots of that day type
+}
+
+interface CalendarDate {
+    service_id: string;
+    date: string;
+    exception_type: number; // 1: added, 2: removed
 }
 
 const DAYS = [
@@ -38,6 +45,10 @@ const CalendarManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         end_date: new Date(new Date().getFullYear(), 11, 31).toISOString().slice(0, 10).replace(/-/g, '')
     });
     const [error, setError] = useState<string | null>(null);
+    const [exceptions, setExceptions] = useState<CalendarDate[]>([]);
+    const [newException, setNewException] = useState<{ date: string; exception_type: number }>({ date: '', exception_type: 2 });
+    const [exceptionError, setExceptionError] = useState<string | null>(null);
+    const [dayTypes, setDayTypes] = useState<string[]>([]);
 
     useEffect(() => {
         fetchCalendars();
@@ -45,14 +56,76 @@ const CalendarManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
 
     const fetchCalendars = async () => {
         try {
-            const res = await fetch(`${API_URL}/calendar`);
+            const [res, dayTypesRes] = await Promise.all([
+                fetch(`${API_URL}/calendar`),
+                fetch(`${API_URL}/day_types`)
+            ]);
             const data = await res.json();
             setCalendars(data);
+            if (dayTypesRes.ok) setDayTypes((await dayTypesRes.json()).map((d: { day_type: string }) => d.day_type));
         } catch (err) {
             console.error('Failed to fetch calendars', err);
         }
     };
 
+    const fetchExceptions = async (service_id: string) => {
+        try {
+            const res = await fetch(`${API_URL}/calendar/${encodeURIComponent(service_id)}/dates`);
+            const data = await res.json();
+            setExceptions(Array.isArray(data) ? data : []);
+        } catch (err) {
+            console.error('Failed to fetch service exceptions', err);
+        }
+    };
+
+    useEffect(() => {
+        setExceptionError(null);
+        if (isEditing && originalServiceId) {
+            fetchExceptions(originalServiceId);
+        } else {
+            setExceptions([]);
+        }
+    }, [isEditing, originalServiceId]);
+
+    const handleAddException = async () => {
+        if (!originalServiceId) return;
+        setExceptionError(null);
+        if (!/^\d{8}$/.test(newException.date)) {
+            setExceptionError('Date must be YYYYMMDD');
+            return;
+        }
+
+        try {
+            const res = await fetch(`${API_URL}/calendar/${encodeURIComponent(originalServiceId)}/dates`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(newException)
+            });
+            if (res.ok) {
+                setNewException({ ...newException, date: '' });
+                fetchExceptions(originalServiceId);
+            } else {
+                const data = await res.json();
+                setExceptionError(data.error || 'Failed to save exception');
+            }
+        } catch (err) {
+            console.error(err);
+            setExceptionError('Network error');
+        }
+    };
+
+    const handleDeleteException = async (date: string) => {
+        if (!originalServiceId) return;
+        try {
+            const res = await fetch(`${API_URL}/calendar/${encodeURIComponent(originalServiceId)}/dates/${date}`, { method: 'DELETE' });
+            if (res.ok) {
+                fetchExceptions(originalServiceId);
+            }
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
     const handleDelete = async (service_id: string) => {
         if (!confirm(`Delete calendar ${service_id}?`)) return;
         try {
@@ -85,7 +158,7 @@ const CalendarManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
             const res = await fetch(url, {
                 method: isEditing ? 'PUT' : 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(currentCalendar)
+                body: JSON.stringify({ ...currentCalendar, day_type: currentCalendar.day_type || null })
             });
 
             if (res.ok) {
@@ -165,7 +238,10 @@ const CalendarManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                                 )}
                             >
                                 <div className="flex justify-between items-start">
-                                    <span className="font-bold text-gray-800 dark:text-gray-200">{cal.service_id}</span>
+                                    <span className="font-bold text-gray-800 dark:text-gray-200">
+                                        {cal.service_id}
+                                        {cal.day_type && <span className="ml-2 text-[10px] font-semibold px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300">{cal.day_type}</span>}
+                                    </span>
                                     <button
                                         onClick={(e) => { e.stopPropagation(); handleDelete(cal.service_id); }}
                                         className="text-gray-400 hover:text-red-500 p-1 rounded hover:bg-red-50 dark:hover:bg-red-900/30"
@@ -242,6 +318,22 @@ const CalendarManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                                 </div>
                             </div>
 
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Day Type</label>
+                                <input
+                                    type="text"
+                                    list="calendar-day-types"
+                                    value={currentCalendar.day_type || ''}
+                                    onChange={e => setCurrentCalendar({ ...currentCalendar, day_type: e.target.value })}
+                                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                                    placeholder="e.g., Saturday"
+                                />
+                                <datalist id="calendar-day-types">
+                                    {dayTypes.map(d => <option key={d} value={d} />)}
+                                </datalist>
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Services of the same day type share segment time slots. Leave empty to use the slots for all days.</p>
+                            </div>
+
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Start Date</label>
@@ -265,6 +357,71 @@ const CalendarManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                                 </div>
                             </div>
 
+                            {isEditing && (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 flex items-center gap-2">
+                                        <CalendarX2 className="w-4 h-4 text-orange-500" /> Service Exceptions
+                                    </label>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">Holidays and one-off changes exported as calendar_dates.txt.</p>
+
+                                    {exceptionError && (
+                                        <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 px-3 py-2 rounded border border-red-200 dark:border-red-800 text-xs mb-3">
+                                            {exceptionError}
+                                        </div>
+                                    )}
+
+                                    <div className="flex gap-2 mb-3">
+                                        <input
+                                            type="text"
+                                            value={newException.date}
+                                            onChange={e => setNewException({ ...newException, date: e.target.value })}
+                                            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm"
+                                            placeholder="YYYYMMDD"
+                                        />
+                                        <select
+                                            value={newException.exception_type}
+                                            onChange={e => setNewException({ ...newException, exception_type: Number(e.target.value) })}
+                                            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                                        >
+                                            <option value={2}>No service (removed)</option>
+                                            <option value={1}>Extra service (added)</option>
+                                        </select>
+                                        <button
+                                            onClick={handleAddException}
+                                            className="px-3 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                                            title="Add Exception"
+                                        >
+                                            <Plus className="w-4 h-4" />
+                                        </button>
+                                    </div>
+
+                                    <div className="space-y-1">
+                                        {exceptions.map(ex => (
+                                            <div key={ex.date} className="flex items-center justify-between px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 text-sm">
+                                                <span className="font-mono text-gray-800 dark:text-gray-200">{ex.date}</span>
+                                                <span className={clsx(
+                                                    "text-xs font-semibold px-2 py-0.5 rounded",
+                                                    ex.exception_type === 1
+                                                        ? "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300"
+                                                        : "bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300"
+                                                )}>
+                                                    {ex.exception_type === 1 ? 'Added' : 'Removed'}
+                                                </span>
+                                                <button
+                                                    onClick={() => handleDeleteException(ex.date)}
+                                                    className="text-gray-400 hover:text-red-500 p-1 rounded hover:bg-red-50 dark:hover:bg-red-900/30"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        ))}
+                                        {exceptions.length === 0 && (
+                                            <p className="text-xs text-gray-400 text-center py-2">No exceptions defined.</p>
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+
                             <div className="pt-6 flex gap-3">
                                 <button
                                     onClick={handleSave}
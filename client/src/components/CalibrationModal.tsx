@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { X, BarChart3 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { API_URL } from '../config';
+
+interface CalibrationModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    routeId: string;
+    onCalibrated: (message: string) => void;
+}
+
+const inputClass = "w-full text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 text-gray-900 dark:text-gray-100";
+const labelClass = "text-xs text-gray-500 dark:text-gray-400 block mb-1";
+
+const CalibrationModal: React.FC<CalibrationModalProps> = ({ isOpen, onClose, routeId, onCalibrated }) => {
+    // '' for all days, 'day:NAME' or 'service:ID', as in the slot editor
+    const [scope, setScope] = useState('');
+    const [dayTypes, setDayTypes] = useState<string[]>([]);
+    const [serviceIds, setServiceIds] = useState<string[]>([]);
+    const [routeOnly, setRouteOnly] = useState(true);
+    const [bandMins, setBandMins] = useState(60);
+    const [minPercentile, setMinPercentile] = useState(15);
+    const [optPercentile, setOptPercentile] = useState(50);
+    const [maxPercentile, setMaxPercentile] = useState(85);
+    const [toleranceSecs, setToleranceSecs] = useState(30);
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        Promise.all([fetch(`${API_URL}/day_types`), fetch(`${API_URL}/calendar`)])
+            .then(async ([dayTypesRes, calendarRes]) => {
+                if (dayTypesRes.ok) setDayTypes((await dayTypesRes.json()).map((d: { day_type: string }) => d.day_type));
+                if (calendarRes.ok) setServiceIds((await calendarRes.json()).map((c: { service_id: string }) => c.service_id));
+            })
+            .catch(err => console.error(err));
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleCalibrate = async () => {
+        if (!confirm('Calibrated slots replace the slots of this set on every segment the trips run over. Continue?')) return;
+
+        setRunning(true);
+        setError(null);
+        try {
+            const res = await fetch(`${API_URL}/segments/calibrate`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    route_ids: routeOnly ? [routeId] : [],
+                    service_id: scope.startsWith('service:') ? scope.slice('service:'.length) : null,
+                    day_type: scope.startsWith('day:') ? scope.slice('day:'.length) : null,
+                    band_mins: bandMins,
+                    min_percentile: minPercentile,
+                    opt_percentile: optPercentile,
+                    max_percentile: maxPercentile,
+                    tolerance_secs: toleranceSecs
+                })
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to calibrate slots');
+                return;
+            }
+            onCalibrated(data.message);
+            onClose();
+        } catch (err) {
+            console.error(err);
+            setError('Network error');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const numberInput = (value: number, onChange: (v: number) => void, min: number, max?: number) => (
+        <input
+            type="number"
+            min={min}
+            max={max}
+            value={value}
+            onChange={(e) => onChange(parseInt(e.target.value) || 0)}
+            className={clsx(inputClass, "font-mono")}
+        />
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-lg animate-in fade-in zoom-in duration-200">
+                <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700">
+                    <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                        <BarChart3 className="text-indigo-600" size={20} />
+                        Calibrate from Trips
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors text-gray-500 dark:text-gray-400">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                    {error && (
+                        <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 px-3 py-2 rounded border border-red-200 dark:border-red-800 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Observations */}
+                    <div className="space-y-3">
+                        <div className="text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700 pb-2">
+                            Observed Trips
+                        </div>
+                        <div>
+                            <label className={labelClass}>Slot set (trips of the service or day type; all trips for all days)</label>
+                            <select value={scope} onChange={(e) => setScope(e.target.value)} className={inputClass}>
+                                <option value="">All days</option>
+                                {dayTypes.length > 0 && (
+                                    <optgroup label="Day types">
+                                        {dayTypes.map(d => <option key={d} value={`day:${d}`}>{d}</option>)}
+                                    </optgroup>
+                                )}
+                                {serviceIds.length > 0 && (
+                                    <optgroup label="Services">
+                                        {serviceIds.map(id => <option key={id} value={`service:${id}`}>{id}</option>)}
+                                    </optgroup>
+                                )}
+                            </select>
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            <input type="checkbox" checked={routeOnly} onChange={(e) => setRouteOnly(e.target.checked)} className="rounded" />
+                            Only trips of this route
+                        </label>
+                    </div>
+
+                    {/* Statistics */}
+                    <div className="space-y-3">
+                        <div className="text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700 pb-2">
+                            Bands & Percentiles
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className={labelClass}>Band length (min)</label>
+                                {numberInput(bandMins, setBandMins, 5, 360)}
+                            </div>
+                            <div>
+                                <label className={labelClass}>Merge when medians within (s)</label>
+                                {numberInput(toleranceSecs, setToleranceSecs, 0)}
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-3 gap-3">
+                            <div>
+                                <label className={labelClass}>Min (percentile)</label>
+                                {numberInput(minPercentile, setMinPercentile, 0, 100)}
+                            </div>
+                            <div>
+                                <label className={labelClass}>Optimal (percentile)</label>
+                                {numberInput(optPercentile, setOptPercentile, 0, 100)}
+                            </div>
+                            <div>
+                                <label className={labelClass}>Max (percentile)</label>
+                                {numberInput(maxPercentile, setMaxPercentile, 0, 100)}
+                            </div>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Optimal times drive timetable generation; min and max go to the travel-times export.</p>
+                    </div>
+                </div>
+
+                <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3 bg-gray-50 dark:bg-gray-800/50 rounded-b-xl">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleCalibrate}
+                        disabled={running}
+                        className="px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm transition-colors disabled:opacity-50"
+                    >
+                        {running ? 'Calibrating...' : 'Calibrate'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CalibrationModal;
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { Timer, Plus, X } from 'lucide-react';
+import type { Route } from '../types';
+import { formatTimeInput } from '../utils/TimeUtils';
+import { formatDwell, type DwellRule } from '../utils/dwellTimes';
+
+import { API_URL } from '../config';
+
+interface DwellTimesEditorProps {
+    stopId: string;
+}
+
+const loadDwellRules = async (stopId: string): Promise<DwellRule[]> => {
+    const res = await fetch(`${API_URL}/dwell_times?stop_id=${encodeURIComponent(stopId)}`);
+    return res.ok ? res.json() : [];
+};
+
+/**
+ * Dwell of a stop: its default, plus overrides for a route and/or a time band. Generation,
+ * "Update Times" and the simulation pick the most specific rule.
+ */
+const DwellTimesEditor: React.FC<DwellTimesEditorProps> = ({ stopId }) => {
+    const [rules, setRules] = useState<DwellRule[]>([]);
+    const [routes, setRoutes] = useState<Route[]>([]);
+    const [routeId, setRouteId] = useState('');
+    const [startTime, setStartTime] = useState('');
+    const [endTime, setEndTime] = useState('');
+    const [dwellSecs, setDwellSecs] = useState(30);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadDwellRules(stopId).then(loaded => {
+            setRules(loaded);
+            setError(null);
+        }).catch(console.error);
+    }, [stopId]);
+
+    useEffect(() => {
+        fetch(`${API_URL}/routes`).then(res => res.json()).then(setRoutes).catch(console.error);
+    }, []);
+
+    const routeName = (id: string | null) => {
+        if (!id) return 'All routes';
+        const route = routes.find(r => r.route_id === id);
+        return route?.route_short_name || route?.route_long_name || id;
+    };
+
+    const handleAdd = async () => {
+        setError(null);
+        try {
+            const res = await fetch(`${API_URL}/dwell_times`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    stop_id: stopId,
+                    route_id: routeId || null,
+                    start_time: startTime ? formatTimeInput(startTime) : null,
+                    end_time: endTime ? formatTimeInput(endTime) : null,
+                    dwell_secs: dwellSecs
+                })
+            });
+            if (!res.ok) {
+                const body = await res.json();
+                setError(body.error || 'Failed to add dwell time');
+                return;
+            }
+            setStartTime('');
+            setEndTime('');
+            setRules(await loadDwellRules(stopId));
+        } catch (err) {
+            console.error(err);
+            setError('Error connecting to server.');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await fetch(`${API_URL}/dwell_times/${id}`, { method: 'DELETE' });
+            setRules(await loadDwellRules(stopId));
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    const inputClass = "w-full border p-1.5 rounded text-sm bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+    return (
+        <div className="space-y-2">
+            <span className="flex items-center gap-1.5 text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">
+                <Timer size={14} /> Dwell Time
+            </span>
+
+            {rules.length === 0 && (
+                <p className="text-xs text-gray-400">No dwell: vehicles leave on arrival.</p>
+            )}
+            {rules.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between gap-2 p-2 rounded border border-gray-200 dark:border-gray-700 text-xs">
+                    <div className="min-w-0">
+                        <div className="font-semibold text-gray-700 dark:text-gray-300 truncate">
+                            {!rule.route_id && !rule.start_time ? 'Default' : routeName(rule.route_id)}
+                        </div>
+                        <div className="font-mono text-gray-500 dark:text-gray-400">
+                            {rule.start_time ? `${rule.start_time} - ${rule.end_time}` : 'All day'}
+                        </div>
+                    </div>
+                    <span className="font-mono text-gray-700 dark:text-gray-300 whitespace-nowrap">{formatDwell(rule.dwell_secs)}</span>
+                    <button
+                        type="button"
+                        onClick={() => handleDelete(rule.id)}
+                        className="text-gray-400 hover:text-red-500"
+                        title="Remove dwell time"
+                    >
+                        <X size={14} />
+                    </button>
+                </div>
+            ))}
+
+            <div className="p-2 rounded border border-dashed border-gray-300 dark:border-gray-600 space-y-1.5">
+                <select value={routeId} onChange={e => setRouteId(e.target.value)} className={inputClass}>
+                    <option value="">All routes</option>
+                    {routes.map(r => <option key={r.route_id} value={r.route_id}>{r.route_short_name || r.route_long_name || r.route_id}</option>)}
+                </select>
+                <div className="grid grid-cols-2 gap-1.5">
+                    <input
+                        value={startTime}
+                        onChange={e => setStartTime(e.target.value)}
+                        onBlur={e => e.target.value && setStartTime(formatTimeInput(e.target.value))}
+                        placeholder="From (all day)"
+                        className={`${inputClass} font-mono`}
+                    />
+                    <input
+                        value={endTime}
+                        onChange={e => setEndTime(e.target.value)}
+                        onBlur={e => e.target.value && setEndTime(formatTimeInput(e.target.value))}
+                        placeholder="To"
+                        className={`${inputClass} font-mono`}
+                    />
+                </div>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="number"
+                        min={0}
+                        value={dwellSecs}
+                        onChange={e => setDwellSecs(parseInt(e.target.value) || 0)}
+                        className={`${inputClass} font-mono`}
+                        title="Dwell in seconds"
+                    />
+                    <span className="text-xs text-gray-500 dark:text-gray-400">s</span>
+                    <button
+                        type="button"
+                        onClick={handleAdd}
+                        className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700"
+                        title="Add dwell time"
+                    >
+                        <Plus size={16} />
+                    </button>
+                </div>
+            </div>
+
+            {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+    );
+};
+
+export default DwellTimesEditor;
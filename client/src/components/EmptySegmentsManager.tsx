@@ -4,6 +4,7 @@ import { Plus, ArrowRight, Clock, Ruler, GripHorizontal, Download, Wand2, X } fr
 import type { Segment, Stop } from '../types';
 import { clsx } from 'clsx';
 import { API_URL } from '../config';
+import { toCsv } from '../utils/csv';
 
 interface EmptySegmentsManagerProps {
     onClose: () => void;
@@ -159,17 +160,17 @@ const EmptySegmentsManager: React.FC<EmptySegmentsManagerProps> = ({ onClose, se
             const endStop = stops.find(s => s.stop_id === seg.end_node_id);
             const distanceKm = seg.distance ? (seg.distance / 1000).toFixed(3) : '0';
 
-            return [
-                startStop?.stop_code || seg.start_node_id,
-                endStop?.stop_code || seg.end_node_id,
-                distanceKm,
-                '00:00',
-                '36:00',
-                timeStr
-            ].join(',');
+            return {
+                'Departure': startStop?.stop_code || seg.start_node_id,
+                'Destination': endStop?.stop_code || seg.end_node_id,
+                'Distance': distanceKm,
+                'Slot start time': '00:00',
+                'Slot end time': '36:00',
+                'Time': timeStr
+            };
         });
 
-        const csvContent = [headers.join(','), ...rows].join('\n');
+        const csvContent = toCsv(rows, headers);
         const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
         const url = URL.createObjectURL(blob);
         const link = document.createElement('a');
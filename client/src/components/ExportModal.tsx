@@ -1,5 +1,5 @@
 import * as React from 'react';
-import { X, Download, CheckSquare, Square, Search, Building2, Calendar, Bus } from 'lucide-react';
+import { X, Download, CheckSquare, Square, Search, Building2, Calendar, Bus, ShieldCheck, AlertCircle, AlertTriangle } from 'lucide-react';
 import { clsx } from 'clsx';
 import type { Route } from '../types';
 
@@ -9,6 +9,7 @@ interface ExportModalProps {
 }
 
 import { API_URL } from '../config';
+import { watchJob } from '../utils/jobs';
 
 interface Agency {
     agency_id: string;
@@ -22,6 +23,21 @@ interface Service {
     // days...
 }
 
+interface ValidationIssue {
+    severity: 'error' | 'warning';
+    rule: string;
+    file: string;
+    entity_id?: string;
+    message: string;
+}
+
+interface ValidationReport {
+    valid: boolean;
+    summary: { errors: number; warnings: number; by_rule: Record<string, number> };
+    issues: ValidationIssue[];
+    truncated: boolean;
+}
+
 const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
     const [routes, setRoutes] = React.useState<Route[]>([]);
     const [agencies, setAgencies] = React.useState<Agency[]>([]);
@@ -33,6 +49,13 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
 
     const [, setLoading] = React.useState(false);
     const [exporting, setExporting] = React.useState(false);
+    const [validating, setValidating] = React.useState(false);
+    const [report, setReport] = React.useState<ValidationReport | null>(null);
+    const [shapeSource, setShapeSource] = React.useState<'stops' | 'segments' | 'stored'>('segments');
+    const [includeExtensions, setIncludeExtensions] = React.useState(false);
+    const [feedVersion, setFeedVersion] = React.useState('');
+    const [nextVersion, setNextVersion] = React.useState<string | null>(null);
+    const [exportProgress, setExportProgress] = React.useState(0);
     const [searchTerm, setSearchTerm] = React.useState('');
 
     // Fetch data when modal opens
@@ -44,13 +67,20 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
 
     const fetchData = async () => {
         setLoading(true);
+        setReport(null);
         try {
-            const [routesRes, agenciesRes, servicesRes] = await Promise.all([
+            const [routesRes, agenciesRes, servicesRes, feedInfoRes] = await Promise.all([
                 fetch(`${API_URL}/routes`),
                 fetch(`${API_URL}/agency`),
-                fetch(`${API_URL}/calendar`)
+                fetch(`${API_URL}/calendar`),
+                fetch(`${API_URL}/feed-info`)
             ]);
 
+            // Only a complete feed_info.txt carries a version
+            const feedInfo = feedInfoRes.ok ? await feedInfoRes.json() : null;
+            setNextVersion(feedInfo?.complete ? feedInfo.next_version : null);
+            setFeedVersion('');
+
             const routesData = await routesRes.json();
             const agenciesData = await agenciesRes.json();
             const servicesData = await servicesRes.json();
@@ -80,6 +110,7 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
         if (next.has(id)) next.delete(id);
         else next.add(id);
         setSelectedAgencyIds(next);
+        setReport(null);
 
         // Auto-select/deselect routes belonging to this agency?
         // Logic: specific route selection is respected, but if agency is unchecked, its routes are effectively excluded by the backend export logic anyway.
@@ -91,6 +122,7 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
         if (next.has(id)) next.delete(id);
         else next.add(id);
         setSelectedServiceIds(next);
+        setReport(null);
     };
 
     const toggleRoute = (id: string) => {
@@ -98,6 +130,7 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
         if (next.has(id)) next.delete(id);
         else next.add(id);
         setSelectedRouteIds(next);
+        setReport(null);
     };
 
     const handleSelectAllRoutes = () => {
@@ -111,6 +144,7 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
             visibleRoutes.forEach(r => next.add(r.route_id));
         }
         setSelectedRouteIds(next);
+        setReport(null);
     };
 
     const getVisibleRoutes = () => {
@@ -123,34 +157,64 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
         );
     };
 
+    const getSelection = () => ({
+        agency_ids: Array.from(selectedAgencyIds),
+        service_ids: Array.from(selectedServiceIds),
+        route_ids: Array.from(selectedRouteIds)
+    });
+
+    const runValidation = async (): Promise<ValidationReport | null> => {
+        setValidating(true);
+        try {
+            const response = await fetch(`${API_URL}/gtfs/validate`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(getSelection())
+            });
+            if (!response.ok) throw new Error('Validation failed');
+
+            const data: ValidationReport = await response.json();
+            setReport(data);
+            return data;
+        } catch (err) {
+            console.error('Validation error', err);
+            alert('Failed to validate the feed.');
+            return null;
+        } finally {
+            setValidating(false);
+        }
+    };
+
     const handleExport = async () => {
+        // Validate first; if the report has errors, show it and let the user decide
+        if (!report) {
+            const result = await runValidation();
+            if (!result || !result.valid) return;
+        }
+
         setExporting(true);
+        setExportProgress(0);
         try {
-            const response = await fetch(`${API_URL}/gtfs/export`, {
+            // Built by a background job on the server, then downloaded as a file
+            const response = await fetch(`${API_URL}/gtfs/export/jobs`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    agency_ids: Array.from(selectedAgencyIds),
-                    service_ids: Array.from(selectedServiceIds),
-                    route_ids: Array.from(selectedRouteIds)
-                })
+                body: JSON.stringify({ ...getSelection(), shape_source: shapeSource, include_extensions: includeExtensions, feed_version: feedVersion.trim() || undefined })
             });
 
             if (!response.ok) throw new Error('Export failed');
+            const { jobId } = await response.json();
+
+            const job = await watchJob(jobId, j => setExportProgress(j.progress));
+            if (job.status !== 'completed') throw new Error(job.error || 'Export failed');
 
-            const blob = await response.blob();
-            const url = window.URL.createObjectURL(blob);
+            // The server answers with Content-Disposition: attachment, so the browser streams it to disk
             const a = document.createElement('a');
-            a.href = url;
+            a.href = `${API_URL}/gtfs/export/jobs/${jobId}/file`;
             a.download = 'gtfs.zip';
             document.body.appendChild(a);
             a.click();
-
-            // Delay revocation to ensure browser registers the download
-            setTimeout(() => {
-                window.URL.revokeObjectURL(url);
-                document.body.removeChild(a);
-            }, 100);
+            document.body.removeChild(a);
 
             onClose();
         } catch (err) {
@@ -315,10 +379,79 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
                     </div>
                 </div>
 
+                {/* Validation Report */}
+                {report && (
+                    <div className="border-t border-gray-100 dark:border-gray-700 bg-white dark:bg-gray-800 max-h-64 flex flex-col">
+                        <div className="px-6 py-2 flex items-center gap-3 text-sm font-bold text-gray-700 dark:text-gray-200">
+                            <ShieldCheck size={16} className={report.valid ? 'text-emerald-600' : 'text-red-600'} />
+                            {report.valid ? 'Feed is valid' : 'Feed has errors'}
+                            <span className="text-xs font-medium px-2 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300">
+                                {report.summary.errors} errors
+                            </span>
+                            <span className="text-xs font-medium px-2 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+                                {report.summary.warnings} warnings
+                            </span>
+                            {report.truncated && (
+                                <span className="text-xs font-normal text-gray-400">Showing the first findings of each rule</span>
+                            )}
+                        </div>
+                        <div className="flex-1 overflow-y-auto px-6 pb-3 space-y-1">
+                            {report.issues.map((issue, idx) => (
+                                <div key={idx} className="flex items-start gap-2 text-xs py-1 border-b border-gray-50 dark:border-gray-700/50">
+                                    {issue.severity === 'error'
+                                        ? <AlertCircle size={14} className="text-red-500 shrink-0 mt-0.5" />
+                                        : <AlertTriangle size={14} className="text-amber-500 shrink-0 mt-0.5" />}
+                                    <span className="font-mono text-gray-400 shrink-0 w-28 truncate">{issue.file}</span>
+                                    {issue.entity_id && (
+                                        <span className="font-mono text-gray-500 dark:text-gray-400 shrink-0 max-w-[160px] truncate" title={issue.entity_id}>{issue.entity_id}</span>
+                                    )}
+                                    <span className="text-gray-700 dark:text-gray-300">{issue.message}</span>
+                                </div>
+                            ))}
+                            {report.issues.length === 0 && (
+                                <div className="text-xs text-gray-400 py-2">No issues found.</div>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 {/* Footer */}
                 <div className="px-6 py-4 border-t border-gray-100 dark:border-gray-700 bg-white dark:bg-gray-800 rounded-b-2xl flex justify-between items-center">
-                    <div className="text-sm text-gray-500 hidden sm:block">
-                        {selectedAgencyIds.size} Agencies, {selectedServiceIds.size} Services, {selectedRouteIds.size} Routes
+                    <div className="text-sm text-gray-500 hidden sm:flex items-center gap-4">
+                        <span>{selectedAgencyIds.size} Agencies, {selectedServiceIds.size} Services, {selectedRouteIds.size} Routes</span>
+                        <label className="flex items-center gap-2">
+                            Shapes:
+                            <select
+                                value={shapeSource}
+                                onChange={e => setShapeSource(e.target.value as 'stops' | 'segments' | 'stored')}
+                                className="px-2 py-1 bg-gray-100 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-700 dark:text-gray-200 outline-none focus:ring-1 focus:ring-blue-500/50"
+                                title="Geometry used for shapes.txt"
+                            >
+                                <option value="segments">Segment geometry</option>
+                                <option value="stored">Stored shapes</option>
+                                <option value="stops">Stop to stop</option>
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer" title="Also write non-standard columns such as node_type and allowed_materials">
+                            <input
+                                type="checkbox"
+                                checked={includeExtensions}
+                                onChange={e => setIncludeExtensions(e.target.checked)}
+                                className="rounded text-blue-600 focus:ring-blue-500"
+                            />
+                            Extension columns
+                        </label>
+                        {nextVersion !== null && (
+                            <label className="flex items-center gap-2" title="feed_version of feed_info.txt; leave empty for the automatic version">
+                                Version:
+                                <input
+                                    value={feedVersion}
+                                    onChange={e => setFeedVersion(e.target.value)}
+                                    placeholder={nextVersion}
+                                    className="w-32 px-2 py-1 bg-gray-100 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-700 dark:text-gray-200 outline-none focus:ring-1 focus:ring-blue-500/50"
+                                />
+                            </label>
+                        )}
                     </div>
                     <div className="flex gap-3 w-full sm:w-auto justify-end">
                         <button
@@ -327,17 +460,25 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
                         >
                             Cancel
                         </button>
+                        <button
+                            onClick={runValidation}
+                            disabled={validating || exporting}
+                            className="px-4 py-2 text-gray-700 dark:text-gray-200 font-medium border border-gray-200 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors text-sm flex items-center gap-2 disabled:opacity-50"
+                        >
+                            <ShieldCheck size={16} />
+                            {validating ? 'Validating...' : 'Validate'}
+                        </button>
                         <button
                             onClick={handleExport}
-                            disabled={exporting || (selectedAgencyIds.size === 0 && selectedRouteIds.size === 0)}
+                            disabled={exporting || validating || (selectedAgencyIds.size === 0 && selectedRouteIds.size === 0)}
                             className="px-6 py-2 bg-[#1337ec] hover:bg-blue-700 text-white font-bold rounded-lg shadow-lg shadow-blue-500/20 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 transition-all text-sm"
                         >
                             {exporting ? (
-                                <>Processing...</>
+                                <>Processing... {exportProgress}%</>
                             ) : (
                                 <>
                                     <Download size={18} />
-                                    Download GTFS.zip
+                                    {report && !report.valid ? 'Download Anyway' : 'Download GTFS.zip'}
                                 </>
                             )}
                         </button>
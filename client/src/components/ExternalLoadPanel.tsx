@@ -1,6 +1,13 @@
 import React, { useState } from 'react';
 import { Upload, FileText, AlertCircle, CheckCircle, X, Download } from 'lucide-react';
 import { API_URL } from '../config';
+import { watchJob } from '../utils/jobs';
+
+interface ImportError {
+    row: number;
+    file: string;
+    message: string;
+}
 
 interface ExternalLoadPanelProps {
     onClose: () => void;
@@ -95,9 +102,20 @@ const ExternalLoadPanel: React.FC<ExternalLoadPanelProps> = ({ onClose, onImport
                 body: formData
             });
 
-            const data = await res.json();
+            const started = await res.json();
+            if (!res.ok) {
+                setStatus('error');
+                setMessage(started.error || "Import failed with errors.");
+                return;
+            }
+
+            // The import runs as a background job on the server
+            const job = await watchJob<{ success: boolean, message?: string, errors?: ImportError[] }>(started.jobId, j => {
+                if (j.message) setMessage(j.message);
+            });
+            const data = job.result;
 
-            if (res.ok && data.success) {
+            if (job.status === 'completed' && data?.success) {
                 setStatus('success');
                 setMessage(data.message || "Import completed successfully!");
                 if (onImportSuccess) {
@@ -106,8 +124,8 @@ const ExternalLoadPanel: React.FC<ExternalLoadPanelProps> = ({ onClose, onImport
                 // Clear files? Maybe not, so user sees what they sent.
             } else {
                 setStatus('error');
-                setMessage(data.error || "Import failed with errors.");
-                if (data.errors && Array.isArray(data.errors)) {
+                setMessage(job.error || (job.status === 'cancelled' ? "Import cancelled." : "Import failed with errors."));
+                if (data?.errors && Array.isArray(data.errors)) {
                     setErrors(data.errors);
                 }
             }
@@ -0,0 +1,474 @@
+import React, { useState, useEffect } from 'react';
+import { Ticket, ArrowRight, Plus, X, Trash2, Pencil, Hexagon } from 'lucide-react';
+import { clsx } from 'clsx';
+
+import { API_URL } from '../config';
+
+interface Fare {
+    fare_id: string;
+    price: number;
+    currency_type: string;
+    payment_method: number;
+    transfers: number | null;
+    agency_id: string | null;
+    transfer_duration: number | null;
+    agency_name?: string | null;
+    rule_count?: number;
+}
+
+interface FareRule {
+    rule_id: string;
+    fare_id: string;
+    route_id: string | null;
+    origin_id: string | null;
+    destination_id: string | null;
+    contains_id: string | null;
+    route_short_name?: string | null;
+}
+
+type RuleForm = Omit<FareRule, 'rule_id' | 'route_short_name'>;
+
+interface Zone {
+    zone_id: string;
+    stop_count: number;
+}
+
+interface AgencyOption {
+    agency_id: string;
+    agency_name: string;
+}
+
+interface RouteOption {
+    route_id: string;
+    route_short_name: string;
+}
+
+interface FaresManagerProps {
+    onClose: () => void;
+    onPaintZone: () => void;
+    routes: RouteOption[];
+}
+
+// fare_attributes.txt transfers: empty means unlimited
+const TRANSFER_OPTIONS = [
+    { value: '', label: 'Unlimited' },
+    { value: '0', label: 'No transfers' },
+    { value: '1', label: '1 transfer' },
+    { value: '2', label: '2 transfers' }
+];
+
+const EMPTY_FARE: Fare = {
+    fare_id: '', price: 0, currency_type: 'MXN', payment_method: 0, transfers: 0, agency_id: '', transfer_duration: null
+};
+
+const EMPTY_RULE: RuleForm = { fare_id: '', route_id: '', origin_id: '', destination_id: '', contains_id: '' };
+
+const transfersLabel = (transfers: number | null) => TRANSFER_OPTIONS.find(t => t.value === (transfers === null ? '' : String(transfers)))?.label || String(transfers);
+
+interface FaresData {
+    fares: Fare[];
+    rules: FareRule[];
+    zones: Zone[];
+    agencies: AgencyOption[];
+}
+
+const loadFaresData = async (): Promise<FaresData> => {
+    const [fares, rules, zones, agencies] = await Promise.all(
+        ['fares', 'fare-rules', 'zones', 'agency'].map(async path => {
+            const res = await fetch(`${API_URL}/${path}`);
+            return res.ok ? res.json() : [];
+        })
+    );
+    return { fares, rules, zones, agencies };
+};
+
+const FaresManager: React.FC<FaresManagerProps> = ({ onClose, onPaintZone, routes }) => {
+    const [tab, setTab] = useState<'fares' | 'rules' | 'zones'>('fares');
+    const [fares, setFares] = useState<Fare[]>([]);
+    const [rules, setRules] = useState<FareRule[]>([]);
+    const [zones, setZones] = useState<Zone[]>([]);
+    const [agencies, setAgencies] = useState<AgencyOption[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const [fareForm, setFareForm] = useState<Fare | null>(null);
+    const [editingFareId, setEditingFareId] = useState<string | null>(null);
+    const [ruleForm, setRuleForm] = useState<RuleForm | null>(null);
+    const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+
+    const applyData = (data: FaresData) => {
+        setFares(data.fares);
+        setRules(data.rules);
+        setZones(data.zones);
+        setAgencies(data.agencies);
+    };
+
+    const fetchAll = () => loadFaresData().then(applyData).catch(console.error);
+
+    useEffect(() => {
+        loadFaresData().then(applyData).catch(console.error);
+    }, []);
+
+    const send = async (url: string, method: string, body?: unknown): Promise<string | null> => {
+        const res = await fetch(url, {
+            method,
+            headers: body ? { 'Content-Type': 'application/json' } : undefined,
+            body: body ? JSON.stringify(body) : undefined
+        });
+        if (res.ok) return null;
+        const data = await res.json().catch(() => ({}));
+        return data.error || 'Request failed';
+    };
+
+    const openFare = (fare: Fare | null) => {
+        setFareForm(fare ? { ...fare, agency_id: fare.agency_id || '' } : { ...EMPTY_FARE });
+        setEditingFareId(fare ? fare.fare_id : null);
+        setError(null);
+    };
+
+    const openRule = (rule: FareRule | null) => {
+        setRuleForm(rule
+            ? { fare_id: rule.fare_id, route_id: rule.route_id || '', origin_id: rule.origin_id || '', destination_id: rule.destination_id || '', contains_id: rule.contains_id || '' }
+            : { ...EMPTY_RULE, fare_id: fares[0]?.fare_id || '' });
+        setEditingRuleId(rule ? rule.rule_id : null);
+        setError(null);
+    };
+
+    const handleSaveFare = async () => {
+        if (!fareForm) return;
+        try {
+            const saveError = editingFareId
+                ? await send(`${API_URL}/fares/${encodeURIComponent(editingFareId)}`, 'PUT', fareForm)
+                : await send(`${API_URL}/fares`, 'POST', fareForm);
+            if (saveError) {
+                setError(saveError);
+                return;
+            }
+            setFareForm(null);
+            setEditingFareId(null);
+            fetchAll();
+        } catch (err) {
+            console.error(err);
+            setError('Failed to save fare');
+        }
+    };
+
+    const handleSaveRule = async () => {
+        if (!ruleForm) return;
+        try {
+            const saveError = editingRuleId
+                ? await send(`${API_URL}/fare-rules/${editingRuleId}`, 'PUT', ruleForm)
+                : await send(`${API_URL}/fare-rules`, 'POST', ruleForm);
+            if (saveError) {
+                setError(saveError);
+                return;
+            }
+            setRuleForm(null);
+            setEditingRuleId(null);
+            fetchAll();
+        } catch (err) {
+            console.error(err);
+            setError('Failed to save fare rule');
+        }
+    };
+
+    const handleDeleteFare = async (fare: Fare) => {
+        const rulesNote = fare.rule_count ? ` and its ${fare.rule_count} rule(s)` : '';
+        if (!confirm(`Delete fare "${fare.fare_id}"${rulesNote}?`)) return;
+        const deleteError = await send(`${API_URL}/fares/${encodeURIComponent(fare.fare_id)}`, 'DELETE');
+        if (deleteError) alert(deleteError);
+        fetchAll();
+    };
+
+    const handleDeleteRule = async (id: string) => {
+        if (!confirm('Delete this fare rule?')) return;
+        const deleteError = await send(`${API_URL}/fare-rules/${id}`, 'DELETE');
+        if (deleteError) alert(deleteError);
+        fetchAll();
+    };
+
+    const inputClass = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none";
+    const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+    // Zones are free text in GTFS; suggest the ones already painted on stops
+    const zoneInput = (field: 'origin_id' | 'destination_id' | 'contains_id') => (
+        <input
+            list="fare-zones"
+            value={ruleForm?.[field] || ''}
+            onChange={e => ruleForm && setRuleForm({ ...ruleForm, [field]: e.target.value })}
+            className={inputClass}
+            placeholder="Any zone"
+        />
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/50 overflow-y-auto h-full w-full z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="relative bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200 transition-colors">
+
+                {/* Header */}
+                <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900/50 transition-colors">
+                    <div>
+                        <h3 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                            <Ticket className="w-6 h-6 text-blue-600" />
+                            Fares
+                        </h3>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Fare products and where they apply (fare_attributes.txt, fare_rules.txt).</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                {/* Tabs */}
+                <div className="flex border-b border-gray-100 dark:border-gray-700 px-6">
+                    {(['fares', 'rules', 'zones'] as const).map(t => (
+                        <button
+                            key={t}
+                            onClick={() => { setTab(t); setError(null); }}
+                            className={clsx(
+                                "px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors",
+                                tab === t ? "border-blue-600 text-blue-600 dark:text-blue-400" : "border-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                            )}
+                        >
+                            {t === 'fares' ? `Fares (${fares.length})` : t === 'rules' ? `Rules (${rules.length})` : `Zones (${zones.length})`}
+                        </button>
+                    ))}
+                </div>
+
+                <datalist id="fare-zones">
+                    {zones.map(z => <option key={z.zone_id} value={z.zone_id} />)}
+                </datalist>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    {tab === 'fares' && (
+                        <>
+                            {fareForm ? (
+                                <div className="p-4 rounded-xl border border-blue-100 dark:border-blue-900/40 bg-blue-50/50 dark:bg-blue-900/10 space-y-3">
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <label className={labelClass}>Fare ID</label>
+                                            <input
+                                                value={fareForm.fare_id}
+                                                disabled={!!editingFareId}
+                                                onChange={e => setFareForm({ ...fareForm, fare_id: e.target.value })}
+                                                className={clsx(inputClass, editingFareId && 'opacity-60')}
+                                                placeholder="e.g. regular"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Agency</label>
+                                            <select value={fareForm.agency_id || ''} onChange={e => setFareForm({ ...fareForm, agency_id: e.target.value })} className={inputClass}>
+                                                <option value="">All agencies</option>
+                                                {agencies.map(a => <option key={a.agency_id} value={a.agency_id}>{a.agency_name}</option>)}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Price</label>
+                                            <input type="number" min={0} step="0.01" value={fareForm.price} onChange={e => setFareForm({ ...fareForm, price: Number(e.target.value) })} className={inputClass} />
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Currency (ISO 4217)</label>
+                                            <input value={fareForm.currency_type} maxLength={3} onChange={e => setFareForm({ ...fareForm, currency_type: e.target.value.toUpperCase() })} className={inputClass} />
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Payment</label>
+                                            <select value={fareForm.payment_method} onChange={e => setFareForm({ ...fareForm, payment_method: Number(e.target.value) })} className={inputClass}>
+                                                <option value={0}>0 - On board</option>
+                                                <option value={1}>1 - Before boarding</option>
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Transfers</label>
+                                            <select
+                                                value={fareForm.transfers === null ? '' : String(fareForm.transfers)}
+                                                onChange={e => setFareForm({ ...fareForm, transfers: e.target.value === '' ? null : Number(e.target.value) })}
+                                                className={inputClass}
+                                            >
+                                                {TRANSFER_OPTIONS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Transfer duration (s, optional)</label>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                value={fareForm.transfer_duration ?? ''}
+                                                onChange={e => setFareForm({ ...fareForm, transfer_duration: e.target.value === '' ? null : Number(e.target.value) })}
+                                                className={inputClass}
+                                            />
+                                        </div>
+                                    </div>
+                                    {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                                    <div className="flex justify-end gap-2">
+                                        <button onClick={() => setFareForm(null)} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">
+                                            Cancel
+                                        </button>
+                                        <button onClick={handleSaveFare} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition-colors font-medium">
+                                            {editingFareId ? 'Update Fare' : 'Create Fare'}
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={() => openFare(null)}
+                                    className="py-2 px-4 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition-colors flex items-center gap-2 font-medium"
+                                >
+                                    <Plus className="w-4 h-4" /> New Fare
+                                </button>
+                            )}
+
+                            {fares.length === 0 ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">No fares yet.</p>
+                            ) : (
+                                <div className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-100 dark:border-gray-700 rounded-xl">
+                                    {fares.map(f => (
+                                        <div key={f.fare_id} className="flex items-center gap-3 p-3 text-sm">
+                                            <div className="flex-1 min-w-0">
+                                                <div className="font-medium text-gray-900 dark:text-white truncate">{f.fare_id}</div>
+                                                <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                                                    {f.payment_method === 1 ? 'Before boarding' : 'On board'} · {transfersLabel(f.transfers)}
+                                                    {f.transfer_duration !== null && ` within ${f.transfer_duration}s`}
+                                                    {' · '}{f.agency_name || 'All agencies'}
+                                                    {' · '}{f.rule_count ? `${f.rule_count} rule(s)` : 'No rules (applies everywhere)'}
+                                                </div>
+                                            </div>
+                                            <span className="text-sm font-semibold text-gray-900 dark:text-white whitespace-nowrap">
+                                                {f.price.toFixed(2)} {f.currency_type}
+                                            </span>
+                                            <button onClick={() => openFare(f)} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors" title="Edit">
+                                                <Pencil className="w-4 h-4" />
+                                            </button>
+                                            <button onClick={() => handleDeleteFare(f)} className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors" title="Delete">
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    {tab === 'rules' && (
+                        <>
+                            {ruleForm ? (
+                                <div className="p-4 rounded-xl border border-blue-100 dark:border-blue-900/40 bg-blue-50/50 dark:bg-blue-900/10 space-y-3">
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <label className={labelClass}>Fare</label>
+                                            <select value={ruleForm.fare_id} onChange={e => setRuleForm({ ...ruleForm, fare_id: e.target.value })} className={inputClass}>
+                                                <option value="">-- Select fare --</option>
+                                                {fares.map(f => <option key={f.fare_id} value={f.fare_id}>{f.fare_id} ({f.price.toFixed(2)} {f.currency_type})</option>)}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Route (optional)</label>
+                                            <select value={ruleForm.route_id || ''} onChange={e => setRuleForm({ ...ruleForm, route_id: e.target.value })} className={inputClass}>
+                                                <option value="">Any route</option>
+                                                {routes.map(r => <option key={r.route_id} value={r.route_id}>{r.route_short_name || r.route_id}</option>)}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Origin zone (optional)</label>
+                                            {zoneInput('origin_id')}
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Destination zone (optional)</label>
+                                            {zoneInput('destination_id')}
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Contains zone (optional)</label>
+                                            {zoneInput('contains_id')}
+                                        </div>
+                                    </div>
+                                    {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                                    <div className="flex justify-end gap-2">
+                                        <button onClick={() => setRuleForm(null)} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">
+                                            Cancel
+                                        </button>
+                                        <button onClick={handleSaveRule} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition-colors font-medium">
+                                            {editingRuleId ? 'Update Rule' : 'Create Rule'}
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={() => openRule(null)}
+                                    disabled={fares.length === 0}
+                                    className="py-2 px-4 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-2 font-medium"
+                                >
+                                    <Plus className="w-4 h-4" /> New Rule
+                                </button>
+                            )}
+
+                            {rules.length === 0 ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+                                    {fares.length === 0 ? 'Create a fare first.' : 'No rules yet. A fare without rules applies to every trip.'}
+                                </p>
+                            ) : (
+                                <div className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-100 dark:border-gray-700 rounded-xl">
+                                    {rules.map(r => (
+                                        <div key={r.rule_id} className="flex items-center gap-3 p-3 text-sm">
+                                            <span className="text-xs px-2 py-0.5 rounded-full bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-medium whitespace-nowrap">
+                                                {r.fare_id}
+                                            </span>
+                                            <div className="flex-1 min-w-0">
+                                                <div className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+                                                    <span className="truncate">{r.origin_id || 'Any zone'}</span>
+                                                    <ArrowRight className="w-4 h-4 text-gray-400 shrink-0" />
+                                                    <span className="truncate">{r.destination_id || 'Any zone'}</span>
+                                                </div>
+                                                <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                                                    {r.route_id ? `Route ${r.route_short_name || r.route_id}` : 'Any route'}
+                                                    {r.contains_id && ` · Through ${r.contains_id}`}
+                                                </div>
+                                            </div>
+                                            <button onClick={() => openRule(r)} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors" title="Edit">
+                                                <Pencil className="w-4 h-4" />
+                                            </button>
+                                            <button onClick={() => handleDeleteRule(r.rule_id)} className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors" title="Delete">
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    {tab === 'zones' && (
+                        <>
+                            <div className="flex items-center justify-between gap-3">
+                                <p className="text-sm text-gray-500 dark:text-gray-400">
+                                    Zones are the <code>zone_id</code> of stops. Draw a polygon on the map to assign one to every stop inside it.
+                                </p>
+                                <button
+                                    onClick={onPaintZone}
+                                    className="py-2 px-4 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition-colors flex items-center gap-2 font-medium text-sm whitespace-nowrap"
+                                >
+                                    <Hexagon className="w-4 h-4" /> Paint Zone
+                                </button>
+                            </div>
+
+                            {zones.length === 0 ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">No zones yet.</p>
+                            ) : (
+                                <div className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-100 dark:border-gray-700 rounded-xl">
+                                    {zones.map(z => (
+                                        <div key={z.zone_id} className="flex items-center gap-3 p-3 text-sm">
+                                            <Hexagon className="w-4 h-4 text-blue-500 shrink-0" />
+                                            <span className="flex-1 font-medium text-gray-900 dark:text-white truncate">{z.zone_id}</span>
+                                            <span className={clsx("text-xs", z.stop_count === 0 ? "text-amber-600 dark:text-amber-400" : "text-gray-500 dark:text-gray-400")}>
+                                                {z.stop_count === 0 ? 'Used by rules, no stops' : `${z.stop_count} stop(s)`}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FaresManager;
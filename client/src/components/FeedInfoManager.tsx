@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { Save, Tag, CheckCircle, AlertTriangle } from 'lucide-react';
+
+import { API_URL } from '../config';
+
+type VersionMode = 'date' | 'increment' | 'manual';
+
+interface FeedInfo {
+    feed_publisher_name: string | null;
+    feed_publisher_url: string | null;
+    feed_lang: string | null;
+    default_lang: string | null;
+    feed_contact_email: string | null;
+    feed_contact_url: string | null;
+    version_mode: VersionMode;
+    feed_version: string | null;
+    last_version: string | null;
+    last_exported_at: string | null;
+    next_version: string;
+    complete: boolean;
+}
+
+const VERSION_MODES: { value: VersionMode, label: string, hint: string }[] = [
+    { value: 'date', label: 'Date stamp', hint: 'Prefix + export date, e.g. v20260115 (then .2, .3 on the same day)' },
+    { value: 'increment', label: 'Counter', hint: 'Prefix + a number that goes up on every export, e.g. v12' },
+    { value: 'manual', label: 'Fixed', hint: 'The version text is written as is' }
+];
+
+const loadFeedInfo = async (): Promise<FeedInfo> => {
+    const res = await fetch(`${API_URL}/feed-info`);
+    if (!res.ok) throw new Error('Failed to load feed info');
+    return res.json();
+};
+
+const FeedInfoManager: React.FC = () => {
+    const [info, setInfo] = useState<FeedInfo | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadFeedInfo().then(setInfo).catch(console.error);
+    }, []);
+
+    const handleSave = async () => {
+        if (!info) return;
+        setSaving(true);
+        setError(null);
+        try {
+            const res = await fetch(`${API_URL}/feed-info`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(info)
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to save feed info');
+                return;
+            }
+            setInfo(data);
+        } catch (err) {
+            console.error(err);
+            setError('Error connecting to server.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (!info) return <p className="text-sm text-gray-500">Loading...</p>;
+
+    const inputClass = "w-full px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-sm focus:ring-2 focus:ring-blue-500 outline-none";
+    const labelClass = "block text-xs font-semibold text-gray-500 mb-1";
+    const field = (key: keyof FeedInfo, label: string, placeholder?: string) => (
+        <div>
+            <label className={labelClass}>{label}</label>
+            <input
+                value={(info[key] as string | null) || ''}
+                onChange={e => setInfo({ ...info, [key]: e.target.value })}
+                className={inputClass}
+                placeholder={placeholder}
+            />
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className={info.complete
+                ? "flex items-start gap-2 text-xs text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/20 border border-green-100 dark:border-green-900/50 rounded-xl p-3"
+                : "flex items-start gap-2 text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-900/50 rounded-xl p-3"}>
+                {info.complete ? <CheckCircle size={14} className="shrink-0 mt-0.5" /> : <AlertTriangle size={14} className="shrink-0 mt-0.5" />}
+                <span>
+                    {info.complete
+                        ? 'feed_info.txt is written on every export. Start and end dates come from the exported calendars.'
+                        : 'Set the publisher name, URL and language to include feed_info.txt in exports.'}
+                </span>
+            </div>
+
+            <div className="space-y-4">
+                {field('feed_publisher_name', 'Publisher Name *', 'e.g. City Transit Authority')}
+                {field('feed_publisher_url', 'Publisher URL *', 'https://')}
+                <div className="grid grid-cols-2 gap-3">
+                    {field('feed_lang', 'Feed Language *', 'es')}
+                    {field('default_lang', 'Default Language', 'es')}
+                </div>
+                {field('feed_contact_email', 'Contact Email')}
+                {field('feed_contact_url', 'Contact URL', 'https://')}
+            </div>
+
+            <div>
+                <h3 className="text-sm font-bold text-gray-900 dark:text-white uppercase tracking-wider mb-4 flex items-center gap-2">
+                    <Tag size={16} className="text-blue-500" /> Versioning
+                </h3>
+                <div className="space-y-4">
+                    <div>
+                        <label className={labelClass}>Mode</label>
+                        <select
+                            value={info.version_mode}
+                            onChange={e => setInfo({ ...info, version_mode: e.target.value as VersionMode })}
+                            className={inputClass}
+                        >
+                            {VERSION_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                        </select>
+                        <p className="text-xs text-gray-400 mt-1">{VERSION_MODES.find(m => m.value === info.version_mode)?.hint}</p>
+                    </div>
+                    {field('feed_version', info.version_mode === 'manual' ? 'Version *' : 'Prefix', info.version_mode === 'manual' ? 'e.g. 2026-winter' : 'e.g. v')}
+                    <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                        <div>Next export: <span className="font-mono text-gray-800 dark:text-gray-200">{info.next_version || '—'}</span> <span className="opacity-70">(after saving)</span></div>
+                        {info.last_version && (
+                            <div>Last export: <span className="font-mono">{info.last_version}</span>{info.last_exported_at && ` on ${new Date(info.last_exported_at + 'Z').toLocaleString()}`}</div>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+            <button
+                onClick={handleSave}
+                disabled={saving}
+                className="w-full py-2 px-3 bg-green-600 text-white rounded-lg text-xs font-bold hover:bg-green-700 disabled:opacity-50 transition-colors shadow-sm flex items-center justify-center gap-2"
+            >
+                <Save size={14} /> {saving ? 'Saving...' : 'Save Feed Info'}
+            </button>
+        </div>
+    );
+};
+
+export default FeedInfoManager;
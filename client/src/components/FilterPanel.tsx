@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Filter, Search, X, ChevronDown, ChevronRight, Bus, MapPin, ArrowRightLeft, Route, Building } from 'lucide-react';
+import { Filter, Search, X, ChevronDown, ChevronRight, Bus, MapPin, ArrowRightLeft, Route, Building, GitBranch } from 'lucide-react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
@@ -9,9 +9,19 @@ interface FilterPanelProps {
     className?: string;
 }
 
+interface PatternOption {
+    pattern_id: string;
+    pattern_name: string;
+    direction_id: number;
+    is_main: boolean;
+    route_short_name: string;
+    stops: unknown[];
+}
+
 export interface FilterState {
     selectedRoutes: string[];
     selectedDirections: number[];
+    selectedPatterns: string[]; // Stop patterns (branches, short turns...) by pattern_id
     selectedSegments: string[];
     selectedStops: string[];
     selectedAgencies: string[]; // New
@@ -28,6 +38,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ routesStructure, onFilterChan
     const [filters, setFilters] = useState<FilterState>({
         selectedRoutes: [],
         selectedDirections: [],
+        selectedPatterns: [],
         selectedSegments: [],
         selectedStops: [],
         selectedAgencies: [],
@@ -89,6 +100,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ routesStructure, onFilterChan
         const reset = {
             selectedRoutes: [],
             selectedDirections: [],
+            selectedPatterns: [],
             selectedSegments: [],
             selectedStops: [],
             selectedAgencies: [],
@@ -108,6 +120,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ routesStructure, onFilterChan
     const activeCount =
         filters.selectedRoutes.length +
         filters.selectedDirections.length +
+        filters.selectedPatterns.length +
         filters.selectedSegments.length +
         filters.selectedStops.length +
         filters.selectedAgencies.length;
@@ -139,6 +152,21 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ routesStructure, onFilterChan
         (r.route_long_name || '').toLowerCase().includes(filters.routeSearch.toLowerCase())
     );
 
+    // Patterns of the selected routes, or of every route that has more than its main pattern
+    const visiblePatterns: PatternOption[] = routesStructure
+        .filter(r => filters.selectedRoutes.length > 0
+            ? filters.selectedRoutes.includes(r.route_id)
+            : r.directions.some((dir: PatternOption) => dir.is_main === false))
+        .flatMap(r => r.directions.map((dir: PatternOption) => ({
+            pattern_id: dir.pattern_id,
+            pattern_name: dir.pattern_name,
+            direction_id: dir.direction_id,
+            is_main: dir.is_main,
+            route_short_name: r.route_short_name,
+            stops: dir.stops
+        })))
+        .filter((dir: PatternOption) => dir.pattern_id);
+
     const visibleSegments = allSegments.filter(s =>
         s.name.toLowerCase().includes(filters.segmentSearch.toLowerCase())
     );
@@ -340,6 +368,55 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ routesStructure, onFilterChan
                     )}
                 </div>
 
+                {/* PATTERNS SECTION */}
+                <div className="rounded-lg border border-gray-100 overflow-hidden">
+                    <button
+                        onClick={() => toggleSection('patterns')}
+                        className="w-full flex items-center justify-between p-3 bg-gray-50 hover:bg-gray-100 transition-colors text-left"
+                    >
+                        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                            <GitBranch className="w-4 h-4 text-gray-500" /> Patterns
+                        </div>
+                        <div className="flex items-center gap-2">
+                            {filters.selectedPatterns.length > 0 && <span className="text-xs bg-gray-200 text-gray-700 px-1.5 rounded-full">{filters.selectedPatterns.length}</span>}
+                            {expandedSection === 'patterns' ? <ChevronDown className="w-3 h-3 text-gray-400" /> : <ChevronRight className="w-3 h-3 text-gray-400" />}
+                        </div>
+                    </button>
+                    {expandedSection === 'patterns' && (
+                        <div className="p-3 bg-white">
+                            <div className="max-h-40 overflow-y-auto space-y-0.5">
+                                {visiblePatterns.slice(0, 50).map(pattern => (
+                                    <label
+                                        key={pattern.pattern_id}
+                                        className="flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer hover:bg-gray-50 transition-colors"
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            className="w-3.5 h-3.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                            checked={filters.selectedPatterns.includes(pattern.pattern_id)}
+                                            onChange={() => {
+                                                const current = filters.selectedPatterns;
+                                                updateFilters({
+                                                    selectedPatterns: current.includes(pattern.pattern_id)
+                                                        ? current.filter(id => id !== pattern.pattern_id)
+                                                        : [...current, pattern.pattern_id]
+                                                });
+                                            }}
+                                        />
+                                        <div className={clsx("w-2 h-2 rounded-full shrink-0", pattern.direction_id === 0 ? "bg-emerald-400" : "bg-orange-400")} />
+                                        <span className="text-xs font-medium text-gray-700 shrink-0">{pattern.route_short_name}</span>
+                                        <span className="text-xs text-gray-600 flex-1 truncate">{pattern.pattern_name}</span>
+                                        <span className="text-[10px] text-gray-400">{pattern.stops.length} stops</span>
+                                    </label>
+                                ))}
+                                {visiblePatterns.length === 0 && (
+                                    <div className="text-xs text-gray-400 text-center py-2">No branches or short turns. Select routes to see their patterns.</div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
                 {/* STOPS SECTION */}
                 <div className="rounded-lg border border-gray-100 overflow-hidden">
                     <button
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Repeat, Save } from 'lucide-react';
+import { formatTimeInput } from '../utils/TimeUtils';
+import { API_URL } from '../config';
+
+export interface Frequency {
+    trip_id: string;
+    start_time: string;
+    end_time: string;
+    headway_secs: number;
+    exact_times: number; // 0: frequency-based, 1: schedule-based
+}
+
+interface FrequenciesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    tripId: string;
+    frequencies: Frequency[];
+    onSaved: (frequencies: Frequency[]) => void;
+}
+
+const FrequenciesModal: React.FC<FrequenciesModalProps> = ({
+    isOpen,
+    onClose,
+    tripId,
+    frequencies,
+    onSaved
+}) => {
+    // Parent remounts the modal per trip (key), so props only seed the editable copy
+    const [rows, setRows] = useState<Frequency[]>(() => frequencies.map(f => ({ ...f })));
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!isOpen) return null;
+
+    const addRow = () => {
+        const last = rows[rows.length - 1];
+        setRows([
+            ...rows,
+            {
+                trip_id: tripId,
+                start_time: last ? last.end_time : '06:00:00',
+                end_time: last ? last.end_time : '09:00:00',
+                headway_secs: last ? last.headway_secs : 600,
+                exact_times: last ? last.exact_times : 0
+            }
+        ]);
+    };
+
+    const updateRow = (index: number, field: keyof Frequency, val: string | number) => {
+        setRows(rows.map((r, i) => i === index ? { ...r, [field]: val } : r));
+    };
+
+    const removeRow = (index: number) => {
+        setRows(rows.filter((_, i) => i !== index));
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        setError(null);
+        try {
+            const res = await fetch(`${API_URL}/trips/${tripId}/frequencies`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ frequencies: rows })
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to save frequencies');
+                return;
+            }
+            onSaved([...rows].sort((a, b) => a.start_time.localeCompare(b.start_time)));
+            onClose();
+        } catch (err) {
+            console.error(err);
+            setError('Network error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-2xl animate-in fade-in zoom-in duration-200">
+                <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700">
+                    <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                        <Repeat className="text-indigo-600" size={20} />
+                        Headways <span className="text-sm font-normal text-gray-500 ml-2 font-mono">{tripId}</span>
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors text-gray-500 dark:text-gray-400">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-3">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        The trip's stop times are used as the running-time template. Each window repeats it every headway between start and end.
+                    </p>
+
+                    {error && (
+                        <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 px-3 py-2 rounded border border-red-200 dark:border-red-800 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="space-y-2 max-h-[300px] overflow-y-auto pr-2 custom-scrollbar">
+                        {rows.map((row, index) => (
+                            <div key={index} className="flex items-center gap-3 bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                                <div className="grid grid-cols-2 gap-2 flex-1">
+                                    <div>
+                                        <label className="text-xs text-gray-500 dark:text-gray-400 block mb-1">From</label>
+                                        <input
+                                            type="text"
+                                            placeholder="HH:MM:SS"
+                                            maxLength={8}
+                                            value={row.start_time}
+                                            onChange={(e) => updateRow(index, 'start_time', e.target.value)}
+                                            onBlur={(e) => updateRow(index, 'start_time', formatTimeInput(e.target.value))}
+                                            className="w-full text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 text-gray-900 dark:text-gray-100 font-mono"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-xs text-gray-500 dark:text-gray-400 block mb-1">To</label>
+                                        <input
+                                            type="text"
+                                            placeholder="HH:MM:SS"
+                                            maxLength={8}
+                                            value={row.end_time}
+                                            onChange={(e) => updateRow(index, 'end_time', e.target.value)}
+                                            onBlur={(e) => updateRow(index, 'end_time', formatTimeInput(e.target.value))}
+                                            className="w-full text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 text-gray-900 dark:text-gray-100 font-mono"
+                                        />
+                                    </div>
+                                </div>
+
+                                <div className="w-28">
+                                    <label className="text-xs text-indigo-600 dark:text-indigo-400 block mb-1 font-medium">Headway (min)</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        step="0.5"
+                                        value={row.headway_secs / 60}
+                                        onChange={(e) => updateRow(index, 'headway_secs', Math.round((parseFloat(e.target.value) || 0) * 60))}
+                                        className="w-full text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 text-gray-900 dark:text-gray-100 font-mono"
+                                    />
+                                </div>
+
+                                <label className="mt-5 flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-300 cursor-pointer" title="Schedule-based: departures are exactly start_time + n × headway">
+                                    <input
+                                        type="checkbox"
+                                        checked={row.exact_times === 1}
+                                        onChange={(e) => updateRow(index, 'exact_times', e.target.checked ? 1 : 0)}
+                                        className="rounded text-indigo-600 focus:ring-indigo-500"
+                                    />
+                                    Exact
+                                </label>
+
+                                <button
+                                    onClick={() => removeRow(index)}
+                                    className="mt-5 p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+
+                    <button
+                        onClick={addRow}
+                        className="w-full py-2 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg text-gray-500 dark:text-gray-400 hover:border-indigo-500 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors flex items-center justify-center gap-2 text-sm font-medium"
+                    >
+                        <Plus size={16} /> Add Window
+                    </button>
+                </div>
+
+                <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3 bg-gray-50 dark:bg-gray-800/50 rounded-b-xl">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={saving}
+                        className="px-6 py-2 text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 rounded-lg shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                        <Save size={16} /> {saving ? 'Saving...' : 'Save Headways'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FrequenciesModal;
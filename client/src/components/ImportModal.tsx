@@ -8,6 +8,7 @@ interface ImportModalProps {
 }
 
 import { API_URL } from '../config';
+import { watchJob, cancelJob, findActiveJob } from '../utils/jobs';
 
 // Interfaces
 interface RouteMetadata {
@@ -29,6 +30,9 @@ interface AgencyMetadata {
     name: string;
 }
 
+// Recent job messages shown under the progress bar
+const MAX_LOG_LINES = 50;
+
 const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) => {
     // Wizard Steps: upload -> select -> processing -> result
     const [step, setStep] = React.useState<'upload' | 'select' | 'processing' | 'result'>('upload');
@@ -55,6 +59,35 @@ const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) => {
     const [message, setMessage] = React.useState('');
     const [result, setResult] = React.useState<any>(null);
     const [error, setError] = React.useState<string | null>(null);
+    const [jobId, setJobId] = React.useState<string | null>(null);
+    const [logLines, setLogLines] = React.useState<string[]>([]);
+
+    // Follows a server-side import job until it finishes
+    const trackJob = (id: string) => {
+        setJobId(id);
+        setStep('processing');
+        setLogLines([]);
+        watchJob(id, job => {
+            setProgress(job.progress);
+            setMessage(job.message || '');
+        }, line => setLogLines(prev => [...prev.slice(-(MAX_LOG_LINES - 1)), line.message])).then(job => {
+            if (job.status === 'completed') {
+                setResult(job.result);
+            } else {
+                setError(job.status === 'cancelled' ? 'Import cancelled.' : (job.error || job.message || 'Import failed'));
+            }
+            setStep('result');
+        }).catch(err => {
+            setError(err.message);
+            setStep('result');
+        }).finally(() => setJobId(null));
+    };
+
+    const handleCancelImport = async () => {
+        if (!jobId) return;
+        setMessage('Cancelling...');
+        if (!await cancelJob(jobId)) alert('Failed to cancel the import.');
+    };
 
     // Reset state when modal opens
     React.useEffect(() => {
@@ -72,6 +105,11 @@ const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) => {
             setSelectedPairs(new Set());
             setSelectedAgencyIds(new Set());
             setSelectedRouteTypes(new Set());
+
+            // An import started earlier (or queued before a restart) may still be running
+            findActiveJob('gtfs_import').then(job => {
+                if (job) trackJob(job.job_id);
+            });
         }
     }, [isOpen]);
 
@@ -278,8 +316,8 @@ const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) => {
             });
 
             if (!res.ok) throw new Error('Import failed');
-            const { taskId } = await res.json();
-            pollStatus(taskId);
+            const { jobId } = await res.json();
+            trackJob(jobId);
 
         } catch (err: any) {
             setError(err.message || 'Import failed');
@@ -287,31 +325,6 @@ const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) => {
         }
     };
 
-    const pollStatus = (taskId: string) => {
-        const interval = setInterval(async () => {
-            try {
-                const res = await fetch(`${API_URL}/gtfs/import/status/${taskId}`);
-                if (!res.ok) return;
-
-                const data = await res.json();
-                setProgress(data.progress);
-                setMessage(data.message);
-
-                if (data.status === 'completed') {
-                    clearInterval(interval);
-                    setStep('result');
-                    setResult(data.details);
-                } else if (data.status === 'error') {
-                    clearInterval(interval);
-                    setError(data.message);
-                    setStep('result');
-                }
-            } catch (err) {
-                console.error("Polling error", err);
-            }
-        }, 1000);
-    };
-
     if (!isOpen) return null;
 
     return (
@@ -583,6 +596,19 @@ const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) => {
                                 <div className="h-full bg-blue-600 transition-all duration-300 ease-out" style={{ width: `${progress}%` }} />
                             </div>
                             <p className="text-sm text-gray-500">{progress}%</p>
+                            {logLines.length > 0 && (
+                                <div className="w-full max-w-md max-h-32 overflow-y-auto rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-100 dark:border-gray-700 p-2 font-mono text-xs text-gray-500 dark:text-gray-400">
+                                    {logLines.map((line, i) => <div key={i}>{line}</div>)}
+                                </div>
+                            )}
+                            {jobId && (
+                                <button
+                                    onClick={handleCancelImport}
+                                    className="px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                >
+                                    Cancel Import
+                                </button>
+                            )}
                         </div>
                     )}
 
@@ -13,7 +13,12 @@ import {
     Download,
     Upload,
     Database,
-    PlayCircle
+    PlayCircle,
+    ArrowLeftRight,
+    Ticket,
+    Building2,
+    Accessibility,
+    Satellite
 } from 'lucide-react';
 import { clsx } from 'clsx';
 import ExportModal from '../ExportModal';
@@ -71,6 +76,34 @@ const Sidebar: React.FC = () => {
             active: activePanel === 'calendar',
             onClick: () => setActivePanel(activePanel === 'calendar' ? 'none' : 'calendar')
         },
+        {
+            id: 'transfers',
+            label: 'Transfers',
+            icon: ArrowLeftRight,
+            active: activePanel === 'transfers',
+            onClick: () => setActivePanel(activePanel === 'transfers' ? 'none' : 'transfers')
+        },
+        {
+            id: 'stations',
+            label: 'Stations',
+            icon: Building2,
+            active: activePanel === 'stations',
+            onClick: () => setActivePanel(activePanel === 'stations' ? 'none' : 'stations')
+        },
+        {
+            id: 'accessibility',
+            label: 'Accessibility',
+            icon: Accessibility,
+            active: activePanel === 'accessibility',
+            onClick: () => setActivePanel(activePanel === 'accessibility' ? 'none' : 'accessibility')
+        },
+        {
+            id: 'fares',
+            label: 'Fares & Zones',
+            icon: Ticket,
+            active: activePanel === 'fares' || mode === 'paint_zone',
+            onClick: () => setActivePanel(activePanel === 'fares' ? 'none' : 'fares')
+        },
         {
             id: 'empty_segments',
             label: 'Empty Segments',
@@ -98,6 +131,13 @@ const Sidebar: React.FC = () => {
             icon: Database,
             active: activePanel === 'external_load',
             onClick: () => setActivePanel(activePanel === 'external_load' ? 'none' : 'external_load')
+        },
+        {
+            id: 'avl_import',
+            label: 'GPS Traces',
+            icon: Satellite,
+            active: activePanel === 'avl_import',
+            onClick: () => setActivePanel(activePanel === 'avl_import' ? 'none' : 'avl_import')
         }
     ];
 
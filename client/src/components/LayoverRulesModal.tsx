@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { X, Coffee, Plus, Trash2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { API_URL } from '../config';
+import { formatTimeInput } from '../utils/TimeUtils';
+import type { LayoverRule } from '../utils/layoverRules';
+
+interface LayoverRulesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    routeId: string;
+    terminals: { stop_id: string; stop_name: string }[]; // First and last stops of the route's patterns
+}
+
+const inputClass = "w-full text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 text-gray-900 dark:text-gray-100";
+const labelClass = "text-xs text-gray-500 dark:text-gray-400 block mb-1";
+
+const loadLayoverRules = async (routeId: string): Promise<LayoverRule[]> => {
+    const res = await fetch(`${API_URL}/layover_rules?route_id=${encodeURIComponent(routeId)}`);
+    return res.ok ? res.json() : [];
+};
+
+const LayoverRulesModal: React.FC<LayoverRulesModalProps> = ({ isOpen, onClose, routeId, terminals }) => {
+    const [rules, setRules] = useState<LayoverRule[]>([]);
+    const [stopId, setStopId] = useState('');
+    const [startTime, setStartTime] = useState('');
+    const [endTime, setEndTime] = useState('');
+    const [minMins, setMinMins] = useState(5);
+    const [percent, setPercent] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        loadLayoverRules(routeId).then(setRules).catch(err => console.error(err));
+    }, [isOpen, routeId]);
+
+    if (!isOpen) return null;
+
+    const terminalName = (id: string | null) =>
+        id ? terminals.find(t => t.stop_id === id)?.stop_name || id : 'Every terminal';
+
+    const handleAdd = async () => {
+        setError(null);
+        try {
+            const res = await fetch(`${API_URL}/layover_rules`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    route_id: routeId,
+                    stop_id: stopId || null,
+                    start_time: startTime ? formatTimeInput(startTime) : null,
+                    end_time: endTime ? formatTimeInput(endTime) : null,
+                    min_secs: minMins * 60,
+                    percent
+                })
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to add layover rule');
+                return;
+            }
+            setStartTime('');
+            setEndTime('');
+            setRules(await loadLayoverRules(routeId));
+        } catch (err) {
+            console.error(err);
+            setError('Network error');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await fetch(`${API_URL}/layover_rules/${id}`, { method: 'DELETE' });
+            setRules(await loadLayoverRules(routeId));
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-2xl animate-in fade-in zoom-in duration-200">
+                <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700">
+                    <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                        <Coffee className="text-amber-600" size={20} />
+                        Layover Rules
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors text-gray-500 dark:text-gray-400">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                    {error && (
+                        <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 px-3 py-2 rounded border border-red-200 dark:border-red-800 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Recovery time after arriving at a terminal: the larger of the minimum and the share of the running time.
+                        Generated timetables and the simulation never chain the next trip earlier, and validation flags blocks that do.
+                        The most specific rule for a terminal and arrival time applies.
+                    </p>
+
+                    {/* Rules */}
+                    <div className="space-y-2">
+                        {rules.length === 0 && (
+                            <div className="text-sm text-gray-400 text-center py-3">No layover rules for this route</div>
+                        )}
+                        {rules.map(rule => (
+                            <div key={rule.id} className="flex items-center gap-3 px-3 py-2 rounded border border-gray-200 dark:border-gray-700 text-sm">
+                                <span className="flex-1 font-medium text-gray-800 dark:text-gray-200 truncate">{terminalName(rule.stop_id)}</span>
+                                <span className="w-40 font-mono text-xs text-gray-500 dark:text-gray-400">
+                                    {rule.start_time ? `${rule.start_time} - ${rule.end_time}` : 'All day'}
+                                </span>
+                                <span className="w-20 font-mono text-xs text-gray-700 dark:text-gray-300">{Math.round(rule.min_secs / 60)} min</span>
+                                <span className="w-16 font-mono text-xs text-gray-700 dark:text-gray-300">{rule.percent}%</span>
+                                <button
+                                    onClick={() => handleDelete(rule.id)}
+                                    className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                                    title="Delete rule"
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* New rule */}
+                    <div className="space-y-3">
+                        <div className="text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700 pb-2">
+                            Add Rule
+                        </div>
+                        <div className="grid grid-cols-3 gap-3">
+                            <div>
+                                <label className={labelClass}>Terminal</label>
+                                <select value={stopId} onChange={(e) => setStopId(e.target.value)} className={inputClass}>
+                                    <option value="">Every terminal</option>
+                                    {terminals.map(t => <option key={t.stop_id} value={t.stop_id}>{t.stop_name}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={labelClass}>Arrivals from (empty: all day)</label>
+                                <input
+                                    value={startTime}
+                                    onChange={(e) => setStartTime(e.target.value)}
+                                    onBlur={(e) => e.target.value && setStartTime(formatTimeInput(e.target.value))}
+                                    placeholder="06:00:00"
+                                    className={clsx(inputClass, "font-mono")}
+                                />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Until</label>
+                                <input
+                                    value={endTime}
+                                    onChange={(e) => setEndTime(e.target.value)}
+                                    onBlur={(e) => e.target.value && setEndTime(formatTimeInput(e.target.value))}
+                                    placeholder="09:00:00"
+                                    className={clsx(inputClass, "font-mono")}
+                                />
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-3 gap-3 items-end">
+                            <div>
+                                <label className={labelClass}>Minimum (min)</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={minMins}
+                                    onChange={(e) => setMinMins(Math.max(0, parseInt(e.target.value) || 0))}
+                                    className={clsx(inputClass, "font-mono")}
+                                />
+                            </div>
+                            <div>
+                                <label className={labelClass}>% of Running Time</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={percent}
+                                    onChange={(e) => setPercent(Math.max(0, parseInt(e.target.value) || 0))}
+                                    className={clsx(inputClass, "font-mono")}
+                                />
+                            </div>
+                            <button
+                                onClick={handleAdd}
+                                className="flex items-center justify-center gap-2 px-4 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm transition-colors"
+                            >
+                                <Plus size={16} /> Add Rule
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3 bg-gray-50 dark:bg-gray-800/50 rounded-b-xl">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LayoverRulesModal;
@@ -2,7 +2,7 @@ import * as React from 'react';
 import Map, { Marker, type MapLayerMouseEvent, Source, Layer } from 'react-map-gl/maplibre';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import type { Stop, Route } from '../types'; // Removed Segment
-import { MapPin } from 'lucide-react';
+import { MapPin, Hexagon } from 'lucide-react';
 import { clsx } from 'clsx';
 import RouteDetailsPanel from './RouteDetailsPanel';
 import StopDetails from './StopDetails';
@@ -19,7 +19,13 @@ import CalendarManager from './CalendarManager';
 import TripsManager from './TripsManager';
 import EmptySegmentsManager from './EmptySegmentsManager';
 import ExternalLoadPanel from './ExternalLoadPanel';
+import AvlImportPanel from './AvlImportPanel';
 import { SimulationPanel } from './SimulationPanel';
+import TransfersManager from './TransfersManager';
+import FaresManager from './FaresManager';
+import StationsManager from './StationsManager';
+import AccessibilityPanel from './AccessibilityPanel';
+import { pointInPolygon } from '../utils/geo';
 
 import { API_URL } from '../config';
 
@@ -46,6 +52,10 @@ const MapEditor: React.FC = () => {
     const [cursorLoc, setCursorLoc] = React.useState<{ lat: number; lon: number } | null>(null);
     const [isHovering, setIsHovering] = React.useState(false); // New hover state
 
+    // Zone Painting State: polygon vertices as [lon, lat]
+    const [zonePolygon, setZonePolygon] = React.useState<[number, number][]>([]);
+    const [zoneId, setZoneId] = React.useState('');
+
     // const [selectedStops, setSelectedStops] = React.useState<string[]>([]); // For future connecting nodes feature
     const [loading, setLoading] = React.useState(false);
 
@@ -94,11 +104,12 @@ const MapEditor: React.FC = () => {
         // Check if any filter is active
         const hasRouteFilter = filters.selectedRoutes.length > 0;
         const hasDirFilter = filters.selectedDirections.length > 0;
+        const hasPatternFilter = filters.selectedPatterns.length > 0;
         const hasSegFilter = filters.selectedSegments.length > 0;
         const hasStopFilter = filters.selectedStops.length > 0;
         const hasAgencyFilter = filters.selectedAgencies.length > 0;
 
-        if (!hasRouteFilter && !hasDirFilter && !hasSegFilter && !hasStopFilter && !hasAgencyFilter) {
+        if (!hasRouteFilter && !hasDirFilter && !hasPatternFilter && !hasSegFilter && !hasStopFilter && !hasAgencyFilter) {
             setFilteredStops(null);
             setFilteredSegments(null);
             setFilterEmpty(false);
@@ -110,7 +121,7 @@ const MapEditor: React.FC = () => {
         let validSegmentIds = new Set<string>();
         let hierarchyApplied = false;
 
-        if (hasRouteFilter || hasDirFilter || hasAgencyFilter) {
+        if (hasRouteFilter || hasDirFilter || hasPatternFilter || hasAgencyFilter) {
             hierarchyApplied = true;
             structure.forEach(route => {
                 // Agency Filter
@@ -125,6 +136,8 @@ const MapEditor: React.FC = () => {
                 route.directions.forEach((dir: any) => {
                     // If dir filter is on, skip if not selected
                     if (hasDirFilter && !filters.selectedDirections.includes(dir.direction_id)) return;
+                    // Same for the pattern (branch, short turn...)
+                    if (hasPatternFilter && !filters.selectedPatterns.includes(dir.pattern_id)) return;
 
                     // Collect IDs
                     dir.stops.forEach((s: any) => validStopIds.add(String(s.stop_id)));
@@ -155,7 +168,7 @@ const MapEditor: React.FC = () => {
 
         setFilteredStops(finalStops);
         setFilteredSegments(finalSegments);
-        setFilterEmpty(hasRouteFilter || hasDirFilter || hasSegFilter || hasStopFilter || hasAgencyFilter ? (finalStops.length === 0 && finalSegments.length === 0) : false);
+        setFilterEmpty(hasRouteFilter || hasDirFilter || hasPatternFilter || hasSegFilter || hasStopFilter || hasAgencyFilter ? (finalStops.length === 0 && finalSegments.length === 0) : false);
     }, []);
 
     const fetchData = React.useCallback(async () => {
@@ -306,6 +319,13 @@ const MapEditor: React.FC = () => {
             return; // Stop processing
         }
 
+        // Zone painting: every click (even on a stop) adds a polygon vertex
+        if (mode === 'paint_zone') {
+            const { lngLat } = event;
+            setZonePolygon(prev => [...prev, [lngLat.lng, lngLat.lat]]);
+            return;
+        }
+
         // Check for Stops Layer Click FIRST (High Priority)
         const features = event.features || [];
         const stopFeature = features.find(f => f.layer.id === 'stops-layer-circle');
@@ -371,10 +391,10 @@ const MapEditor: React.FC = () => {
 
 
     const handleMouseMove = React.useCallback((e: MapLayerMouseEvent) => {
-        if (segmentStartNode) {
+        if (segmentStartNode || (mode === 'paint_zone' && zonePolygon.length > 0)) {
             setCursorLoc({ lat: e.lngLat.lat, lon: e.lngLat.lng });
         }
-    }, [segmentStartNode]);
+    }, [segmentStartNode, mode, zonePolygon.length]);
 
     const rubberBandGeoJSON = React.useMemo(() => {
         if (!segmentStartNode || !cursorLoc) return null;
@@ -394,6 +414,65 @@ const MapEditor: React.FC = () => {
         } as const;
     }, [segmentStartNode, cursorLoc, stops]);
 
+    // Stops inside the painted polygon (parkings and depots never get a fare zone)
+    const zoneStopIds = React.useMemo(() => {
+        if (mode !== 'paint_zone' || zonePolygon.length < 3) return [];
+        return displayStops
+            .filter(s => (s.node_type || 'regular') === 'regular' && pointInPolygon([s.stop_lon, s.stop_lat], zonePolygon))
+            .map(s => s.stop_id);
+    }, [mode, zonePolygon, displayStops]);
+
+    const zonePolygonGeoJSON = React.useMemo(() => {
+        if (mode !== 'paint_zone' || zonePolygon.length === 0) return null;
+        // Preview the edge to the cursor while drawing
+        const ring = cursorLoc ? [...zonePolygon, [cursorLoc.lon, cursorLoc.lat]] : zonePolygon;
+        const feature = (geometry: GeoJSON.Geometry): GeoJSON.Feature => ({ type: 'Feature', geometry, properties: {} });
+        const closed = ring.length >= 3 ? [...ring, ring[0]] : ring;
+        const collection: GeoJSON.FeatureCollection = {
+            type: 'FeatureCollection',
+            features: [
+                ...(ring.length >= 3 ? [feature({ type: 'Polygon', coordinates: [closed] })] : []),
+                feature({ type: 'LineString', coordinates: closed }),
+                ...zonePolygon.map(coordinates => feature({ type: 'Point', coordinates }))
+            ]
+        };
+        return collection;
+    }, [mode, zonePolygon, cursorLoc]);
+
+    const zoneOptions = React.useMemo(() =>
+        Array.from(new Set(stops.map(s => s.zone_id).filter((z): z is string => !!z))).sort(),
+        [stops]);
+
+    const resetZonePainting = () => {
+        setZonePolygon([]);
+        setCursorLoc(null);
+    };
+
+    const assignZone = async () => {
+        if (zoneStopIds.length === 0) return;
+        const zone = zoneId.trim();
+        if (!zone && !confirm(`Clear the zone of ${zoneStopIds.length} stop(s)?`)) return;
+
+        setLoading(true);
+        try {
+            const res = await fetch(`${API_URL}/zones/assign`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ zone_id: zone || null, stop_ids: zoneStopIds })
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error);
+
+            const assigned = new Set(zoneStopIds);
+            setStops(prev => prev.map(s => assigned.has(s.stop_id) ? { ...s, zone_id: data.zone_id } : s));
+            resetZonePainting();
+        } catch (err) {
+            alert(err instanceof Error ? err.message : 'Failed to assign zone');
+        } finally {
+            setLoading(false);
+        }
+    };
+
     const handleStopClick = async (stop: Stop) => {
         // Path Editing Mode
         if (activeRoute) {
@@ -650,6 +729,7 @@ const MapEditor: React.FC = () => {
                 setMode('idle');
                 setSegmentStartNode(null);
                 setCursorLoc(null);
+                setZonePolygon([]);
             }}
         >
             {/* Map Controls */}
@@ -690,7 +770,7 @@ const MapEditor: React.FC = () => {
                 onMouseLeave={() => setIsHovering(false)}
                 onClick={handleMapClick}
                 interactiveLayerIds={['segments-layer', 'stops-layer-circle']}
-                cursor={mode === 'add_stop' ? 'crosshair' : (pickingState.isActive || isHovering) ? 'pointer' : 'grab'}
+                cursor={mode === 'add_stop' || mode === 'paint_zone' ? 'crosshair' : (pickingState.isActive || isHovering) ? 'pointer' : 'grab'}
             >
                 {/* Default NavigationControl Removed */}
 
@@ -768,6 +848,31 @@ const MapEditor: React.FC = () => {
                     </Source>
                 )}
 
+                {/* Zone Polygon being painted */}
+                {zonePolygonGeoJSON && (
+                    <Source id="zone-polygon-source" type="geojson" data={zonePolygonGeoJSON}>
+                        <Layer
+                            id="zone-polygon-fill"
+                            type="fill"
+                            filter={['==', ['geometry-type'], 'Polygon']}
+                            paint={{ 'fill-color': '#f59e0b', 'fill-opacity': 0.15 }}
+                        />
+                        <Layer
+                            id="zone-polygon-line"
+                            type="line"
+                            filter={['==', ['geometry-type'], 'LineString']}
+                            layout={{ 'line-join': 'round', 'line-cap': 'round' }}
+                            paint={{ 'line-color': '#f59e0b', 'line-width': 2, 'line-dasharray': [2, 1] }}
+                        />
+                        <Layer
+                            id="zone-polygon-vertices"
+                            type="circle"
+                            filter={['==', ['geometry-type'], 'Point']}
+                            paint={{ 'circle-radius': 4, 'circle-color': '#ffffff', 'circle-stroke-width': 2, 'circle-stroke-color': '#f59e0b' }}
+                        />
+                    </Source>
+                )}
+
                 {/* Stops Markers */}
                 {/* Stops Layer (WebGL) */}
                 {/* Stops Layer (WebGL) */}
@@ -795,6 +900,7 @@ const MapEditor: React.FC = () => {
                                 ['==', ['get', 'node_type'], 'parking'], '#000000',
                                 ['==', ['get', 'stop_id'], viewingStop?.stop_id || ''], '#2563eb', // Blue for selected
                                 ['==', ['get', 'stop_id'], segmentStartNode || ''], '#10b981', // Emerald 500 for segment start
+                                ['in', ['get', 'stop_id'], ['literal', zoneStopIds]], '#f59e0b', // Amber 500 inside the painted zone
                                 // Bright Cyan/Turquoise for available stops during segment creation
                                 (mode === 'add_segment' || mode === 'add_empty_segment') ? '#06b6d4' : '#dc2626'
                             ],
@@ -835,6 +941,7 @@ const MapEditor: React.FC = () => {
             {viewingStop && (
                 <StopDetails
                     stop={viewingStop}
+                    stops={stops}
                     onClose={() => clearSelection()}
                     onUpdate={handleStopUpdate}
                     onDelete={handleStopDelete}
@@ -907,6 +1014,10 @@ const MapEditor: React.FC = () => {
                 />
             )}
 
+            {activePanel === 'avl_import' && (
+                <AvlImportPanel onClose={() => setActivePanel('none')} />
+            )}
+
             {/* Filter Panel - Integrated Layout */}
             <div className="absolute top-4 left-16 z-20 pointer-events-none flex flex-col items-start gap-4 h-[calc(100vh-2rem)]">
                 <div className="pointer-events-auto">
@@ -935,6 +1046,41 @@ const MapEditor: React.FC = () => {
                 <SimulationPanel onClose={() => setActivePanel('none')} />
             )}
 
+            {activePanel === 'fares' && (
+                <FaresManager
+                    onClose={() => setActivePanel('none')}
+                    onPaintZone={() => {
+                        setActivePanel('none');
+                        clearSelection();
+                        setMode('paint_zone');
+                    }}
+                    routes={routesStructure}
+                />
+            )}
+
+            {activePanel === 'stations' && (
+                <StationsManager
+                    onClose={() => setActivePanel('none')}
+                    stops={stops}
+                    onDataUpdate={fetchData}
+                />
+            )}
+
+            {activePanel === 'transfers' && (
+                <TransfersManager
+                    onClose={() => setActivePanel('none')}
+                    stops={stops}
+                    routes={routesStructure}
+                />
+            )}
+
+            {activePanel === 'accessibility' && (
+                <AccessibilityPanel
+                    onClose={() => setActivePanel('none')}
+                    routes={routesStructure}
+                />
+            )}
+
             {/* Empty State Warning */}
             {filterEmpty && (
                 <div className="absolute top-20 left-1/2 transform -translate-x-1/2 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded z-50 shadow-lg">
@@ -1010,6 +1156,49 @@ const MapEditor: React.FC = () => {
                 </div>
             )}
 
+            {mode === 'paint_zone' && (
+                <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white dark:bg-gray-800 px-4 py-3 rounded-xl shadow-lg z-50 flex items-center gap-3 border border-amber-200 dark:border-amber-800">
+                    <Hexagon size={16} className="text-amber-500" />
+                    <div className="text-sm text-gray-700 dark:text-gray-200">
+                        <span className="font-bold">
+                            {zonePolygon.length < 3 ? 'Click the map to draw the zone' : `${zoneStopIds.length} stop(s) inside`}
+                        </span>
+                        <span className="text-xs opacity-70 ml-2">(Right-click to exit)</span>
+                    </div>
+                    <input
+                        list="map-zones"
+                        value={zoneId}
+                        onChange={e => setZoneId(e.target.value)}
+                        placeholder="zone_id"
+                        className="w-28 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-amber-500"
+                    />
+                    <datalist id="map-zones">
+                        {zoneOptions.map(z => <option key={z} value={z} />)}
+                    </datalist>
+                    <button
+                        onClick={() => setZonePolygon(prev => prev.slice(0, -1))}
+                        disabled={zonePolygon.length === 0}
+                        className="text-xs px-2 py-1 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+                    >
+                        Undo
+                    </button>
+                    <button
+                        onClick={resetZonePainting}
+                        disabled={zonePolygon.length === 0}
+                        className="text-xs px-2 py-1 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+                    >
+                        Clear
+                    </button>
+                    <button
+                        onClick={assignZone}
+                        disabled={zoneStopIds.length === 0 || loading}
+                        className="text-xs px-3 py-1.5 rounded-md bg-amber-500 text-white font-medium hover:bg-amber-600 disabled:opacity-40"
+                    >
+                        {zoneId.trim() ? `Assign "${zoneId.trim()}"` : 'Clear zone'}
+                    </button>
+                </div>
+            )}
+
             <StopCreationModal
                 isOpen={isCreatingStop}
                 lat={newStopCoords?.lat || 0}
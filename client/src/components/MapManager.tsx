@@ -19,6 +19,7 @@ interface StatusInfo {
 }
 
 import { API_URL } from '../config';
+import { cancelJob, findActiveJob } from '../utils/jobs';
 
 const MapManager: React.FC = () => {
     const [maps, setMaps] = useState<MapInfo[]>([]);
@@ -45,29 +46,24 @@ const MapManager: React.FC = () => {
         }
     };
 
-    const fetchStatus = async () => {
-        try {
-            const res = await fetch(`${API_URL}/maps/status`);
-            if (res.ok) {
-                const data = await res.json();
-                setStatus(data);
-                if (data.status === 'downloading' || data.status === 'processing') {
-                    // Poll faster if busy
-                    setTimeout(fetchStatus, 1000);
-                    // Refresh maps to update "Active" indicators
-                    fetchMaps();
-                } else if (data.status === 'running' || data.status === 'idle') {
-                    fetchMaps(); // Ensure UI is in sync
-                }
-            }
-        } catch (e) {
-            console.error(e);
-        }
-    };
-
+    // Status changes are pushed by the server, including short-lived errors a poll could miss
     useEffect(() => {
         setLoading(true);
-        Promise.all([fetchMaps(), fetchStatus()]).finally(() => setLoading(false));
+        fetchMaps().finally(() => setLoading(false));
+
+        const source = new EventSource(`${API_URL}/maps/status/events`);
+        let lastState = '';
+        source.addEventListener('status', e => {
+            const data: StatusInfo = JSON.parse(e.data);
+            setStatus(data);
+            // Refresh maps to update "Active" indicators (progress ticks alone don't change them)
+            const state = `${data.status}|${data.activeRegion}|${data.message}`;
+            if (state !== lastState) {
+                lastState = state;
+                fetchMaps();
+            }
+        });
+        return () => source.close();
     }, []);
 
     const handleDownload = async () => {
@@ -91,7 +87,6 @@ const MapManager: React.FC = () => {
             });
 
             if (res.ok) {
-                fetchStatus(); // Start polling
                 setCustomUrl('');
                 setCustomName('');
                 setIsCustomMode(false);
@@ -122,15 +117,20 @@ const MapManager: React.FC = () => {
 
     const handleClearError = async () => {
         try {
-            const res = await fetch(`${API_URL}/maps/status/clear`, { method: 'POST' });
-            if (res.ok) {
-                fetchStatus();
-            }
+            await fetch(`${API_URL}/maps/status/clear`, { method: 'POST' });
         } catch (e) {
             console.error(e);
         }
     };
 
+    // Setup runs as an 'osrm_setup' job on the server
+    const handleCancelSetup = async () => {
+        const job = await findActiveJob('osrm_setup');
+        if (!job || !await cancelJob(job.job_id)) {
+            alert('Failed to cancel map setup');
+        }
+    };
+
     const isBusy = status.status === 'downloading' || status.status === 'processing';
 
     if (loading) {
@@ -178,6 +178,17 @@ const MapManager: React.FC = () => {
                     </div>
                 )}
 
+                {isBusy && (
+                    <div className="flex justify-end mt-2">
+                        <button
+                            onClick={handleCancelSetup}
+                            className="bg-blue-100 hover:bg-blue-200 text-blue-700 dark:bg-blue-900/40 dark:hover:bg-blue-900/60 dark:text-blue-300 text-xs px-3 py-1.5 rounded-md transition-colors font-medium border border-blue-200 dark:border-blue-800"
+                        >
+                            Cancel Setup
+                        </button>
+                    </div>
+                )}
+
                 {/* Error Actions */}
                 {status.status === 'error' && (
                     <div className="flex justify-end mt-2">
@@ -312,8 +323,7 @@ const MapManager: React.FC = () => {
                                                                 headers: { 'Content-Type': 'application/json' },
                                                                 body: JSON.stringify({ region: m.key })
                                                             }).then(res => {
-                                                                if (res.ok) fetchStatus();
-                                                                else res.json().then(err => alert(`Error: ${err.error}`));
+                                                                if (!res.ok) res.json().then(err => alert(`Error: ${err.error}`));
                                                             });
                                                         }, 50);
                                                     }}
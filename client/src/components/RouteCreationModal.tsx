@@ -2,6 +2,7 @@ import * as React from 'react';
 import { X, Check, Bus, Save, Building2 } from 'lucide-react';
 import { clsx } from 'clsx';
 import type { Route } from '../types';
+import TranslationsEditor from './TranslationsEditor';
 
 interface RouteCreationModalProps {
     isOpen: boolean;
@@ -41,7 +42,7 @@ const RouteCreationModal: React.FC<RouteCreationModalProps> = ({ isOpen, onClose
     });
 
     const [loading, setLoading] = React.useState(false);
-    const [activeTab, setActiveTab] = React.useState<'basic' | 'advanced'>('basic');
+    const [activeTab, setActiveTab] = React.useState<'basic' | 'advanced' | 'translations'>('basic');
     const [agencies, setAgencies] = React.useState<{ agency_id: string; agency_name: string }[]>([]);
     const [parkingStops, setParkingStops] = React.useState<{ stop_id: string; stop_name: string }[]>([]);
 
@@ -177,6 +178,19 @@ const RouteCreationModal: React.FC<RouteCreationModalProps> = ({ isOpen, onClose
                     >
                         Advanced Details
                     </button>
+                    {isEditMode && (
+                        <button
+                            onClick={() => setActiveTab('translations')}
+                            className={clsx(
+                                "flex-1 py-3 text-sm font-bold border-b-2 transition-colors",
+                                activeTab === 'translations'
+                                    ? "border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400"
+                                    : "border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400"
+                            )}
+                        >
+                            Translations
+                        </button>
+                    )}
                 </div>
 
                 {/* Body */}
@@ -379,6 +393,20 @@ const RouteCreationModal: React.FC<RouteCreationModalProps> = ({ isOpen, onClose
                             </div>
                         </div>
                     )}
+
+                    {activeTab === 'translations' && routeToEdit && (
+                        <div className="animate-in fade-in slide-in-from-right-4 duration-300">
+                            <TranslationsEditor
+                                tableName="routes"
+                                recordId={routeToEdit.route_id}
+                                fields={[
+                                    { name: 'route_short_name', label: 'Short name' },
+                                    { name: 'route_long_name', label: 'Long name' },
+                                    { name: 'route_desc', label: 'Description' }
+                                ]}
+                            />
+                        </div>
+                    )}
                 </div>
 
                 {/* Footer */}
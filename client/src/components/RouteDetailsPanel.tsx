@@ -1,6 +1,6 @@
 import * as React from 'react';
-import type { Route, Stop, Segment } from '../types';
-import { ArrowLeft, Clock, Ruler, Calendar, Bus, Trash2, Edit2, AlertCircle, Plus } from 'lucide-react';
+import type { Route, Stop, Segment, RoutePattern } from '../types';
+import { ArrowLeft, Clock, Ruler, Calendar, Bus, Trash2, Edit2, AlertCircle, Plus, GitBranch } from 'lucide-react';
 import { clsx } from 'clsx';
 import Draggable from './UI/Draggable';
 import { useEditor } from '../context/EditorContext';
@@ -29,6 +29,8 @@ const RouteDetailsPanel: React.FC<RouteDetailsPanelProps> = ({ route, onClose, o
     const { startPicking, cancelPicking } = useEditor();
     const [activeTab, setActiveTab] = React.useState<0 | 1>(0);
     const [pathStops, setPathStops] = React.useState<string[]>([]);
+    const [patterns, setPatterns] = React.useState<RoutePattern[]>([]);
+    const [patternId, setPatternId] = React.useState<string | null>(null); // null: main pattern of the direction
     const [stops, setStops] = React.useState<Stop[]>([]);
     const [allSegments, setAllSegments] = React.useState<Segment[]>([]);
     const [loading, setLoading] = React.useState(true);
@@ -45,12 +47,15 @@ const RouteDetailsPanel: React.FC<RouteDetailsPanelProps> = ({ route, onClose, o
     const fetchData = React.useCallback(async () => {
         setLoading(true);
         try {
-            const [pathRes, stopsRes, segmentsRes] = await Promise.all([
-                fetch(`${API_URL}/routes/${route.route_id}/path?direction_id=${activeTab}`),
+            const patternParam = patternId ? `&pattern_id=${encodeURIComponent(patternId)}` : '';
+            const [pathRes, patternsRes, stopsRes, segmentsRes] = await Promise.all([
+                fetch(`${API_URL}/routes/${route.route_id}/path?direction_id=${activeTab}${patternParam}`),
+                fetch(`${API_URL}/routes/${route.route_id}/patterns?direction_id=${activeTab}`),
                 fetch(`${API_URL}/stops`),
                 fetch(`${API_URL}/segments`)
             ]);
 
+            if (patternsRes.ok) setPatterns(await patternsRes.json());
             const pathData = await pathRes.json();
             const stopsData = await stopsRes.json();
             const segmentsData = await segmentsRes.json();
@@ -69,12 +74,71 @@ const RouteDetailsPanel: React.FC<RouteDetailsPanelProps> = ({ route, onClose, o
         } finally {
             setLoading(false);
         }
-    }, [route.route_id, activeTab]);
+    }, [route.route_id, activeTab, patternId]);
 
     React.useEffect(() => {
         fetchData();
     }, [fetchData]);
 
+    const currentPattern = patterns.find(p => patternId ? p.pattern_id === patternId : p.is_main);
+
+    const handleCreatePattern = async () => {
+        const name = prompt('Name of the new pattern (e.g. "Short turn to Central", "Express"):');
+        if (!name || !name.trim()) return;
+        const copyFrom = currentPattern && pathStops.length > 0 && confirm(`Start from the stops of "${currentPattern.pattern_name}"?\n\nCancel starts with an empty pattern.`)
+            ? currentPattern.pattern_id
+            : undefined;
+
+        try {
+            const res = await fetch(`${API_URL}/routes/${route.route_id}/patterns`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ direction_id: activeTab, pattern_name: name.trim(), copy_from: copyFrom })
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to create pattern');
+            setPatternId(data.pattern_id);
+        } catch (e) {
+            console.error(e);
+            alert(e instanceof Error ? e.message : 'Error creating pattern');
+        }
+    };
+
+    const handleRenamePattern = async () => {
+        if (!currentPattern) return;
+        const name = prompt('Pattern name:', currentPattern.pattern_name);
+        if (!name || !name.trim() || name.trim() === currentPattern.pattern_name) return;
+
+        try {
+            const res = await fetch(`${API_URL}/routes/${route.route_id}/patterns/${encodeURIComponent(currentPattern.pattern_id)}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ pattern_name: name.trim() })
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to rename pattern');
+            setPatterns(prev => prev.map(p => p.pattern_id === currentPattern.pattern_id ? { ...p, pattern_name: data.pattern_name } : p));
+        } catch (e) {
+            console.error(e);
+            alert(e instanceof Error ? e.message : 'Error renaming pattern');
+        }
+    };
+
+    const handleDeletePattern = async () => {
+        if (!currentPattern || currentPattern.is_main) return;
+        if (!confirm(`Delete pattern "${currentPattern.pattern_name}" and its stop sequence?`)) return;
+
+        try {
+            const res = await fetch(`${API_URL}/routes/${route.route_id}/patterns/${encodeURIComponent(currentPattern.pattern_id)}`, { method: 'DELETE' });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to delete pattern');
+            setPatternId(null);
+        } catch (e) {
+            console.error(e);
+            alert(e instanceof Error ? e.message : 'Error deleting pattern');
+        }
+    };
+
     const routeSegments = React.useMemo(() => {
         if (pathStops.length < 2) return [];
 
@@ -232,11 +296,13 @@ const RouteDetailsPanel: React.FC<RouteDetailsPanelProps> = ({ route, onClose, o
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     direction_id: activeTab,
-                    ordered_stop_ids: newStopIds
+                    ordered_stop_ids: newStopIds,
+                    pattern_id: patternId || undefined
                 })
             });
 
             if (!res.ok) throw new Error("Failed to update path");
+            setPatterns(prev => prev.map(p => p.pattern_id === currentPattern?.pattern_id ? { ...p, stop_count: newStopIds.length } : p));
 
             // Save Updated Segments (if any time redistribution happened)
             if (updatedSegments.length > 0) {
@@ -461,7 +527,7 @@ const RouteDetailsPanel: React.FC<RouteDetailsPanelProps> = ({ route, onClose, o
                 {/* Tabs */}
                 <div className="flex p-1 bg-gray-200 dark:bg-gray-700/50 rounded-lg">
                     <button
-                        onClick={() => { if (!isEditing) { setActiveTab(0); setIsAdding(null); } }}
+                        onClick={() => { if (!isEditing) { setActiveTab(0); setPatternId(null); setIsAdding(null); } }}
                         disabled={isEditing}
                         className={clsx(
                             "flex-1 py-2 text-sm font-bold rounded-md transition-all",
@@ -474,7 +540,7 @@ const RouteDetailsPanel: React.FC<RouteDetailsPanelProps> = ({ route, onClose, o
                         Sentido Ida
                     </button>
                     <button
-                        onClick={() => { if (!isEditing) { setActiveTab(1); setIsAdding(null); } }}
+                        onClick={() => { if (!isEditing) { setActiveTab(1); setPatternId(null); setIsAdding(null); } }}
                         disabled={isEditing}
                         className={clsx(
                             "flex-1 py-2 text-sm font-bold rounded-md transition-all",
@@ -487,6 +553,48 @@ const RouteDetailsPanel: React.FC<RouteDetailsPanelProps> = ({ route, onClose, o
                         Sentido Vuelta
                     </button>
                 </div>
+
+                {/* Pattern of the direction */}
+                <div className="flex items-center gap-2 mt-3">
+                    <GitBranch size={16} className="text-gray-400 shrink-0" />
+                    <select
+                        value={currentPattern?.pattern_id || ''}
+                        onChange={(e) => setPatternId(patterns.find(p => p.pattern_id === e.target.value)?.is_main ? null : e.target.value)}
+                        disabled={isEditing}
+                        className="flex-1 min-w-0 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg px-2 py-1.5 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+                        title="Stop pattern (branch, short turn, express...)"
+                    >
+                        {patterns.map(p => (
+                            <option key={p.pattern_id} value={p.pattern_id}>
+                                {p.pattern_name} · {p.stop_count} stops{p.trip_count > 0 ? ` · ${p.trip_count} trips` : ''}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handleCreatePattern}
+                        disabled={isEditing}
+                        className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-white dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
+                        title="New pattern"
+                    >
+                        <Plus size={16} />
+                    </button>
+                    <button
+                        onClick={handleRenamePattern}
+                        disabled={isEditing || !currentPattern}
+                        className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-white dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
+                        title="Rename pattern"
+                    >
+                        <Edit2 size={14} />
+                    </button>
+                    <button
+                        onClick={handleDeletePattern}
+                        disabled={isEditing || !currentPattern || currentPattern.is_main}
+                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-white dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
+                        title={currentPattern?.is_main ? 'The main pattern cannot be deleted' : 'Delete pattern'}
+                    >
+                        <Trash2 size={14} />
+                    </button>
+                </div>
             </div>
 
             {/* Actions Bar */}
@@ -4,6 +4,7 @@ import { Trash2, AlertTriangle, MapPin } from 'lucide-react';
 import ConfirmModal from './ConfirmModal';
 import AgencyManager from './AgencyManager';
 import MapManager from './MapManager';
+import FeedInfoManager from './FeedInfoManager';
 import { useSettings } from '../context/SettingsContext';
 import { clsx } from 'clsx';
 
@@ -20,7 +21,7 @@ import { API_URL } from '../config';
 
 const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose, currentViewState }) => {
     const { defaultLocation, setDefaultLocation } = useSettings();
-    const [activeTab, setActiveTab] = useState<'general' | 'agency' | 'map'>('general');
+    const [activeTab, setActiveTab] = useState<'general' | 'agency' | 'feed' | 'map'>('general');
     const [showResetConfirm, setShowResetConfirm] = useState(false);
     const [isResetting, setIsResetting] = useState(false);
 
@@ -121,6 +122,20 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose, currentViewState
                         <div className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-600 dark:bg-blue-400" />
                     )}
                 </button>
+                <button
+                    onClick={() => setActiveTab('feed')}
+                    className={clsx(
+                        "flex-1 py-3 text-sm font-medium transition-colors relative",
+                        activeTab === 'feed'
+                            ? "text-blue-600 dark:text-blue-400"
+                            : "text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                    )}
+                >
+                    Feed
+                    {activeTab === 'feed' && (
+                        <div className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-600 dark:bg-blue-400" />
+                    )}
+                </button>
                 <button
                     onClick={() => setActiveTab('map')}
                     className={clsx(
@@ -238,6 +253,16 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose, currentViewState
                         <AgencyManager />
                     </div>
                 )}
+                {activeTab === 'feed' && (
+                    <div className="fade-in animate-in duration-300">
+                        <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-xl border border-blue-100 dark:border-blue-900/50 mb-6">
+                            <p className="text-xs text-blue-700 dark:text-blue-300 leading-relaxed">
+                                Publisher and version of the exported feed (feed_info.txt), so consumers can tell releases apart.
+                            </p>
+                        </div>
+                        <FeedInfoManager />
+                    </div>
+                )}
 
                 {activeTab === 'map' && (
                     <div className="fade-in animate-in duration-300">
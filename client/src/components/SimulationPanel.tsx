@@ -3,6 +3,8 @@ import { Play, Pause, Square, Download, Clock } from 'lucide-react';
 import { API_URL } from '../config';
 import { SimulationEngine, secondsToTime } from '../utils/SimulationEngine';
 import type { LogicalBus } from '../utils/SimulationEngine';
+import { dwellResolver } from '../utils/dwellTimes';
+import { layoverResolver } from '../utils/layoverRules';
 import { SimulationCanvas } from './SimulationCanvas';
 import { Route, Stop } from '../types';
 
@@ -52,6 +54,10 @@ export const SimulationPanel: React.FC<{ onClose: () => void }> = ({ onClose })
             const stopsRes = await fetch(`${API_URL}/stops`);
             const allStops: Stop[] = await stopsRes.json();
 
+            const [dwellRes, layoverRes] = await Promise.all([fetch(`${API_URL}/dwell_times`), fetch(`${API_URL}/layover_rules`)]);
+            const dwellAt = dwellResolver(dwellRes.ok ? await dwellRes.json() : []);
+            const layoverAt = layoverResolver(layoverRes.ok ? await layoverRes.json() : []);
+
             // Fetch stop_times for these trips
             // In a real app we'd have a bulk endpoint, for now we map promises. If there are 1000s this will be slow
             // GTFS Generator usually has `/routes/:id/trips` which INCLUDES stop_times. Let's use that!
@@ -93,6 +99,10 @@ export const SimulationPanel: React.FC<{ onClose: () => void }> = ({ onClose })
                 });
             }
 
+            // Build engine
+            const newEngine = new SimulationEngine(fullTrips, allSegments, dwellAt, layoverAt);
+            const simTrips = newEngine.getTrips();
+
             // Fetch paths for routes
             const rData = await Promise.all(selectedRouteIds.map(async rid => {
                 const routeObj = allRoutes.find(r => r.route_id === rid);
@@ -108,14 +118,12 @@ export const SimulationPanel: React.FC<{ onClose: () => void }> = ({ onClose })
                     route_short_name: routeObj?.route_short_name || rid,
                     path0: mapPath(path0Res),
                     path1: mapPath(path1Res),
-                    trips: fullTrips.filter(t => t.route_id === rid)
+                    trips: simTrips.filter(t => t.route_id === rid)
                 };
             }));
 
             setRoutesData(rData);
 
-            // Build engine
-            const newEngine = new SimulationEngine(fullTrips, allSegments);
             const buses = newEngine.calculateLogicalBuses();
 
             setLogicalBuses(buses);
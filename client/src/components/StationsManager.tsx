@@ -0,0 +1,753 @@
+import React, { useState, useEffect } from 'react';
+import { Building2, ArrowRight, ArrowLeftRight, Plus, X, Trash2, Pencil, Unlink, Layers } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { Stop } from '../types';
+import { distanceMeters } from '../utils/geo';
+
+import { API_URL } from '../config';
+
+interface Station extends Stop {
+    platform_count: number;
+    entrance_count: number;
+}
+
+interface Level {
+    level_id: string;
+    level_index: number;
+    level_name: string | null;
+    stop_count?: number;
+}
+
+interface Pathway {
+    pathway_id: string;
+    from_stop_id: string;
+    to_stop_id: string;
+    pathway_mode: number;
+    is_bidirectional: number;
+    length: number | null;
+    traversal_time: number | null;
+    stair_count: number | null;
+    max_slope: number | null;
+    min_width: number | null;
+    signposted_as: string | null;
+    reversed_signposted_as: string | null;
+}
+
+type PathwayForm = Omit<Pathway, 'pathway_id'>;
+
+interface StationDetail {
+    station: Stop;
+    children: Stop[];
+    pathways: Pathway[];
+}
+
+interface StationsManagerProps {
+    onClose: () => void;
+    stops: Stop[];
+    onDataUpdate: () => void;
+}
+
+// stops.txt location_type values
+const LOCATION_TYPES = [
+    { value: 0, label: 'Stop / Platform' },
+    { value: 1, label: 'Station' },
+    { value: 2, label: 'Entrance / Exit' },
+    { value: 3, label: 'Generic node' },
+    { value: 4, label: 'Boarding area' }
+];
+
+// pathways.txt pathway_mode values, with the speed (m/s) used to estimate traversal times.
+// Elevators and gates take a fixed time instead.
+const PATHWAY_MODES = [
+    { value: 1, label: 'Walkway', speed: 1.2 },
+    { value: 2, label: 'Stairs', speed: 0.5 },
+    { value: 3, label: 'Moving sidewalk', speed: 1.8 },
+    { value: 4, label: 'Escalator', speed: 0.75 },
+    { value: 5, label: 'Elevator', fixed: 60 },
+    { value: 6, label: 'Fare gate', fixed: 10 },
+    { value: 7, label: 'Exit gate', fixed: 10 }
+];
+
+const EMPTY_PATHWAY: PathwayForm = {
+    from_stop_id: '', to_stop_id: '', pathway_mode: 1, is_bidirectional: 1, length: null, traversal_time: null,
+    stair_count: null, max_slope: null, min_width: null, signposted_as: null, reversed_signposted_as: null
+};
+
+const EMPTY_LEVEL: Level = { level_id: '', level_index: 0, level_name: '' };
+
+const typeLabel = (type?: number | null) => LOCATION_TYPES.find(t => t.value === Number(type || 0))?.label || String(type);
+const modeLabel = (mode: number) => PATHWAY_MODES.find(m => m.value === mode)?.label || String(mode);
+
+const estimateTraversalTime = (mode: number, length: number | null): number | null => {
+    const info = PATHWAY_MODES.find(m => m.value === mode);
+    if (!info) return null;
+    if (info.fixed) return info.fixed;
+    return length ? Math.max(1, Math.round(length / (info.speed || 1.2))) : null;
+};
+
+const readError = async (res: Response, fallback: string): Promise<string | null> => {
+    if (res.ok) return null;
+    const data = await res.json().catch(() => ({}));
+    return data.error || fallback;
+};
+
+const loadStationsData = async (): Promise<{ stations: Station[], levels: Level[] }> => {
+    const [stations, levels] = await Promise.all(
+        ['stations', 'levels'].map(async path => {
+            const res = await fetch(`${API_URL}/${path}`);
+            return res.ok ? res.json() : [];
+        })
+    );
+    return { stations, levels };
+};
+
+const loadStation = async (id: string): Promise<StationDetail> => {
+    const res = await fetch(`${API_URL}/stations/${id}`);
+    if (!res.ok) throw new Error('Failed to load station');
+    return res.json();
+};
+
+const StationsManager: React.FC<StationsManagerProps> = ({ onClose, stops, onDataUpdate }) => {
+    const [tab, setTab] = useState<'stations' | 'levels'>('stations');
+    const [stations, setStations] = useState<Station[]>([]);
+    const [levels, setLevels] = useState<Level[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [detail, setDetail] = useState<StationDetail | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // New station
+    const [newStation, setNewStation] = useState<{ name: string, childIds: string[] } | null>(null);
+    const [stopSearch, setStopSearch] = useState('');
+
+    // Station members
+    const [attachId, setAttachId] = useState('');
+    const [newMember, setNewMember] = useState<{ stop_name: string, location_type: number, level_id: string } | null>(null);
+
+    // Pathways
+    const [pathwayForm, setPathwayForm] = useState<PathwayForm | null>(null);
+    const [editingPathwayId, setEditingPathwayId] = useState<string | null>(null);
+
+    // Levels
+    const [levelForm, setLevelForm] = useState<Level | null>(null);
+    const [editingLevelId, setEditingLevelId] = useState<string | null>(null);
+
+    const applyData = (data: { stations: Station[], levels: Level[] }) => {
+        setStations(data.stations);
+        setLevels(data.levels);
+    };
+
+    const fetchAll = () => loadStationsData().then(applyData).catch(console.error);
+    const fetchStation = (id: string) => loadStation(id).then(setDetail).catch(console.error);
+
+    useEffect(() => {
+        loadStationsData().then(applyData).catch(console.error);
+    }, []);
+
+    useEffect(() => {
+        if (selectedId) loadStation(selectedId).then(setDetail).catch(console.error);
+    }, [selectedId]);
+
+    // Changes to the hierarchy also move stops on the map
+    const refresh = () => {
+        fetchAll();
+        if (selectedId) fetchStation(selectedId);
+        onDataUpdate();
+    };
+
+    const selectStation = (id: string) => {
+        setSelectedId(id);
+        setPathwayForm(null);
+        setNewMember(null);
+        setError(null);
+    };
+
+    // --- Stations ---
+
+    const handleCreateStation = async () => {
+        if (!newStation) return;
+        try {
+            const res = await fetch(`${API_URL}/stations`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ stop_name: newStation.name, child_ids: newStation.childIds })
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to create station');
+                return;
+            }
+            setNewStation(null);
+            setStopSearch('');
+            selectStation(data.stop_id);
+            refresh();
+        } catch (err) {
+            console.error(err);
+            setError('Failed to create station');
+        }
+    };
+
+    const updateStop = async (stopId: string, changes: Partial<Stop>) => {
+        try {
+            const res = await fetch(`${API_URL}/stops/${stopId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(changes)
+            });
+            const updateError = await readError(res, 'Failed to update stop');
+            setError(updateError);
+            if (!updateError) refresh();
+        } catch (err) {
+            console.error(err);
+            setError('Failed to update stop');
+        }
+    };
+
+    const handleAddMember = async () => {
+        if (!newMember || !detail) return;
+        try {
+            const res = await fetch(`${API_URL}/stops`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...newMember,
+                    level_id: newMember.level_id || null,
+                    parent_station: detail.station.stop_id,
+                    stop_lat: detail.station.stop_lat,
+                    stop_lon: detail.station.stop_lon
+                })
+            });
+            const createError = await readError(res, 'Failed to create stop');
+            setError(createError);
+            if (createError) return;
+            setNewMember(null);
+            refresh();
+        } catch (err) {
+            console.error(err);
+            setError('Failed to create stop');
+        }
+    };
+
+    const handleDeleteStop = async (stop: Stop) => {
+        if (!confirm(`Delete "${stop.stop_name}"?`)) return;
+        try {
+            const res = await fetch(`${API_URL}/stops/${stop.stop_id}`, { method: 'DELETE' });
+            const deleteError = await readError(res, 'Failed to delete stop');
+            setError(deleteError);
+            if (deleteError) return;
+            if (stop.stop_id === selectedId) {
+                setSelectedId(null);
+                setDetail(null);
+            }
+            refresh();
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    // --- Pathways ---
+
+    const memberName = (id: string) => detail?.children.find(c => c.stop_id === id)?.stop_name || id;
+
+    const openPathway = (p?: Pathway) => {
+        setPathwayForm(p ? { ...p } : { ...EMPTY_PATHWAY });
+        setEditingPathwayId(p ? p.pathway_id : null);
+        setError(null);
+    };
+
+    // Straight-line length between the two ends, as a starting point for the walked length
+    const estimatePathway = () => {
+        if (!pathwayForm || !detail) return;
+        const from = detail.children.find(c => c.stop_id === pathwayForm.from_stop_id);
+        const to = detail.children.find(c => c.stop_id === pathwayForm.to_stop_id);
+        const length = pathwayForm.length ?? (from && to ? Math.round(distanceMeters([from.stop_lon, from.stop_lat], [to.stop_lon, to.stop_lat])) : null);
+        setPathwayForm({ ...pathwayForm, length, traversal_time: estimateTraversalTime(pathwayForm.pathway_mode, length) });
+    };
+
+    const handleSavePathway = async () => {
+        if (!pathwayForm) return;
+        try {
+            const res = await fetch(editingPathwayId ? `${API_URL}/pathways/${editingPathwayId}` : `${API_URL}/pathways`, {
+                method: editingPathwayId ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(pathwayForm)
+            });
+            const saveError = await readError(res, 'Failed to save pathway');
+            setError(saveError);
+            if (saveError) return;
+            setPathwayForm(null);
+            setEditingPathwayId(null);
+            if (selectedId) fetchStation(selectedId);
+        } catch (err) {
+            console.error(err);
+            setError('Failed to save pathway');
+        }
+    };
+
+    const handleDeletePathway = async (id: string) => {
+        if (!confirm('Delete this pathway?')) return;
+        try {
+            const res = await fetch(`${API_URL}/pathways/${id}`, { method: 'DELETE' });
+            if (res.ok && selectedId) fetchStation(selectedId);
+            else if (!res.ok) alert('Failed to delete pathway');
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    // --- Levels ---
+
+    const handleSaveLevel = async () => {
+        if (!levelForm) return;
+        try {
+            const res = await fetch(editingLevelId ? `${API_URL}/levels/${editingLevelId}` : `${API_URL}/levels`, {
+                method: editingLevelId ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(levelForm)
+            });
+            const saveError = await readError(res, 'Failed to save level');
+            setError(saveError);
+            if (saveError) return;
+            setLevelForm(null);
+            setEditingLevelId(null);
+            fetchAll();
+        } catch (err) {
+            console.error(err);
+            setError('Failed to save level');
+        }
+    };
+
+    const handleDeleteLevel = async (level: Level) => {
+        const usage = level.stop_count ? ` ${level.stop_count} stop(s) will be left without a level.` : '';
+        if (!confirm(`Delete level "${level.level_name || level.level_id}"?${usage}`)) return;
+        try {
+            const res = await fetch(`${API_URL}/levels/${encodeURIComponent(level.level_id)}`, { method: 'DELETE' });
+            if (res.ok) refresh();
+            else alert('Failed to delete level');
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    const inputClass = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none";
+    const smallInputClass = "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-xs outline-none focus:ring-1 focus:ring-blue-500";
+    const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+    const levelOptions = (
+        <>
+            <option value="">No level</option>
+            {levels.map(l => <option key={l.level_id} value={l.level_id}>{l.level_name || l.level_id} ({l.level_index})</option>)}
+        </>
+    );
+
+    // Stops that can still become platforms: regular stops outside any station
+    const freeStops = stops.filter(s => !s.parent_station && !s.location_type);
+    const searchedStops = stopSearch
+        ? freeStops.filter(s => s.stop_name.toLowerCase().includes(stopSearch.toLowerCase()) || s.stop_id.includes(stopSearch))
+        : freeStops;
+
+    const station = detail && detail.station.stop_id === selectedId ? detail : null;
+    const pathwayEnds = station ? station.children : [];
+
+    return (
+        <div className="fixed inset-0 bg-black/50 overflow-y-auto h-full w-full z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="relative bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200 transition-colors">
+
+                {/* Header */}
+                <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900/50 transition-colors">
+                    <div>
+                        <h3 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                            <Building2 className="w-6 h-6 text-blue-600" />
+                            Stations
+                        </h3>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Stations with their platforms, entrances and levels, and the pathways between them (levels.txt, pathways.txt).</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                {/* Tabs */}
+                <div className="flex border-b border-gray-100 dark:border-gray-700 px-6">
+                    {(['stations', 'levels'] as const).map(t => (
+                        <button
+                            key={t}
+                            onClick={() => { setTab(t); setError(null); }}
+                            className={clsx(
+                                "px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors",
+                                tab === t ? "border-blue-600 text-blue-600 dark:text-blue-400" : "border-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                            )}
+                        >
+                            {t === 'stations' ? `Stations (${stations.length})` : `Levels (${levels.length})`}
+                        </button>
+                    ))}
+                </div>
+
+                {error && <p className="px-6 pt-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+                {tab === 'stations' && (
+                    <div className="flex-1 flex overflow-hidden">
+                        {/* Station list */}
+                        <div className="w-72 border-r border-gray-100 dark:border-gray-700 overflow-y-auto p-4 space-y-3">
+                            {newStation ? (
+                                <div className="p-3 rounded-xl border border-blue-100 dark:border-blue-900/40 bg-blue-50/50 dark:bg-blue-900/10 space-y-2">
+                                    <div>
+                                        <label className={labelClass}>Station name</label>
+                                        <input value={newStation.name} onChange={e => setNewStation({ ...newStation, name: e.target.value })} className={inputClass} autoFocus />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Platforms ({newStation.childIds.length} selected)</label>
+                                        <input value={stopSearch} onChange={e => setStopSearch(e.target.value)} className={clsx(inputClass, 'mb-1')} placeholder="Search stops..." />
+                                        <div className="max-h-40 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
+                                            {searchedStops.slice(0, 100).map(s => (
+                                                <label key={s.stop_id} className="flex items-center gap-2 px-2 py-1 text-xs text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={newStation.childIds.includes(s.stop_id)}
+                                                        onChange={e => setNewStation({
+                                                            ...newStation,
+                                                            childIds: e.target.checked ? [...newStation.childIds, s.stop_id] : newStation.childIds.filter(id => id !== s.stop_id)
+                                                        })}
+                                                    />
+                                                    <span className="truncate">{s.stop_name}</span>
+                                                </label>
+                                            ))}
+                                        </div>
+                                        <p className="text-xs text-gray-400 mt-1">The station is placed at the center of its platforms.</p>
+                                    </div>
+                                    <div className="flex justify-end gap-2">
+                                        <button onClick={() => setNewStation(null)} className="px-3 py-1.5 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">Cancel</button>
+                                        <button
+                                            onClick={handleCreateStation}
+                                            disabled={!newStation.name.trim() || newStation.childIds.length === 0}
+                                            className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium"
+                                        >
+                                            Create
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={() => { setNewStation({ name: '', childIds: [] }); setError(null); }}
+                                    className="w-full py-2 px-4 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 font-medium text-sm"
+                                >
+                                    <Plus className="w-4 h-4" /> New Station
+                                </button>
+                            )}
+
+                            {stations.length === 0 ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">No stations yet. Group the platforms of a terminal into one.</p>
+                            ) : stations.map(s => (
+                                <button
+                                    key={s.stop_id}
+                                    onClick={() => selectStation(s.stop_id)}
+                                    className={clsx(
+                                        "w-full text-left p-3 rounded-lg border text-sm transition-colors",
+                                        s.stop_id === selectedId
+                                            ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                                            : "border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                                    )}
+                                >
+                                    <div className="font-medium text-gray-900 dark:text-white truncate">{s.stop_name}</div>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">{s.platform_count} platform(s) · {s.entrance_count} entrance(s)</div>
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* Station detail */}
+                        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+                            {!station ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-12">Select a station to edit its platforms, entrances and pathways.</p>
+                            ) : (
+                                <>
+                                    <div className="flex items-center justify-between">
+                                        <div>
+                                            <h4 className="text-lg font-bold text-gray-900 dark:text-white">{station.station.stop_name}</h4>
+                                            <p className="text-xs font-mono text-gray-400">{station.station.stop_id}</p>
+                                        </div>
+                                        <button
+                                            onClick={() => handleDeleteStop(station.station)}
+                                            disabled={station.children.length > 0}
+                                            title={station.children.length > 0 ? 'Detach or delete its platforms and entrances first' : 'Delete station'}
+                                            className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-400 transition-colors"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+
+                                    {/* Members */}
+                                    <section className="space-y-2">
+                                        <h5 className="text-xs font-bold uppercase tracking-wider text-gray-500">Platforms, entrances and nodes</h5>
+                                        <div className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-100 dark:border-gray-700 rounded-xl">
+                                            {station.children.map(c => (
+                                                <div key={c.stop_id} className="flex items-center gap-2 p-2.5 text-sm">
+                                                    <div className="flex-1 min-w-0">
+                                                        <div className="font-medium text-gray-900 dark:text-white truncate">{c.stop_name}</div>
+                                                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                                                            {typeLabel(c.location_type)}
+                                                            {c.parent_station !== station.station.stop_id && ` of ${memberName(c.parent_station || '')}`}
+                                                        </div>
+                                                    </div>
+                                                    {!c.location_type && (
+                                                        <input
+                                                            defaultValue={c.platform_code || ''}
+                                                            onBlur={e => e.target.value !== (c.platform_code || '') && updateStop(c.stop_id, { platform_code: e.target.value })}
+                                                            placeholder="Platform"
+                                                            title="platform_code"
+                                                            className={clsx(smallInputClass, 'w-20')}
+                                                        />
+                                                    )}
+                                                    <select
+                                                        value={c.level_id || ''}
+                                                        onChange={e => updateStop(c.stop_id, { level_id: e.target.value })}
+                                                        className={clsx(smallInputClass, 'w-32')}
+                                                        title="level_id"
+                                                    >
+                                                        {levelOptions}
+                                                    </select>
+                                                    {!c.location_type ? (
+                                                        <button onClick={() => updateStop(c.stop_id, { parent_station: null })} className="p-1.5 text-gray-400 hover:text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded-lg transition-colors" title="Detach from station">
+                                                            <Unlink className="w-4 h-4" />
+                                                        </button>
+                                                    ) : (
+                                                        <button onClick={() => handleDeleteStop(c)} className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors" title="Delete">
+                                                            <Trash2 className="w-4 h-4" />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+
+                                        {newMember ? (
+                                            <div className="flex flex-wrap items-end gap-2 p-3 rounded-xl border border-blue-100 dark:border-blue-900/40 bg-blue-50/50 dark:bg-blue-900/10">
+                                                <div className="flex-1 min-w-40">
+                                                    <label className={labelClass}>Name</label>
+                                                    <input value={newMember.stop_name} onChange={e => setNewMember({ ...newMember, stop_name: e.target.value })} className={inputClass} placeholder="e.g. North entrance" />
+                                                </div>
+                                                <div>
+                                                    <label className={labelClass}>Type</label>
+                                                    <select value={newMember.location_type} onChange={e => setNewMember({ ...newMember, location_type: Number(e.target.value) })} className={inputClass}>
+                                                        {LOCATION_TYPES.filter(t => t.value === 2 || t.value === 3).map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                                                    </select>
+                                                </div>
+                                                <div>
+                                                    <label className={labelClass}>Level</label>
+                                                    <select value={newMember.level_id} onChange={e => setNewMember({ ...newMember, level_id: e.target.value })} className={inputClass}>
+                                                        {levelOptions}
+                                                    </select>
+                                                </div>
+                                                <button onClick={() => setNewMember(null)} className="px-3 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">Cancel</button>
+                                                <button onClick={handleAddMember} disabled={!newMember.stop_name.trim()} className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium">Add</button>
+                                                <p className="w-full text-xs text-gray-400">Placed at the station; drag it to its real position from the map.</p>
+                                            </div>
+                                        ) : (
+                                            <div className="flex flex-wrap items-center gap-2">
+                                                <button
+                                                    onClick={() => { setNewMember({ stop_name: '', location_type: 2, level_id: '' }); setError(null); }}
+                                                    className="py-1.5 px-3 text-sm text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors flex items-center gap-1"
+                                                >
+                                                    <Plus className="w-4 h-4" /> Entrance or node
+                                                </button>
+                                                <select value={attachId} onChange={e => setAttachId(e.target.value)} className={clsx(smallInputClass, 'py-1.5 max-w-56')}>
+                                                    <option value="">Attach stop as platform...</option>
+                                                    {freeStops.map(s => <option key={s.stop_id} value={s.stop_id}>{s.stop_name}</option>)}
+                                                </select>
+                                                <button
+                                                    onClick={() => { updateStop(attachId, { parent_station: station.station.stop_id }); setAttachId(''); }}
+                                                    disabled={!attachId}
+                                                    className="py-1.5 px-3 text-sm text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                                                >
+                                                    Attach
+                                                </button>
+                                            </div>
+                                        )}
+                                    </section>
+
+                                    {/* Pathways */}
+                                    <section className="space-y-2">
+                                        <h5 className="text-xs font-bold uppercase tracking-wider text-gray-500">Pathways ({station.pathways.length})</h5>
+
+                                        {pathwayForm ? (
+                                            <div className="p-4 rounded-xl border border-blue-100 dark:border-blue-900/40 bg-blue-50/50 dark:bg-blue-900/10 space-y-3">
+                                                <div className="grid grid-cols-2 gap-3">
+                                                    {(['from_stop_id', 'to_stop_id'] as const).map(field => (
+                                                        <div key={field}>
+                                                            <label className={labelClass}>{field === 'from_stop_id' ? 'From' : 'To'}</label>
+                                                            <select value={pathwayForm[field]} onChange={e => setPathwayForm({ ...pathwayForm, [field]: e.target.value })} className={inputClass}>
+                                                                <option value="">-- Select --</option>
+                                                                {pathwayEnds.map(c => <option key={c.stop_id} value={c.stop_id}>{c.stop_name} ({typeLabel(c.location_type)})</option>)}
+                                                            </select>
+                                                        </div>
+                                                    ))}
+                                                    <div>
+                                                        <label className={labelClass}>Mode</label>
+                                                        <select
+                                                            value={pathwayForm.pathway_mode}
+                                                            onChange={e => {
+                                                                const mode = Number(e.target.value);
+                                                                setPathwayForm({ ...pathwayForm, pathway_mode: mode, is_bidirectional: mode === 7 ? 0 : pathwayForm.is_bidirectional });
+                                                            }}
+                                                            className={inputClass}
+                                                        >
+                                                            {PATHWAY_MODES.map(m => <option key={m.value} value={m.value}>{m.value} - {m.label}</option>)}
+                                                        </select>
+                                                    </div>
+                                                    <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 pt-5">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={!!pathwayForm.is_bidirectional}
+                                                            disabled={pathwayForm.pathway_mode === 7}
+                                                            onChange={e => setPathwayForm({ ...pathwayForm, is_bidirectional: e.target.checked ? 1 : 0 })}
+                                                        />
+                                                        Both directions
+                                                    </label>
+                                                    {([
+                                                        ['length', 'Length (m)'],
+                                                        ['traversal_time', 'Traversal time (s)'],
+                                                        ['stair_count', 'Stairs (negative going down)'],
+                                                        ['min_width', 'Min width (m)']
+                                                    ] as const).map(([field, label]) => (
+                                                        <div key={field}>
+                                                            <label className={labelClass}>{label}</label>
+                                                            <input
+                                                                type="number"
+                                                                step="any"
+                                                                value={pathwayForm[field] ?? ''}
+                                                                onChange={e => setPathwayForm({ ...pathwayForm, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                                                                className={inputClass}
+                                                            />
+                                                        </div>
+                                                    ))}
+                                                    <div>
+                                                        <label className={labelClass}>Signposted as</label>
+                                                        <input value={pathwayForm.signposted_as || ''} onChange={e => setPathwayForm({ ...pathwayForm, signposted_as: e.target.value })} className={inputClass} placeholder="e.g. To platforms" />
+                                                    </div>
+                                                    <div>
+                                                        <label className={labelClass}>Reverse signposted as</label>
+                                                        <input value={pathwayForm.reversed_signposted_as || ''} onChange={e => setPathwayForm({ ...pathwayForm, reversed_signposted_as: e.target.value })} className={inputClass} placeholder="e.g. Exit" />
+                                                    </div>
+                                                </div>
+                                                <div className="flex justify-between gap-2">
+                                                    <button onClick={estimatePathway} className="px-4 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors" title="Length from the positions of both ends, time from the mode">
+                                                        Estimate length & time
+                                                    </button>
+                                                    <div className="flex gap-2">
+                                                        <button onClick={() => setPathwayForm(null)} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">
+                                                            Cancel
+                                                        </button>
+                                                        <button onClick={handleSavePathway} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition-colors font-medium">
+                                                            {editingPathwayId ? 'Update Pathway' : 'Create Pathway'}
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            </div>
+                                        ) : (
+                                            <button
+                                                onClick={() => openPathway()}
+                                                disabled={pathwayEnds.length < 2}
+                                                className="py-1.5 px-3 text-sm text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 transition-colors flex items-center gap-1"
+                                            >
+                                                <Plus className="w-4 h-4" /> New Pathway
+                                            </button>
+                                        )}
+
+                                        {station.pathways.length > 0 && (
+                                            <div className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-100 dark:border-gray-700 rounded-xl">
+                                                {station.pathways.map(p => (
+                                                    <div key={p.pathway_id} className="flex items-center gap-3 p-3 text-sm">
+                                                        <div className="flex-1 min-w-0">
+                                                            <div className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+                                                                <span className="truncate">{memberName(p.from_stop_id)}</span>
+                                                                {p.is_bidirectional
+                                                                    ? <ArrowLeftRight className="w-4 h-4 text-gray-400 shrink-0" />
+                                                                    : <ArrowRight className="w-4 h-4 text-gray-400 shrink-0" />}
+                                                                <span className="truncate">{memberName(p.to_stop_id)}</span>
+                                                            </div>
+                                                            {p.signposted_as && <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">"{p.signposted_as}"</div>}
+                                                        </div>
+                                                        <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 whitespace-nowrap">
+                                                            {modeLabel(p.pathway_mode)}
+                                                            {p.length !== null && ` · ${p.length} m`}
+                                                            {p.traversal_time !== null && ` · ${p.traversal_time}s`}
+                                                        </span>
+                                                        <button onClick={() => openPathway(p)} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors" title="Edit">
+                                                            <Pencil className="w-4 h-4" />
+                                                        </button>
+                                                        <button onClick={() => handleDeletePathway(p.pathway_id)} className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors" title="Delete">
+                                                            <Trash2 className="w-4 h-4" />
+                                                        </button>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </section>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {tab === 'levels' && (
+                    <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                        {levelForm ? (
+                            <div className="p-4 rounded-xl border border-blue-100 dark:border-blue-900/40 bg-blue-50/50 dark:bg-blue-900/10 space-y-3">
+                                <div className="grid grid-cols-3 gap-3">
+                                    <div>
+                                        <label className={labelClass}>Level ID</label>
+                                        <input value={levelForm.level_id} disabled={!!editingLevelId} onChange={e => setLevelForm({ ...levelForm, level_id: e.target.value })} className={inputClass} placeholder="e.g. L-1" />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Index (0 = ground)</label>
+                                        <input type="number" step="any" value={levelForm.level_index} onChange={e => setLevelForm({ ...levelForm, level_index: Number(e.target.value) })} className={inputClass} />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Name</label>
+                                        <input value={levelForm.level_name || ''} onChange={e => setLevelForm({ ...levelForm, level_name: e.target.value })} className={inputClass} placeholder="e.g. Mezzanine" />
+                                    </div>
+                                </div>
+                                <div className="flex justify-end gap-2">
+                                    <button onClick={() => setLevelForm(null)} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">
+                                        Cancel
+                                    </button>
+                                    <button onClick={handleSaveLevel} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition-colors font-medium">
+                                        {editingLevelId ? 'Update Level' : 'Create Level'}
+                                    </button>
+                                </div>
+                            </div>
+                        ) : (
+                            <button
+                                onClick={() => { setLevelForm({ ...EMPTY_LEVEL }); setEditingLevelId(null); setError(null); }}
+                                className="py-2 px-4 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition-colors flex items-center gap-2 font-medium"
+                            >
+                                <Plus className="w-4 h-4" /> New Level
+                            </button>
+                        )}
+
+                        {levels.length === 0 ? (
+                            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">No levels yet. Levels are shared by all stations.</p>
+                        ) : (
+                            <div className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-100 dark:border-gray-700 rounded-xl">
+                                {levels.map(l => (
+                                    <div key={l.level_id} className="flex items-center gap-3 p-3 text-sm">
+                                        <Layers className="w-4 h-4 text-blue-500 shrink-0" />
+                                        <div className="flex-1 min-w-0">
+                                            <div className="font-medium text-gray-900 dark:text-white truncate">{l.level_name || l.level_id}</div>
+                                            <div className="text-xs text-gray-500 dark:text-gray-400">{l.level_id} · index {l.level_index} · {l.stop_count || 0} stop(s)</div>
+                                        </div>
+                                        <button onClick={() => { setLevelForm({ ...l }); setEditingLevelId(l.level_id); setError(null); }} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors" title="Edit">
+                                            <Pencil className="w-4 h-4" />
+                                        </button>
+                                        <button onClick={() => handleDeleteLevel(l)} className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors" title="Delete">
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default StationsManager;
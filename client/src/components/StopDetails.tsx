@@ -2,25 +2,61 @@ import * as React from 'react';
 import type { Stop } from '../types';
 import { X, Save, Trash2, MapPin } from 'lucide-react';
 import ConfirmModal from './ConfirmModal';
+import TranslationsEditor from './TranslationsEditor';
+import DwellTimesEditor from './DwellTimesEditor';
 import { API_URL } from '../config';
 
+interface Level {
+    level_id: string;
+    level_index: number;
+    level_name: string | null;
+}
+
 interface StopDetailsProps {
     stop: Stop;
+    stops: Stop[];
     onClose: () => void;
     onUpdate: (updatedStop: Stop) => void;
     onDelete: (stopId: string) => Promise<void>;
 }
 
-const StopDetails: React.FC<StopDetailsProps> = ({ stop, onClose, onUpdate, onDelete }) => {
+// stops.txt location_type values
+const LOCATION_TYPES = [
+    { value: 0, label: 'Stop / Platform' },
+    { value: 1, label: 'Station' },
+    { value: 2, label: 'Entrance / Exit' },
+    { value: 3, label: 'Generic node' },
+    { value: 4, label: 'Boarding area' }
+];
+
+const loadLevels = async (): Promise<Level[]> => {
+    const res = await fetch(`${API_URL}/levels`);
+    return res.ok ? res.json() : [];
+};
+
+const StopDetails: React.FC<StopDetailsProps> = ({ stop, stops, onClose, onUpdate, onDelete }) => {
     const [isEditing, setIsEditing] = React.useState(false);
     const [formData, setFormData] = React.useState({ ...stop });
     const [confirmOpen, setConfirmOpen] = React.useState(false);
     const [errorMsg, setErrorMsg] = React.useState<string | null>(null);
+    const [saveError, setSaveError] = React.useState<string | null>(null);
+    const [levels, setLevels] = React.useState<Level[]>([]);
 
     React.useEffect(() => {
         setFormData({ ...stop });
     }, [stop]);
 
+    React.useEffect(() => {
+        if (isEditing) loadLevels().then(setLevels).catch(console.error);
+    }, [isEditing]);
+
+    const locationType = Number(formData.location_type || 0);
+    // Boarding areas hang from a platform of a station, everything else from a station
+    const parentOptions = locationType === 4
+        ? stops.filter(s => !s.location_type && s.parent_station)
+        : stops.filter(s => s.location_type === 1 && s.stop_id !== stop.stop_id);
+    const stopName = (id?: string | null) => stops.find(s => s.stop_id === id)?.stop_name || id;
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         try {
@@ -33,8 +69,10 @@ const StopDetails: React.FC<StopDetailsProps> = ({ stop, onClose, onUpdate, onDe
             if (res.ok) {
                 onUpdate(formData);
                 setIsEditing(false);
+                setSaveError(null);
             } else {
-                alert('Failed to update stop');
+                const data = await res.json().catch(() => ({}));
+                setSaveError(data.error || 'Failed to update stop');
             }
         } catch (err) {
             console.error(err);
@@ -101,6 +139,15 @@ const StopDetails: React.FC<StopDetailsProps> = ({ stop, onClose, onUpdate, onDe
                                         placeholder="Auto-gen"
                                     />
                                 </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Zone</label>
+                                    <input
+                                        className="w-full border p-2 rounded bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                                        value={formData.zone_id || ''}
+                                        onChange={e => setFormData({ ...formData, zone_id: e.target.value })}
+                                        placeholder="None"
+                                    />
+                                </div>
                             </div>
                             <div className="grid grid-cols-2 gap-2">
                                 <div>
@@ -136,9 +183,67 @@ const StopDetails: React.FC<StopDetailsProps> = ({ stop, onClose, onUpdate, onDe
                                     <option value="parking">Parking</option>
                                 </select>
                             </div>
+                            <div>
+                                <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Location Type</label>
+                                <select
+                                    className="w-full border p-2 rounded bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                                    value={locationType}
+                                    onChange={e => setFormData({ ...formData, location_type: Number(e.target.value), parent_station: Number(e.target.value) === 1 ? null : formData.parent_station })}
+                                >
+                                    {LOCATION_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                                </select>
+                            </div>
+                            {locationType !== 1 && (
+                                <div>
+                                    <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">{locationType === 4 ? 'Platform' : 'Parent Station'}</label>
+                                    <select
+                                        className="w-full border p-2 rounded bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                                        value={formData.parent_station || ''}
+                                        onChange={e => setFormData({ ...formData, parent_station: e.target.value || null })}
+                                    >
+                                        <option value="">{locationType === 0 ? 'None' : '-- Select --'}</option>
+                                        {parentOptions.map(s => <option key={s.stop_id} value={s.stop_id}>{s.stop_name}</option>)}
+                                    </select>
+                                </div>
+                            )}
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Level</label>
+                                    <select
+                                        className="w-full border p-2 rounded bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                                        value={formData.level_id || ''}
+                                        onChange={e => setFormData({ ...formData, level_id: e.target.value || null })}
+                                    >
+                                        <option value="">None</option>
+                                        {levels.map(l => <option key={l.level_id} value={l.level_id}>{l.level_name || l.level_id}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Platform</label>
+                                    <input
+                                        className="w-full border p-2 rounded bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                                        value={formData.platform_code || ''}
+                                        onChange={e => setFormData({ ...formData, platform_code: e.target.value })}
+                                        placeholder="e.g. 2A"
+                                    />
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Wheelchair Boarding</label>
+                                <select
+                                    className="w-full border p-2 rounded bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                                    value={formData.wheelchair_boarding || ''}
+                                    onChange={e => setFormData({ ...formData, wheelchair_boarding: e.target.value ? Number(e.target.value) : null })}
+                                >
+                                    <option value="">{formData.parent_station ? 'Same as station' : 'No information'}</option>
+                                    <option value="1">Accessible</option>
+                                    <option value="2">Not accessible</option>
+                                </select>
+                            </div>
+                            {saveError && <p className="text-xs text-red-600 dark:text-red-400">{saveError}</p>}
 
                             <div className="flex gap-2 pt-2">
-                                <button type="button" onClick={() => setIsEditing(false)} className="px-3 py-2 border rounded flex-1 dark:border-gray-600 dark:hover:bg-gray-700">Cancel</button>
+                                <button type="button" onClick={() => { setIsEditing(false); setSaveError(null); }} className="px-3 py-2 border rounded flex-1 dark:border-gray-600 dark:hover:bg-gray-700">Cancel</button>
                                 <button type="submit" className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded flex-1 flex items-center justify-center gap-2">
                                     <Save size={16} /> Save
                                 </button>
@@ -159,11 +264,50 @@ const StopDetails: React.FC<StopDetailsProps> = ({ stop, onClose, onUpdate, onDe
                                     <span className="text-gray-500 dark:text-gray-400 font-semibold">Code:</span>
                                     <span className="font-mono text-xs text-gray-700 dark:text-gray-300">{stop.stop_code || 'N/A'}</span>
 
+                                    <span className="text-gray-500 dark:text-gray-400 font-semibold">Zone:</span>
+                                    <span className="font-mono text-xs text-gray-700 dark:text-gray-300">{stop.zone_id || 'N/A'}</span>
+
+                                    {!!stop.location_type && (
+                                        <>
+                                            <span className="text-gray-500 dark:text-gray-400 font-semibold">Kind:</span>
+                                            <span className="text-xs text-gray-700 dark:text-gray-300">{LOCATION_TYPES.find(t => t.value === stop.location_type)?.label}</span>
+                                        </>
+                                    )}
+
+                                    {stop.parent_station && (
+                                        <>
+                                            <span className="text-gray-500 dark:text-gray-400 font-semibold">In:</span>
+                                            <span className="text-xs text-gray-700 dark:text-gray-300">{stopName(stop.parent_station)}</span>
+                                        </>
+                                    )}
+
+                                    {(stop.level_id || stop.platform_code) && (
+                                        <>
+                                            <span className="text-gray-500 dark:text-gray-400 font-semibold">Level:</span>
+                                            <span className="font-mono text-xs text-gray-700 dark:text-gray-300">
+                                                {stop.level_id || 'N/A'}{stop.platform_code && ` · Platform ${stop.platform_code}`}
+                                            </span>
+                                        </>
+                                    )}
+
+                                    <span className="text-gray-500 dark:text-gray-400 font-semibold">Access:</span>
+                                    <span className={`text-xs ${stop.wheelchair_boarding ? 'text-gray-700 dark:text-gray-300' : 'text-amber-600 dark:text-amber-400'}`}>
+                                        {stop.wheelchair_boarding === 1 ? 'Wheelchair accessible' : stop.wheelchair_boarding === 2 ? 'Not wheelchair accessible' : stop.parent_station ? 'Same as station' : 'Unknown'}
+                                    </span>
+
                                     <span className="text-gray-500 dark:text-gray-400 font-semibold">Loc:</span>
                                     <span className="text-gray-700 dark:text-gray-300">{stop.stop_lat.toFixed(6)}, {stop.stop_lon.toFixed(6)}</span>
                                 </div>
                             </div>
 
+                            <TranslationsEditor
+                                tableName="stops"
+                                recordId={stop.stop_id}
+                                fields={[{ name: 'stop_name', label: 'Name' }, { name: 'stop_desc', label: 'Description' }]}
+                            />
+
+                            <DwellTimesEditor stopId={stop.stop_id} />
+
                             <div className="flex gap-2 pt-2">
                                 <button
                                     onClick={() => setIsEditing(true)}
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { X, Save, ListChecks } from 'lucide-react';
+import { API_URL } from '../config';
+import type { RoutePattern } from '../types';
+import { BOARDING_TYPES, matchRules, type StopRule } from '../utils/stopRules';
+
+interface StopRulesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    routeId: string;
+    directionId: number;
+    pattern?: RoutePattern; // Pattern the rules belong to; missing for a direction without patterns yet (main)
+    stops: { stop_id: string; stop_name: string }[]; // Ordered stops of the pattern
+    rules: StopRule[];
+    tripCount: number;
+    onSaved: (rules: StopRule[], appliedToTrips: boolean) => void;
+}
+
+const StopRulesModal: React.FC<StopRulesModalProps> = ({
+    isOpen,
+    onClose,
+    routeId,
+    directionId,
+    pattern,
+    stops,
+    rules,
+    tripCount,
+    onSaved
+}) => {
+    // Parent remounts the modal per direction and pattern (key), so props only seed the editable copy
+    const [rows, setRows] = useState<StopRule[]>(() => {
+        const matched = matchRules(stops.map(s => s.stop_id), rules);
+        return stops.map((s, i) => ({
+            stop_sequence: i + 1,
+            stop_id: s.stop_id,
+            pickup_type: matched[i]?.pickup_type ?? null,
+            drop_off_type: matched[i]?.drop_off_type ?? null,
+            timepoint: matched[i]?.timepoint ?? null,
+            stop_headsign: matched[i]?.stop_headsign ?? null
+        }));
+    });
+    const [dropOffOnlyCount, setDropOffOnlyCount] = useState(3);
+    const [pickupOnlyCount, setPickupOnlyCount] = useState(3);
+    const [timepointEvery, setTimepointEvery] = useState(5);
+    const [applyToTrips, setApplyToTrips] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!isOpen) return null;
+
+    const updateRow = (index: number, changes: Partial<StopRule>) => {
+        setRows(rows.map((r, i) => i === index ? { ...r, ...changes } : r));
+    };
+
+    // Quick rules
+    const lastIndex = rows.length - 1;
+    const setDropOffOnly = () => setRows(rows.map((r, i) => i > lastIndex - dropOffOnlyCount ? { ...r, pickup_type: 1, drop_off_type: null } : r));
+    const setPickupOnly = () => setRows(rows.map((r, i) => i < pickupOnlyCount ? { ...r, pickup_type: null, drop_off_type: 1 } : r));
+    const setTimepoints = () => setRows(rows.map((r, i) => ({
+        ...r,
+        timepoint: i === 0 || i === lastIndex || (timepointEvery > 0 && i % timepointEvery === 0) ? 1 : 0
+    })));
+    const resetAll = () => setRows(rows.map(r => ({ ...r, pickup_type: null, drop_off_type: null, timepoint: null, stop_headsign: null })));
+
+    const handleSave = async () => {
+        setSaving(true);
+        setError(null);
+        try {
+            const res = await fetch(`${API_URL}/routes/${routeId}/stop_rules`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ direction_id: directionId, pattern_id: pattern?.pattern_id || null, rules: rows, apply_to_trips: applyToTrips })
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to save stop rules');
+                return;
+            }
+            onSaved(rows, applyToTrips);
+            onClose();
+        } catch (err) {
+            console.error(err);
+            setError('Network error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const selectClass = "w-full text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded px-1.5 py-1 text-gray-900 dark:text-gray-100";
+    const countClass = "w-12 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded px-1.5 py-1 text-gray-900 dark:text-gray-100 font-mono";
+    const quickButtonClass = "px-2 py-1 text-xs font-medium text-indigo-600 dark:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded transition-colors";
+    const boardingSelect = (value: number | null | undefined, onChange: (value: number | null) => void) => (
+        <select
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+            className={selectClass}
+        >
+            <option value="">Regular</option>
+            {BOARDING_TYPES.filter(t => t.value !== 0).map(t => (
+                <option key={t.value} value={t.value}>{t.label}</option>
+            ))}
+        </select>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-3xl animate-in fade-in zoom-in duration-200 flex flex-col max-h-[90vh]">
+                <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700">
+                    <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                        <ListChecks className="text-indigo-600" size={20} />
+                        Stop Rules <span className="text-sm font-normal text-gray-500 ml-2">
+                            {directionId === 0 ? 'Outbound' : 'Inbound'}{pattern && !pattern.is_main && ` · ${pattern.pattern_name}`}
+                        </span>
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors text-gray-500 dark:text-gray-400">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-3 overflow-y-auto">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Defaults for every trip of this pattern; other patterns of the direction have their own. New trips take them automatically; single trips can still be changed from the timetable (right click a time).
+                    </p>
+
+                    {error && (
+                        <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 px-3 py-2 rounded border border-red-200 dark:border-red-800 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg border border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-300">
+                        <span className="flex items-center gap-1">
+                            Drop-off only at the last
+                            <input type="number" min="1" max={rows.length} value={dropOffOnlyCount} onChange={(e) => setDropOffOnlyCount(parseInt(e.target.value, 10) || 0)} className={countClass} />
+                            stops
+                            <button onClick={setDropOffOnly} className={quickButtonClass}>Apply</button>
+                        </span>
+                        <span className="flex items-center gap-1">
+                            Pickup only at the first
+                            <input type="number" min="1" max={rows.length} value={pickupOnlyCount} onChange={(e) => setPickupOnlyCount(parseInt(e.target.value, 10) || 0)} className={countClass} />
+                            stops
+                            <button onClick={setPickupOnly} className={quickButtonClass}>Apply</button>
+                        </span>
+                        <span className="flex items-center gap-1">
+                            Timepoints at the terminals and every
+                            <input type="number" min="1" value={timepointEvery} onChange={(e) => setTimepointEvery(parseInt(e.target.value, 10) || 0)} className={countClass} />
+                            th stop
+                            <button onClick={setTimepoints} className={quickButtonClass}>Apply</button>
+                        </span>
+                        <button onClick={resetAll} className="px-2 py-1 text-xs font-medium text-gray-500 hover:text-red-600 rounded transition-colors">
+                            Reset all
+                        </button>
+                    </div>
+
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-xs text-gray-500 dark:text-gray-400 text-left">
+                                <th className="py-1 pr-2 w-8">#</th>
+                                <th className="py-1 pr-2">Stop</th>
+                                <th className="py-1 pr-2 w-32">Pickup</th>
+                                <th className="py-1 pr-2 w-32">Drop-off</th>
+                                <th className="py-1 pr-2 w-28">Time</th>
+                                <th className="py-1 w-40">Stop headsign</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((row, index) => (
+                                <tr key={row.stop_sequence} className="border-t border-gray-100 dark:border-gray-700">
+                                    <td className="py-1 pr-2 text-xs text-gray-400 font-mono">{row.stop_sequence}</td>
+                                    <td className="py-1 pr-2 text-gray-800 dark:text-gray-200 truncate max-w-[200px]" title={row.stop_id}>
+                                        {stops[index]?.stop_name}
+                                    </td>
+                                    <td className="py-1 pr-2">{boardingSelect(row.pickup_type, (v) => updateRow(index, { pickup_type: v }))}</td>
+                                    <td className="py-1 pr-2">{boardingSelect(row.drop_off_type, (v) => updateRow(index, { drop_off_type: v }))}</td>
+                                    <td className="py-1 pr-2">
+                                        <select
+                                            value={row.timepoint ?? ''}
+                                            onChange={(e) => updateRow(index, { timepoint: e.target.value === '' ? null : parseInt(e.target.value, 10) })}
+                                            className={selectClass}
+                                        >
+                                            <option value="">Not set</option>
+                                            <option value="1">Timepoint</option>
+                                            <option value="0">Approximate</option>
+                                        </select>
+                                    </td>
+                                    <td className="py-1">
+                                        <input
+                                            type="text"
+                                            value={row.stop_headsign || ''}
+                                            onChange={(e) => updateRow(index, { stop_headsign: e.target.value || null })}
+                                            placeholder="Trip headsign"
+                                            className={selectClass}
+                                        />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-between items-center gap-3 bg-gray-50 dark:bg-gray-800/50 rounded-b-xl">
+                    <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={applyToTrips}
+                            onChange={(e) => setApplyToTrips(e.target.checked)}
+                            className="rounded text-indigo-600 focus:ring-indigo-500"
+                        />
+                        Also overwrite the {tripCount} existing trips of this pattern
+                    </label>
+                    <div className="flex gap-3">
+                        <button
+                            onClick={onClose}
+                            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="px-6 py-2 text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 rounded-lg shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50"
+                        >
+                            <Save size={16} /> {saving ? 'Saving...' : 'Save Rules'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StopRulesModal;
@@ -9,9 +9,20 @@ interface TimeSlot {
     segment_id: string;
     start_time: string;
     end_time: string;
-    travel_time: number; // in seconds
+    travel_time: number; // in seconds, the optimal running time
+    min_time?: number | null; // Fast and slow bounds, set by calibration
+    max_time?: number | null;
+    samples?: number | null; // Runs the slot was calibrated from
+    service_id?: string | null; // Slot set of one service...
+    day_type?: string | null; // ...or of a day type; neither: all days
 }
 
+// '' for all days, 'day:NAME' or 'service:ID'
+type SlotScope = string;
+
+const slotScope = (slot: TimeSlot): SlotScope =>
+    slot.service_id ? `service:${slot.service_id}` : slot.day_type ? `day:${slot.day_type}` : '';
+
 interface TimeSlotEditorModalProps {
     isOpen: boolean;
     onClose: () => void;
@@ -62,6 +73,9 @@ const formatTimeInput = (val: string): string | null => {
 const TimeSlotEditorModal: React.FC<TimeSlotEditorModalProps> = ({ isOpen, onClose, segment }) => {
     const [slots, setSlots] = useState<TimeSlot[]>([]);
     const [loading, setLoading] = useState(false);
+    const [scope, setScope] = useState<SlotScope>('');
+    const [dayTypes, setDayTypes] = useState<string[]>([]);
+    const [serviceIds, setServiceIds] = useState<string[]>([]);
 
     // Form State
     const [startTime, setStartTime] = useState('00:00:00');
@@ -77,15 +91,20 @@ const TimeSlotEditorModal: React.FC<TimeSlotEditorModalProps> = ({ isOpen, onClo
     useEffect(() => {
         if (isOpen && segment) {
             fetchSlots();
+            fetchScopes();
             // Default duration from segment baseline
             setTravelTimeMinutes(Math.round((segment.travel_time || 0) / 60));
         }
     }, [isOpen, segment]);
 
+    // Slots of the set being edited
+    const scopedSlots = slots.filter(s => slotScope(s) === scope);
+
     // Auto-Sequence: When slots change (or initial load), update start time to last slot's end time
     useEffect(() => {
-        if (slots.length > 0) {
-            const lastSlot = slots[slots.length - 1];
+        const inScope = slots.filter(s => slotScope(s) === scope);
+        if (inScope.length > 0) {
+            const lastSlot = inScope[inScope.length - 1];
             setStartTime(lastSlot.end_time);
 
             // Do NOT auto-calculate end time or duration based on previous slots.
@@ -95,7 +114,7 @@ const TimeSlotEditorModal: React.FC<TimeSlotEditorModalProps> = ({ isOpen, onClo
             // First slot starts at 04:00:00 usually? Or 00:00:00. Let's stick to 00:00:00 default or current 'startTime' state if user edited it.
             // If it's pure init, maybe 04:00:00 is a better GTFS start, but let's leave 00:00:00.
         }
-    }, [slots]); // Only run when list changes
+    }, [slots, scope]); // Only run when list (or the set edited) changes
 
     // Logic: Just format Start Time
     const handleStartTimeBlur = () => {
@@ -135,6 +154,30 @@ const TimeSlotEditorModal: React.FC<TimeSlotEditorModalProps> = ({ isOpen, onClo
         }
     };
 
+    const fetchScopes = async () => {
+        try {
+            const [dayTypesRes, calendarRes] = await Promise.all([
+                fetch(`${API_URL}/day_types`),
+                fetch(`${API_URL}/calendar`)
+            ]);
+            if (dayTypesRes.ok) setDayTypes((await dayTypesRes.json()).map((d: { day_type: string }) => d.day_type));
+            if (calendarRes.ok) setServiceIds((await calendarRes.json()).map((c: { service_id: string }) => c.service_id));
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    const handleScopeChange = (value: string) => {
+        if (value !== '+day') {
+            setScope(value);
+            return;
+        }
+        const name = prompt('Name of the new day type (e.g. Saturday):')?.trim();
+        if (!name) return;
+        if (!dayTypes.includes(name)) setDayTypes(prev => [...prev, name].sort());
+        setScope(`day:${name}`);
+    };
+
     const handleAddSlot = async () => {
         setError(null);
         if (!segment) return;
@@ -168,7 +211,9 @@ const TimeSlotEditorModal: React.FC<TimeSlotEditorModalProps> = ({ isOpen, onClo
                 body: JSON.stringify({
                     start_time: finalStart,
                     end_time: finalEnd,
-                    travel_time: durationSec
+                    travel_time: durationSec,
+                    service_id: scope.startsWith('service:') ? scope.slice('service:'.length) : null,
+                    day_type: scope.startsWith('day:') ? scope.slice('day:'.length) : null
                 })
             });
 
@@ -223,6 +268,34 @@ const TimeSlotEditorModal: React.FC<TimeSlotEditorModalProps> = ({ isOpen, onClo
 
                 <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
 
+                    {/* Slot set: all days, a day type or a single service */}
+                    <div className="flex items-center gap-3 mb-4">
+                        <label className="text-[10px] uppercase font-bold text-gray-500 dark:text-gray-400">Slot Set</label>
+                        <select
+                            value={scope}
+                            onChange={e => handleScopeChange(e.target.value)}
+                            className="flex-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-1.5 text-sm text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 outline-none"
+                        >
+                            <option value="">All days</option>
+                            {dayTypes.length > 0 && (
+                                <optgroup label="Day types">
+                                    {dayTypes.map(d => <option key={d} value={`day:${d}`}>{d}</option>)}
+                                </optgroup>
+                            )}
+                            {serviceIds.length > 0 && (
+                                <optgroup label="Services">
+                                    {serviceIds.map(id => <option key={id} value={`service:${id}`}>{id}</option>)}
+                                </optgroup>
+                            )}
+                            <option value="+day">New day type…</option>
+                        </select>
+                    </div>
+                    {scope !== '' && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2 mb-4">
+                            {scope.startsWith('day:') ? 'Services of this day type' : 'This service'} use these slots instead of the ones for all days, as soon as the set has one.
+                        </p>
+                    )}
+
                     {/* Minimalist Input Row */}
                     <div className="bg-blue-50/50 dark:bg-blue-900/10 p-4 rounded-xl border border-blue-100 dark:border-blue-800 mb-6 shadow-sm">
                         <div className="flex items-end gap-3">
@@ -291,19 +364,23 @@ const TimeSlotEditorModal: React.FC<TimeSlotEditorModalProps> = ({ isOpen, onClo
                     <div>
                         <div className="flex items-center justify-between mb-3">
                             <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Defined Slots</h4>
-                            <span className="text-xs text-gray-400">{slots.length} slots</span>
+                            <span className="text-xs text-gray-400">{scopedSlots.length} slots</span>
                         </div>
 
                         {loading ? (
                             <div className="text-center py-8 text-gray-400 text-sm">Loading slots...</div>
-                        ) : slots.length === 0 ? (
+                        ) : scopedSlots.length === 0 ? (
                             <div className="text-center py-10 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-xl bg-gray-50/50 dark:bg-gray-800/50">
                                 <p className="text-gray-500 dark:text-gray-400 font-medium">No custom slots yet</p>
-                                <p className="text-xs text-gray-400 mt-1">Segments use the default travel time ({Math.round((segment.travel_time || 0) / 60)} min) unless overridden here.</p>
+                                <p className="text-xs text-gray-400 mt-1">
+                                    {scope === ''
+                                        ? `Segments use the default travel time (${Math.round((segment.travel_time || 0) / 60)} min) unless overridden here.`
+                                        : 'While this set is empty, the slots for all days apply.'}
+                                </p>
                             </div>
                         ) : (
                             <div className="grid grid-cols-1 gap-2">
-                                {slots.map((slot, idx) => (
+                                {scopedSlots.map((slot, idx) => (
                                     <div key={slot.id} className="group flex items-center justify-between p-3 bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 rounded-lg hover:border-blue-200 dark:hover:border-blue-900 transition-all shadow-sm hover:shadow-md">
                                         <div className="flex items-center gap-4">
                                             <div className="w-6 h-6 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-500 text-[10px] font-bold flex items-center justify-center">
@@ -318,6 +395,11 @@ const TimeSlotEditorModal: React.FC<TimeSlotEditorModalProps> = ({ isOpen, onClo
                                             <div className="text-xs font-bold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 px-2 py-1 rounded">
                                                 {Math.round(slot.travel_time / 60)} min
                                             </div>
+                                            {slot.min_time != null && slot.max_time != null && (
+                                                <span className="text-xs text-gray-500 dark:text-gray-400" title={slot.samples ? `Calibrated from ${slot.samples} runs` : undefined}>
+                                                    {Math.round(slot.min_time / 60)}–{Math.round(slot.max_time / 60)} min
+                                                </span>
+                                            )}
                                         </div>
 
                                         <button
@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { X, Clock, ArrowRight, Bus } from 'lucide-react';
+import { X, Clock, ArrowRight, Bus, BarChart3 } from 'lucide-react';
 import { API_URL } from '../config';
 import type { Route, Segment, Stop } from '../types';
 import TimeSlotEditorModal from './TimeSlotEditorModal';
+import CalibrationModal from './CalibrationModal';
 import { clsx } from 'clsx';
 
 interface TimeSlotsManagerProps {
@@ -18,6 +19,7 @@ const TimeSlotsManager: React.FC<TimeSlotsManagerProps> = ({ route, onClose }) =
 
     const [selectedSegment, setSelectedSegment] = useState<(Segment & { startName?: string, endName?: string }) | null>(null);
     const [isEditorOpen, setIsEditorOpen] = useState(false);
+    const [isCalibrationOpen, setIsCalibrationOpen] = useState(false);
 
     useEffect(() => {
         fetchData();
@@ -127,7 +129,7 @@ const TimeSlotsManager: React.FC<TimeSlotsManagerProps> = ({ route, onClose }) =
                                     <div className="mt-3 flex flex-wrap gap-2">
                                         {seg.slots!.slice(0, 3).map((slot: any) => (
                                             <span key={slot.id} className="text-[10px] bg-green-50 text-green-700 border border-green-200 px-2 py-1 rounded font-mono">
-                                                {slot.start_time.slice(0, 5)}-{slot.end_time.slice(0, 5)} ({Math.round(slot.travel_time / 60)}m)
+                                                {slot.start_time.slice(0, 5)}-{slot.end_time.slice(0, 5)} ({Math.round(slot.travel_time / 60)}m{slot.min_time != null && slot.max_time != null ? `, ${Math.round(slot.min_time / 60)}-${Math.round(slot.max_time / 60)}` : ''})
                                             </span>
                                         ))}
                                         {seg.slots!.length > 3 && (
@@ -161,6 +163,13 @@ const TimeSlotsManager: React.FC<TimeSlotsManagerProps> = ({ route, onClose }) =
                 </div>
 
                 <div className="flex gap-2">
+                    <button
+                        onClick={() => setIsCalibrationOpen(true)}
+                        className="px-3 py-1.5 rounded-lg text-sm font-medium bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors flex items-center gap-2"
+                        title="Compute slots from the running times of the stored trips"
+                    >
+                        <BarChart3 size={16} /> Calibrate
+                    </button>
                     <div className="flex bg-gray-200 dark:bg-gray-700 rounded-lg p-1">
                         <button
                             onClick={() => setDirection(0)}
@@ -195,6 +204,13 @@ const TimeSlotsManager: React.FC<TimeSlotsManagerProps> = ({ route, onClose }) =
                 )}
             </div>
 
+            <CalibrationModal
+                isOpen={isCalibrationOpen}
+                onClose={() => setIsCalibrationOpen(false)}
+                routeId={route.route_id}
+                onCalibrated={(message) => { alert(message); fetchData(); }}
+            />
+
             {/* Editor Modal */}
             {selectedSegment && (
                 <TimeSlotEditorModal
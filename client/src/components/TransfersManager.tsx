@@ -0,0 +1,425 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeftRight, ArrowRight, Plus, X, Trash2, Pencil, Search, Footprints, MapPin } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { Stop } from '../types';
+
+import { API_URL } from '../config';
+
+interface Transfer {
+    transfer_id: string;
+    from_stop_id: string | null;
+    to_stop_id: string | null;
+    from_route_id: string | null;
+    to_route_id: string | null;
+    from_trip_id: string | null;
+    to_trip_id: string | null;
+    transfer_type: number;
+    min_transfer_time: number | null;
+    from_stop_name?: string | null;
+    to_stop_name?: string | null;
+    from_route_short_name?: string | null;
+    to_route_short_name?: string | null;
+}
+
+type TransferForm = Omit<Transfer, 'transfer_id'>;
+
+interface SuggestedStop {
+    stop_id: string;
+    stop_name: string;
+    routes: { route_id: string, route_short_name: string | null }[];
+}
+
+interface Suggestion {
+    kind: 'shared_stop' | 'walk';
+    from: SuggestedStop;
+    to: SuggestedStop;
+    distance: number;
+    suggested_min_transfer_time: number;
+    existing: boolean;
+}
+
+interface RouteOption {
+    route_id: string;
+    route_short_name: string;
+}
+
+interface TransfersManagerProps {
+    onClose: () => void;
+    stops: Stop[];
+    routes: RouteOption[];
+}
+
+// transfers.txt transfer_type values
+const TRANSFER_TYPES = [
+    { value: 0, label: 'Recommended' },
+    { value: 1, label: 'Timed (guaranteed)' },
+    { value: 2, label: 'Minimum time' },
+    { value: 3, label: 'Not possible' },
+    { value: 4, label: 'In-seat' },
+    { value: 5, label: 'In-seat not allowed' }
+];
+
+const EMPTY_FORM: TransferForm = {
+    from_stop_id: '', to_stop_id: '', from_route_id: '', to_route_id: '', from_trip_id: '', to_trip_id: '',
+    transfer_type: 0, min_transfer_time: null
+};
+
+const typeLabel = (type: number) => TRANSFER_TYPES.find(t => t.value === type)?.label || String(type);
+const routeNames = (stop: SuggestedStop) => stop.routes.map(r => r.route_short_name || r.route_id).join(', ');
+
+const TransfersManager: React.FC<TransfersManagerProps> = ({ onClose, stops, routes }) => {
+    const [tab, setTab] = useState<'transfers' | 'suggestions'>('transfers');
+    const [transfers, setTransfers] = useState<Transfer[]>([]);
+    const [form, setForm] = useState<TransferForm | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Suggestions
+    const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+    const [maxDistance, setMaxDistance] = useState(150);
+    const [acceptType, setAcceptType] = useState(2);
+    const [bothWays, setBothWays] = useState(true);
+    const [hideExisting, setHideExisting] = useState(true);
+    const [isSearching, setIsSearching] = useState(false);
+
+    const fetchTransfers = async () => {
+        try {
+            const res = await fetch(`${API_URL}/transfers`);
+            if (res.ok) setTransfers(await res.json());
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    useEffect(() => {
+        fetchTransfers();
+    }, []);
+
+    const openNew = () => {
+        setForm({ ...EMPTY_FORM });
+        setEditingId(null);
+        setError(null);
+    };
+
+    const openEdit = (t: Transfer) => {
+        setForm({
+            from_stop_id: t.from_stop_id || '', to_stop_id: t.to_stop_id || '',
+            from_route_id: t.from_route_id || '', to_route_id: t.to_route_id || '',
+            from_trip_id: t.from_trip_id || '', to_trip_id: t.to_trip_id || '',
+            transfer_type: t.transfer_type, min_transfer_time: t.min_transfer_time
+        });
+        setEditingId(t.transfer_id);
+        setError(null);
+    };
+
+    const saveTransfer = async (body: TransferForm, id: string | null = null): Promise<string | null> => {
+        const res = await fetch(id ? `${API_URL}/transfers/${id}` : `${API_URL}/transfers`, {
+            method: id ? 'PUT' : 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        if (res.ok) return null;
+        const data = await res.json().catch(() => ({}));
+        return data.error || 'Failed to save transfer';
+    };
+
+    const handleSave = async () => {
+        if (!form) return;
+        try {
+            const saveError = await saveTransfer(form, editingId);
+            if (saveError) {
+                setError(saveError);
+                return;
+            }
+            setForm(null);
+            setEditingId(null);
+            fetchTransfers();
+        } catch (err) {
+            console.error(err);
+            setError('Failed to save transfer');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Delete this transfer?')) return;
+        try {
+            const res = await fetch(`${API_URL}/transfers/${id}`, { method: 'DELETE' });
+            if (res.ok) fetchTransfers();
+            else alert('Failed to delete transfer');
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    const findSuggestions = async () => {
+        setIsSearching(true);
+        try {
+            const res = await fetch(`${API_URL}/transfers/suggestions?max_distance=${maxDistance}`);
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error);
+            setSuggestions(data);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : 'Failed to load suggestions');
+        } finally {
+            setIsSearching(false);
+        }
+    };
+
+    const acceptSuggestion = async (s: Suggestion) => {
+        // Minimum-time transfers take the walking time; other types don't need one
+        const minTime = acceptType === 2 ? Math.max(60, s.suggested_min_transfer_time) : null;
+        const pairs = s.kind === 'walk' && bothWays ? [[s.from, s.to], [s.to, s.from]] : [[s.from, s.to]];
+
+        const errors: string[] = [];
+        for (const [from, to] of pairs) {
+            const saveError = await saveTransfer({ ...EMPTY_FORM, from_stop_id: from.stop_id, to_stop_id: to.stop_id, transfer_type: acceptType, min_transfer_time: minTime });
+            if (saveError) errors.push(`${from.stop_name} → ${to.stop_name}: ${saveError}`);
+        }
+        if (errors.length > 0) alert(errors.join('\n'));
+
+        setSuggestions(prev => prev.map(p => p === s ? { ...p, existing: true } : p));
+        fetchTransfers();
+    };
+
+    const visibleSuggestions = hideExisting ? suggestions.filter(s => !s.existing) : suggestions;
+    const inputClass = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none";
+    const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+    const stopSelect = (field: 'from_stop_id' | 'to_stop_id') => (
+        <select
+            value={form?.[field] || ''}
+            onChange={e => form && setForm({ ...form, [field]: e.target.value })}
+            className={inputClass}
+        >
+            <option value="">-- Select stop --</option>
+            {stops.map(s => <option key={s.stop_id} value={s.stop_id}>{s.stop_name} ({s.stop_id})</option>)}
+        </select>
+    );
+
+    const routeSelect = (field: 'from_route_id' | 'to_route_id') => (
+        <select
+            value={form?.[field] || ''}
+            onChange={e => form && setForm({ ...form, [field]: e.target.value })}
+            className={inputClass}
+        >
+            <option value="">Any route</option>
+            {routes.map(r => <option key={r.route_id} value={r.route_id}>{r.route_short_name || r.route_id}</option>)}
+        </select>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/50 overflow-y-auto h-full w-full z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="relative bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200 transition-colors">
+
+                {/* Header */}
+                <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900/50 transition-colors">
+                    <div>
+                        <h3 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                            <ArrowLeftRight className="w-6 h-6 text-blue-600" />
+                            Transfers
+                        </h3>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Transfer rules between stops, routes and trips (transfers.txt).</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                {/* Tabs */}
+                <div className="flex border-b border-gray-100 dark:border-gray-700 px-6">
+                    {(['transfers', 'suggestions'] as const).map(t => (
+                        <button
+                            key={t}
+                            onClick={() => setTab(t)}
+                            className={clsx(
+                                "px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors",
+                                tab === t ? "border-blue-600 text-blue-600 dark:text-blue-400" : "border-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                            )}
+                        >
+                            {t === 'transfers' ? `Transfers (${transfers.length})` : 'Suggestions'}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    {tab === 'transfers' && (
+                        <>
+                            {form ? (
+                                <div className="p-4 rounded-xl border border-blue-100 dark:border-blue-900/40 bg-blue-50/50 dark:bg-blue-900/10 space-y-3">
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <label className={labelClass}>From stop</label>
+                                            {stopSelect('from_stop_id')}
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>To stop</label>
+                                            {stopSelect('to_stop_id')}
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>From route (optional)</label>
+                                            {routeSelect('from_route_id')}
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>To route (optional)</label>
+                                            {routeSelect('to_route_id')}
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>From trip (optional)</label>
+                                            <input value={form.from_trip_id || ''} onChange={e => setForm({ ...form, from_trip_id: e.target.value })} className={inputClass} placeholder="trip_id" />
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>To trip (optional)</label>
+                                            <input value={form.to_trip_id || ''} onChange={e => setForm({ ...form, to_trip_id: e.target.value })} className={inputClass} placeholder="trip_id" />
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Type</label>
+                                            <select value={form.transfer_type} onChange={e => setForm({ ...form, transfer_type: Number(e.target.value) })} className={inputClass}>
+                                                {TRANSFER_TYPES.map(t => <option key={t.value} value={t.value}>{t.value} - {t.label}</option>)}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Min transfer time (s){form.transfer_type === 2 ? ' *' : ''}</label>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                value={form.min_transfer_time ?? ''}
+                                                onChange={e => setForm({ ...form, min_transfer_time: e.target.value === '' ? null : Number(e.target.value) })}
+                                                className={inputClass}
+                                            />
+                                        </div>
+                                    </div>
+                                    {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                                    <div className="flex justify-end gap-2">
+                                        <button onClick={() => setForm(null)} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">
+                                            Cancel
+                                        </button>
+                                        <button onClick={handleSave} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition-colors font-medium">
+                                            {editingId ? 'Update Transfer' : 'Create Transfer'}
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={openNew}
+                                    className="py-2 px-4 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition-colors flex items-center gap-2 font-medium"
+                                >
+                                    <Plus className="w-4 h-4" /> New Transfer
+                                </button>
+                            )}
+
+                            {transfers.length === 0 ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">No transfers yet. Create one or check the Suggestions tab.</p>
+                            ) : (
+                                <div className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-100 dark:border-gray-700 rounded-xl">
+                                    {transfers.map(t => (
+                                        <div key={t.transfer_id} className="flex items-center gap-3 p-3 text-sm">
+                                            <div className="flex-1 min-w-0">
+                                                <div className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+                                                    <span className="truncate">{t.from_stop_name || t.from_stop_id || t.from_trip_id}</span>
+                                                    <ArrowRight className="w-4 h-4 text-gray-400 shrink-0" />
+                                                    <span className="truncate">{t.to_stop_name || t.to_stop_id || t.to_trip_id}</span>
+                                                </div>
+                                                <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                                                    {t.from_route_id || t.to_route_id
+                                                        ? `Route ${t.from_route_short_name || t.from_route_id || 'any'} → ${t.to_route_short_name || t.to_route_id || 'any'}`
+                                                        : 'Any route'}
+                                                    {(t.from_trip_id || t.to_trip_id) && ` · Trip ${t.from_trip_id || 'any'} → ${t.to_trip_id || 'any'}`}
+                                                </div>
+                                            </div>
+                                            <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 whitespace-nowrap">
+                                                {typeLabel(t.transfer_type)}{t.min_transfer_time !== null ? ` · ${t.min_transfer_time}s` : ''}
+                                            </span>
+                                            <button onClick={() => openEdit(t)} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors" title="Edit">
+                                                <Pencil className="w-4 h-4" />
+                                            </button>
+                                            <button onClick={() => handleDelete(t.transfer_id)} className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors" title="Delete">
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    {tab === 'suggestions' && (
+                        <>
+                            <div className="flex flex-wrap items-end gap-3">
+                                <div>
+                                    <label className={labelClass}>Walking distance (m)</label>
+                                    <input type="number" min={0} max={1000} value={maxDistance} onChange={e => setMaxDistance(Number(e.target.value))} className={clsx(inputClass, 'w-32')} />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Create as</label>
+                                    <select value={acceptType} onChange={e => setAcceptType(Number(e.target.value))} className={inputClass}>
+                                        {TRANSFER_TYPES.slice(0, 4).map(t => <option key={t.value} value={t.value}>{t.value} - {t.label}</option>)}
+                                    </select>
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 py-2">
+                                    <input type="checkbox" checked={bothWays} onChange={e => setBothWays(e.target.checked)} /> Both directions
+                                </label>
+                                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 py-2">
+                                    <input type="checkbox" checked={hideExisting} onChange={e => setHideExisting(e.target.checked)} /> Hide existing
+                                </label>
+                                <button
+                                    onClick={findSuggestions}
+                                    disabled={isSearching}
+                                    className="ml-auto py-2 px-4 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-2 font-medium text-sm"
+                                >
+                                    <Search className="w-4 h-4" /> {isSearching ? 'Searching...' : 'Find Candidates'}
+                                </button>
+                            </div>
+
+                            {visibleSuggestions.length === 0 ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+                                    {suggestions.length === 0 ? 'Search for stops shared by several routes or within walking distance.' : 'All candidates already have transfers.'}
+                                </p>
+                            ) : (
+                                <div className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-100 dark:border-gray-700 rounded-xl">
+                                    {visibleSuggestions.map(s => (
+                                        <div key={`${s.from.stop_id}|${s.to.stop_id}`} className="flex items-center gap-3 p-3 text-sm">
+                                            {s.kind === 'shared_stop'
+                                                ? <MapPin className="w-4 h-4 text-blue-500 shrink-0" />
+                                                : <Footprints className="w-4 h-4 text-amber-500 shrink-0" />}
+                                            <div className="flex-1 min-w-0">
+                                                {s.kind === 'shared_stop' ? (
+                                                    <>
+                                                        <div className="font-medium text-gray-900 dark:text-white truncate">{s.from.stop_name}</div>
+                                                        <div className="text-xs text-gray-500 dark:text-gray-400">Shared by {routeNames(s.from)}</div>
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        <div className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+                                                            <span className="truncate">{s.from.stop_name}</span>
+                                                            <ArrowLeftRight className="w-4 h-4 text-gray-400 shrink-0" />
+                                                            <span className="truncate">{s.to.stop_name}</span>
+                                                        </div>
+                                                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                                                            {routeNames(s.from)} ↔ {routeNames(s.to)} · {s.distance} m · ~{s.suggested_min_transfer_time}s walk
+                                                        </div>
+                                                    </>
+                                                )}
+                                            </div>
+                                            {s.existing ? (
+                                                <span className="text-xs text-green-600 dark:text-green-400 font-medium">Added</span>
+                                            ) : (
+                                                <button
+                                                    onClick={() => acceptSuggestion(s)}
+                                                    className="p-1 px-3 text-xs font-medium text-blue-600 hover:bg-blue-50 dark:text-blue-400 dark:hover:bg-blue-900/20 rounded-md border border-blue-200 dark:border-blue-800 transition-colors"
+                                                >
+                                                    Add
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TransfersManager;
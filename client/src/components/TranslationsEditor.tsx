@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { Languages, Plus, Save, X } from 'lucide-react';
+
+import { API_URL } from '../config';
+
+interface TranslationsEditorProps {
+    tableName: 'agency' | 'stops' | 'routes' | 'trips';
+    recordId: string;
+    fields: { name: string, label: string }[];
+}
+
+interface Translation {
+    field_name: string;
+    language: string;
+    translation: string;
+}
+
+// language -> field_name -> translation
+type TranslationsByLanguage = Record<string, Record<string, string>>;
+
+interface LoadedTranslations {
+    defaultLang: string | null;
+    knownLanguages: string[];
+    byLanguage: TranslationsByLanguage;
+}
+
+const LANG_RE = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+const loadTranslations = async (tableName: string, recordId: string): Promise<LoadedTranslations> => {
+    const params = new URLSearchParams({ table_name: tableName, record_id: recordId });
+    const [metaRes, listRes] = await Promise.all([
+        fetch(`${API_URL}/translations/meta`),
+        fetch(`${API_URL}/translations?${params}`)
+    ]);
+    if (!metaRes.ok || !listRes.ok) throw new Error('Failed to load translations');
+    const meta = await metaRes.json();
+    const list: Translation[] = await listRes.json();
+
+    const byLanguage: TranslationsByLanguage = {};
+    list.forEach(t => {
+        byLanguage[t.language] = { ...byLanguage[t.language], [t.field_name]: t.translation };
+    });
+    return { defaultLang: meta.default_lang, knownLanguages: meta.languages, byLanguage };
+};
+
+const TranslationsEditor: React.FC<TranslationsEditorProps> = ({ tableName, recordId, fields }) => {
+    const [data, setData] = useState<LoadedTranslations | null>(null);
+    const [newLanguage, setNewLanguage] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [dirty, setDirty] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadTranslations(tableName, recordId).then(loaded => {
+            setData(loaded);
+            setDirty(false);
+            setError(null);
+        }).catch(console.error);
+    }, [tableName, recordId]);
+
+    if (!data) return null;
+
+    const languages = Object.keys(data.byLanguage).sort();
+    const suggestions = data.knownLanguages.filter(l => !languages.includes(l) && l !== data.defaultLang);
+
+    const update = (byLanguage: TranslationsByLanguage) => {
+        setData({ ...data, byLanguage });
+        setDirty(true);
+    };
+
+    const setField = (language: string, field: string, value: string) =>
+        update({ ...data.byLanguage, [language]: { ...data.byLanguage[language], [field]: value } });
+
+    const addLanguage = () => {
+        const language = newLanguage.trim();
+        if (!LANG_RE.test(language)) {
+            setError(`"${language}" is not a language code such as "en" or "es-MX"`);
+            return;
+        }
+        if (language === data.defaultLang) {
+            setError(`${language} is the default language; edit the names themselves instead`);
+            return;
+        }
+        setError(null);
+        setNewLanguage('');
+        if (!data.byLanguage[language]) update({ ...data.byLanguage, [language]: {} });
+    };
+
+    const removeLanguage = (language: string) => {
+        const byLanguage = { ...data.byLanguage };
+        delete byLanguage[language];
+        update(byLanguage);
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        setError(null);
+        try {
+            const translations: Translation[] = languages.flatMap(language =>
+                fields.map(f => ({ field_name: f.name, language, translation: data.byLanguage[language][f.name] || '' }))
+            );
+            const res = await fetch(`${API_URL}/translations/${tableName}/${encodeURIComponent(recordId)}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ translations })
+            });
+            if (!res.ok) {
+                const body = await res.json();
+                setError(body.error || 'Failed to save translations');
+                return;
+            }
+            setDirty(false);
+        } catch (err) {
+            console.error(err);
+            setError('Error connecting to server.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const inputClass = "w-full border p-1.5 rounded text-sm bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="flex items-center gap-1.5 text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">
+                    <Languages size={14} /> Translations
+                </span>
+                <span className="text-[11px] text-gray-400" title="From the agency language (agency_lang)">
+                    {data.defaultLang ? `Default: ${data.defaultLang}` : 'No agency language set'}
+                </span>
+            </div>
+
+            {languages.map(language => (
+                <div key={language} className="p-2 rounded border border-gray-200 dark:border-gray-700 space-y-1.5">
+                    <div className="flex items-center justify-between">
+                        <span className="font-mono text-xs font-semibold text-gray-600 dark:text-gray-300">{language}</span>
+                        <button
+                            type="button"
+                            onClick={() => removeLanguage(language)}
+                            className="text-gray-400 hover:text-red-500"
+                            title="Remove language"
+                        >
+                            <X size={14} />
+                        </button>
+                    </div>
+                    {fields.map(f => (
+                        <input
+                            key={f.name}
+                            value={data.byLanguage[language][f.name] || ''}
+                            onChange={e => setField(language, f.name, e.target.value)}
+                            placeholder={f.label}
+                            className={inputClass}
+                        />
+                    ))}
+                </div>
+            ))}
+
+            <div className="flex gap-2">
+                <input
+                    value={newLanguage}
+                    onChange={e => setNewLanguage(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addLanguage(); } }}
+                    placeholder="Language, e.g. fr"
+                    list={`translation-languages-${tableName}`}
+                    className={inputClass}
+                />
+                <datalist id={`translation-languages-${tableName}`}>
+                    {suggestions.map(l => <option key={l} value={l} />)}
+                </datalist>
+                <button
+                    type="button"
+                    onClick={addLanguage}
+                    disabled={!newLanguage.trim()}
+                    className="px-2 border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                    title="Add language"
+                >
+                    <Plus size={16} />
+                </button>
+            </div>
+
+            {error && <p className="text-xs text-red-500">{error}</p>}
+
+            {dirty && (
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="w-full py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                    <Save size={14} /> {saving ? 'Saving...' : 'Save translations'}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default TranslationsEditor;
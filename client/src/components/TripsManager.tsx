@@ -1,10 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { X, Plus, Save, Trash2, Clock, AlertCircle, Wand2, CheckCircle, RefreshCw } from 'lucide-react';
-import type { Route } from '../types';
+import { X, Plus, Save, Trash2, Clock, AlertCircle, Wand2, CheckCircle, RefreshCw, Repeat, ListChecks, Layers, Signpost, Accessibility, Bike, Coffee } from 'lucide-react';
+import type { Route, RoutePattern } from '../types';
 import { clsx } from 'clsx';
 import AutoTripsModal, { type AutoTripsConfig } from './AutoTripsModal';
+import FrequenciesModal, { type Frequency } from './FrequenciesModal';
 import ConfirmModal from './ConfirmModal';
+import StopRulesModal from './StopRulesModal';
+import LayoverRulesModal from './LayoverRulesModal';
+import BulkEditModal from './BulkEditModal';
 import { formatTimeInput } from '../utils/TimeUtils';
+import { boardingLabel, withRules, type StopRule, type StopRuleFields } from '../utils/stopRules';
+import { dwellResolver, type DwellRule } from '../utils/dwellTimes';
+import { timeToSeconds } from '../utils/SimulationEngine';
 
 interface TripsManagerProps {
     route: Route;
@@ -19,9 +26,22 @@ interface Trip {
     direction_id: number;
     shape_id: string;
     stop_times?: StopTime[];
+    frequencies?: Frequency[]; // Non-empty for headway-based (frequencies.txt) trips
+    wheelchair_accessible?: number | null; // 0/empty: inherit the route or service default
+    bikes_allowed?: number | null;
+    pattern_id?: string | null; // Empty: the main pattern of the direction
 }
 
-interface StopTime {
+interface AccessibilityDefault {
+    scope: 'route' | 'service';
+    scope_id: string;
+    wheelchair_accessible: number | null;
+    bikes_allowed: number | null;
+}
+
+type AccessibilityField = 'wheelchair_accessible' | 'bikes_allowed';
+
+interface StopTime extends StopRuleFields {
     trip_id: string;
     stop_id: string;
     stop_sequence: number;
@@ -45,13 +65,19 @@ import { API_URL } from '../config';
 const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
     const [direction, setDirection] = useState<number>(0);
     const [trips, setTrips] = useState<Trip[]>([]);
-    const [stops, setStops] = useState<Stop[]>([]);
-    const [stopsDir0, setStopsDir0] = useState<Stop[]>([]);
-    const [stopsDir1, setStopsDir1] = useState<Stop[]>([]);
+    const [patterns, setPatterns] = useState<RoutePattern[]>([]);
+    const [patternStops, setPatternStops] = useState<Record<string, Stop[]>>({});
+    const [selectedPatterns, setSelectedPatterns] = useState<Record<number, string>>({}); // Pattern shown and used for new trips, per direction
     const [calendars, setCalendars] = useState<Calendar[]>([]);
     const [loading, setLoading] = useState(false);
     const [saving, setSaving] = useState(false);
     const [isAutoModalOpen, setIsAutoModalOpen] = useState(false);
+    const [frequencyTripId, setFrequencyTripId] = useState<string | null>(null);
+    const [stopRules, setStopRules] = useState<Record<string, StopRule[]>>({}); // Per pattern
+    const [isStopRulesOpen, setIsStopRulesOpen] = useState(false);
+    const [isBulkEditOpen, setIsBulkEditOpen] = useState(false);
+    const [isLayoverRulesOpen, setIsLayoverRulesOpen] = useState(false);
+    const [accessibilityDefaults, setAccessibilityDefaults] = useState<AccessibilityDefault[]>([]);
 
     const [selectedServiceId, setSelectedServiceId] = useState<string>('');
 
@@ -69,6 +95,14 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
         fetchData();
     }, [route.route_id, direction]);
 
+    // Time slots of the selected service: its own set, its day type's, or the one for all days
+    useEffect(() => {
+        fetch(`${API_URL}/segments/slots${selectedServiceId ? `?service_id=${encodeURIComponent(selectedServiceId)}` : ''}`)
+            .then(res => res.json())
+            .then(slots => setSegmentSlots(Array.isArray(slots) ? slots : []))
+            .catch(err => console.error('Failed to fetch time slots', err));
+    }, [selectedServiceId]);
+
     const fetchCalendars = async () => {
         try {
             const res = await fetch(`${API_URL}/calendar`);
@@ -82,14 +116,27 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
     const fetchData = async () => {
         setLoading(true);
         try {
-            // 1. Fetch path (ordered stops) for both directions
-            const [path0Res, path1Res] = await Promise.all([
-                fetch(`${API_URL}/routes/${route.route_id}/path?direction_id=0`),
-                fetch(`${API_URL}/routes/${route.route_id}/path?direction_id=1`)
+            // 1. Fetch the patterns of both directions, their paths (ordered stops) and stop rules
+            const [patternsRes, defaultsRes, dwellRes] = await Promise.all([
+                fetch(`${API_URL}/routes/${route.route_id}/patterns`),
+                fetch(`${API_URL}/accessibility/defaults`),
+                fetch(`${API_URL}/dwell_times?route_id=${encodeURIComponent(route.route_id)}`)
             ]);
-
-            const path0Data = await path0Res.json().catch(() => ({}));
-            const path1Data = await path1Res.json().catch(() => ({}));
+            if (defaultsRes.ok) setAccessibilityDefaults(await defaultsRes.json());
+            if (dwellRes.ok) setDwellRules(await dwellRes.json());
+
+            const patternsData: RoutePattern[] = patternsRes.ok ? await patternsRes.json() : [];
+            const paths = await Promise.all(patternsData.map(p =>
+                fetch(`${API_URL}/routes/${route.route_id}/path?direction_id=${p.direction_id}&pattern_id=${encodeURIComponent(p.pattern_id)}`)
+                    .then(res => res.json())
+                    .catch(() => ({}))
+            ));
+            const rules = await Promise.all(patternsData.map(p =>
+                fetch(`${API_URL}/routes/${route.route_id}/stop_rules?direction_id=${p.direction_id}&pattern_id=${encodeURIComponent(p.pattern_id)}`)
+                    .then(res => res.ok ? res.json() : [])
+                    .catch(() => [])
+            ));
+            setStopRules(Object.fromEntries(patternsData.map((p, idx) => [p.pattern_id, rules[idx]])));
 
             // 2. Fetch stops details to get names
             const stopsRes = await fetch(`${API_URL}/stops`); // Optimization: should probably batch fetch or filter
@@ -100,32 +147,23 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
             const segmentsData = await segmentsRes.json();
             setSegments(segmentsData);
 
-            // Fetch time slots for all segments (inefficient n+1 but works for now)
-            // Ideally backend would provide a bulk endpoint
-            const slotsMap: any[] = [];
-            await Promise.all(segmentsData.map(async (seg: any) => {
-                try {
-                    const res = await fetch(`${API_URL}/segments/${seg.segment_id}/slots`);
-                    const slots = await res.json();
-                    if (Array.isArray(slots)) {
-                        slotsMap.push(...slots);
-                    }
-                } catch (e) { console.error(e); }
-            }));
-            setSegmentSlots(slotsMap);
 
             // Map ordered IDs to full stop objects
-            const orderedStops0 = (path0Data.ordered_stop_ids || []).map((id: string) =>
-                allStops.find(s => s.stop_id === id)
-            ).filter(Boolean) as Stop[];
-
-            const orderedStops1 = (path1Data.ordered_stop_ids || []).map((id: string) =>
-                allStops.find(s => s.stop_id === id)
-            ).filter(Boolean) as Stop[];
+            const orderedStops: Record<string, Stop[]> = {};
+            patternsData.forEach((p, idx) => {
+                orderedStops[p.pattern_id] = (paths[idx].ordered_stop_ids || []).map((id: string) =>
+                    allStops.find(s => s.stop_id === id)
+                ).filter(Boolean) as Stop[];
+            });
 
-            setStopsDir0(orderedStops0);
-            setStopsDir1(orderedStops1);
-            setStops(direction === 0 ? orderedStops0 : orderedStops1);
+            setPatterns(patternsData);
+            setPatternStops(orderedStops);
+            // Keep the selected patterns when they still exist, else fall back to the main ones
+            setSelectedPatterns(prev => Object.fromEntries([0, 1].map(dir => {
+                const ofDirection = patternsData.filter(p => p.direction_id === dir);
+                const kept = ofDirection.find(p => p.pattern_id === prev[dir]) || ofDirection.find(p => p.is_main);
+                return [dir, kept?.pattern_id || ''];
+            })));
 
             // 3. Fetch ALL Trips for this route
             const tripsRes = await fetch(`${API_URL}/routes/${route.route_id}/trips`);
@@ -139,6 +177,20 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
         }
     };
 
+    // Stops of the selected pattern of each direction
+    const stopsDir0 = patternStops[selectedPatterns[0]] || [];
+    const stopsDir1 = patternStops[selectedPatterns[1]] || [];
+    const stops = direction === 0 ? stopsDir0 : stopsDir1;
+    // First and last stops of every pattern, where layover rules apply
+    const terminals = [...new Map(Object.values(patternStops)
+        .flatMap(path => path.length > 0 ? [path[0], path[path.length - 1]] : [])
+        .map(s => [s.stop_id, s])).values()];
+
+    // Template trips hold the stops of the patterns and are not part of the timetable
+    const patternTripIds = new Set(patterns.map(p => p.pattern_id));
+    const tripPatternId = (trip: Trip) =>
+        trip.pattern_id || patterns.find(p => p.is_main && p.direction_id === trip.direction_id)?.pattern_id || '';
+
     const handleAddTrip = async () => {
         if (!selectedServiceId) {
             alert('Please create and select a Calendar (Service ID) first!');
@@ -152,7 +204,8 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
             service_id: selectedServiceId,
             direction_id: direction,
             trip_headsign: route.route_long_name || route.route_short_name,
-            trip_id: newTripId
+            trip_id: newTripId,
+            pattern_id: selectedPatterns[direction] || null
         };
 
         try {
@@ -173,6 +226,8 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
 
     const [segments, setSegments] = useState<any[]>([]);
     const [segmentSlots, setSegmentSlots] = useState<any[]>([]); // cache for time slots
+    const [dwellRules, setDwellRules] = useState<DwellRule[]>([]);
+    const dwellAt = dwellResolver(dwellRules);
 
     const addSeconds = (timeStr: string, seconds: number) => {
         if (!timeStr) return '';
@@ -183,6 +238,10 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
         return date.toTimeString().split(' ')[0];
     };
 
+    // Departure after the dwell at a stop in between; vehicles leave the terminals on arrival
+    const departureAfterDwell = (stopId: string, arrival: string, index: number, stopCount: number) =>
+        index > 0 && index < stopCount - 1 ? addSeconds(arrival, dwellAt(route.route_id, stopId, timeToSeconds(arrival))) : arrival;
+
     const handleStopTimeChange = (tripId: string, stopId: string, field: 'arrival' | 'departure', value: string) => {
         setTrips(prev => prev.map(trip => {
             if (trip.trip_id !== tripId) return trip;
@@ -226,8 +285,8 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
                         let travelTime = segment.travel_time || 0;
 
                         // Check for time slot
-                        // We need the arrival time at the START of the segment (which is departure from prevStop)
-                        // If we are propagating, currentTime holds the arrival at prevStop (assuming immediate departure)
+                        // We need the time at the START of the segment (which is departure from prevStop)
+                        // If we are propagating, currentTime holds the departure from prevStop (after its dwell)
                         const activeSlot = segmentSlots.find(slot =>
                             slot.segment_id === segment.segment_id &&
                             currentTime >= slot.start_time &&
@@ -240,15 +299,17 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
 
                         currentTime = addSeconds(currentTime, travelTime);
                     }
+                    const arrival = currentTime;
+                    currentTime = departureAfterDwell(stop.stop_id, arrival, i, stops.length);
                     const existing = timeMap.get(stop.stop_id);
                     if (existing) {
-                        propagated.push({ ...existing, arrival_time: currentTime, departure_time: currentTime });
+                        propagated.push({ ...existing, arrival_time: arrival, departure_time: currentTime });
                     } else {
                         propagated.push({
                             trip_id: tripId,
                             stop_id: stop.stop_id,
                             stop_sequence: i + 1,
-                            arrival_time: currentTime,
+                            arrival_time: arrival,
                             departure_time: currentTime
                         });
                     }
@@ -260,6 +321,30 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
         }));
     };
 
+    // Value a trip is published with: its own, else the route default, else the service default
+    const inheritedAccessibility = (trip: Trip, field: AccessibilityField) => {
+        const fromScope = (scope: AccessibilityDefault['scope'], id: string) =>
+            accessibilityDefaults.find(d => d.scope === scope && d.scope_id === id)?.[field] || 0;
+        return fromScope('route', trip.route_id) || fromScope('service', trip.service_id);
+    };
+
+    // Cycles no value -> yes -> no and saves right away
+    const handleToggleAccessibility = async (trip: Trip, field: AccessibilityField) => {
+        const next = !trip[field] ? 1 : trip[field] === 1 ? 2 : null;
+        try {
+            const res = await fetch(`${API_URL}/trips/${trip.trip_id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ [field]: next })
+            });
+            if (!res.ok) throw new Error('Failed to update trip');
+            setTrips(prev => prev.map(t => t.trip_id === trip.trip_id ? { ...t, [field]: next } : t));
+        } catch (err) {
+            console.error(err);
+            alert('Failed to update trip accessibility');
+        }
+    };
+
     const handleDeleteTrip = async (tripId: string) => {
         if (!confirm('Delete this trip?')) return;
         try {
@@ -339,7 +424,7 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
         return cycleTotal;
     };
 
-    const generateStopTimesForTripAndStops = (tripId: string, startTime: string, pathStops: Stop[]) => {
+    const generateStopTimesForTripAndStops = (tripId: string, startTime: string, pathStops: Stop[], directionId: number) => {
         const newStopTimes: StopTime[] = [];
         let currentTime = startTime;
 
@@ -349,7 +434,7 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
                 const segment = segments.find(s => s.start_node_id === prevStop.stop_id && s.end_node_id === stop.stop_id);
                 if (segment) {
                     let travelTime = segment.travel_time || 0;
-                    // Check for slot based on currentTime (arrival at prev stop)
+                    // Check for slot based on currentTime (departure from prev stop)
                     const activeSlot = segmentSlots.find(slot =>
                         slot.segment_id === segment.segment_id &&
                         currentTime >= slot.start_time &&
@@ -364,135 +449,61 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
                 }
             }
 
+            const arrival = currentTime;
+            currentTime = departureAfterDwell(stop.stop_id, arrival, i, pathStops.length);
             newStopTimes.push({
                 trip_id: tripId,
                 stop_id: stop.stop_id,
                 stop_sequence: i + 1,
-                arrival_time: currentTime,
+                arrival_time: arrival,
                 departure_time: currentTime
             });
         });
 
-        return newStopTimes;
+        // Pickup/drop-off, timepoints and stop headsigns come from the pattern's stop rules
+        return withRules(newStopTimes, stopRules[selectedPatterns[directionId]] || []);
     };
 
     const generateStopTimesForTrip = (tripId: string, startTime: string) => {
-        return generateStopTimesForTripAndStops(tripId, startTime, stops);
+        return generateStopTimesForTripAndStops(tripId, startTime, stops, direction);
     };
 
     const [isClearing, setIsClearing] = useState(false);
     const [showClearConfirm, setShowClearConfirm] = useState(false);
     const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
+    // Departures, stop times and the chained return trips are computed and saved by the server in one go
     const handleBulkCreateTrips = async (config: AutoTripsConfig) => {
-        const serviceIdToUse = selectedServiceId; // Force global ID
-
-        // Check for duplicates in current trips (start time)
-        const existingStartTimes = new Set(
-            trips
-                .filter(t => t.service_id === serviceIdToUse && t.direction_id === 0)
-                .map(t => GetStopTime(t, stopsDir0[0]?.stop_id))
-        );
-
-        const newTripsData: Trip[] = [];
-        const duplicates: string[] = [];
-
-        config.trips.forEach(startTime => {
-            if (existingStartTimes.has(startTime)) {
-                duplicates.push(startTime);
-                return;
-            }
-
-            if (stopsDir0.length > 0) {
-                // Determine start times for Dir 0
-                const tripId0 = Math.floor(100000000 + Math.random() * 900000000).toString();
-                const stopTimes0 = generateStopTimesForTripAndStops(tripId0, startTime, stopsDir0);
-
-                newTripsData.push({
-                    trip_id: tripId0,
-                    route_id: route.route_id,
-                    service_id: serviceIdToUse,
-                    direction_id: 0,
-                    trip_headsign: route.route_long_name || route.route_short_name,
-                    shape_id: '',
-                    stop_times: stopTimes0
-                });
-
-                // Determine start times for Dir 1
-                if (stopsDir1.length > 0) {
-                    const dir0EndTime = stopTimes0[stopTimes0.length - 1]?.arrival_time;
-
-                    const dir0End = stopsDir0[stopsDir0.length - 1].stop_id;
-                    const dir1Start = stopsDir1[0].stop_id;
-                    const seg0to1 = segments.find(s => s.start_node_id === dir0End && s.end_node_id === dir1Start);
-
-                    let currTimeDir1 = dir0EndTime;
-                    if (currTimeDir1 && seg0to1 && seg0to1.travel_time) {
-                        currTimeDir1 = addSeconds(currTimeDir1, seg0to1.travel_time);
-                    }
-
-                    if (currTimeDir1) { // Safety check
-                        const tripId1 = Math.floor(100000000 + Math.random() * 900000000).toString();
-                        const stopTimes1 = generateStopTimesForTripAndStops(tripId1, currTimeDir1, stopsDir1);
-
-                        newTripsData.push({
-                            trip_id: tripId1,
-                            route_id: route.route_id,
-                            service_id: serviceIdToUse,
-                            direction_id: 1,
-                            trip_headsign: route.route_long_name || route.route_short_name,
-                            shape_id: '',
-                            stop_times: stopTimes1
-                        });
-                    }
-                }
-            }
-        });
-
-        if (duplicates.length > 0) {
-            alert(`Skipped ${duplicates.length} duplicate trips at: ${duplicates.join(', ')}`);
+        if (!selectedServiceId) {
+            alert('Please create and select a Calendar (Service ID) first!');
+            return;
         }
-
-        if (newTripsData.length === 0) return;
+        if (config.bands.length === 0 || stopsDir0.length === 0) return;
 
         setSaving(true);
         try {
-            // Persist all new trips immediately
-            // We'll use a Promise.all to save them. ideally we'd have a bulk create endpoint.
-            // For now, loop through.
-            const savePromises = newTripsData.map(async (trip) => {
-                // 1. Create Trip
-                const tripRes = await fetch(`${API_URL}/routes/${route.route_id}/trips`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        ...trip,
-                        stop_times: undefined // Don't send stop_times in trip creation if API doesn't support it yet
-                    })
-                });
-
-                if (!tripRes.ok) throw new Error(`Failed to create trip ${trip.trip_id}`);
-
-                // 2. Create Stop Times
-                if (trip.stop_times && trip.stop_times.length > 0) {
-                    await fetch(`${API_URL}/trips/${trip.trip_id}/stop_times`, {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ stop_times: trip.stop_times })
-                    });
-                }
+            const res = await fetch(`${API_URL}/routes/${route.route_id}/trips/generate`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...config,
+                    service_id: selectedServiceId,
+                    pattern_ids: { 0: selectedPatterns[0] || null, 1: selectedPatterns[1] || null },
+                    trip_headsign: route.route_long_name || route.route_short_name
+                })
             });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to generate trips');
 
-            await Promise.all(savePromises);
-
-            // Update local state only after success
-            setTrips(prev => [...prev, ...newTripsData]);
-            setSuccessMessage(`Successfully created ${newTripsData.length} trips!`);
+            if (data.skipped.length > 0) {
+                alert(`Skipped ${data.skipped.length} duplicate trips at: ${data.skipped.join(', ')}`);
+            }
+            await fetchData();
+            setSuccessMessage(`Successfully created ${data.trip_ids.length} ${config.output === 'frequencies' ? 'frequency-based ' : ''}trips!`);
             setTimeout(() => setSuccessMessage(null), 3000);
-
         } catch (err) {
             console.error(err);
-            alert('Failed to save generated trips. Please try again.');
+            alert(`Failed to save generated trips: ${err instanceof Error ? err.message : err}`);
         } finally {
             setSaving(false);
         }
@@ -502,12 +513,10 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
         setIsClearing(true);
         setShowClearConfirm(false);
 
-        // Filter out pattern trips (t_ROUTEID_DIR) and only delete trips for selectedServiceId
-        const patternTripId = `t_${route.route_id}_${direction}`;
-
+        // Filter out pattern trips and only delete trips for selectedServiceId
         const tripsToDelete = trips
             .filter(t => t.service_id === selectedServiceId) // Only delete for selected service
-            .filter(t => t.trip_id !== patternTripId)      // NEVER delete the pattern trip
+            .filter(t => !patternTripIds.has(t.trip_id))   // NEVER delete a pattern trip
             .map(t => t.trip_id);
 
         if (tripsToDelete.length === 0) {
@@ -534,18 +543,27 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
     };
 
     const handleUpdateTravelTimes = () => {
-        if (!confirm("This will recalculate all stop times for the displayed trips based on the LATEST segment travel times.\n\nThe start time of each trip will be preserved.\n\nContinue?")) return;
+        if (!confirm("This will recalculate all stop times for the displayed trips based on the LATEST segment travel times and stop dwell times.\n\nThe start time of each trip will be preserved.\n\nContinue?")) return;
 
         let updatedCount = 0;
         const updatedTrips = trips.map(trip => {
-            // Only update trips for the current service and direction
-            if (trip.service_id !== selectedServiceId || trip.trip_id === `t_${route.route_id}_${direction}`) return trip;
+            // Only update trips of the displayed service and pattern, whose stops are the ones shown
+            if (!displayedTrips.includes(trip)) return trip;
 
             const firstStopTime = GetStopTime(trip, stops[0]?.stop_id);
             if (!firstStopTime) return trip; // Skip invalid trips
 
-            // Regenerate times using the current segments data
-            const newStopTimes = generateStopTimesForTrip(trip.trip_id, firstStopTime);
+            // Regenerate times using the current segments data, keeping the trip's own stop rules
+            const newStopTimes = generateStopTimesForTrip(trip.trip_id, firstStopTime).map(st => {
+                const existing = trip.stop_times?.find(old => old.stop_sequence === st.stop_sequence && old.stop_id === st.stop_id);
+                return existing ? {
+                    ...st,
+                    pickup_type: existing.pickup_type,
+                    drop_off_type: existing.drop_off_type,
+                    timepoint: existing.timepoint,
+                    stop_headsign: existing.stop_headsign
+                } : st;
+            });
 
             updatedCount++;
             return { ...trip, stop_times: newStopTimes };
@@ -558,7 +576,7 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
 
     // Filter displayed trips AND Sort them by start time
     const displayedTrips = trips
-        .filter(t => t.service_id === selectedServiceId && t.direction_id === direction && t.trip_id !== `t_${route.route_id}_${direction}`)
+        .filter(t => t.service_id === selectedServiceId && t.direction_id === direction && !patternTripIds.has(t.trip_id) && tripPatternId(t) === selectedPatterns[direction])
         .sort((a, b) => {
             const timeA = GetStopTime(a, stops[0]?.stop_id) || '23:59:59';
             const timeB = GetStopTime(b, stops[0]?.stop_id) || '23:59:59';
@@ -604,6 +622,51 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
         setContextMenu(null);
     };
 
+    // Pickup/drop-off, timepoint and headsign of one stop of one trip
+    const handleStopRuleChange = (changes: StopRuleFields) => {
+        if (!contextMenu) return;
+        const { tripId, stopId } = contextMenu;
+
+        setTrips(prev => prev.map(trip => {
+            if (trip.trip_id !== tripId) return trip;
+            const existingTimes = trip.stop_times || [];
+            const stopIndex = existingTimes.findIndex(st => st.stop_id === stopId);
+            if (stopIndex >= 0) {
+                return { ...trip, stop_times: existingTimes.map((st, i) => i === stopIndex ? { ...st, ...changes } : st) };
+            }
+            // Untimed stop: times are left to be interpolated
+            const newStopTime: StopTime = {
+                trip_id: tripId,
+                stop_id: stopId,
+                stop_sequence: stops.findIndex(s => s.stop_id === stopId) + 1,
+                arrival_time: '',
+                departure_time: '',
+                ...changes
+            };
+            return { ...trip, stop_times: [...existingTimes, newStopTime].sort((a, b) => a.stop_sequence - b.stop_sequence) };
+        }));
+        setContextMenu(null);
+    };
+
+    const handleStopHeadsign = () => {
+        if (!contextMenu) return;
+        const current = trips.find(t => t.trip_id === contextMenu.tripId)?.stop_times?.find(st => st.stop_id === contextMenu.stopId)?.stop_headsign;
+        const headsign = prompt('Headsign shown from this stop on (empty to use the trip headsign):', current || '');
+        if (headsign === null) return;
+        handleStopRuleChange({ stop_headsign: headsign.trim() || null });
+    };
+
+    const handleStopRulesSaved = (rules: StopRule[], appliedToTrips: boolean) => {
+        const stored = rules.filter(r => r.pickup_type != null || r.drop_off_type != null || r.timepoint != null || r.stop_headsign);
+        const patternId = selectedPatterns[direction];
+        setStopRules(prev => ({ ...prev, [patternId]: stored }));
+        if (appliedToTrips) {
+            setTrips(prev => prev.map(t => t.direction_id === direction && tripPatternId(t) === patternId && t.stop_times ? { ...t, stop_times: withRules(t.stop_times, stored) } : t));
+        }
+        setSuccessMessage(appliedToTrips ? 'Stop rules saved and applied to the trips!' : 'Stop rules saved!');
+        setTimeout(() => setSuccessMessage(null), 3000);
+    };
+
     const handleRestoreTime = () => {
         if (!contextMenu) return;
         const { tripId, stopId } = contextMenu;
@@ -714,6 +777,23 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
                             Inbound (1)
                         </button>
                     </div>
+
+                    {/* Pattern: branch, short turn, express... of the direction */}
+                    {patterns.filter(p => p.direction_id === direction).length > 1 && (
+                        <div className="flex items-center gap-2">
+                            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Pattern:</label>
+                            <select
+                                value={selectedPatterns[direction] || ''}
+                                onChange={(e) => setSelectedPatterns(prev => ({ ...prev, [direction]: e.target.value }))}
+                                className="border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-1.5 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none shadow-sm"
+                                title="Trips of this pattern are shown; new trips use it"
+                            >
+                                {patterns.filter(p => p.direction_id === direction).map(p => (
+                                    <option key={p.pattern_id} value={p.pattern_id}>{p.pattern_name} ({p.stop_count} stops)</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
                 </div>
 
                 {/* Right: Actions */}
@@ -735,6 +815,31 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
                         <RefreshCw size={18} /> Update Times
                     </button>
 
+                    <button
+                        onClick={() => setIsBulkEditOpen(true)}
+                        className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors font-medium shadow-sm"
+                        title="Shift, stretch, copy or delete the trips of a time window"
+                    >
+                        <Layers size={18} /> Bulk Edit
+                    </button>
+
+                    <button
+                        onClick={() => setIsStopRulesOpen(true)}
+                        disabled={stops.length === 0}
+                        className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors font-medium shadow-sm disabled:opacity-50"
+                        title="Pickup/drop-off, timepoints and stop headsigns of every trip of the selected pattern"
+                    >
+                        <ListChecks size={18} /> Stop Rules
+                    </button>
+
+                    <button
+                        onClick={() => setIsLayoverRulesOpen(true)}
+                        className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors font-medium shadow-sm"
+                        title="Minimum recovery time at the terminals of this route"
+                    >
+                        <Coffee size={18} /> Layovers
+                    </button>
+
                     <button
                         onClick={() => setIsAutoModalOpen(true)}
                         className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-medium shadow-sm"
@@ -805,6 +910,38 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
                                                             {isDuplicate && <AlertCircle size={12} />}
                                                             {trip.trip_id}
                                                         </span>
+                                                        <button
+                                                            onClick={() => setFrequencyTripId(trip.trip_id)}
+                                                            className={clsx(
+                                                                "transition-opacity",
+                                                                trip.frequencies && trip.frequencies.length > 0
+                                                                    ? "text-indigo-500 hover:text-indigo-700"
+                                                                    : "text-gray-400 hover:text-indigo-500 opacity-0 group-hover:opacity-100"
+                                                            )}
+                                                            title="Edit Headways (frequencies.txt)"
+                                                        >
+                                                            <Repeat size={14} />
+                                                        </button>
+                                                        {(['wheelchair_accessible', 'bikes_allowed'] as const).map(field => {
+                                                            const own = trip[field] || 0;
+                                                            const value = own || inheritedAccessibility(trip, field);
+                                                            const Icon = field === 'wheelchair_accessible' ? Accessibility : Bike;
+                                                            const what = field === 'wheelchair_accessible' ? 'Wheelchair accessible' : 'Bikes allowed';
+                                                            return (
+                                                                <button
+                                                                    key={field}
+                                                                    onClick={() => handleToggleAccessibility(trip, field)}
+                                                                    className={clsx(
+                                                                        "transition-opacity",
+                                                                        value === 1 ? "text-emerald-500" : value === 2 ? "text-red-400" : "text-gray-300 dark:text-gray-600",
+                                                                        !own && value !== 0 && "opacity-50"
+                                                                    )}
+                                                                    title={`${what}: ${value === 1 ? 'yes' : value === 2 ? 'no' : 'unknown'}${!own && value !== 0 ? ' (default of the route or service)' : ''}. Click to change.`}
+                                                                >
+                                                                    <Icon size={14} />
+                                                                </button>
+                                                            );
+                                                        })}
                                                         <button
                                                             onClick={() => handleDeleteTrip(trip.trip_id)}
                                                             className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
@@ -813,6 +950,13 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
                                                             <Trash2 size={14} />
                                                         </button>
                                                     </div>
+                                                    {trip.frequencies && trip.frequencies.length > 0 && (
+                                                        <span className="text-[10px] font-medium text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30 px-1.5 rounded">
+                                                            {trip.frequencies.length === 1
+                                                                ? `every ${Math.round(trip.frequencies[0].headway_secs / 60)} min`
+                                                                : `${trip.frequencies.length} headway windows`}
+                                                        </span>
+                                                    )}
                                                 </div>
                                             </th>
                                         )
@@ -846,19 +990,35 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
                                         </td>
 
                                         {/* Stop Times Inputs */}
-                                        {displayedTrips.map(trip => (
-                                            <td key={`${trip.trip_id}-${stop.stop_id}`} className="border-r border-b border-gray-100 dark:border-gray-700/50 p-1 text-center">
-                                                <input
-                                                    type="text"
-                                                    className="w-full text-center py-2 text-sm bg-transparent outline-none focus:bg-blue-50 focus:text-blue-700 font-mono placeholder:text-gray-200 transition-colors text-gray-700 dark:text-gray-300 cursor-context-menu"
-                                                    placeholder="--:--"
-                                                    value={GetStopTime(trip, stop.stop_id)}
-                                                    onChange={(e) => handleStopTimeChange(trip.trip_id, stop.stop_id, 'arrival', e.target.value)}
-                                                    onBlur={(e) => handleStopTimeChange(trip.trip_id, stop.stop_id, 'arrival', formatTimeInput(e.target.value))}
-                                                    onContextMenu={(e) => handleContextMenu(e, trip.trip_id, stop.stop_id)}
-                                                />
-                                            </td>
-                                        ))}
+                                        {displayedTrips.map(trip => {
+                                            const stopTime = trip.stop_times?.find(st => st.stop_id === stop.stop_id);
+                                            const boarding = stopTime ? boardingLabel(stopTime) : null;
+                                            return (
+                                                <td key={`${trip.trip_id}-${stop.stop_id}`} className={clsx(
+                                                    "border-r border-b border-gray-100 dark:border-gray-700/50 p-1 text-center",
+                                                    boarding === 'No stop' && "bg-gray-50 dark:bg-gray-900/40"
+                                                )}>
+                                                    <input
+                                                        type="text"
+                                                        className="w-full text-center py-2 text-sm bg-transparent outline-none focus:bg-blue-50 focus:text-blue-700 font-mono placeholder:text-gray-200 transition-colors text-gray-700 dark:text-gray-300 cursor-context-menu"
+                                                        placeholder="--:--"
+                                                        value={GetStopTime(trip, stop.stop_id)}
+                                                        onChange={(e) => handleStopTimeChange(trip.trip_id, stop.stop_id, 'arrival', e.target.value)}
+                                                        onBlur={(e) => handleStopTimeChange(trip.trip_id, stop.stop_id, 'arrival', formatTimeInput(e.target.value))}
+                                                        onContextMenu={(e) => handleContextMenu(e, trip.trip_id, stop.stop_id)}
+                                                    />
+                                                    {stopTime && (boarding || stopTime.timepoint === 0 || stopTime.stop_headsign) && (
+                                                        <div className="flex items-center justify-center gap-1 text-[9px] leading-3 text-gray-500 dark:text-gray-400">
+                                                            {boarding && <span className="font-medium text-amber-600 dark:text-amber-400">{boarding}</span>}
+                                                            {stopTime.timepoint === 0 && <span title="Approximate time (not a timepoint)">≈</span>}
+                                                            {stopTime.stop_headsign && (
+                                                                <span title={`Headsign: ${stopTime.stop_headsign}`}><Signpost size={10} /></span>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                </td>
+                                            );
+                                        })}
 
                                         {/* Filler */}
                                         <td className="border-b border-gray-100 dark:border-gray-700/50"></td>
@@ -889,6 +1049,41 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
                     >
                         <Trash2 size={14} /> Clear Time (Skip)
                     </button>
+                    <div className="my-1 border-t border-gray-100 dark:border-gray-700" />
+                    {[
+                        { label: 'Regular stop', changes: { pickup_type: null, drop_off_type: null } },
+                        { label: 'Pickup only', changes: { pickup_type: null, drop_off_type: 1 } },
+                        { label: 'Drop-off only', changes: { pickup_type: 1, drop_off_type: null } },
+                        { label: 'On request (ask driver)', changes: { pickup_type: 3, drop_off_type: 3 } },
+                        { label: 'Pass without stopping', changes: { pickup_type: 1, drop_off_type: 1 } }
+                    ].map(option => (
+                        <button
+                            key={option.label}
+                            onClick={() => handleStopRuleChange(option.changes)}
+                            className="w-full text-left px-4 py-1.5 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                    <div className="my-1 border-t border-gray-100 dark:border-gray-700" />
+                    <button
+                        onClick={() => handleStopRuleChange({ timepoint: 1 })}
+                        className="w-full text-left px-4 py-1.5 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                        Exact time (timepoint)
+                    </button>
+                    <button
+                        onClick={() => handleStopRuleChange({ timepoint: 0 })}
+                        className="w-full text-left px-4 py-1.5 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                        Approximate time
+                    </button>
+                    <button
+                        onClick={handleStopHeadsign}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                    >
+                        <Signpost size={14} className="text-blue-500" /> Stop Headsign...
+                    </button>
                 </div>
             )}
 
@@ -900,6 +1095,56 @@ const TripsManager: React.FC<TripsManagerProps> = ({ route, onClose }) => {
                 onGenerate={handleBulkCreateTrips}
             />
 
+            {isBulkEditOpen && (
+                <BulkEditModal
+                    isOpen={true}
+                    onClose={() => setIsBulkEditOpen(false)}
+                    routeId={route.route_id}
+                    directionId={direction}
+                    serviceId={selectedServiceId}
+                    serviceIds={calendars.map(c => c.service_id)}
+                    patterns={patterns}
+                    onApplied={(message) => {
+                        fetchData();
+                        setSuccessMessage(message);
+                        setTimeout(() => setSuccessMessage(null), 3000);
+                    }}
+                />
+            )}
+
+            {isStopRulesOpen && (
+                <StopRulesModal
+                    key={`${direction}-${selectedPatterns[direction]}`}
+                    isOpen={true}
+                    onClose={() => setIsStopRulesOpen(false)}
+                    routeId={route.route_id}
+                    directionId={direction}
+                    pattern={patterns.find(p => p.pattern_id === selectedPatterns[direction])}
+                    stops={stops}
+                    rules={stopRules[selectedPatterns[direction]] || []}
+                    tripCount={trips.filter(t => t.direction_id === direction && !patternTripIds.has(t.trip_id) && tripPatternId(t) === selectedPatterns[direction]).length}
+                    onSaved={handleStopRulesSaved}
+                />
+            )}
+
+            <LayoverRulesModal
+                isOpen={isLayoverRulesOpen}
+                onClose={() => setIsLayoverRulesOpen(false)}
+                routeId={route.route_id}
+                terminals={terminals}
+            />
+
+            {frequencyTripId && (
+                <FrequenciesModal
+                    key={frequencyTripId}
+                    isOpen={true}
+                    onClose={() => setFrequencyTripId(null)}
+                    tripId={frequencyTripId}
+                    frequencies={trips.find(t => t.trip_id === frequencyTripId)?.frequencies || []}
+                    onSaved={(frequencies) => setTrips(prev => prev.map(t => t.trip_id === frequencyTripId ? { ...t, frequencies } : t))}
+                />
+            )}
+
             <ConfirmModal
                 isOpen={showClearConfirm}
                 title="Clear Timetable"
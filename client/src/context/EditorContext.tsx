@@ -1,8 +1,8 @@
 import React, { createContext, useContext, useState, type ReactNode } from 'react';
 
-export type InteractionMode = 'idle' | 'add_stop' | 'add_segment' | 'add_empty_segment';
+export type InteractionMode = 'idle' | 'add_stop' | 'add_segment' | 'add_empty_segment' | 'paint_zone';
 type ElementType = 'stop' | 'segment' | null;
-type PanelType = 'none' | 'routes' | 'routes_catalog' | 'settings' | 'calendar' | 'trips' | 'empty_segments' | 'external_load' | 'simulation';
+type PanelType = 'none' | 'routes' | 'routes_catalog' | 'settings' | 'calendar' | 'trips' | 'empty_segments' | 'external_load' | 'avl_import' | 'simulation' | 'transfers' | 'fares' | 'stations' | 'accessibility';
 
 interface PickingState {
     isActive: boolean;
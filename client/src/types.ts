@@ -5,6 +5,12 @@ export interface Stop {
     stop_lat: number;
     stop_lon: number;
     node_type?: 'regular' | 'parking' | 'depot';
+    zone_id?: string | null;
+    location_type?: number | null; // 0: stop/platform, 1: station, 2: entrance, 3: generic node, 4: boarding area
+    parent_station?: string | null;
+    level_id?: string | null;
+    platform_code?: string | null;
+    wheelchair_boarding?: number | null; // 0/empty: no information, 1: accessible, 2: not accessible
 }
 
 export interface Segment {
@@ -36,6 +42,17 @@ export interface Route {
     parkings?: string[]; // Associated parking stop IDs
 }
 
+// Stop pattern of a route direction (main, branch, short turn, express...)
+export interface RoutePattern {
+    pattern_id: string;
+    route_id: string;
+    direction_id: number;
+    pattern_name: string;
+    is_main: boolean;
+    stop_count: number;
+    trip_count: number;
+}
+
 // Hack to resolve "SyntaxError: The requested module ... does not provide an export named 'Segment'"
 // This ensures that if any file accidentally treats Segment as a value import, it finds something.
 export const Segment = {};
@@ -1,3 +1,7 @@
+import { toCsv } from './csv';
+import type { DwellResolver } from './dwellTimes';
+import type { LayoverResolver } from './layoverRules';
+
 export interface SimTrip {
     trip_id: string;
     route_id: string;
@@ -66,8 +70,15 @@ export const getBusColor = (busId: string): string => {
 export class SimulationEngine {
     private segments: SimSegment[];
     private trips: SimTrip[];
-
-    constructor(trips: any[], segments: any[]) {
+    private layover?: LayoverResolver;
+
+    /**
+     * Trips whose stop_times carry no dwell at a stop in between (arrival = departure) get the
+     * configured dwell there, and the rest of the trip shifts by it, as regenerating it would.
+     * With layover rules, a bus only takes its next trip after the layover at the terminal.
+     */
+    constructor(trips: any[], segments: any[], dwell?: DwellResolver, layover?: LayoverResolver) {
+        this.layover = layover;
         this.segments = segments.map(s => ({
             start_node_id: s.start_node_id,
             end_node_id: s.end_node_id,
@@ -82,6 +93,18 @@ export class SimulationEngine {
                 departure_time: timeToSeconds(st.departure_time)
             })).sort((a: any, b: any) => a.stop_sequence - b.stop_sequence);
 
+            if (dwell) {
+                let shift = 0;
+                stop_times.forEach((st: SimStopTime, i: number) => {
+                    st.arrival_time += shift;
+                    st.departure_time += shift;
+                    if (i === 0 || i === stop_times.length - 1 || st.departure_time > st.arrival_time) return;
+                    const dwellSecs = dwell(t.route_id, st.stop_id, st.arrival_time);
+                    st.departure_time += dwellSecs;
+                    shift += dwellSecs;
+                });
+            }
+
             let startTime = stop_times.length > 0 ? stop_times[0].departure_time : 0;
             let endTime = stop_times.length > 0 ? stop_times[stop_times.length - 1].arrival_time : 0;
 
@@ -104,6 +127,11 @@ export class SimulationEngine {
         this.trips.sort((a, b) => a.start_time - b.start_time);
     }
 
+    /** Trips as simulated, dwell included; the canvas positions buses from these */
+    public getTrips(): SimTrip[] {
+        return this.trips;
+    }
+
     private getEmptyTravelTime(startStopId: string, endStopId: string): number {
         if (startStopId === endStopId) return 0;
         const segment = this.segments.find(s => s.start_node_id === startStopId && s.end_node_id === endStopId);
@@ -139,6 +167,9 @@ export class SimulationEngine {
             let keepChaining = true;
             while (keepChaining) {
                 const lastAssigned = newBus.trips[newBus.trips.length - 1];
+                const layoverTime = this.layover
+                    ? this.layover(currentTrip.route_id, lastAssigned.end_stop_id, lastAssigned.end_time, lastAssigned.end_time - lastAssigned.start_time)
+                    : 0;
 
                 // Find next viable trip
                 let bestNextTripIndex = -1;
@@ -152,7 +183,7 @@ export class SimulationEngine {
 
                     // Calculate positioning time
                     const emptyTravelTime = this.getEmptyTravelTime(lastAssigned.end_stop_id, candidate.stop_times[0].stop_id);
-                    const arrivalAtNextStart = lastAssigned.end_time + emptyTravelTime;
+                    const arrivalAtNextStart = lastAssigned.end_time + emptyTravelTime + layoverTime;
 
                     if (candidate.start_time >= arrivalAtNextStart) {
                         // Viable!
@@ -220,15 +251,15 @@ export class SimulationEngine {
 
     // Export a CSV of the schedule summary
     public generateTrackingTableCSV(buses: LogicalBus[]): string {
-        let csv = "Bus ID,Route(s),Total Trips,Commercial Time (min),Empty Time (min)\n";
-        buses.forEach(b => {
-            const routes = "N/A"; // Could map back to route if stored
-            const commercialTripsCount = b.trips.filter(t => t.type === 'commercial').length;
-            const comMin = Math.round(b.total_commercial_time / 60);
-            const empMin = Math.round(b.total_empty_time / 60);
-            csv += `${b.bus_id},${routes},${commercialTripsCount},${comMin},${empMin}\n`;
-        });
-        return csv;
+        const headers = ['Bus ID', 'Route(s)', 'Total Trips', 'Commercial Time (min)', 'Empty Time (min)'];
+        const rows = buses.map(b => ({
+            'Bus ID': b.bus_id,
+            'Route(s)': "N/A", // Could map back to route if stored
+            'Total Trips': b.trips.filter(t => t.type === 'commercial').length,
+            'Commercial Time (min)': Math.round(b.total_commercial_time / 60),
+            'Empty Time (min)': Math.round(b.total_empty_time / 60)
+        }));
+        return toCsv(rows, headers);
     }
 
     public generateTrackingLog(buses: LogicalBus[]): string {
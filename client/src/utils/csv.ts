@@ -0,0 +1,49 @@
+/**
+ * RFC 4180 CSV serialization.
+ * Mirrored in server/src/utils/csv.ts; keep both in sync.
+ */
+
+export interface CsvOptions {
+    delimiter?: string;  // default ','
+    bom?: boolean;       // prepend a UTF-8 BOM so spreadsheet apps detect the encoding
+    lineEnding?: string; // default '\r\n'
+}
+
+type CsvRow = Record<string, unknown>;
+
+const BOM = '\uFEFF';
+
+/** Quotes a value when it contains the delimiter, a quote or a line break; embedded quotes are doubled */
+export const escapeCsvValue = (value: unknown, delimiter: string = ','): string => {
+    if (value === null || value === undefined) return '';
+    const str = String(value);
+    if (str.includes(delimiter) || str.includes('"') || str.includes('\n') || str.includes('\r')) {
+        return `"${str.replace(/"/g, '""')}"`;
+    }
+    return str;
+};
+
+/** Union of the keys of all rows, in first-seen order, so a row missing a field never drops a column */
+export const csvColumns = (rows: CsvRow[]): string[] => {
+    const columns = new Set<string>();
+    rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+    return [...columns];
+};
+
+export const csvLine = (values: unknown[], options: CsvOptions = {}): string => {
+    const delimiter = options.delimiter ?? ',';
+    return values.map(v => escapeCsvValue(v, delimiter)).join(delimiter) + (options.lineEnding ?? '\r\n');
+};
+
+export const csvHeader = (columns: string[], options: CsvOptions = {}): string => {
+    return (options.bom ? BOM : '') + csvLine(columns, options);
+};
+
+export const csvRow = (columns: string[], row: CsvRow, options: CsvOptions = {}): string => {
+    return csvLine(columns.map(c => row[c]), options);
+};
+
+/** Serializes rows to a CSV document. Columns default to csvColumns(rows). */
+export const toCsv = (rows: CsvRow[], columns: string[] = csvColumns(rows), options: CsvOptions = {}): string => {
+    return csvHeader(columns, options) + rows.map(row => csvRow(columns, row, options)).join('');
+};
@@ -0,0 +1,42 @@
+import { timeToSeconds } from './SimulationEngine';
+
+/** Time a vehicle stands at a stop; without route or band it is the stop's default */
+export interface DwellRule {
+    id: string;
+    stop_id: string;
+    route_id: string | null;
+    start_time: string | null;
+    end_time: string | null;
+    dwell_secs: number;
+}
+
+export type DwellResolver = (routeId: string, stopId: string, atSecs: number) => number;
+
+/**
+ * Dwell at a stop for a route at a time of day, resolved like the server does for timetable
+ * generation: route and band, then route, then band, then the stop's default; else 0.
+ */
+export const dwellResolver = (rules: DwellRule[]): DwellResolver => {
+    const byStop = new Map<string, DwellRule[]>();
+    rules.forEach(rule => byStop.set(rule.stop_id, [...(byStop.get(rule.stop_id) || []), rule]));
+
+    return (routeId, stopId, atSecs) => {
+        const timeOfDay = atSecs % 86400;
+        let best: { rank: number, secs: number } | null = null;
+        for (const rule of byStop.get(stopId) || []) {
+            if (rule.route_id && rule.route_id !== routeId) continue;
+            const banded = !!rule.start_time && !!rule.end_time;
+            if (banded && !(timeOfDay >= timeToSeconds(rule.start_time) && timeOfDay < timeToSeconds(rule.end_time))) continue;
+            const rank = (rule.route_id ? 2 : 0) + (banded ? 1 : 0);
+            if (!best || rank > best.rank) best = { rank, secs: rule.dwell_secs };
+        }
+        return best ? best.secs : 0;
+    };
+};
+
+/** "45 s" or "2 min 30 s" */
+export const formatDwell = (secs: number) => {
+    const m = Math.floor(secs / 60);
+    const s = secs % 60;
+    return m > 0 ? `${m} min${s ? ` ${s} s` : ''}` : `${s} s`;
+};
@@ -0,0 +1,25 @@
+/**
+ * Ray casting test of a [lon, lat] point against a polygon ring of [lon, lat] vertices.
+ * The ring does not need to be closed. Planar, which is fine at city scale.
+ */
+export const pointInPolygon = (point: [number, number], ring: [number, number][]): boolean => {
+    const [x, y] = point;
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/** Great-circle distance in meters between two [lon, lat] points */
+export const distanceMeters = (a: [number, number], b: [number, number]): number => {
+    const R = 6371000;
+    const dLat = (b[1] - a[1]) * Math.PI / 180;
+    const dLon = (b[0] - a[0]) * Math.PI / 180;
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(a[1] * Math.PI / 180) * Math.cos(b[1] * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+    return 2 * R * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
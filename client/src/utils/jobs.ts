@@ -0,0 +1,63 @@
+import { API_URL } from '../config';
+
+// Background jobs run by the server (see /api/jobs)
+export type JobStatus = 'queued' | 'running' | 'completed' | 'error' | 'cancelled';
+
+export interface Job<T = unknown> {
+    job_id: string;
+    type: string;
+    status: JobStatus;
+    progress: number;
+    message: string | null;
+    result: T | null;
+    error: string | null;
+    created_at: string;
+    started_at: string | null;
+    finished_at: string | null;
+}
+
+export const isJobFinished = (job: Job<unknown>) => ['completed', 'error', 'cancelled'].includes(job.status);
+
+export interface JobLogLine {
+    job_id: string;
+    message: string;
+    time: string;
+}
+
+/**
+ * Follows a job over the /jobs/events stream, calling onUpdate with every snapshot
+ * and onLog with every new message. Resolves with the final job.
+ * EventSource reconnects by itself after network hiccups; the promise only rejects
+ * when the server refuses the stream (e.g. unknown job).
+ */
+export const watchJob = <T = unknown>(jobId: string, onUpdate?: (job: Job<T>) => void, onLog?: (line: JobLogLine) => void): Promise<Job<T>> =>
+    new Promise((resolve, reject) => {
+        const source = new EventSource(`${API_URL}/jobs/events?id=${encodeURIComponent(jobId)}`);
+        source.addEventListener('job', e => onUpdate?.(JSON.parse((e as MessageEvent).data)));
+        source.addEventListener('log', e => onLog?.(JSON.parse((e as MessageEvent).data)));
+        source.addEventListener('done', e => {
+            source.close();
+            resolve(JSON.parse((e as MessageEvent).data));
+        });
+        source.onerror = () => {
+            if (source.readyState === EventSource.CLOSED) reject(new Error('Lost connection to the job'));
+        };
+    });
+
+export const cancelJob = async (jobId: string): Promise<boolean> => {
+    const res = await fetch(`${API_URL}/jobs/${jobId}/cancel`, { method: 'POST' });
+    return res.ok;
+};
+
+// Latest queued or running job of a type, e.g. to pick an import back up after reopening a dialog
+export const findActiveJob = async <T = unknown>(type: string): Promise<Job<T> | null> => {
+    try {
+        const res = await fetch(`${API_URL}/jobs?type=${encodeURIComponent(type)}&status=queued,running&limit=1`);
+        if (!res.ok) return null;
+        const jobs = await res.json() as Job<T>[];
+        return jobs[0] || null;
+    } catch (err) {
+        console.error(err);
+        return null;
+    }
+};
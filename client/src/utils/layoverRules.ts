@@ -0,0 +1,37 @@
+import { timeToSeconds } from './SimulationEngine';
+
+/** Layover a route guarantees at its terminals; without terminal or band it is the route's default */
+export interface LayoverRule {
+    id: string;
+    route_id: string;
+    stop_id: string | null;
+    start_time: string | null; // Band of the arrival at the terminal
+    end_time: string | null;
+    min_secs: number;
+    percent: number; // Of the running time of the trip just driven
+}
+
+export type LayoverResolver = (routeId: string, stopId: string, arrivalSecs: number, runningSecs: number) => number;
+
+/**
+ * Layover after arriving at a terminal, resolved like the server does for timetable generation:
+ * terminal and band, then terminal, then band, then the route's default; else 0. A rule asks
+ * for the larger of its minimum and its share of the running time.
+ */
+export const layoverResolver = (rules: LayoverRule[]): LayoverResolver => {
+    const byRoute = new Map<string, LayoverRule[]>();
+    rules.forEach(rule => byRoute.set(rule.route_id, [...(byRoute.get(rule.route_id) || []), rule]));
+
+    return (routeId, stopId, arrivalSecs, runningSecs) => {
+        const timeOfDay = arrivalSecs % 86400;
+        let best: { rank: number, rule: LayoverRule } | null = null;
+        for (const rule of byRoute.get(routeId) || []) {
+            if (rule.stop_id && rule.stop_id !== stopId) continue;
+            const banded = !!rule.start_time && !!rule.end_time;
+            if (banded && !(timeOfDay >= timeToSeconds(rule.start_time) && timeOfDay < timeToSeconds(rule.end_time))) continue;
+            const rank = (rule.stop_id ? 2 : 0) + (banded ? 1 : 0);
+            if (!best || rank > best.rank) best = { rank, rule };
+        }
+        return best ? Math.round(Math.max(best.rule.min_secs, runningSecs * best.rule.percent / 100)) : 0;
+    };
+};
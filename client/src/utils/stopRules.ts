@@ -0,0 +1,56 @@
+/** Per-stop fields of stop_times.txt a trip can inherit from its pattern */
+export interface StopRuleFields {
+    pickup_type?: number | null;
+    drop_off_type?: number | null;
+    timepoint?: number | null;
+    stop_headsign?: string | null;
+}
+
+export interface StopRule extends StopRuleFields {
+    stop_sequence: number;
+    stop_id: string;
+}
+
+// stop_times pickup_type / drop_off_type
+export const BOARDING_TYPES = [
+    { value: 0, label: 'Regular' },
+    { value: 1, label: 'None' },
+    { value: 2, label: 'Phone agency' },
+    { value: 3, label: 'Ask driver' }
+];
+
+/** Short description of how passengers can use a stop, or null for a regular stop */
+export const boardingLabel = (st: StopRuleFields): string | null => {
+    const pickup = st.pickup_type || 0;
+    const dropOff = st.drop_off_type || 0;
+    if (pickup === 0 && dropOff === 0) return null;
+    if (pickup === 1 && dropOff === 1) return 'No stop';
+    if (pickup === 1) return 'Drop-off only';
+    if (dropOff === 1) return 'Pickup only';
+    return 'On request';
+};
+
+/**
+ * Pairs each stop of a trip with the pattern rule of the same stop (n-th visit with n-th
+ * visit), the same way the server applies rules to existing trips.
+ */
+export const matchRules = (stopIds: string[], rules: StopRule[]): (StopRule | undefined)[] => {
+    const seen = new Map<string, number>();
+    return stopIds.map(stopId => {
+        const visit = seen.get(stopId) || 0;
+        seen.set(stopId, visit + 1);
+        return rules.filter(r => r.stop_id === stopId)[visit];
+    });
+};
+
+/** Stop times with the rule fields of the pattern; stops without a rule are reset */
+export const withRules = <T extends { stop_id: string }>(stopTimes: T[], rules: StopRule[]): T[] => {
+    const matched = matchRules(stopTimes.map(st => st.stop_id), rules);
+    return stopTimes.map((st, idx) => ({
+        ...st,
+        pickup_type: matched[idx]?.pickup_type ?? null,
+        drop_off_type: matched[idx]?.drop_off_type ?? null,
+        timepoint: matched[idx]?.timepoint ?? null,
+        stop_headsign: matched[idx]?.stop_headsign ?? null
+    }));
+};
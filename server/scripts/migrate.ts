@@ -0,0 +1,31 @@
+import 'dotenv/config';
+import db, { initDB } from '../src/db';
+import { currentVersion, latestVersion, migrationStatus } from '../src/db/migrate';
+
+// Usage: npm run db:migrate [status|up]
+const command = process.argv[2] || 'status';
+
+const printStatus = () => {
+    const states = migrationStatus(db);
+    console.log(`Database version: ${currentVersion(db)} (code: ${latestVersion()})`);
+    states.forEach(s => {
+        const label = `${String(s.version).padStart(3, '0')}_${s.name}`;
+        const state = !s.known ? 'applied, UNKNOWN to this build' : s.applied_at ? `applied ${s.applied_at}` : 'pending';
+        console.log(`  ${label.padEnd(40)} ${state}`);
+    });
+};
+
+try {
+    if (command === 'status') {
+        printStatus();
+    } else if (command === 'up') {
+        initDB();
+        printStatus();
+    } else {
+        console.error(`Unknown command "${command}". Use "status" or "up".`);
+        process.exitCode = 1;
+    }
+} catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+}
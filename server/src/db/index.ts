@@ -1,6 +1,7 @@
 import Database from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
+import { runMigrations } from './migrate';
 
 const defaultDbPath = path.resolve(__dirname, '../../gtfs.db');
 const dbPath = process.env.DB_PATH ? path.resolve(process.env.DB_PATH) : defaultDbPath;
@@ -16,47 +17,9 @@ export function initDB() {
     const schema = fs.readFileSync(schemaPath, 'utf8');
     db.exec(schema);
 
-    // Migration for new route columns (if they don't exist in old DBs)
-    try {
-        const columns = db.pragma('table_info(routes)') as { name: string }[];
-        const columnNames = columns.map(c => c.name);
-
-        if (!columnNames.includes('route_desc')) {
-            db.prepare('ALTER TABLE routes ADD COLUMN route_desc TEXT').run();
-            console.log('Migrated: Added route_desc to routes');
-        }
-        if (!columnNames.includes('route_url')) {
-            db.prepare('ALTER TABLE routes ADD COLUMN route_url TEXT').run();
-            console.log('Migrated: Added route_url to routes');
-        }
-        if (!columnNames.includes('route_sort_order')) {
-            db.prepare('ALTER TABLE routes ADD COLUMN route_sort_order INTEGER').run();
-            console.log('Migrated: Added route_sort_order to routes');
-        }
-        if (!columnNames.includes('route_text_color')) {
-            db.prepare('ALTER TABLE routes ADD COLUMN route_text_color TEXT').run();
-            console.log('Migrated: Added route_text_color to routes');
-        }
-
-        // Stops Migration
-        const stopColumns = db.pragma('table_info(stops)') as { name: string }[];
-        const stopColumnNames = stopColumns.map(c => c.name);
-        if (!stopColumnNames.includes('node_type')) {
-            db.prepare('ALTER TABLE stops ADD COLUMN node_type TEXT').run();
-            console.log('Migrated: Added node_type to stops');
-        }
-
-
-        // Segments Migration
-        const segmentColumns = db.pragma('table_info(segments)') as { name: string }[];
-        const segmentColumnNames = segmentColumns.map(c => c.name);
-        if (!segmentColumnNames.includes('type')) {
-            db.prepare("ALTER TABLE segments ADD COLUMN type TEXT DEFAULT 'revenue'").run();
-            console.log('Migrated: Added type to segments');
-        }
-    } catch (err) {
-        console.warn('Migration warning:', err);
-    }
+    // schema.sql is the baseline; every change since lives in ./migrations.
+    // Errors propagate so the server refuses to start on a half-migrated or newer database.
+    runMigrations(db);
 
     console.log('Database initialized');
 }
@@ -0,0 +1,77 @@
+import Database from 'better-sqlite3';
+import { MIGRATIONS } from './migrations';
+
+export interface MigrationState {
+    version: number;
+    name: string;
+    applied_at: string | null;
+    known: boolean; // false when the database has it but this build doesn't
+}
+
+export class SchemaTooNewError extends Error {
+    constructor(dbVersion: number, codeVersion: number) {
+        super(`Database schema is at version ${dbVersion} but this build only knows up to ${codeVersion}. Update the code (or restore a matching backup) before starting.`);
+        this.name = 'SchemaTooNewError';
+    }
+}
+
+const ensureTable = (db: Database.Database) => {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TEXT NOT NULL
+        )
+    `);
+};
+
+export const latestVersion = () => MIGRATIONS.reduce((max, m) => Math.max(max, m.version), 0);
+
+export const currentVersion = (db: Database.Database): number => {
+    ensureTable(db);
+    const row = db.prepare('SELECT MAX(version) as version FROM schema_migrations').get() as { version: number | null };
+    return row.version || 0;
+};
+
+/** Every known migration plus any applied one this build doesn't know, by version */
+export const migrationStatus = (db: Database.Database): MigrationState[] => {
+    ensureTable(db);
+    const applied = db.prepare('SELECT version, name, applied_at FROM schema_migrations').all() as { version: number, name: string, applied_at: string }[];
+    const appliedByVersion = new Map(applied.map(a => [a.version, a]));
+
+    const states: MigrationState[] = MIGRATIONS.map(m => ({
+        version: m.version,
+        name: m.name,
+        applied_at: appliedByVersion.get(m.version)?.applied_at || null,
+        known: true
+    }));
+    applied
+        .filter(a => !MIGRATIONS.some(m => m.version === a.version))
+        .forEach(a => states.push({ ...a, known: false }));
+
+    return states.sort((a, b) => a.version - b.version);
+};
+
+/**
+ * Applies pending migrations in version order, each in its own transaction together
+ * with its schema_migrations row, so a failing migration leaves no partial change behind.
+ * Throws SchemaTooNewError when the database was migrated by a newer build.
+ */
+export const runMigrations = (db: Database.Database): number[] => {
+    const dbVersion = currentVersion(db);
+    const codeVersion = latestVersion();
+    if (dbVersion > codeVersion) throw new SchemaTooNewError(dbVersion, codeVersion);
+
+    const recordApplied = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+    const pending = migrationStatus(db).filter(s => s.known && !s.applied_at);
+
+    return pending.map(state => {
+        const migration = MIGRATIONS.find(m => m.version === state.version)!;
+        db.transaction(() => {
+            migration.up(db);
+            recordApplied.run(migration.version, migration.name, new Date().toISOString());
+        })();
+        console.log(`Migrated: ${String(migration.version).padStart(3, '0')}_${migration.name}`);
+        return migration.version;
+    });
+};
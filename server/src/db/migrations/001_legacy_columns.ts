@@ -0,0 +1,17 @@
+import { Migration, addColumnIfMissing } from './util';
+
+// Columns that used to be patched in by initDB on every start
+const migration: Migration = {
+    version: 1,
+    name: 'legacy_columns',
+    up(db) {
+        addColumnIfMissing(db, 'routes', 'route_desc', 'TEXT');
+        addColumnIfMissing(db, 'routes', 'route_url', 'TEXT');
+        addColumnIfMissing(db, 'routes', 'route_sort_order', 'INTEGER');
+        addColumnIfMissing(db, 'routes', 'route_text_color', 'TEXT');
+        addColumnIfMissing(db, 'stops', 'node_type', 'TEXT');
+        addColumnIfMissing(db, 'segments', 'type', "TEXT DEFAULT 'revenue'");
+    }
+};
+
+export default migration;
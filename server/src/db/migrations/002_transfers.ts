@@ -0,0 +1,33 @@
+import { Migration } from './util';
+
+// transfers.txt: rules for changing vehicles between stops, optionally narrowed to routes or trips
+const migration: Migration = {
+    version: 2,
+    name: 'transfers',
+    up(db) {
+        db.exec(`
+            CREATE TABLE transfers (
+                transfer_id TEXT PRIMARY KEY,
+                from_stop_id TEXT,
+                to_stop_id TEXT,
+                from_route_id TEXT,
+                to_route_id TEXT,
+                from_trip_id TEXT,
+                to_trip_id TEXT,
+                transfer_type INTEGER NOT NULL DEFAULT 0, -- 0: recommended, 1: timed, 2: min time, 3: not possible, 4/5: in-seat
+                min_transfer_time INTEGER, -- seconds, required for type 2
+                FOREIGN KEY(from_stop_id) REFERENCES stops(stop_id),
+                FOREIGN KEY(to_stop_id) REFERENCES stops(stop_id)
+            );
+
+            -- GTFS primary key of transfers.txt (empty references count as equal)
+            CREATE UNIQUE INDEX idx_transfers_key ON transfers (
+                IFNULL(from_stop_id, ''), IFNULL(to_stop_id, ''),
+                IFNULL(from_route_id, ''), IFNULL(to_route_id, ''),
+                IFNULL(from_trip_id, ''), IFNULL(to_trip_id, '')
+            );
+        `);
+    }
+};
+
+export default migration;
@@ -0,0 +1,41 @@
+import { Migration } from './util';
+
+// fare_attributes.txt / fare_rules.txt: fare products and the route / zone combinations they apply to
+const migration: Migration = {
+    version: 3,
+    name: 'fares',
+    up(db) {
+        db.exec(`
+            CREATE TABLE fare_attributes (
+                fare_id TEXT PRIMARY KEY,
+                price REAL NOT NULL,
+                currency_type TEXT NOT NULL, -- ISO 4217
+                payment_method INTEGER NOT NULL DEFAULT 0, -- 0: on board, 1: before boarding
+                transfers INTEGER, -- 0, 1 or 2 transfers allowed; NULL = unlimited
+                agency_id TEXT,
+                transfer_duration INTEGER, -- seconds a ticket stays valid for transfers
+                FOREIGN KEY(agency_id) REFERENCES agency(agency_id)
+            );
+
+            CREATE TABLE fare_rules (
+                rule_id TEXT PRIMARY KEY,
+                fare_id TEXT NOT NULL,
+                route_id TEXT,
+                origin_id TEXT,      -- stops.zone_id
+                destination_id TEXT, -- stops.zone_id
+                contains_id TEXT,    -- stops.zone_id
+                FOREIGN KEY(fare_id) REFERENCES fare_attributes(fare_id),
+                FOREIGN KEY(route_id) REFERENCES routes(route_id)
+            );
+
+            -- GTFS primary key of fare_rules.txt (empty fields count as equal)
+            CREATE UNIQUE INDEX idx_fare_rules_key ON fare_rules (
+                fare_id, IFNULL(route_id, ''), IFNULL(origin_id, ''), IFNULL(destination_id, ''), IFNULL(contains_id, '')
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_stops_zone ON stops(zone_id);
+        `);
+    }
+};
+
+export default migration;
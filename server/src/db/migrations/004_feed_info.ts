@@ -0,0 +1,29 @@
+import { Migration } from './util';
+
+// feed_info.txt: publisher settings (a single row) and the version counter bumped on each export
+const migration: Migration = {
+    version: 4,
+    name: 'feed_info',
+    up(db) {
+        db.exec(`
+            CREATE TABLE feed_info (
+                id INTEGER PRIMARY KEY CHECK (id = 1),
+                feed_publisher_name TEXT,
+                feed_publisher_url TEXT,
+                feed_lang TEXT,
+                default_lang TEXT,
+                feed_contact_email TEXT,
+                feed_contact_url TEXT,
+                version_mode TEXT NOT NULL DEFAULT 'date', -- date | increment | manual
+                feed_version TEXT,                         -- verbatim in manual mode, prefix otherwise
+                version_counter INTEGER NOT NULL DEFAULT 0,
+                last_version TEXT,
+                last_exported_at DATETIME
+            );
+
+            INSERT INTO feed_info (id) VALUES (1);
+        `);
+    }
+};
+
+export default migration;
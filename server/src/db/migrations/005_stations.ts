@@ -0,0 +1,39 @@
+import { Migration } from './util';
+
+// levels.txt / pathways.txt: floors of a station and the walking links between its platforms, entrances and nodes
+const migration: Migration = {
+    version: 5,
+    name: 'stations',
+    up(db) {
+        db.exec(`
+            CREATE TABLE levels (
+                level_id TEXT PRIMARY KEY,
+                level_index REAL NOT NULL, -- 0 = ground, positive above, negative below
+                level_name TEXT
+            );
+
+            CREATE TABLE pathways (
+                pathway_id TEXT PRIMARY KEY,
+                from_stop_id TEXT NOT NULL,
+                to_stop_id TEXT NOT NULL,
+                pathway_mode INTEGER NOT NULL, -- 1: walkway, 2: stairs, 3: moving sidewalk, 4: escalator, 5: elevator, 6: fare gate, 7: exit gate
+                is_bidirectional INTEGER NOT NULL DEFAULT 1,
+                length REAL,         -- meters
+                traversal_time INTEGER, -- seconds
+                stair_count INTEGER, -- positive going up, negative going down
+                max_slope REAL,
+                min_width REAL,
+                signposted_as TEXT,
+                reversed_signposted_as TEXT,
+                FOREIGN KEY(from_stop_id) REFERENCES stops(stop_id),
+                FOREIGN KEY(to_stop_id) REFERENCES stops(stop_id)
+            );
+
+            CREATE INDEX idx_pathways_from ON pathways(from_stop_id);
+            CREATE INDEX idx_pathways_to ON pathways(to_stop_id);
+            CREATE INDEX IF NOT EXISTS idx_stops_parent ON stops(parent_station);
+        `);
+    }
+};
+
+export default migration;
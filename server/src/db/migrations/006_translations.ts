@@ -0,0 +1,29 @@
+import { Migration } from './util';
+
+// translations.txt: names of agencies, stops, routes and trips in other languages
+const migration: Migration = {
+    version: 6,
+    name: 'translations',
+    up(db) {
+        db.exec(`
+            CREATE TABLE translations (
+                translation_id TEXT PRIMARY KEY,
+                table_name TEXT NOT NULL, -- agency, stops, routes, trips
+                field_name TEXT NOT NULL,
+                language TEXT NOT NULL,   -- IETF BCP 47
+                translation TEXT NOT NULL,
+                record_id TEXT,           -- the translated record...
+                record_sub_id TEXT,
+                field_value TEXT          -- ...or every record whose field has this value
+            );
+
+            -- GTFS primary key of translations.txt (empty fields count as equal)
+            CREATE UNIQUE INDEX idx_translations_key ON translations (
+                table_name, field_name, language, IFNULL(record_id, ''), IFNULL(record_sub_id, ''), IFNULL(field_value, '')
+            );
+            CREATE INDEX idx_translations_record ON translations(table_name, record_id);
+        `);
+    }
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import { Migration } from './util';
+
+// Per-stop defaults of a route pattern (route + direction) that every trip of the pattern inherits
+const migration: Migration = {
+    version: 7,
+    name: 'pattern_stop_rules',
+    up(db) {
+        db.exec(`
+            CREATE TABLE pattern_stop_rules (
+                route_id TEXT NOT NULL,
+                direction_id INTEGER NOT NULL,
+                stop_sequence INTEGER NOT NULL, -- position in the pattern, 1-based
+                stop_id TEXT NOT NULL,          -- trips are matched by stop, so a redrawn path keeps its rules
+                pickup_type INTEGER,
+                drop_off_type INTEGER,
+                timepoint INTEGER,
+                stop_headsign TEXT,
+                PRIMARY KEY (route_id, direction_id, stop_sequence)
+            );
+        `);
+    }
+};
+
+export default migration;
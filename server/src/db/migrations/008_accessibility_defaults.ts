@@ -0,0 +1,20 @@
+import { Migration } from './util';
+
+// Wheelchair and bike defaults of a route or a service; trips without their own value inherit them
+const migration: Migration = {
+    version: 8,
+    name: 'accessibility_defaults',
+    up(db) {
+        db.exec(`
+            CREATE TABLE accessibility_defaults (
+                scope TEXT NOT NULL,    -- route, service
+                scope_id TEXT NOT NULL, -- route_id or service_id
+                wheelchair_accessible INTEGER,
+                bikes_allowed INTEGER,
+                PRIMARY KEY (scope, scope_id)
+            );
+        `);
+    }
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import { Migration, addColumnIfMissing } from './util';
+
+// Named stop patterns (branches, short turns, express) besides the main one of each route
+// direction. The stop sequence of a pattern lives in its template trip, like the main one.
+const migration: Migration = {
+    version: 9,
+    name: 'route_patterns',
+    up(db) {
+        db.exec(`
+            CREATE TABLE route_patterns (
+                pattern_id TEXT PRIMARY KEY, -- id of the template trip
+                route_id TEXT NOT NULL,
+                direction_id INTEGER NOT NULL,
+                pattern_name TEXT NOT NULL,
+                FOREIGN KEY(route_id) REFERENCES routes(route_id)
+            );
+            CREATE INDEX idx_route_patterns_route ON route_patterns(route_id, direction_id);
+        `);
+        // Pattern a trip was built from; empty means the main pattern
+        addColumnIfMissing(db, 'trips', 'pattern_id', 'TEXT');
+    }
+};
+
+export default migration;
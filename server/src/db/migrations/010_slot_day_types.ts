@@ -0,0 +1,21 @@
+import { Migration, addColumnIfMissing } from './util';
+
+// Segment time slots scoped to one service or to a named day type (weekday, Saturday...);
+// slots with neither apply to every service
+const migration: Migration = {
+    version: 10,
+    name: 'slot_day_types',
+    up(db) {
+        db.exec(`
+            CREATE TABLE service_day_types (
+                service_id TEXT PRIMARY KEY,
+                day_type TEXT NOT NULL
+            );
+        `);
+        addColumnIfMissing(db, 'segment_time_slots', 'service_id', 'TEXT');
+        addColumnIfMissing(db, 'segment_time_slots', 'day_type', 'TEXT');
+        db.exec('CREATE INDEX IF NOT EXISTS idx_segment_time_slots_segment ON segment_time_slots(segment_id)');
+    }
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+import { Migration, addColumnIfMissing } from './util';
+
+// Spread of a slot's running time: travel_time is the optimal value, min_time and
+// max_time its fast and slow bounds (NULL on slots entered by hand)
+const migration: Migration = {
+    version: 11,
+    name: 'slot_spread',
+    up(db) {
+        addColumnIfMissing(db, 'segment_time_slots', 'min_time', 'INTEGER');
+        addColumnIfMissing(db, 'segment_time_slots', 'max_time', 'INTEGER');
+        addColumnIfMissing(db, 'segment_time_slots', 'samples', 'INTEGER');
+    }
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+import { Migration } from './util';
+
+// Time a vehicle stands at a stop between arrival and departure. A rule without route or
+// band is the stop's default; route_id and start_time/end_time narrow it to a route or a time of day
+const migration: Migration = {
+    version: 12,
+    name: 'dwell_times',
+    up(db) {
+        db.exec(`
+            CREATE TABLE dwell_times (
+                id TEXT PRIMARY KEY,
+                stop_id TEXT NOT NULL,
+                route_id TEXT,    -- NULL for every route
+                start_time TEXT,  -- NULL with end_time for the whole day
+                end_time TEXT,
+                dwell_secs INTEGER NOT NULL
+            );
+            CREATE INDEX idx_dwell_times_stop ON dwell_times(stop_id);
+        `);
+    }
+};
+
+export default migration;
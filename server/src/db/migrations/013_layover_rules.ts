@@ -0,0 +1,25 @@
+import { Migration } from './util';
+
+// Recovery time of a route at its terminals: the larger of min_secs and a percent of the
+// running time just driven. stop_id and start_time/end_time (arrival) narrow a rule to a
+// terminal or a time of day
+const migration: Migration = {
+    version: 13,
+    name: 'layover_rules',
+    up(db) {
+        db.exec(`
+            CREATE TABLE layover_rules (
+                id TEXT PRIMARY KEY,
+                route_id TEXT NOT NULL,
+                stop_id TEXT,     -- NULL for every terminal of the route
+                start_time TEXT,  -- NULL with end_time for the whole day
+                end_time TEXT,
+                min_secs INTEGER NOT NULL DEFAULT 0,
+                percent REAL NOT NULL DEFAULT 0
+            );
+            CREATE INDEX idx_layover_rules_route ON layover_rules(route_id);
+        `);
+    }
+};
+
+export default migration;
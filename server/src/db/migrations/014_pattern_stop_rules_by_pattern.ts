@@ -0,0 +1,33 @@
+import { Migration } from './util';
+
+// Stop rules belong to one pattern of a direction (main, branch, short turn...), not to the
+// direction as a whole. Existing rules were written for the main pattern (t_ROUTE_DIR)
+const migration: Migration = {
+    version: 14,
+    name: 'pattern_stop_rules_by_pattern',
+    up(db) {
+        db.exec(`
+            CREATE TABLE pattern_stop_rules_new (
+                pattern_id TEXT NOT NULL,       -- id of the pattern's template trip
+                route_id TEXT NOT NULL,
+                stop_sequence INTEGER NOT NULL, -- position in the pattern, 1-based
+                stop_id TEXT NOT NULL,          -- trips are matched by stop, so a redrawn path keeps its rules
+                pickup_type INTEGER,
+                drop_off_type INTEGER,
+                timepoint INTEGER,
+                stop_headsign TEXT,
+                PRIMARY KEY (pattern_id, stop_sequence)
+            );
+
+            INSERT INTO pattern_stop_rules_new (pattern_id, route_id, stop_sequence, stop_id, pickup_type, drop_off_type, timepoint, stop_headsign)
+            SELECT 't_' || route_id || '_' || direction_id, route_id, stop_sequence, stop_id, pickup_type, drop_off_type, timepoint, stop_headsign
+            FROM pattern_stop_rules;
+
+            DROP TABLE pattern_stop_rules;
+            ALTER TABLE pattern_stop_rules_new RENAME TO pattern_stop_rules;
+            CREATE INDEX idx_pattern_stop_rules_route ON pattern_stop_rules(route_id);
+        `);
+    }
+};
+
+export default migration;
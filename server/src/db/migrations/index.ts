@@ -0,0 +1,33 @@
+import { Migration } from './util';
+import legacyColumns from './001_legacy_columns';
+import transfers from './002_transfers';
+import fares from './003_fares';
+import feedInfo from './004_feed_info';
+import stations from './005_stations';
+import translations from './006_translations';
+import patternStopRules from './007_pattern_stop_rules';
+import accessibilityDefaults from './008_accessibility_defaults';
+import routePatterns from './009_route_patterns';
+import slotDayTypes from './010_slot_day_types';
+import slotSpread from './011_slot_spread';
+import dwellTimes from './012_dwell_times';
+import layoverRules from './013_layover_rules';
+import patternStopRulesByPattern from './014_pattern_stop_rules_by_pattern';
+
+// In version order. New migrations go at the end, in a file named NNN_description.ts
+export const MIGRATIONS: Migration[] = [
+    legacyColumns,
+    transfers,
+    fares,
+    feedInfo,
+    stations,
+    translations,
+    patternStopRules,
+    accessibilityDefaults,
+    routePatterns,
+    slotDayTypes,
+    slotSpread,
+    dwellTimes,
+    layoverRules,
+    patternStopRulesByPattern
+];
@@ -0,0 +1,21 @@
+import Database from 'better-sqlite3';
+
+/**
+ * One schema change. `version` must be unique and increasing; once a migration has
+ * shipped, never edit it — add a new one instead.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up(db: Database.Database): void;
+}
+
+export const hasColumn = (db: Database.Database, table: string, column: string): boolean =>
+    (db.pragma(`table_info(${table})`) as { name: string }[]).some(c => c.name === column);
+
+// For columns that schema.sql already creates on fresh databases but older ones lack
+export const addColumnIfMissing = (db: Database.Database, table: string, column: string, definition: string) => {
+    if (!hasColumn(db, table, column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+};
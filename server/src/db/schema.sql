@@ -1,3 +1,6 @@
+-- Baseline schema, applied with IF NOT EXISTS on every start.
+-- Changes to existing tables go in ./migrations (see migrate.ts), never here alone.
+
 -- GTFS Tables
 CREATE TABLE IF NOT EXISTS agency (
     agency_id TEXT PRIMARY KEY,
@@ -75,6 +78,16 @@ CREATE TABLE IF NOT EXISTS stop_times (
     FOREIGN KEY(stop_id) REFERENCES stops(stop_id)
 );
 
+CREATE TABLE IF NOT EXISTS frequencies (
+    trip_id TEXT NOT NULL,
+    start_time TEXT NOT NULL, -- HH:MM:SS
+    end_time TEXT NOT NULL,   -- HH:MM:SS
+    headway_secs INTEGER NOT NULL,
+    exact_times INTEGER DEFAULT 0, -- 0: frequency-based, 1: schedule-based
+    PRIMARY KEY(trip_id, start_time),
+    FOREIGN KEY(trip_id) REFERENCES trips(trip_id)
+);
+
 CREATE TABLE IF NOT EXISTS calendar (
     service_id TEXT PRIMARY KEY,
     monday INTEGER NOT NULL,
@@ -88,6 +101,13 @@ CREATE TABLE IF NOT EXISTS calendar (
     end_date TEXT NOT NULL    -- YYYYMMDD
 );
 
+CREATE TABLE IF NOT EXISTS calendar_dates (
+    service_id TEXT NOT NULL,
+    date TEXT NOT NULL, -- YYYYMMDD
+    exception_type INTEGER NOT NULL, -- 1: service added, 2: service removed
+    PRIMARY KEY(service_id, date)
+);
+
 CREATE TABLE IF NOT EXISTS shapes (
     shape_id TEXT NOT NULL,
     shape_pt_lat REAL NOT NULL,
@@ -130,3 +150,20 @@ CREATE TABLE IF NOT EXISTS route_parkings (
     FOREIGN KEY(route_id) REFERENCES routes(route_id) ON DELETE CASCADE,
     FOREIGN KEY(stop_id) REFERENCES stops(stop_id)
 );
+
+-- Background jobs (imports, exports, map setup); see services/jobQueue.ts
+CREATE TABLE IF NOT EXISTS jobs (
+    job_id TEXT PRIMARY KEY,
+    type TEXT NOT NULL, -- 'gtfs_import', 'structured_import', 'gtfs_export', 'osrm_setup'
+    status TEXT NOT NULL DEFAULT 'queued', -- queued, running, completed, error, cancelled
+    progress INTEGER DEFAULT 0, -- 0-100
+    message TEXT,
+    params TEXT, -- JSON
+    result TEXT, -- JSON
+    error TEXT,
+    created_at TEXT NOT NULL,
+    started_at TEXT,
+    finished_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status, created_at);
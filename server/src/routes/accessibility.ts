@@ -0,0 +1,73 @@
+import { FastifyInstance } from 'fastify';
+import db from '../db';
+import { DEFAULT_SCOPES, DefaultScope, accessibilityError, accessibilityAudit } from '../services/accessibility';
+
+interface DefaultsBody {
+    wheelchair_accessible?: number | null;
+    bikes_allowed?: number | null;
+}
+
+// Table each default scope points to
+const SCOPE_TABLES: Record<DefaultScope, { table: string, key: string }> = {
+    route: { table: 'routes', key: 'route_id' },
+    service: { table: 'calendar', key: 'service_id' }
+};
+
+export default async function accessibilityRoutes(fastify: FastifyInstance) {
+
+    // GET Route and service defaults
+    fastify.get('/accessibility/defaults', async (request, reply) => {
+        try {
+            return db.prepare('SELECT * FROM accessibility_defaults ORDER BY scope, scope_id').all();
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch accessibility defaults' });
+        }
+    });
+
+    // PUT Defaults of one route or service; both values empty removes them
+    fastify.put('/accessibility/defaults/:scope/:id', async (request, reply) => {
+        const { scope, id } = request.params as { scope: string, id: string };
+        const body = (request.body || {}) as DefaultsBody;
+
+        if (!DEFAULT_SCOPES.includes(scope as DefaultScope)) {
+            return reply.code(400).send({ error: `scope must be one of: ${DEFAULT_SCOPES.join(', ')}` });
+        }
+        // Empty strings from the form mean "not set"
+        const value = (v: unknown) => v === '' || v === undefined || v === null ? null : Number(v);
+        const wheelchair = value(body.wheelchair_accessible);
+        const bikes = value(body.bikes_allowed);
+        const error = accessibilityError('wheelchair_accessible', wheelchair) || accessibilityError('bikes_allowed', bikes);
+        if (error) return reply.code(400).send({ error });
+
+        try {
+            const { table, key } = SCOPE_TABLES[scope as DefaultScope];
+            if (!db.prepare(`SELECT 1 FROM ${table} WHERE ${key} = ?`).get(id)) {
+                return reply.code(404).send({ error: `${scope === 'route' ? 'Route' : 'Service'} not found` });
+            }
+
+            if (!wheelchair && !bikes) {
+                db.prepare('DELETE FROM accessibility_defaults WHERE scope = ? AND scope_id = ?').run(scope, id);
+            } else {
+                db.prepare(`
+                    INSERT INTO accessibility_defaults (scope, scope_id, wheelchair_accessible, bikes_allowed) VALUES (?, ?, ?, ?)
+                    ON CONFLICT(scope, scope_id) DO UPDATE SET wheelchair_accessible = excluded.wheelchair_accessible, bikes_allowed = excluded.bikes_allowed
+                `).run(scope, id, wheelchair || null, bikes || null);
+            }
+            return { scope, scope_id: id, wheelchair_accessible: wheelchair || null, bikes_allowed: bikes || null };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to save accessibility defaults' });
+        }
+    });
+
+    // GET Coverage report: unknown stops and trips, accessible share per route
+    fastify.get('/accessibility/audit', async (request, reply) => {
+        try {
+            return accessibilityAudit();
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to build accessibility audit' });
+        }
+    });
+}
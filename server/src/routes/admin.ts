@@ -16,13 +16,27 @@ export default async function adminRoutes(fastify: FastifyInstance) {
 
                 // Delete all data from all tables
                 const tables = [
+                    'translations',
+                    'pathways',
+                    'levels',
+                    'transfers',
+                    'fare_rules',
+                    'fare_attributes',
                     'segment_time_slots',
+                    'frequencies',
+                    'pattern_stop_rules',
+                    'dwell_times',
+                    'layover_rules',
+                    'accessibility_defaults',
+                    'route_patterns',
+                    'service_day_types',
                     'stop_times',
                     'trips',
                     'shapes',
                     'segments',
                     'routes',
                     'stops',
+                    'calendar_dates',
                     'calendar',
                     'agency'
                 ];
@@ -1,6 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import db from '../db';
 import { v4 as uuidv4 } from 'uuid';
+import { deleteTranslations } from '../services/translations';
 
 interface AgencyBody {
     agency_id?: string;
@@ -97,6 +98,10 @@ export default async function agencyRoutes(fastify: FastifyInstance) {
                 return reply.code(404).send({ error: 'Agency not found' });
             }
 
+            // Its fares stay, as fares of the whole feed
+            db.prepare('UPDATE fare_attributes SET agency_id = NULL WHERE agency_id = ?').run(id);
+            deleteTranslations('agency', id);
+
             return { success: true };
         } catch (err) {
             console.error(err);
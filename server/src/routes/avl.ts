@@ -0,0 +1,115 @@
+import { FastifyInstance } from 'fastify';
+import db from '../db';
+import { v4 as uuidv4 } from 'uuid';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
+import { pipeline } from 'stream';
+import jobQueue, { Job, JobContext } from '../services/jobQueue';
+import { AvlImportParams, AvlImportResult, avlParamsError, processAvlImport } from '../services/avlImport';
+import { CalibrationSettings, DEFAULT_CALIBRATION, calibrationSettingsError, replaceSlots } from '../services/calibration';
+import { slotScopeError } from '../services/timeSlots';
+
+const pump = util.promisify(pipeline);
+const TEMP_DIR = path.join(__dirname, '../../uploads');
+
+const removeTempFile = (filePath?: string) => {
+    if (filePath && fs.existsSync(filePath)) {
+        try {
+            fs.unlinkSync(filePath);
+        } catch (e) {
+            console.error('Failed to delete temp file', e);
+        }
+    }
+};
+
+jobQueue.register('avl_import', async (ctx: JobContext) => {
+    try {
+        return await processAvlImport(ctx);
+    } finally {
+        removeTempFile((ctx.params as AvlImportParams).filePath);
+    }
+}, (job: Job) => removeTempFile(job.params?.filePath));
+
+export default async function avlRoutes(fastify: FastifyInstance) {
+
+    // POST upload a CSV of GPS pings; matching runs as a job whose result holds the slot proposals
+    fastify.post('/avl/import', async (request, reply) => {
+        if (!fs.existsSync(TEMP_DIR)) fs.mkdirSync(TEMP_DIR, { recursive: true });
+        const filePath = path.join(TEMP_DIR, `${uuidv4()}.csv`);
+        const fields: Record<string, string> = {};
+        let hasFile = false;
+
+        try {
+            for await (const part of request.parts()) {
+                if (part.type === 'file') {
+                    await pump(part.file, fs.createWriteStream(filePath));
+                    hasFile = true;
+                } else {
+                    fields[part.fieldname] = String(part.value);
+                }
+            }
+        } catch (err) {
+            removeTempFile(filePath);
+            request.log.error(err);
+            return reply.code(500).send({ error: 'Upload failed' });
+        }
+        if (!hasFile) return reply.code(400).send({ error: 'A CSV file of GPS pings is required' });
+
+        const num = (name: string, fallback: number) => fields[name] ? Number(fields[name]) : fallback;
+        const agency = db.prepare('SELECT agency_timezone FROM agency LIMIT 1').get() as { agency_timezone: string } | undefined;
+        const settings: CalibrationSettings = {
+            band_mins: num('band_mins', DEFAULT_CALIBRATION.band_mins),
+            min_percentile: num('min_percentile', DEFAULT_CALIBRATION.min_percentile),
+            opt_percentile: num('opt_percentile', DEFAULT_CALIBRATION.opt_percentile),
+            max_percentile: num('max_percentile', DEFAULT_CALIBRATION.max_percentile),
+            tolerance_secs: num('tolerance_secs', DEFAULT_CALIBRATION.tolerance_secs)
+        };
+        const params: AvlImportParams = {
+            filePath,
+            timezone: fields.timezone || agency?.agency_timezone || 'UTC',
+            stop_radius_m: num('stop_radius_m', 30),
+            corridor_m: num('corridor_m', 50),
+            settings,
+            scope: { service_id: fields.service_id || null, day_type: fields.day_type?.trim() || null }
+        };
+
+        const error = avlParamsError(params) || calibrationSettingsError(settings) || slotScopeError(params.scope);
+        if (error) {
+            removeTempFile(filePath);
+            return reply.code(400).send({ error });
+        }
+
+        const job = jobQueue.enqueue('avl_import', params, 'Queued GPS trace import');
+        return reply.send({ jobId: job.job_id });
+    });
+
+    // POST apply the reviewed proposals of a finished import, replacing the slots of its set
+    fastify.post('/avl/jobs/:id/apply', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { segment_ids } = (request.body || {}) as { segment_ids?: string[] };
+
+        const job = jobQueue.get(id);
+        if (!job || job.type !== 'avl_import') return reply.code(404).send({ error: 'Import not found' });
+        if (job.status !== 'completed') return reply.code(400).send({ error: 'Import has not finished' });
+        if (!Array.isArray(segment_ids) || segment_ids.length === 0) return reply.code(400).send({ error: 'segment_ids is required' });
+
+        const { scope } = job.params as AvlImportParams;
+        const selected = new Set(segment_ids);
+        const proposals = (job.result as AvlImportResult).proposals.filter(p => selected.has(p.segment_id));
+        const existing = db.prepare('SELECT 1 FROM segments WHERE segment_id = ?');
+
+        try {
+            let slots = 0;
+            const applied = db.transaction(() => proposals.filter(p => existing.get(p.segment_id)).map(p => {
+                replaceSlots(p.segment_id, scope, p.proposed);
+                slots += p.proposed.length;
+                return p.segment_id;
+            }))();
+            return { message: `Updated ${applied.length} segments with ${slots} slots`, segment_ids: applied };
+        } catch (err) {
+            request.log.error(err);
+            return reply.code(500).send({ error: 'Failed to apply proposals' });
+        }
+    });
+}
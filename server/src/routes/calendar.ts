@@ -1,6 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import db from '../db';
 import { randomUUID } from 'crypto';
+import { listDayTypes, setServiceDayType } from '../services/timeSlots';
 
 interface Calendar {
     service_id: string;
@@ -13,6 +14,12 @@ interface Calendar {
     sunday: number;
     start_date: string;
     end_date: string;
+    day_type?: string | null; // Picks the segment time slots of that day type
+}
+
+interface CalendarDate {
+    date: string;
+    exception_type: number;
 }
 
 export default async function calendarRoutes(server: FastifyInstance) {
@@ -20,7 +27,11 @@ export default async function calendarRoutes(server: FastifyInstance) {
     // GET /calendar - List all
     server.get('/calendar', async (request, reply) => {
         try {
-            const calendars = db.prepare('SELECT * FROM calendar ORDER BY service_id').all();
+            const calendars = db.prepare(`
+                SELECT c.*, d.day_type FROM calendar c
+                LEFT JOIN service_day_types d ON d.service_id = c.service_id
+                ORDER BY c.service_id
+            `).all();
             return calendars;
         } catch (err) {
             server.log.error(err);
@@ -30,7 +41,7 @@ export default async function calendarRoutes(server: FastifyInstance) {
 
     // POST /calendar - Create new
     server.post<{ Body: Calendar }>('/calendar', async (request, reply) => {
-        const { service_id, monday, tuesday, wednesday, thursday, friday, saturday, sunday, start_date, end_date } = request.body;
+        const { service_id, monday, tuesday, wednesday, thursday, friday, saturday, sunday, start_date, end_date, day_type } = request.body;
 
         if (!service_id || !start_date || !end_date) {
             return reply.status(400).send({ error: 'Missing required fields' });
@@ -42,6 +53,7 @@ export default async function calendarRoutes(server: FastifyInstance) {
                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
             `);
             stmt.run(service_id, monday, tuesday, wednesday, thursday, friday, saturday, sunday, start_date, end_date);
+            setServiceDayType(service_id, day_type);
             return { message: 'Calendar created', service_id };
         } catch (err: any) {
             if (err.code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
@@ -55,7 +67,7 @@ export default async function calendarRoutes(server: FastifyInstance) {
     // PUT /calendar/:service_id - Update
     server.put<{ Params: { service_id: string }, Body: Calendar }>('/calendar/:service_id', async (request, reply) => {
         const { service_id: old_service_id } = request.params;
-        const { service_id: new_service_id, monday, tuesday, wednesday, thursday, friday, saturday, sunday, start_date, end_date } = request.body;
+        const { service_id: new_service_id, monday, tuesday, wednesday, thursday, friday, saturday, sunday, start_date, end_date, day_type } = request.body;
 
         try {
             // If renaming, check if new ID exists
@@ -79,10 +91,14 @@ export default async function calendarRoutes(server: FastifyInstance) {
                     throw new Error('Calendar not found');
                 }
 
-                // Update Trips if renamed
+                // Update Trips and Exceptions if renamed
                 if (new_service_id !== old_service_id) {
                     db.prepare('UPDATE trips SET service_id = ? WHERE service_id = ?').run(new_service_id, old_service_id);
+                    db.prepare('UPDATE calendar_dates SET service_id = ? WHERE service_id = ?').run(new_service_id, old_service_id);
+                    db.prepare('UPDATE service_day_types SET service_id = ? WHERE service_id = ?').run(new_service_id, old_service_id);
+                    db.prepare('UPDATE segment_time_slots SET service_id = ? WHERE service_id = ?').run(new_service_id, old_service_id);
                 }
+                if (day_type !== undefined) setServiceDayType(new_service_id, day_type);
             });
 
             updateCalendar();
@@ -102,8 +118,14 @@ export default async function calendarRoutes(server: FastifyInstance) {
         try {
             // Check for dependencies in trips table? For now, just delete.
             // Ideally we should alert if used, but simple delete for now.
-            const stmt = db.prepare('DELETE FROM calendar WHERE service_id = ?');
-            const info = stmt.run(service_id);
+            const deleteCalendar = db.transaction(() => {
+                db.prepare('DELETE FROM calendar_dates WHERE service_id = ?').run(service_id);
+                db.prepare("DELETE FROM accessibility_defaults WHERE scope = 'service' AND scope_id = ?").run(service_id);
+                db.prepare('DELETE FROM service_day_types WHERE service_id = ?').run(service_id);
+                db.prepare('DELETE FROM segment_time_slots WHERE service_id = ?').run(service_id);
+                return db.prepare('DELETE FROM calendar WHERE service_id = ?').run(service_id);
+            });
+            const info = deleteCalendar();
 
             if (info.changes === 0) {
                 return reply.status(404).send({ error: 'Calendar not found' });
@@ -114,4 +136,67 @@ export default async function calendarRoutes(server: FastifyInstance) {
             return reply.status(500).send({ error: 'Failed to delete calendar' });
         }
     });
+
+    // GET /day_types - Day types services are grouped in, for the time slot sets
+    server.get('/day_types', async (request, reply) => {
+        try {
+            return listDayTypes();
+        } catch (err) {
+            server.log.error(err);
+            return reply.status(500).send({ error: 'Failed to fetch day types' });
+        }
+    });
+
+    // --- SERVICE EXCEPTIONS (calendar_dates) ---
+
+    // GET /calendar/:service_id/dates - List exceptions for a service
+    server.get<{ Params: { service_id: string } }>('/calendar/:service_id/dates', async (request, reply) => {
+        const { service_id } = request.params;
+        try {
+            return db.prepare('SELECT * FROM calendar_dates WHERE service_id = ? ORDER BY date').all(service_id);
+        } catch (err) {
+            server.log.error(err);
+            return reply.status(500).send({ error: 'Failed to fetch service exceptions' });
+        }
+    });
+
+    // POST /calendar/:service_id/dates - Add (or replace) an exception for a date
+    server.post<{ Params: { service_id: string }, Body: CalendarDate }>('/calendar/:service_id/dates', async (request, reply) => {
+        const { service_id } = request.params;
+        const { date, exception_type } = request.body;
+
+        if (!date || !/^\d{8}$/.test(date)) {
+            return reply.status(400).send({ error: 'Invalid date format. Use YYYYMMDD' });
+        }
+        if (exception_type !== 1 && exception_type !== 2) {
+            return reply.status(400).send({ error: 'exception_type must be 1 (added) or 2 (removed)' });
+        }
+
+        try {
+            db.prepare(`
+                INSERT INTO calendar_dates (service_id, date, exception_type)
+                VALUES (?, ?, ?)
+                ON CONFLICT(service_id, date) DO UPDATE SET exception_type = excluded.exception_type
+            `).run(service_id, date, exception_type);
+            return { message: 'Service exception saved', service_id, date, exception_type };
+        } catch (err) {
+            server.log.error(err);
+            return reply.status(500).send({ error: 'Failed to save service exception' });
+        }
+    });
+
+    // DELETE /calendar/:service_id/dates/:date - Remove an exception
+    server.delete<{ Params: { service_id: string, date: string } }>('/calendar/:service_id/dates/:date', async (request, reply) => {
+        const { service_id, date } = request.params;
+        try {
+            const info = db.prepare('DELETE FROM calendar_dates WHERE service_id = ? AND date = ?').run(service_id, date);
+            if (info.changes === 0) {
+                return reply.status(404).send({ error: 'Service exception not found' });
+            }
+            return { message: 'Service exception deleted' };
+        } catch (err) {
+            server.log.error(err);
+            return reply.status(500).send({ error: 'Failed to delete service exception' });
+        }
+    });
 }
@@ -0,0 +1,94 @@
+import { FastifyInstance } from 'fastify';
+import db from '../db';
+import { v4 as uuidv4 } from 'uuid';
+import { DwellRule, dwellRuleError, listDwellRules } from '../services/dwellTimes';
+
+type DwellBody = Omit<DwellRule, 'id'>;
+
+// Empty strings from the form mean "not set"
+const normalize = (body: Partial<DwellBody>): DwellBody => ({
+    stop_id: String(body.stop_id || ''),
+    route_id: body.route_id || null,
+    start_time: body.start_time || null,
+    end_time: body.end_time || null,
+    dwell_secs: Number(body.dwell_secs)
+});
+
+// Two rules of a stop with the same route and band would make the resolution ambiguous
+const duplicateRule = (rule: DwellBody, exceptId: string | null = null) => db.prepare(`
+    SELECT 1 FROM dwell_times
+    WHERE stop_id = ? AND route_id IS ? AND start_time IS ? AND end_time IS ? AND id IS NOT ?
+`).get(rule.stop_id, rule.route_id, rule.start_time, rule.end_time, exceptId);
+
+export default async function dwellTimesRoutes(fastify: FastifyInstance) {
+
+    // GET Dwell rules, optionally of one stop or those that apply to one route
+    fastify.get('/dwell_times', async (request, reply) => {
+        const { stop_id, route_id } = request.query as { stop_id?: string, route_id?: string };
+        try {
+            return listDwellRules({ stop_id, route_id });
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch dwell times' });
+        }
+    });
+
+    // POST Create Dwell Rule
+    fastify.post('/dwell_times', async (request, reply) => {
+        const rule = normalize(request.body as Partial<DwellBody>);
+        const error = dwellRuleError(rule);
+        if (error) return reply.code(400).send({ error });
+        if (duplicateRule(rule)) return reply.code(409).send({ error: 'This stop already has a dwell time for the same route and band' });
+
+        const id = uuidv4();
+        try {
+            db.prepare(`
+                INSERT INTO dwell_times (id, stop_id, route_id, start_time, end_time, dwell_secs)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `).run(id, rule.stop_id, rule.route_id, rule.start_time, rule.end_time, rule.dwell_secs);
+            return { success: true, id, ...rule };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to create dwell time' });
+        }
+    });
+
+    // PUT Update Dwell Rule
+    fastify.put('/dwell_times/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const rule = normalize(request.body as Partial<DwellBody>);
+        const error = dwellRuleError(rule);
+        if (error) return reply.code(400).send({ error });
+        if (duplicateRule(rule, id)) return reply.code(409).send({ error: 'This stop already has a dwell time for the same route and band' });
+
+        try {
+            const info = db.prepare(`
+                UPDATE dwell_times SET stop_id = ?, route_id = ?, start_time = ?, end_time = ?, dwell_secs = ?
+                WHERE id = ?
+            `).run(rule.stop_id, rule.route_id, rule.start_time, rule.end_time, rule.dwell_secs, id);
+
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Dwell time not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to update dwell time' });
+        }
+    });
+
+    // DELETE Dwell Rule
+    fastify.delete('/dwell_times/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        try {
+            const info = db.prepare('DELETE FROM dwell_times WHERE id = ?').run(id);
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Dwell time not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to delete dwell time' });
+        }
+    });
+}
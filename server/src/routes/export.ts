@@ -1,424 +1,392 @@
 import { FastifyInstance } from 'fastify';
+import { Readable } from 'stream';
+import { ZipFile } from 'yazl';
+import * as fs from 'fs';
+import * as path from 'path';
 import db from '../db';
-import AdmZip from 'adm-zip';
-
-interface ExportBody {
-    agency_ids?: string[];
-    service_ids?: string[];
-    route_ids?: string[];
+import { FeedSelection, FeedFilters } from '../services/feedSelection';
+import { GtfsValidator } from '../services/gtfsValidator';
+import { ShapeBuilder, ShapeSource, SHAPE_SOURCES } from '../services/shapeBuilder';
+import { exportColumns } from '../services/gtfsCatalog';
+import { getFeedInfo, isFeedInfoComplete, claimFeedVersion, validityWindow } from '../services/feedInfo';
+import { defaultLanguage } from '../services/translations';
+import { slotsForService } from '../services/timeSlots';
+import { mainPatternId, patternShapeId } from '../services/patterns';
+import jobQueue, { Job, JobContext } from '../services/jobQueue';
+import { csvHeader, csvRow, toCsv } from '../utils/csv';
+
+interface ExportBody extends FeedFilters {
+    shape_source?: ShapeSource;
+    include_extensions?: boolean; // also write non-standard columns (node_type, allowed_materials, ...)
+    feed_version?: string;        // overrides the automatic version of feed_info.txt for this export
 }
 
-export default async function exportRoutes(fastify: FastifyInstance) {
-
-    fastify.post('/gtfs/export', async (request, reply) => {
-        const { agency_ids, service_ids, route_ids } = request.body as ExportBody || {};
-        const zip = new AdmZip();
-
-        // Helper to add table to zip as csv
-        const addTableToZip = (fileName: string, rows: any[]) => {
-            if (rows.length === 0) return;
-
-            const headers = Object.keys(rows[0]);
-            const csvContent = [
-                headers.join(','),
-                ...rows.map(row => headers.map(h => {
-                    const val = row[h];
-                    if (val === null || val === undefined) return '';
-                    if (typeof val === 'string' && val.includes(',')) return `"${val}"`;
-                    return val;
-                }).join(','))
-            ].join('\n');
-
-            zip.addFile(fileName, Buffer.from(csvContent, 'utf8'));
-        };
-
-        try {
-            // 1. Filter Agencies
-            let agencyQuery = 'SELECT * FROM agency';
-            const agencyParams: string[] = [];
-            if (agency_ids && agency_ids.length > 0) {
-                const ph = agency_ids.map(() => '?').join(',');
-                agencyQuery += ` WHERE agency_id IN (${ph})`;
-                agencyParams.push(...agency_ids);
-            }
-            const agencies = db.prepare(agencyQuery).all(...agencyParams) as any[];
-
-            // FIX: Validate Timezones
-            agencies.forEach(a => {
-                if (a.agency_timezone === 'America/Mexico') a.agency_timezone = 'America/Mexico_City';
-            });
+// Table each exported file is read from; shapes.txt is generated
+const FILE_TABLES: Record<string, string | null> = {
+    'agency.txt': 'agency',
+    'stops.txt': 'stops',
+    'routes.txt': 'routes',
+    'trips.txt': 'trips',
+    'stop_times.txt': 'stop_times',
+    'calendar.txt': 'calendar',
+    'calendar_dates.txt': 'calendar_dates',
+    'shapes.txt': null,
+    'frequencies.txt': 'frequencies',
+    'transfers.txt': 'transfers',
+    'fare_attributes.txt': 'fare_attributes',
+    'fare_rules.txt': 'fare_rules',
+    'levels.txt': 'levels',
+    'pathways.txt': 'pathways',
+    'feed_info.txt': null,
+    'translations.txt': null
+};
+
+interface CachedShape {
+    shapeId: string;
+    rows: any[]; // shapes.txt rows
+    stopDistances: number[];
+}
 
-            const finalAgencyIds = agencies.map(a => a.agency_id);
+// Renders pages of rows as CSV under a fixed header
+function* csvLines(columns: string[], pages: Iterable<any[]>): Generator<string> {
+    yield csvHeader(columns);
+    for (const rows of pages) {
+        if (rows.length === 0) continue;
+        yield rows.map(row => csvRow(columns, row)).join('');
+    }
+}
 
-            if (finalAgencyIds.length === 0) {
-                // No agencies selected/found -> Empty Zip
-                const buffer = zip.toBuffer();
-                reply.header('Content-Type', 'application/zip');
-                reply.header('Content-Disposition', 'attachment; filename="gtfs.zip"');
-                return reply.send(buffer);
+const parseSeconds = (t: string) => {
+    if (!t) return 0;
+    const [h, m, s] = t.split(':').map(Number);
+    return h * 3600 + m * 60 + s;
+};
+
+const formatSeconds = (s: number) => {
+    const h = Math.floor(s / 3600);
+    const m = Math.floor((s % 3600) / 60);
+    const sec = Math.floor(s % 60);
+    return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(sec).padStart(2, '0')}`;
+};
+
+// --- FIX: Time Wrapping --- times that go backwards belong to the next service day
+const unwrapTripTimes = (tripStops: any[]) => {
+    let dayOffset = 0;
+    let lastDepartureSecs = -1;
+
+    tripStops.forEach((st, idx) => {
+        const arrVal = parseSeconds(st.arrival_time);
+        const depVal = parseSeconds(st.departure_time);
+
+        if (idx > 0 && lastDepartureSecs !== -1) {
+            if ((arrVal + dayOffset) < lastDepartureSecs) {
+                dayOffset += 86400;
             }
+        }
 
-            // 2. Filter Routes (by Agency AND optional specific route_ids)
-            let routesQuery = `SELECT * FROM routes WHERE agency_id IN (${finalAgencyIds.map(() => '?').join(',')})`;
-            const routesParams: string[] = [...finalAgencyIds];
+        const effectiveArr = arrVal + dayOffset;
+        let effectiveDep = depVal + dayOffset;
 
-            if (route_ids && route_ids.length > 0) {
-                const ph = route_ids.map(() => '?').join(',');
-                routesQuery += ` AND route_id IN (${ph})`;
-                routesParams.push(...route_ids);
+        if (effectiveDep < effectiveArr) {
+            if ((depVal + dayOffset + 86400) >= effectiveArr) {
+                effectiveDep += 86400;
             }
+        }
 
-            const routes = db.prepare(routesQuery).all(...routesParams) as any[];
-            const finalRouteIds = routes.map(r => r.route_id);
-
-            // 3. Filter Calendar (Service IDs)
-            let calendarQuery = 'SELECT * FROM calendar';
-            const calendarParams: string[] = [];
-            if (service_ids && service_ids.length > 0) {
-                const ph = service_ids.map(() => '?').join(',');
-                calendarQuery += ` WHERE service_id IN (${ph})`;
-                calendarParams.push(...service_ids);
-            }
-            const calendars = db.prepare(calendarQuery).all(...calendarParams) as any[];
-            const finalServiceIds = calendars.map(c => c.service_id);
-
-            // 4. Filter Trips (by Routes AND Services)
-            let trips: any[] = [];
-            if (finalRouteIds.length > 0 && finalServiceIds.length > 0) {
-                const routePh = finalRouteIds.map(() => '?').join(',');
-                const servicePh = finalServiceIds.map(() => '?').join(',');
-
-                trips = db.prepare(`
-                    SELECT * FROM trips 
-                    WHERE route_id IN (${routePh}) 
-                    AND service_id IN (${servicePh})
-                    AND trip_id NOT LIKE 't_%'
-                `).all(...finalRouteIds, ...finalServiceIds);
+        st.arrival_time = formatSeconds(effectiveArr);
+        st.departure_time = formatSeconds(effectiveDep);
+        lastDepartureSecs = effectiveDep;
+    });
+};
+
+// feed_info.txt row; every written feed takes a new version
+const feedInfoRows = (selection: FeedSelection, versionOverride?: string): any[] => {
+    const settings = getFeedInfo();
+    if (!isFeedInfoComplete(settings) || selection.agencies.length === 0) return [];
+
+    const { start, end } = validityWindow(selection.calendars, selection.calendarDates);
+    return [{
+        feed_publisher_name: settings.feed_publisher_name,
+        feed_publisher_url: settings.feed_publisher_url,
+        feed_lang: settings.feed_lang,
+        default_lang: settings.default_lang || defaultLanguage(),
+        feed_start_date: start,
+        feed_end_date: end,
+        feed_version: claimFeedVersion(versionOverride),
+        feed_contact_email: settings.feed_contact_email,
+        feed_contact_url: settings.feed_contact_url
+    }];
+};
+
+/**
+ * Queues every file of the feed on a zip whose outputStream can be piped to a
+ * response or a file. Rows are rendered lazily while the zip is consumed.
+ */
+function buildFeedZip(selection: FeedSelection, options: ExportBody, onProgress?: (done: number, total: number) => void): ZipFile {
+    const shapeSource: ShapeSource = options.shape_source || 'stops';
+    const zip = new ZipFile();
+
+    // Headers come from the field catalog so the column set and order never depend on the data
+    const columnsFor = (fileName: string) => exportColumns(fileName, FILE_TABLES[fileName], !!options.include_extensions);
+
+    const addPages = (fileName: string, pages: Iterable<any[]>) => {
+        const stream = Readable.from(csvLines(columnsFor(fileName), pages));
+        // yazl does not forward errors of its input streams
+        stream.on('error', err => zip.emit('error', err));
+        zip.addReadStream(stream, fileName);
+        return stream;
+    };
+    const addRows = (fileName: string, rows: any[]) => {
+        if (rows.length > 0) addPages(fileName, [rows]);
+    };
+
+    const stops = selection.stops();
+    const stopsMap = new Map(stops.map(s => [s.stop_id, s]));
+    const frequencies = selection.frequencies();
+    const transfers = selection.transfers();
+    const fareAttributes = selection.fareAttributes();
+    const fareRules = selection.fareRules();
+
+    addRows('agency.txt', selection.agencies);
+    addRows('stops.txt', stops);
+    addRows('levels.txt', selection.levels());
+    addRows('pathways.txt', selection.pathways());
+    addRows('routes.txt', selection.routes);
+    addRows('calendar.txt', selection.calendars);
+    addRows('calendar_dates.txt', selection.calendarDates);
+    addRows('feed_info.txt', feedInfoRows(selection, options.feed_version));
+    addRows('translations.txt', selection.translations());
+
+    if (selection.tripCount === 0) {
+        addRows('frequencies.txt', frequencies);
+        addRows('transfers.txt', transfers);
+        addRows('fare_attributes.txt', fareAttributes);
+        addRows('fare_rules.txt', fareRules);
+        zip.end();
+    } else {
+        // 7. Generate Shapes while trips.txt is written, then reuse them for stop_times.txt
+        const shapeBuilder = new ShapeBuilder(shapeSource, stopsMap);
+        const shapeCache = new Map<string, CachedShape | null>(); // stop sequence (+ stored shape) -> shape
+        let shapeCount = 0;
+
+        const shapeFor = (trip: any, tripStops: any[]): CachedShape | null => {
+            if (tripStops.length < 2) return null;
+
+            const stopIds = tripStops.map((st: any) => st.stop_id);
+            // Stored geometry: the trip's own shape first, then the shape drawn for its pattern in the editor
+            const storedShapeIds = [trip.shape_id, patternShapeId(trip.pattern_id || mainPatternId(trip.route_id, trip.direction_id || 0))];
+            const stopSequenceKey = stopIds.join('|');
+            const cacheKey = shapeSource === 'stored' ? `${storedShapeIds.join('|')}#${stopSequenceKey}` : stopSequenceKey;
+
+            if (shapeCache.has(cacheKey)) return shapeCache.get(cacheKey) || null;
+
+            const built = shapeBuilder.build(stopIds, storedShapeIds);
+            if (!built) {
+                shapeCache.set(cacheKey, null);
+                return null;
             }
 
-            const finalTripIds = trips.map(t => t.trip_id);
+            const shapeId = `shp_${trip.route_id}_${trip.direction_id || 0}_${++shapeCount}`;
+            const rows: any[] = [];
+            let lastDist = -1;
 
-            // 5. Filter Stop Times (by Trips)
-            let stopTimes: any[] = [];
-            if (finalTripIds.length > 0) {
-                const tripPh = finalTripIds.map(() => '?').join(',');
-                stopTimes = db.prepare(`SELECT * FROM stop_times WHERE trip_id IN (${tripPh}) ORDER BY trip_id, stop_sequence`).all(...finalTripIds);
-            }
+            built.points.forEach((point, idx) => {
+                const dist = Number(built.pointDistances[idx].toFixed(3));
+                if (dist <= lastDist) return; // Collapsed by 3-decimal rounding
 
-            // 6. Filter Stops (by Stop Times)
-            let stops: any[] = [];
-            const usedStopIds = [...new Set(stopTimes.map(st => st.stop_id))];
-            if (usedStopIds.length > 0) {
-                const stopPh = usedStopIds.map(() => '?').join(',');
-                stops = db.prepare(`SELECT * FROM stops WHERE stop_id IN (${stopPh})`).all(...usedStopIds);
-            }
-            const stopsMap = new Map(stops.map(s => [s.stop_id, s]));
-
-            // --- FIX: Post-Process Stop Times (Time Wrapping & Distances) ---
-            const getDistHelper = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-                const R = 6371000; // meters
-                const dLat = (lat2 - lat1) * Math.PI / 180;
-                const dLon = (lon2 - lon1) * Math.PI / 180;
-                const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-                    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-                    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-                const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-                return R * c;
-            };
-            const toKm3 = (meters: number) => Number((meters / 1000).toFixed(3));
-
-            const tripStopTimesMap = new Map<string, any[]>();
-            stopTimes.forEach(st => {
-                if (!tripStopTimesMap.has(st.trip_id)) tripStopTimesMap.set(st.trip_id, []);
-                tripStopTimesMap.get(st.trip_id)?.push(st);
+                rows.push({
+                    shape_id: shapeId,
+                    shape_pt_lat: Number(point.lat.toFixed(6)),
+                    shape_pt_lon: Number(point.lon.toFixed(6)),
+                    shape_pt_sequence: rows.length + 1, // 1-based sequence
+                    shape_dist_traveled: dist
+                });
+                lastDist = dist;
             });
 
-            // Clear original array to rebuild it sorted and fixed
-            stopTimes.length = 0;
-
-            tripStopTimesMap.forEach((tripStops, tripId) => {
-                tripStops.sort((a, b) => a.stop_sequence - b.stop_sequence);
-
-                let dayOffset = 0;
-                let lastDepartureSecs = -1;
-                let distTraveled = 0;
-                let lastLat = 0;
-                let lastLon = 0;
-                let previousDistTraveled = -1;
-
-                const parseSeconds = (t: string) => {
-                    if (!t) return 0;
-                    const [h, m, s] = t.split(':').map(Number);
-                    return h * 3600 + m * 60 + s;
-                };
-
-                const formatSeconds = (s: number) => {
-                    const h = Math.floor(s / 3600);
-                    const m = Math.floor((s % 3600) / 60);
-                    const sec = Math.floor(s % 60);
-                    return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(sec).padStart(2, '0')}`;
-                };
-
-                tripStops.forEach((st, idx) => {
-                    // 1. Time Wrapping
-                    const arrVal = parseSeconds(st.arrival_time);
-                    const depVal = parseSeconds(st.departure_time);
-
-                    if (idx > 0 && lastDepartureSecs !== -1) {
-                        if ((arrVal + dayOffset) < lastDepartureSecs) {
-                            dayOffset += 86400;
-                        }
-                    }
-
-                    const effectiveArr = arrVal + dayOffset;
-                    let effectiveDep = depVal + dayOffset;
-
-                    if (effectiveDep < effectiveArr) {
-                        if ((depVal + dayOffset + 86400) >= effectiveArr) {
-                            effectiveDep += 86400;
-                        }
-                    }
-
-                    st.arrival_time = formatSeconds(effectiveArr);
-                    st.departure_time = formatSeconds(effectiveDep);
-                    lastDepartureSecs = effectiveDep;
-
-                    // 2. Distance Calculation
-                    const stopInfo = stopsMap.get(st.stop_id);
-                    if (stopInfo) {
-                        if (idx === 0) {
-                            distTraveled = 0;
-                        } else {
-                            const d = getDistHelper(lastLat, lastLon, stopInfo.stop_lat, stopInfo.stop_lon);
-                            distTraveled += d;
-                        }
-
-                        st.shape_dist_traveled = toKm3(distTraveled);
+            const cached = { shapeId, rows, stopDistances: built.stopDistances };
+            shapeCache.set(cacheKey, cached);
+            return cached;
+        };
 
-                        // Keep strictly increasing values after 3-decimal rounding.
-                        if (st.shape_dist_traveled <= previousDistTraveled) {
-                            st.shape_dist_traveled = Number((previousDistTraveled + 0.001).toFixed(3));
-                        }
+        // Trips are walked twice: once for trips.txt, once for stop_times.txt
+        let processedTrips = 0;
+        const reportProgress = (count: number) => {
+            processedTrips += count;
+            onProgress?.(processedTrips, selection.tripCount * 2);
+        };
 
-                        previousDistTraveled = st.shape_dist_traveled;
-                        lastLat = stopInfo.stop_lat;
-                        lastLon = stopInfo.stop_lon;
-                    }
-                    stopTimes.push(st);
+        const tripPages = function* () {
+            for (const trips of selection.tripPages()) {
+                const stopTimes = selection.stopTimesFor(trips);
+                trips.forEach(trip => {
+                    const shape = shapeFor(trip, stopTimes.get(trip.trip_id) || []);
+                    // Assign shape_id to trip for trips.txt
+                    if (shape) trip.shape_id = shape.shapeId;
                 });
-            });
-
-            // 7. Generate Shapes from Segments
-            // Fetch all segments for lookup
-            const allSegments = db.prepare('SELECT * FROM segments').all() as any[];
-            // Create lookup: start_id|end_id -> segment
-            const segmentLookup = new Map<string, any>();
-            allSegments.forEach(seg => {
-                segmentLookup.set(`${seg.start_node_id}|${seg.end_node_id}`, seg);
-            });
-
-            const shapes: any[] = [];
-            const generatedShapeIds = new Set<string>();
-            const shapeCache = new Map<string, string>(); // stopSequenceKey -> shape_id
+                reportProgress(trips.length);
+                yield trips;
+            }
+        };
 
-            // Group stop times by trip
-            const tripStopTimes = new Map<string, any[]>();
-            stopTimes.forEach(st => {
-                if (!tripStopTimes.has(st.trip_id)) tripStopTimes.set(st.trip_id, []);
-                tripStopTimes.get(st.trip_id)?.push(st);
-            });
+        const stopTimePages = function* () {
+            for (const trips of selection.tripPages()) {
+                const stopTimes = selection.stopTimesFor(trips);
+                const page: any[] = [];
 
-            // Process each trip to assign shape_id and generate shapes.txt
-            trips.forEach(trip => {
-                const tripStops = tripStopTimes.get(trip.trip_id);
-                if (!tripStops || tripStops.length < 2) return;
-
-                // Sort by sequence just in case
-                tripStops.sort((a, b) => a.stop_sequence - b.stop_sequence);
-
-                // Create a key for this sequence of stops to reuse shapes
-                const stopSequenceKey = tripStops.map((st: any) => st.stop_id).join('|');
-
-                let shapeId = shapeCache.get(stopSequenceKey);
-
-                if (!shapeId) {
-                    // Generate new shape
-                    shapeId = `shp_${trip.route_id}_${trip.direction_id || 0}_${generatedShapeIds.size + 1}`;
-                    shapeCache.set(stopSequenceKey, shapeId);
-                    generatedShapeIds.add(shapeId);
-
-                    let distTraveled = 0;
-                    let seq = 1;
-
-                    // Add first point (start stop)
-                    const firstStop = stopsMap.get(tripStops[0].stop_id);
-                    if (firstStop) {
-                        shapes.push({
-                            shape_id: shapeId,
-                            shape_pt_lat: firstStop.stop_lat,
-                            shape_pt_lon: firstStop.stop_lon,
-                            shape_pt_sequence: seq++,
-                            shape_dist_traveled: toKm3(distTraveled)
-                        });
-                    }
+                trips.forEach(trip => {
+                    const tripStops = stopTimes.get(trip.trip_id) || [];
+                    const shape = shapeFor(trip, tripStops);
+                    unwrapTripTimes(tripStops);
 
-                    // Iterate segments
-                    for (let i = 0; i < tripStops.length - 1; i++) {
-                        const fromId = tripStops[i].stop_id;
-                        const toId = tripStops[i + 1].stop_id;
-                        const seg = segmentLookup.get(`${fromId}|${toId}`);
-
-                        if (seg && seg.geometry) {
-                            try {
-                                const geo = JSON.parse(seg.geometry);
-                                if (geo.type === 'LineString' && Array.isArray(geo.coordinates)) {
-                                    // Process coordinates
-                                    // Note: First coord usually matches start stop, last matches end stop
-                                    // We skip the very first coord if it matches the previous point to avoid duplicates?
-                                    // Or just dump them all? GTFS allows close points.
-                                    // Let's refine: The segment includes start and end points.
-                                    // We already added the start point of the WHOLE trip (or previous segment end).
-                                    // So for each segment, we can skip the first coordinate if it overlaps.
-
-                                    geo.coordinates.forEach((coord: number[], idx: number) => {
-                                        // Skip first point if it's strictly equal to previous? 
-                                        // Simplest is to just add them, but for distance calc we need to be careful.
-                                        // We'll calculate distance step by step.
-
-                                        if (idx === 0 && i === 0) return; // Skip very first point if it was added as stop? 
-                                        // Actually segments usually start exactly at the stop. 
-                                        // But `shapes` table needs pure geometry points.
-                                        // Let's just use the segment geometry points.
-                                        // Correction: The "firstStop" added above is likely the same as geo.coordinates[0].
-                                        // To be safe and clean, let's remove the "firstStop" explicit add above and just rely on segments?
-                                        // BUT what if there is no segment? We should fallback to straight line.
-                                    });
-
-                                    // Better approach:
-                                    // 1. Point 0 matches FromStop.
-                                    // 2. Point N matches ToStop.
-                                    // We want all points from index 1 to N (inclusive).
-                                    // And for the very first segment, we also want index 0.
-
-                                    // Calculation of distance for points:
-                                    // MapLibre coords are [lon, lat].
-
-                                    let prevLon = geo.coordinates[0][0];
-                                    let prevLat = geo.coordinates[0][1];
-
-                                    // If this is the very first segment, add the start point
-                                    if (i === 0) {
-                                        // (We already added firstStop, but let's confirm consistency)
-                                        // Let's rely on the explicit First Stop added earlier for seq=1 
-                                        // so we skip idx=0 here? 
-                                        // Actually, let's reset and do it cleanly loop-based:
-                                    }
-                                }
-                            } catch (e) {
-                                // fallback
+                    if (shape) {
+                        // Keep strictly increasing values after 3-decimal rounding.
+                        let previousDistTraveled = -1;
+                        tripStops.forEach((st, idx) => {
+                            let dist = Number(shape.stopDistances[idx].toFixed(3));
+                            if (dist <= previousDistTraveled) {
+                                dist = Number((previousDistTraveled + 0.001).toFixed(3));
                             }
-                        }
+                            st.shape_dist_traveled = dist;
+                            previousDistTraveled = dist;
+                        });
                     }
-                }
-                trip.shape_id = shapeId;
-            });
-
-            // RE-IMPLEMENTATION of Shape Generation Loop for clarity/correctness
-            // We need to clear `shapes` and `shapeCache` and restart the loop logic inside the try block
-            // to make sure it's correct.
-
-            // Clear what we started above to avoid duplicates/confusion in this unique replace block
-            shapes.length = 0;
-            generatedShapeIds.clear();
-            shapeCache.clear();
-
-            // Helper for distance (Haversine-ish or just simple Euclidean for small diffs? standard is Haversine)
-            const getDist = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-                const R = 6371000; // meters
-                const dLat = (lat2 - lat1) * Math.PI / 180;
-                const dLon = (lon2 - lon1) * Math.PI / 180;
-                const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-                    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-                    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-                const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-                return R * c;
-            };
 
-            trips.forEach(trip => {
-                const tripStops = tripStopTimes.get(trip.trip_id);
-                if (!tripStops || tripStops.length < 2) return;
-
-                // Sort by sequence
-                tripStops.sort((a, b) => a.stop_sequence - b.stop_sequence);
-
-                // Create Key
-                const stopSequenceKey = tripStops.map((st: any) => st.stop_id).join('|');
+                    page.push(...tripStops);
+                });
+                reportProgress(trips.length);
+                yield page;
+            }
+        };
 
-                let shapeId = shapeCache.get(stopSequenceKey);
+        const shapePages = function* () {
+            for (const shape of shapeCache.values()) {
+                if (shape) yield shape.rows;
+            }
+        };
 
-                if (!shapeId) {
-                    shapeId = `shp_${trip.route_id}_${trip.direction_id || 0}`;
-                    // If multiple variants exist for same route/direction but different stops, append variant
-                    // But if key differs, we need unique ID. 
-                    // Let's suffix with increment if collision, or just use sequence key hash?
-                    // Simple approach: shp_route_dir_index
-                    shapeId = `shp_${trip.route_id}_${trip.direction_id || 0}_${generatedShapeIds.size + 1}`;
+        // yazl writes entries one after another, so once trips.txt is drained every
+        // shape is known and the remaining files can be queued.
+        addPages('trips.txt', tripPages()).on('end', () => {
+            addPages('stop_times.txt', stopTimePages());
+            if (shapeCount > 0) addPages('shapes.txt', shapePages());
+            addRows('frequencies.txt', frequencies);
+            addRows('transfers.txt', transfers);
+            addRows('fare_attributes.txt', fareAttributes);
+            addRows('fare_rules.txt', fareRules);
+            zip.end();
+        });
+    }
+
+    // NO segments.txt
+
+    return zip;
+}
 
-                    shapeCache.set(stopSequenceKey, shapeId);
-                    generatedShapeIds.add(shapeId);
+const EXPORT_DIR = path.join(__dirname, '../../exports');
+const exportFilePath = (jobId: string) => path.join(EXPORT_DIR, `${jobId}.zip`);
+
+// Background export: same zip, written to EXPORT_DIR and downloaded once the job completes
+async function runExportJob(ctx: JobContext) {
+    const options = ctx.params as ExportBody;
+    const filePath = exportFilePath(ctx.jobId);
+    fs.mkdirSync(EXPORT_DIR, { recursive: true });
+
+    ctx.setProgress(0, 'Selecting feed data...');
+    const selection = new FeedSelection(options);
+    try {
+        ctx.setProgress(0, `Writing ${selection.tripCount} trips...`);
+        const zip = buildFeedZip(selection, options, (done, total) => ctx.setProgress(Math.min(99, (done / total) * 100)));
+
+        await new Promise<void>((resolve, reject) => {
+            const out = fs.createWriteStream(filePath);
+            zip.on('error', reject);
+            out.on('error', reject).on('finish', () => resolve());
+            zip.outputStream.pipe(out);
+        });
+
+        ctx.setProgress(100, 'Export ready');
+        return { fileName: 'gtfs.zip', size: fs.statSync(filePath).size, trips: selection.tripCount };
+    } catch (err) {
+        fs.rmSync(filePath, { force: true });
+        throw err;
+    } finally {
+        selection.dispose();
+    }
+}
 
-                    let distTraveled = 0;
-                    let lastLat = 0, lastLon = 0;
+jobQueue.register('gtfs_export', runExportJob, (job: Job) => fs.rmSync(exportFilePath(job.job_id), { force: true }));
 
-                    // STRICT MODE: Generate Shape Points ONLY from Stops
-                    // The user explicitly requested shapes to match stop sequences (1:1 count).
-                    // We ignore segment geometry and just connect stops with straight lines.
+export default async function exportRoutes(fastify: FastifyInstance) {
 
-                    tripStops.forEach((st: any, idx: number) => {
-                        const stop = stopsMap.get(st.stop_id);
-                        if (!stop) return;
+    // The zip is streamed: rows are read from SQLite page by page and compressed
+    // straight into the response, so memory stays flat regardless of feed size.
+    fastify.post('/gtfs/export', async (request, reply) => {
+        const body = request.body as ExportBody || {};
+        if (body.shape_source && !SHAPE_SOURCES.includes(body.shape_source)) {
+            return reply.code(400).send({ error: `shape_source must be one of: ${SHAPE_SOURCES.join(', ')}` });
+        }
 
-                        if (idx > 0) {
-                            distTraveled += getDist(lastLat, lastLon, stop.stop_lat, stop.stop_lon);
-                        }
+        let feed: FeedSelection | null = null;
+        try {
+            feed = new FeedSelection(body);
+            const selection = feed;
+            const zip = buildFeedZip(selection, body);
 
-                        shapes.push({
-                            shape_id: shapeId,
-                            shape_pt_lat: Number(stop.stop_lat.toFixed(6)),
-                            shape_pt_lon: Number(stop.stop_lon.toFixed(6)),
-                            shape_pt_sequence: idx + 1, // 1-based sequence
-                            shape_dist_traveled: toKm3(distTraveled)
-                        });
+            zip.on('error', (err) => {
+                request.log.error(err);
+                (zip.outputStream as Readable).destroy(err);
+            });
+            reply.raw.on('close', () => selection.dispose());
 
-                        lastLat = stop.stop_lat;
-                        lastLon = stop.stop_lon;
-                    });
-                }
+            reply.header('Content-Type', 'application/zip');
+            reply.header('Content-Disposition', 'attachment; filename="gtfs.zip"');
+            return reply.send(zip.outputStream);
+        } catch (err) {
+            feed?.dispose();
+            request.log.error(err);
+            return reply.code(500).send({ error: 'Failed to generate export' });
+        }
+    });
 
-                // Assign shape_id to trip for trips.txt
-                trip.shape_id = shapeId;
-            });
+    // Large feeds: run the export as a job, poll /jobs/:id, then fetch the file
+    fastify.post('/gtfs/export/jobs', async (request, reply) => {
+        const body = request.body as ExportBody || {};
+        if (body.shape_source && !SHAPE_SOURCES.includes(body.shape_source)) {
+            return reply.code(400).send({ error: `shape_source must be one of: ${SHAPE_SOURCES.join(', ')}` });
+        }
 
+        const job = jobQueue.enqueue('gtfs_export', body, 'Waiting to export...');
+        return { jobId: job.job_id };
+    });
 
-            // Add to Zip (Strict 7 files)
-            addTableToZip('agency.txt', agencies);
-            addTableToZip('stops.txt', stops);
-            addTableToZip('routes.txt', routes);
-            addTableToZip('trips.txt', trips);
-            addTableToZip('stop_times.txt', stopTimes);
-            addTableToZip('calendar.txt', calendars);
-            addTableToZip('shapes.txt', shapes);
+    fastify.get('/gtfs/export/jobs/:id/file', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const job = jobQueue.get(id);
+        if (!job || job.type !== 'gtfs_export') return reply.code(404).send({ error: 'Export not found' });
+        if (job.status !== 'completed') return reply.code(409).send({ error: `Export is ${job.status}` });
 
-            // NO segments.txt
+        const filePath = exportFilePath(job.job_id);
+        if (!fs.existsSync(filePath)) return reply.code(410).send({ error: 'Export file has expired' });
 
-            const buffer = zip.toBuffer();
+        reply.header('Content-Type', 'application/zip');
+        reply.header('Content-Disposition', 'attachment; filename="gtfs.zip"');
+        return reply.send(fs.createReadStream(filePath));
+    });
 
-            reply.header('Content-Type', 'application/zip');
-            reply.header('Content-Disposition', 'attachment; filename="gtfs.zip"');
-            reply.send(buffer);
+    // Runs the feed rules over the same selection the export would write
+    fastify.post('/gtfs/validate', async (request, reply) => {
+        try {
+            const feed = new FeedSelection(request.body as FeedFilters || {});
+            try {
+                const validator = new GtfsValidator();
+                return validator.validate(feed);
+            } finally {
+                feed.dispose();
+            }
         } catch (err) {
             request.log.error(err);
-            reply.code(500).send({ error: 'Failed to generate export' });
+            return reply.code(500).send({ error: 'Failed to validate feed' });
         }
     });
 
@@ -477,10 +445,9 @@ export default async function exportRoutes(fastify: FastifyInstance) {
                     }
                     if (segments.length === 0) continue;
 
-                    // Fetch slots
-                    const segPh = segments.map((_: any) => '?').join(',');
+                    // Fetch the slot set of the service (its own, its day type's, or the one for all days)
                     const segIds = segments.map((s: any) => s.segment_id);
-                    const slots = db.prepare(`SELECT * FROM segment_time_slots WHERE segment_id IN (${segPh})`).all(...segIds) as any[];
+                    const slots = [...slotsForService(service_id || null, segIds).values()].flat();
 
                     const boundaries = new Set<string>(['00:00:00', '36:00:00']);
                     slots.forEach((s: any) => {
@@ -504,7 +471,8 @@ export default async function exportRoutes(fastify: FastifyInstance) {
                         const departureName = `${depStop.stop_code ? depStop.stop_code + '-' : ''}${depStop.stop_name}`;
                         const arrivalName = `${arrStop.stop_code ? arrStop.stop_code + '-' : ''}${arrStop.stop_name}`;
 
-                        let lastTtm = -1;
+                        // Running time of the band as [min, opt, max]; slots entered by hand have no spread
+                        let lastTimes: number[] | null = null;
                         let currentBandStart = '';
 
                         // Trip records for this segment across time bands
@@ -513,14 +481,14 @@ export default async function exportRoutes(fastify: FastifyInstance) {
                             const end = sortedBands[j + 1];
                             if (start === end) continue;
 
-                            let tt = seg.travel_time || 0;
+                            let times = [seg.travel_time || 0, seg.travel_time || 0, seg.travel_time || 0];
                             const activeSlot = slots.find((s: any) => s.segment_id === seg.segment_id && start >= s.start_time && start < s.end_time);
-                            if (activeSlot) tt = activeSlot.travel_time;
+                            if (activeSlot) times = [activeSlot.min_time ?? activeSlot.travel_time, activeSlot.travel_time, activeSlot.max_time ?? activeSlot.travel_time];
 
-                            if (lastTtm === -1) {
-                                lastTtm = tt;
+                            if (!lastTimes) {
+                                lastTimes = times;
                                 currentBandStart = start;
-                            } else if (lastTtm !== tt) {
+                            } else if (lastTimes.some((t, k) => t !== times[k])) {
                                 outputRows.push({
                                     Line: route.route_short_name,
                                     Route: `${route.route_short_name}-${direction}`,
@@ -531,16 +499,16 @@ export default async function exportRoutes(fastify: FastifyInstance) {
                                     Arrival: arrivalName,
                                     Start: currentBandStart,
                                     End: start,
-                                    MinTime: formatMins(Math.max(0, lastTtm - 60)),
-                                    OptTime: formatMins(lastTtm),
-                                    MaxTime: formatMins(lastTtm + 60)
+                                    MinTime: formatMins(lastTimes[0]),
+                                    OptTime: formatMins(lastTimes[1]),
+                                    MaxTime: formatMins(lastTimes[2])
                                 });
-                                lastTtm = tt;
+                                lastTimes = times;
                                 currentBandStart = start;
                             }
                         }
 
-                        if (lastTtm !== -1) {
+                        if (lastTimes) {
                             outputRows.push({
                                 Line: route.route_short_name,
                                 Route: `${route.route_short_name}-${direction}`,
@@ -551,9 +519,9 @@ export default async function exportRoutes(fastify: FastifyInstance) {
                                 Arrival: arrivalName,
                                 Start: currentBandStart,
                                 End: '36:00:00',
-                                MinTime: formatMins(Math.max(0, lastTtm - 60)),
-                                OptTime: formatMins(lastTtm),
-                                MaxTime: formatMins(lastTtm + 60)
+                                MinTime: formatMins(lastTimes[0]),
+                                OptTime: formatMins(lastTimes[1]),
+                                MaxTime: formatMins(lastTimes[2])
                             });
                         }
 
@@ -602,15 +570,8 @@ export default async function exportRoutes(fastify: FastifyInstance) {
             }
 
             const headers = ['Line', 'Route', 'Version', 'DayType', 'Type', 'Departure', 'Arrival', 'Start', 'End', 'MinTime', 'OptTime', 'MaxTime'];
-            const csvContent = [
-                headers.join(';'),
-                ...outputRows.map(row => headers.map(h => {
-                    const val = row[h as keyof typeof row];
-                    if (val === null || val === undefined) return '';
-                    if (typeof val === 'string' && val.includes(';')) return `"${val}"`;
-                    return val;
-                }).join(';'))
-            ].join('\n');
+            // Semicolon-separated for spreadsheet tools; the BOM keeps accented stop names intact
+            const csvContent = toCsv(outputRows, headers, { delimiter: ';', bom: true });
 
             reply.header('Content-Type', 'text/csv; charset=utf-8');
             reply.header('Content-Disposition', 'attachment; filename="trips_times.csv"');
@@ -0,0 +1,267 @@
+import { FastifyInstance } from 'fastify';
+import db from '../db';
+import { v4 as uuidv4 } from 'uuid';
+
+interface FareBody {
+    fare_id: string;
+    price: number;
+    currency_type: string;
+    payment_method: number;
+    transfers?: number | null;
+    agency_id?: string | null;
+    transfer_duration?: number | null;
+}
+
+interface FareRuleBody {
+    fare_id: string;
+    route_id?: string | null;
+    origin_id?: string | null;
+    destination_id?: string | null;
+    contains_id?: string | null;
+}
+
+const RULE_FIELDS: Exclude<keyof FareRuleBody, 'fare_id'>[] = ['route_id', 'origin_id', 'destination_id', 'contains_id'];
+
+// Empty strings from the form mean "not set"
+const optionalNumber = (value: unknown): number | null =>
+    value === null || value === undefined || String(value) === '' ? null : Number(value);
+
+const normalizeFare = (body: FareBody): FareBody => ({
+    fare_id: String(body.fare_id || '').trim(),
+    price: Number(body.price),
+    currency_type: String(body.currency_type || '').trim().toUpperCase(),
+    payment_method: Number(body.payment_method || 0),
+    transfers: optionalNumber(body.transfers),
+    agency_id: body.agency_id || null,
+    transfer_duration: optionalNumber(body.transfer_duration)
+});
+
+const validateFare = (f: FareBody): string | null => {
+    if (!f.fare_id) return 'fare_id is required';
+    if (!Number.isFinite(f.price) || f.price < 0) return 'price must be a non-negative number';
+    if (!/^[A-Z]{3}$/.test(f.currency_type)) return 'currency_type must be an ISO 4217 code (e.g. MXN)';
+    if (f.payment_method !== 0 && f.payment_method !== 1) return 'payment_method must be 0 (on board) or 1 (before boarding)';
+    if (f.transfers !== null && f.transfers !== undefined && ![0, 1, 2].includes(f.transfers)) {
+        return 'transfers must be 0, 1, 2 or empty for unlimited';
+    }
+    if (f.transfer_duration !== null && f.transfer_duration !== undefined && (!Number.isInteger(f.transfer_duration) || f.transfer_duration < 0)) {
+        return 'transfer_duration must be a non-negative number of seconds';
+    }
+    if (f.agency_id && !db.prepare('SELECT 1 FROM agency WHERE agency_id = ?').get(f.agency_id)) {
+        return `agency_id "${f.agency_id}" does not exist`;
+    }
+    return null;
+};
+
+const normalizeRule = (body: FareRuleBody): FareRuleBody => {
+    const clean: FareRuleBody = { fare_id: String(body.fare_id || '') };
+    RULE_FIELDS.forEach(field => {
+        const value = body[field];
+        clean[field] = value ? String(value).trim() || null : null;
+    });
+    return clean;
+};
+
+const validateRule = (r: FareRuleBody): string | null => {
+    if (!r.fare_id) return 'fare_id is required';
+    if (!db.prepare('SELECT 1 FROM fare_attributes WHERE fare_id = ?').get(r.fare_id)) {
+        return `fare_id "${r.fare_id}" does not exist`;
+    }
+    if (r.route_id && !db.prepare('SELECT 1 FROM routes WHERE route_id = ?').get(r.route_id)) {
+        return `route_id "${r.route_id}" does not exist`;
+    }
+    return null;
+};
+
+const isUniqueViolation = (err: any) => err?.code === 'SQLITE_CONSTRAINT_UNIQUE' || err?.code === 'SQLITE_CONSTRAINT_PRIMARYKEY';
+
+export default async function faresRoutes(fastify: FastifyInstance) {
+
+    // GET All Fare Products (with rule counts for display)
+    fastify.get('/fares', async (request, reply) => {
+        try {
+            return db.prepare(`
+                SELECT fa.*, a.agency_name, (SELECT COUNT(*) FROM fare_rules fr WHERE fr.fare_id = fa.fare_id) as rule_count
+                FROM fare_attributes fa
+                LEFT JOIN agency a ON a.agency_id = fa.agency_id
+                ORDER BY fa.fare_id
+            `).all();
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch fares' });
+        }
+    });
+
+    // POST Create Fare Product
+    fastify.post('/fares', async (request, reply) => {
+        const fare = normalizeFare(request.body as FareBody);
+        const error = validateFare(fare);
+        if (error) return reply.code(400).send({ error });
+
+        try {
+            db.prepare(`
+                INSERT INTO fare_attributes (fare_id, price, currency_type, payment_method, transfers, agency_id, transfer_duration)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `).run(fare.fare_id, fare.price, fare.currency_type, fare.payment_method, fare.transfers, fare.agency_id, fare.transfer_duration);
+            return { success: true, ...fare };
+        } catch (err) {
+            if (isUniqueViolation(err)) return reply.code(409).send({ error: `Fare "${fare.fare_id}" already exists` });
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to create fare' });
+        }
+    });
+
+    // PUT Update Fare Product (fare_id is the key and cannot change)
+    fastify.put('/fares/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const fare = normalizeFare({ ...(request.body as FareBody), fare_id: id });
+        const error = validateFare(fare);
+        if (error) return reply.code(400).send({ error });
+
+        try {
+            const info = db.prepare(`
+                UPDATE fare_attributes
+                SET price = ?, currency_type = ?, payment_method = ?, transfers = ?, agency_id = ?, transfer_duration = ?
+                WHERE fare_id = ?
+            `).run(fare.price, fare.currency_type, fare.payment_method, fare.transfers, fare.agency_id, fare.transfer_duration, id);
+
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Fare not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to update fare' });
+        }
+    });
+
+    // DELETE Fare Product and its rules
+    fastify.delete('/fares/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        try {
+            const changes = db.transaction(() => {
+                db.prepare('DELETE FROM fare_rules WHERE fare_id = ?').run(id);
+                return db.prepare('DELETE FROM fare_attributes WHERE fare_id = ?').run(id).changes;
+            })();
+            if (changes === 0) {
+                return reply.code(404).send({ error: 'Fare not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to delete fare' });
+        }
+    });
+
+    // GET All Fare Rules
+    fastify.get('/fare-rules', async (request, reply) => {
+        try {
+            return db.prepare(`
+                SELECT fr.*, r.route_short_name, r.route_long_name
+                FROM fare_rules fr
+                LEFT JOIN routes r ON r.route_id = fr.route_id
+                ORDER BY fr.fare_id, r.route_short_name, fr.origin_id, fr.destination_id
+            `).all();
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch fare rules' });
+        }
+    });
+
+    // POST Create Fare Rule
+    fastify.post('/fare-rules', async (request, reply) => {
+        const rule = normalizeRule(request.body as FareRuleBody);
+        const error = validateRule(rule);
+        if (error) return reply.code(400).send({ error });
+
+        const rule_id = uuidv4();
+        try {
+            db.prepare(`
+                INSERT INTO fare_rules (rule_id, fare_id, route_id, origin_id, destination_id, contains_id)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `).run(rule_id, rule.fare_id, rule.route_id, rule.origin_id, rule.destination_id, rule.contains_id);
+            return { success: true, rule_id, ...rule };
+        } catch (err) {
+            if (isUniqueViolation(err)) return reply.code(409).send({ error: 'An identical fare rule already exists' });
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to create fare rule' });
+        }
+    });
+
+    // PUT Update Fare Rule
+    fastify.put('/fare-rules/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const rule = normalizeRule(request.body as FareRuleBody);
+        const error = validateRule(rule);
+        if (error) return reply.code(400).send({ error });
+
+        try {
+            const info = db.prepare(`
+                UPDATE fare_rules SET fare_id = ?, route_id = ?, origin_id = ?, destination_id = ?, contains_id = ?
+                WHERE rule_id = ?
+            `).run(rule.fare_id, rule.route_id, rule.origin_id, rule.destination_id, rule.contains_id, id);
+
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Fare rule not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            if (isUniqueViolation(err)) return reply.code(409).send({ error: 'An identical fare rule already exists' });
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to update fare rule' });
+        }
+    });
+
+    // DELETE Fare Rule
+    fastify.delete('/fare-rules/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        try {
+            const info = db.prepare('DELETE FROM fare_rules WHERE rule_id = ?').run(id);
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Fare rule not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to delete fare rule' });
+        }
+    });
+
+    // GET Zones in use (by stops or by fare rules)
+    fastify.get('/zones', async (request, reply) => {
+        try {
+            return db.prepare(`
+                WITH zones AS (
+                    SELECT zone_id FROM stops WHERE zone_id IS NOT NULL AND zone_id != ''
+                    UNION SELECT origin_id FROM fare_rules WHERE origin_id IS NOT NULL
+                    UNION SELECT destination_id FROM fare_rules WHERE destination_id IS NOT NULL
+                    UNION SELECT contains_id FROM fare_rules WHERE contains_id IS NOT NULL
+                )
+                SELECT z.zone_id, (SELECT COUNT(*) FROM stops s WHERE s.zone_id = z.zone_id) as stop_count
+                FROM zones z
+                ORDER BY z.zone_id
+            `).all();
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch zones' });
+        }
+    });
+
+    // POST Assign a zone to a set of stops (zone painting); an empty zone_id clears it
+    fastify.post('/zones/assign', async (request, reply) => {
+        const { zone_id, stop_ids } = request.body as { zone_id?: string | null, stop_ids?: string[] };
+        if (!Array.isArray(stop_ids) || stop_ids.length === 0) {
+            return reply.code(400).send({ error: 'stop_ids must be a non-empty array' });
+        }
+        const zone = zone_id ? String(zone_id).trim() || null : null;
+
+        try {
+            const update = db.prepare('UPDATE stops SET zone_id = ? WHERE stop_id = ?');
+            const updated = db.transaction(() => stop_ids.reduce((sum, stopId) => sum + update.run(zone, stopId).changes, 0))();
+            return { success: true, zone_id: zone, updated };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to assign zone' });
+        }
+    });
+}
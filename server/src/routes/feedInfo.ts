@@ -0,0 +1,57 @@
+import { FastifyInstance } from 'fastify';
+import { getFeedInfo, saveFeedInfo, nextFeedVersion, isFeedInfoComplete, EditableFeedInfo, EDITABLE_FIELDS, VERSION_MODES } from '../services/feedInfo';
+
+const URL_RE = /^https?:\/\/\S+$/i;
+const LANG_RE = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i; // IETF BCP 47 (en, es-MX, mul)
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Empty strings from the form mean "not set"
+const normalize = (body: Partial<EditableFeedInfo>): EditableFeedInfo => {
+    const clean = {} as Record<keyof EditableFeedInfo, string | null>;
+    EDITABLE_FIELDS.forEach(field => {
+        const value = body[field];
+        clean[field] = value === null || value === undefined ? null : String(value).trim() || null;
+    });
+    return { ...clean, version_mode: (clean.version_mode || 'date') } as EditableFeedInfo;
+};
+
+const validate = (s: EditableFeedInfo): string | null => {
+    if (!VERSION_MODES.includes(s.version_mode)) return `version_mode must be one of: ${VERSION_MODES.join(', ')}`;
+    if (s.version_mode === 'manual' && !s.feed_version) return 'feed_version is required in manual mode';
+    if (s.feed_publisher_url && !URL_RE.test(s.feed_publisher_url)) return 'feed_publisher_url must be a http(s) URL';
+    if (s.feed_contact_url && !URL_RE.test(s.feed_contact_url)) return 'feed_contact_url must be a http(s) URL';
+    if (s.feed_lang && !LANG_RE.test(s.feed_lang)) return 'feed_lang must be a language code such as "es" or "mul"';
+    if (s.default_lang && !LANG_RE.test(s.default_lang)) return 'default_lang must be a language code such as "es"';
+    if (s.feed_contact_email && !EMAIL_RE.test(s.feed_contact_email)) return 'feed_contact_email is not a valid email address';
+    return null;
+};
+
+export default async function feedInfoRoutes(fastify: FastifyInstance) {
+
+    // GET Feed settings, with the version the next export will get
+    fastify.get('/feed-info', async (request, reply) => {
+        try {
+            const settings = getFeedInfo();
+            return { ...settings, next_version: nextFeedVersion(settings), complete: isFeedInfoComplete(settings) };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch feed info' });
+        }
+    });
+
+    // PUT Update Feed settings (the version counter is only moved by exports)
+    fastify.put('/feed-info', async (request, reply) => {
+        const settings = normalize(request.body as Partial<EditableFeedInfo>);
+        const error = validate(settings);
+        if (error) return reply.code(400).send({ error });
+
+        try {
+            saveFeedInfo(settings);
+            const saved = getFeedInfo();
+            return { success: true, ...saved, next_version: nextFeedVersion(saved), complete: isFeedInfoComplete(saved) };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to save feed info' });
+        }
+    });
+}
@@ -8,6 +8,10 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as util from 'util';
 import { pipeline } from 'stream';
+import jobQueue, { Job, JobCancelledError, JobContext } from '../services/jobQueue';
+import { getFeedInfo, isFeedInfoComplete, saveFeedInfo } from '../services/feedInfo';
+import { isTranslatable, recordExists, LANG_RE } from '../services/translations';
+import { collectObservations, saveCalibration, DEFAULT_CALIBRATION } from '../services/calibration';
 
 const pump = util.promisify(pipeline);
 const TEMP_DIR = path.join(__dirname, '../../uploads');
@@ -17,13 +21,32 @@ if (!fs.existsSync(TEMP_DIR)) {
     fs.mkdirSync(TEMP_DIR, { recursive: true });
 }
 
-// In-memory status storage
-const importTasks = new Map<string, {
-    status: 'processing' | 'completed' | 'error';
-    progress: number;
-    message: string;
-    details?: any;
-}>();
+interface GtfsImportParams {
+    filePath: string;
+    services: string[];
+    routes: string[];
+    allowedPairs: string[] | null;
+}
+
+interface StructuredImportParams {
+    files: Partial<Record<'stops' | 'routes' | 'itineraries', string>>; // field -> temp file path
+}
+
+// Uploaded files of jobs that never ran (cancelled while queued) are removed when the job is pruned
+const removeTempFiles = (paths: (string | undefined)[]) => {
+    paths.forEach(p => {
+        if (p && fs.existsSync(p)) {
+            try {
+                fs.unlinkSync(p);
+            } catch (e) {
+                console.error("Failed to delete temp file", e);
+            }
+        }
+    });
+};
+
+jobQueue.register('gtfs_import', processGtfsImport, (job: Job) => removeTempFiles([job.params?.filePath]));
+jobQueue.register('structured_import', processStructuredImport, (job: Job) => removeTempFiles(Object.values(job.params?.files || {})));
 
 export default async function importRoutes(fastify: FastifyInstance) {
 
@@ -64,76 +87,56 @@ export default async function importRoutes(fastify: FastifyInstance) {
             return reply.code(404).send({ error: 'Temporary file not found or expired.' });
         }
 
-        const taskId = uuidv4();
-        importTasks.set(taskId, {
-            status: 'processing',
-            progress: 0,
-            message: 'Starting filtered import...'
-        });
-
-        // Use selectedPairs if available
-        let allowedPairs: Set<string> | null = null;
-        if (selectedPairs && selectedPairs.length > 0) {
-            allowedPairs = new Set(selectedPairs);
-        }
-
-        // Start async processing
-        processGtfsImport(taskId, filePath, {
-            services: new Set(selectedServices),
-            routes: new Set(selectedRoutes),
-            allowedPairs
-        });
+        // Runs in the background; progress is available under /jobs/:id
+        const params: GtfsImportParams = {
+            filePath,
+            services: selectedServices || [],
+            routes: selectedRoutes || [],
+            // Use selectedPairs if available
+            allowedPairs: selectedPairs && selectedPairs.length > 0 ? selectedPairs : null
+        };
+        const job = jobQueue.enqueue('gtfs_import', params, 'Starting filtered import...');
 
-        return reply.send({ taskId });
+        return reply.send({ taskId: job.job_id, jobId: job.job_id });
     });
 
     // 3. STRUCTURED IMPORT (CSV)
     fastify.post('/gtfs/structured', async (request, reply) => {
         const parts = request.parts();
-
-        const stopsRows: any[] = [];
-        const routesRows: any[] = [];
-        const itinerariesRows: any[] = [];
+        const files: StructuredImportParams['files'] = {};
 
         try {
             for await (const part of parts) {
-                if (part.type === 'file') {
-                    const buffer = await part.toBuffer();
-                    const content = buffer.toString('utf-8');
-                    const rows = await parseCsvContent(content);
-
-                    if (part.fieldname === 'stops') stopsRows.push(...rows);
-                    if (part.fieldname === 'routes') routesRows.push(...rows);
-                    if (part.fieldname === 'itineraries') itinerariesRows.push(...rows);
+                if (part.type === 'file' && ['stops', 'routes', 'itineraries'].includes(part.fieldname)) {
+                    const filePath = path.join(TEMP_DIR, `${uuidv4()}.csv`);
+                    await pump(part.file, fs.createWriteStream(filePath));
+                    files[part.fieldname as keyof StructuredImportParams['files']] = filePath;
                 }
             }
 
-            const { StructuredImportService } = await import('../services/structuredImportService');
-            const service = new StructuredImportService();
-            service.processAll(stopsRows, routesRows, itinerariesRows);
-
-            const errors = service.getErrors();
-            if (errors.length > 0) {
-                return reply.code(400).send({ success: false, errors });
-            }
-
-            return reply.send({ success: true, message: 'Import successful' });
+            const job = jobQueue.enqueue('structured_import', { files } as StructuredImportParams);
+            return reply.send({ jobId: job.job_id });
 
         } catch (err: any) {
+            removeTempFiles(Object.values(files));
             request.log.error(err);
             return reply.code(500).send({ error: err.message });
         }
     });
 
-    // Legacy/Direct Import (Keep for backward compatibility if needed, or remove)
-    // For now, let's keep the specialized status endpoint
+    // Legacy status endpoint, kept for older clients; new code polls /jobs/:id
     fastify.get('/gtfs/import/status/:taskId', async (request, reply) => {
         const { taskId } = request.params as { taskId: string };
-        const task = importTasks.get(taskId);
-        if (!task) {
+        const job = jobQueue.get(taskId);
+        if (!job) {
             return reply.code(404).send({ error: 'Task not found' });
         }
-        return reply.send(task);
+        return reply.send({
+            status: job.status === 'completed' ? 'completed' : jobQueue.isFinished(job) ? 'error' : 'processing',
+            progress: job.progress,
+            message: job.error || job.message,
+            details: job.result || undefined
+        });
     });
 }
 
@@ -335,32 +338,56 @@ function getEntries(filePath: string): Promise<Set<string>> {
     });
 }
 
-async function processGtfsImport(taskId: string, filePath: string, filters: { services: Set<string>, routes: Set<string>, allowedPairs: Set<string> | null }) {
-    const updateStatus = (progress: number, message: string) => {
-        const task = importTasks.get(taskId);
-        if (task) {
-            task.progress = progress;
-            task.message = message;
-        }
-    };
+async function processStructuredImport(ctx: JobContext) {
+    const { files } = ctx.params as StructuredImportParams;
 
-    const fail = (msg: string) => {
-        const task = importTasks.get(taskId);
-        if (task) {
-            task.status = 'error';
-            task.message = msg;
+    try {
+        ctx.setProgress(10, "Reading files...");
+        const readRows = async (filePath?: string) => filePath ? parseCsvContent(await fs.promises.readFile(filePath, 'utf-8')) : [];
+        const stopsRows = await readRows(files.stops);
+        const routesRows = await readRows(files.routes);
+        const itinerariesRows = await readRows(files.itineraries);
+
+        ctx.setProgress(30, "Importing stops, routes and itineraries...");
+        const { StructuredImportService } = await import('../services/structuredImportService');
+        const service = new StructuredImportService();
+        service.processAll(stopsRows, routesRows, itinerariesRows);
+
+        const errors = service.getErrors();
+        if (errors.length > 0) {
+            ctx.setProgress(100, `Import finished with ${errors.length} error(s)`);
+            return { success: false, errors };
         }
+
+        ctx.setProgress(100, 'Import successful');
+        return { success: true, message: 'Import successful' };
+    } finally {
+        removeTempFiles(Object.values(files));
+    }
+}
+
+async function processGtfsImport(ctx: JobContext) {
+    const params = ctx.params as GtfsImportParams;
+    const filePath = params.filePath;
+    const filters = {
+        services: new Set(params.services),
+        routes: new Set(params.routes),
+        allowedPairs: params.allowedPairs ? new Set(params.allowedPairs) : null
     };
+    const updateStatus = (progress: number, message: string) => ctx.setProgress(progress, message);
 
     try {
+        if (!fs.existsSync(filePath)) {
+            throw new Error('Temporary file not found or expired.');
+        }
+
         updateStatus(5, "Scanning ZIP structure...");
         const entries = await getEntries(filePath);
 
         const required = ['routes.txt', 'trips.txt', 'stop_times.txt', 'stops.txt'];
         const missing = required.filter(f => !entries.has(f));
         if (missing.length > 0) {
-            fail(`Missing files: ${missing.join(', ')}`);
-            return;
+            throw new Error(`Missing files: ${missing.join(', ')}`);
         }
 
         // --- VALIDATION PHASE ---
@@ -503,10 +530,35 @@ async function processGtfsImport(taskId: string, filePath: string, filters: { se
             await processStream(stream, batch, 100, flush);
         }
 
+        // Stations of the used stops come along whole: the station, its entrances, nodes,
+        // platforms and boarding areas, none of which appear in stop_times themselves
+        if (entries.has('stops.txt') && usedStopIds.size > 0) {
+            const parents = new Map<string, string>();
+            const stream = await readEntryStream(filePath, 'stops.txt');
+            const batch: any[] = [];
+            const flush = (rows: any[]) => {
+                rows.forEach(s => {
+                    if (s.parent_station) parents.set(s.stop_id, s.parent_station);
+                });
+            };
+            await processStream(stream, batch, 2000, flush);
+
+            const stations = new Set<string>();
+            usedStopIds.forEach(id => {
+                const parent = parents.get(id);
+                if (!parent) return;
+                stations.add(parents.get(parent) || parent); // boarding area -> platform -> station
+            });
+            stations.forEach(id => usedStopIds.add(id));
+            parents.forEach((parent, id) => {
+                if (stations.has(parent) || stations.has(parents.get(parent) || '')) usedStopIds.add(id);
+            });
+        }
+
         // Stops
         if (entries.has('stops.txt')) {
             updateStatus(30, "Importing Stops...");
-            const insert = db.prepare(`INSERT OR IGNORE INTO stops (stop_id, stop_code, stop_name, stop_desc, stop_lat, stop_lon, zone_id, stop_url, location_type, parent_station, stop_timezone, wheelchair_boarding) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+            const insert = db.prepare(`INSERT OR IGNORE INTO stops (stop_id, stop_code, stop_name, stop_desc, stop_lat, stop_lon, zone_id, stop_url, location_type, parent_station, stop_timezone, wheelchair_boarding, level_id, platform_code) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
             const stream = await readEntryStream(filePath, 'stops.txt');
             const batch: any[] = [];
             const flush = db.transaction((rows: any[]) => {
@@ -515,7 +567,8 @@ async function processGtfsImport(taskId: string, filePath: string, filters: { se
                     if (usedStopIds.size > 0 && !usedStopIds.has(s.stop_id)) return;
 
                     insert.run(
-                        s.stop_id, s.stop_code, s.stop_name, s.stop_desc, s.stop_lat, s.stop_lon, s.zone_id, s.stop_url, s.location_type || 0, s.parent_station, s.stop_timezone, s.wheelchair_boarding || 0
+                        s.stop_id, s.stop_code, s.stop_name, s.stop_desc, s.stop_lat, s.stop_lon, s.zone_id, s.stop_url, s.location_type || 0, s.parent_station || null, s.stop_timezone, s.wheelchair_boarding || 0,
+                        s.level_id || null, s.platform_code || null
                     );
                 });
             });
@@ -543,6 +596,37 @@ async function processGtfsImport(taskId: string, filePath: string, filters: { se
             await processStream(stream, batch, 500, flush);
         }
 
+        // Calendar Dates (Service Exceptions)
+        if (entries.has('calendar_dates.txt')) {
+            updateStatus(60, "Importing Service Exceptions...");
+            const insert = db.prepare(`INSERT OR REPLACE INTO calendar_dates (service_id, date, exception_type) VALUES (?, ?, ?)`);
+            const stream = await readEntryStream(filePath, 'calendar_dates.txt');
+            const dateRanges = new Map<string, { min: string, max: string }>(); // service_id -> date range
+            const batch: any[] = [];
+            const flush = db.transaction((rows: any[]) => {
+                rows.forEach(cd => {
+                    if (!filters.services.has(cd.service_id)) return;
+                    insert.run(cd.service_id, cd.date, Number(cd.exception_type));
+
+                    const range = dateRanges.get(cd.service_id);
+                    if (!range) {
+                        dateRanges.set(cd.service_id, { min: cd.date, max: cd.date });
+                    } else {
+                        if (cd.date < range.min) range.min = cd.date;
+                        if (cd.date > range.max) range.max = cd.date;
+                    }
+                });
+            });
+            await processStream(stream, batch, 500, flush);
+
+            // Services defined only through calendar_dates still need a calendar row
+            // so they can be selected in the editor and in the export filters.
+            const insertPlaceholder = db.prepare(`INSERT OR IGNORE INTO calendar (service_id, monday, tuesday, wednesday, thursday, friday, saturday, sunday, start_date, end_date) VALUES (?, 0, 0, 0, 0, 0, 0, 0, ?, ?)`);
+            db.transaction(() => {
+                dateRanges.forEach((range, serviceId) => insertPlaceholder.run(serviceId, range.min, range.max));
+            })();
+        }
+
         // Trips
         if (entries.has('trips.txt')) {
             updateStatus(65, "Importing Trips...");
@@ -591,6 +675,23 @@ async function processGtfsImport(taskId: string, filePath: string, filters: { se
             await processStream(stream, batch, 5000, flush);
         }
 
+        // Frequencies (Headway-based Trips)
+        if (entries.has('frequencies.txt')) {
+            updateStatus(85, "Importing Frequencies...");
+            const insert = db.prepare(`INSERT OR REPLACE INTO frequencies (trip_id, start_time, end_time, headway_secs, exact_times) VALUES (?, ?, ?, ?, ?)`);
+            const stream = await readEntryStream(filePath, 'frequencies.txt');
+
+            const batch: any[] = [];
+            const flush = db.transaction((rows: any[]) => {
+                rows.forEach(f => {
+                    if (finalValidTrips.has(f.trip_id)) {
+                        insert.run(f.trip_id, f.start_time, f.end_time, parseInt(f.headway_secs, 10), f.exact_times === '1' ? 1 : 0);
+                    }
+                });
+            });
+            await processStream(stream, batch, 2000, flush);
+        }
+
         // Shapes
         if (entries.has('shapes.txt')) {
             updateStatus(90, "Importing Shapes...");
@@ -606,47 +707,185 @@ async function processGtfsImport(taskId: string, filePath: string, filters: { se
             await processStream(stream, batch, 5000, flush);
         }
 
-        // Generate Segments for Visualization
-        if (finalValidTrips.size > 0 && entries.has('stop_times.txt')) {
-            await generateSegments(taskId, finalValidTrips);
-            await analyzeTimeSlots(taskId, finalValidTrips);
+        // Transfers between stops, routes and trips that exist after the import
+        if (entries.has('transfers.txt')) {
+            updateStatus(92, "Importing Transfers...");
+            const insert = db.prepare(`INSERT OR IGNORE INTO transfers (transfer_id, from_stop_id, to_stop_id, from_route_id, to_route_id, from_trip_id, to_trip_id, transfer_type, min_transfer_time) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+            const exists = {
+                stop: db.prepare('SELECT 1 FROM stops WHERE stop_id = ?'),
+                route: db.prepare('SELECT 1 FROM routes WHERE route_id = ?'),
+                trip: db.prepare('SELECT 1 FROM trips WHERE trip_id = ?')
+            };
+            const known = (kind: keyof typeof exists, id: string) => !id || !!exists[kind].get(id);
+            const stream = await readEntryStream(filePath, 'transfers.txt');
+
+            const batch: any[] = [];
+            const flush = db.transaction((rows: any[]) => {
+                rows.forEach(t => {
+                    if (!known('stop', t.from_stop_id) || !known('stop', t.to_stop_id)) return;
+                    if (!known('route', t.from_route_id) || !known('route', t.to_route_id)) return;
+                    if (!known('trip', t.from_trip_id) || !known('trip', t.to_trip_id)) return;
+
+                    insert.run(
+                        uuidv4(), t.from_stop_id || null, t.to_stop_id || null, t.from_route_id || null, t.to_route_id || null,
+                        t.from_trip_id || null, t.to_trip_id || null, parseInt(t.transfer_type, 10) || 0,
+                        t.min_transfer_time ? parseInt(t.min_transfer_time, 10) : null
+                    );
+                });
+            });
+            await processStream(stream, batch, 2000, flush);
+        }
+
+        // Levels of the imported stops
+        if (entries.has('levels.txt')) {
+            updateStatus(93, "Importing Levels...");
+            const used = new Set((db.prepare('SELECT DISTINCT level_id FROM stops WHERE level_id IS NOT NULL').all() as { level_id: string }[]).map(l => l.level_id));
+            const insert = db.prepare(`INSERT OR REPLACE INTO levels (level_id, level_index, level_name) VALUES (?, ?, ?)`);
+            const stream = await readEntryStream(filePath, 'levels.txt');
+            const batch: any[] = [];
+            const flush = db.transaction((rows: any[]) => {
+                rows.forEach(l => {
+                    if (!used.has(l.level_id)) return;
+                    insert.run(l.level_id, parseFloat(l.level_index) || 0, l.level_name || null);
+                });
+            });
+            await processStream(stream, batch, 500, flush);
+        }
+
+        // Pathways between imported stops
+        if (entries.has('pathways.txt')) {
+            updateStatus(93, "Importing Pathways...");
+            const insert = db.prepare(`INSERT OR REPLACE INTO pathways (pathway_id, from_stop_id, to_stop_id, pathway_mode, is_bidirectional, length, traversal_time, stair_count, max_slope, min_width, signposted_as, reversed_signposted_as) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+            const stopExists = db.prepare('SELECT 1 FROM stops WHERE stop_id = ?');
+            const optional = (value: string, parse: (v: string) => number) => value === undefined || value === '' ? null : parse(value);
+            const stream = await readEntryStream(filePath, 'pathways.txt');
+            const batch: any[] = [];
+            const flush = db.transaction((rows: any[]) => {
+                rows.forEach(p => {
+                    if (!p.pathway_id || !stopExists.get(p.from_stop_id) || !stopExists.get(p.to_stop_id)) return;
+                    insert.run(
+                        p.pathway_id, p.from_stop_id, p.to_stop_id, parseInt(p.pathway_mode, 10) || 1, parseInt(p.is_bidirectional, 10) ? 1 : 0,
+                        optional(p.length, parseFloat), optional(p.traversal_time, v => parseInt(v, 10)), optional(p.stair_count, v => parseInt(v, 10)),
+                        optional(p.max_slope, parseFloat), optional(p.min_width, parseFloat), p.signposted_as || null, p.reversed_signposted_as || null
+                    );
+                });
+            });
+            await processStream(stream, batch, 2000, flush);
+        }
+
+        // Translations of imported records, plus value-based ones that match by text
+        if (entries.has('translations.txt')) {
+            updateStatus(93, "Importing Translations...");
+            const insert = db.prepare(`INSERT OR REPLACE INTO translations (translation_id, table_name, field_name, language, translation, record_id, record_sub_id, field_value) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`);
+            const stream = await readEntryStream(filePath, 'translations.txt');
+            const batch: any[] = [];
+            const flush = db.transaction((rows: any[]) => {
+                rows.forEach(t => {
+                    if (!isTranslatable(t.table_name, t.field_name) || !LANG_RE.test(t.language || '') || !t.translation) return;
+                    if (t.record_id ? !recordExists(t.table_name, t.record_id) : !t.field_value) return;
+                    insert.run(
+                        uuidv4(), t.table_name, t.field_name, t.language, t.translation,
+                        t.record_id || null, t.record_sub_id || null, t.record_id ? null : t.field_value
+                    );
+                });
+            });
+            await processStream(stream, batch, 2000, flush);
         }
 
-        const completionTask = importTasks.get(taskId);
-        if (completionTask) {
-            completionTask.status = 'completed';
-            completionTask.progress = 100;
-            completionTask.message = 'Import completed successfuly.';
-            completionTask.details = {
-                importedRoutesCount: validRouteIds.size - skippedRoutes.length, // Approx
-                skippedRoutesCount: skippedRoutes.length,
-                skippedRoutes: skippedRoutes,
-                invalidRoutesCount: ignoredRoutes.length,
-                invalidRoutes: ignoredRoutes
+        // Fare products; the agency reference is dropped when that agency was not imported
+        if (entries.has('fare_attributes.txt')) {
+            updateStatus(93, "Importing Fares...");
+            const insert = db.prepare(`INSERT OR REPLACE INTO fare_attributes (fare_id, price, currency_type, payment_method, transfers, agency_id, transfer_duration) VALUES (?, ?, ?, ?, ?, ?, ?)`);
+            const agencyExists = db.prepare('SELECT 1 FROM agency WHERE agency_id = ?');
+            const stream = await readEntryStream(filePath, 'fare_attributes.txt');
+
+            const batch: any[] = [];
+            const flush = db.transaction((rows: any[]) => {
+                rows.forEach(f => {
+                    if (!f.fare_id) return;
+                    const agencyId = f.agency_id && agencyExists.get(f.agency_id) ? f.agency_id : null;
+                    insert.run(
+                        f.fare_id, parseFloat(f.price) || 0, f.currency_type, parseInt(f.payment_method, 10) || 0,
+                        f.transfers === '' || f.transfers === undefined ? null : parseInt(f.transfers, 10),
+                        agencyId, f.transfer_duration ? parseInt(f.transfer_duration, 10) : null
+                    );
+                });
+            });
+            await processStream(stream, batch, 2000, flush);
+        }
+
+        // Fare rules of known fares, on routes that exist after the import
+        if (entries.has('fare_rules.txt')) {
+            updateStatus(94, "Importing Fare Rules...");
+            const insert = db.prepare(`INSERT OR IGNORE INTO fare_rules (rule_id, fare_id, route_id, origin_id, destination_id, contains_id) VALUES (?, ?, ?, ?, ?, ?)`);
+            const fareExists = db.prepare('SELECT 1 FROM fare_attributes WHERE fare_id = ?');
+            const routeExists = db.prepare('SELECT 1 FROM routes WHERE route_id = ?');
+            const stream = await readEntryStream(filePath, 'fare_rules.txt');
+
+            const batch: any[] = [];
+            const flush = db.transaction((rows: any[]) => {
+                rows.forEach(r => {
+                    if (!r.fare_id || !fareExists.get(r.fare_id)) return;
+                    if (r.route_id && !routeExists.get(r.route_id)) return;
+
+                    insert.run(
+                        uuidv4(), r.fare_id, r.route_id || null, r.origin_id || null, r.destination_id || null, r.contains_id || null
+                    );
+                });
+            });
+            await processStream(stream, batch, 2000, flush);
+        }
+
+        // Publisher settings of the imported feed, unless ours are already filled in
+        if (entries.has('feed_info.txt') && !isFeedInfoComplete(getFeedInfo())) {
+            const stream = await readEntryStream(filePath, 'feed_info.txt');
+            const batch: any[] = [];
+            const flush = (rows: any[]) => {
+                const info = rows[0];
+                if (!info || !info.feed_publisher_name || !info.feed_publisher_url || !info.feed_lang) return;
+                const current = getFeedInfo();
+                if (isFeedInfoComplete(current)) return;
+                saveFeedInfo({
+                    ...current,
+                    feed_publisher_name: info.feed_publisher_name,
+                    feed_publisher_url: info.feed_publisher_url,
+                    feed_lang: info.feed_lang,
+                    default_lang: info.default_lang || null,
+                    feed_contact_email: info.feed_contact_email || null,
+                    feed_contact_url: info.feed_contact_url || null
+                });
             };
+            await processStream(stream, batch, 10, flush);
         }
 
+        // Generate Segments for Visualization
+        if (finalValidTrips.size > 0 && entries.has('stop_times.txt')) {
+            await generateSegments(ctx, finalValidTrips);
+            await analyzeTimeSlots(ctx, finalValidTrips);
+        }
+
+        updateStatus(100, 'Import completed successfuly.');
+        return {
+            importedRoutesCount: validRouteIds.size - skippedRoutes.length, // Approx
+            skippedRoutesCount: skippedRoutes.length,
+            skippedRoutes: skippedRoutes,
+            invalidRoutesCount: ignoredRoutes.length,
+            invalidRoutes: ignoredRoutes
+        };
+
     } catch (err: any) {
+        if (err instanceof JobCancelledError) throw err;
         console.error("Import Error", err);
-        fail(`Import failed: ${err.message}`);
+        throw new Error(`Import failed: ${err.message}`);
     } finally {
         // Cleanup Temp File
-        if (fs.existsSync(filePath)) {
-            try {
-                fs.unlinkSync(filePath);
-            } catch (e) {
-                console.error("Failed to delete temp file", e);
-            }
-        }
+        removeTempFiles([filePath]);
     }
 }
 
 // Helper to generate segments from imported trips
-async function generateSegments(taskId: string, tripIds: Set<string>) {
-    const updateStatus = (msg: string) => {
-        const task = importTasks.get(taskId);
-        if (task) task.message = msg;
-    };
+async function generateSegments(ctx: JobContext, tripIds: Set<string>) {
+    const updateStatus = (msg: string) => ctx.setMessage(msg);
 
     updateStatus("Generating Route Segments...");
     console.log(`Generating segments for ${tripIds.size} trips...`);
@@ -782,17 +1021,28 @@ async function generateSegments(taskId: string, tripIds: Set<string>) {
 
 function processStream(stream: Readable, batch: any[], batchSize: number, flush: (rows: any[]) => void): Promise<void> {
     return new Promise((resolve, reject) => {
-        stream.pipe(csv())
+        const parser = stream.pipe(csv());
+        // A failing flush (e.g. constraint violation) must reject the import instead of
+        // escaping from the stream callback and taking the whole process down
+        const safeFlush = () => {
+            try {
+                flush(batch);
+                batch.length = 0;
+                return true;
+            } catch (err) {
+                stream.destroy();
+                parser.destroy();
+                reject(err);
+                return false;
+            }
+        };
+        parser
             .on('data', (row) => {
                 batch.push(row);
-                if (batch.length >= batchSize) {
-                    flush(batch);
-                    batch.length = 0;
-                }
+                if (batch.length >= batchSize) safeFlush();
             })
             .on('end', () => {
-                if (batch.length > 0) flush(batch);
-                resolve();
+                if (batch.length === 0 || safeFlush()) resolve();
             })
             .on('error', reject);
     });
@@ -805,19 +1055,8 @@ function timeToSeconds(timeStr: string): number {
     return (h || 0) * 3600 + (m || 0) * 60 + (s || 0);
 }
 
-function secondsToTime(totalSeconds: number): string {
-    const h = Math.floor(totalSeconds / 3600);
-    const m = Math.floor((totalSeconds % 3600) / 60);
-    const s = totalSeconds % 60;
-    const pad = (n: number) => n.toString().padStart(2, '0');
-    return `${pad(h)}:${pad(m)}:${pad(s)}`;
-}
-
-async function analyzeTimeSlots(taskId: string, tripIds: Set<string>) {
-    const updateStatus = (msg: string) => {
-        const task = importTasks.get(taskId);
-        if (task) task.message = msg;
-    };
+async function analyzeTimeSlots(ctx: JobContext, tripIds: Set<string>) {
+    const updateStatus = (msg: string) => ctx.setMessage(msg);
 
     updateStatus("Analyzing Segment Time Slots...");
     console.log(`Analyzing time slots for ${tripIds.size} trips...`);
@@ -825,131 +1064,15 @@ async function analyzeTimeSlots(taskId: string, tripIds: Set<string>) {
     const tripIdArray = Array.from(tripIds);
     if (tripIdArray.length === 0) return;
 
-    // 1. Load Segments Lookup (StartNode-EndNode -> SegmentId)
-    // We need to know which segment corresponds to a stop pair
-    const segments = db.prepare('SELECT segment_id, start_node_id, end_node_id FROM segments').all() as any[];
-    const segmentMap = new Map<string, string>(); // "start-end" -> segment_id
-    segments.forEach(s => {
-        segmentMap.set(`${s.start_node_id}-${s.end_node_id}`, s.segment_id);
-    });
-
-    // 2. Fetch all stop times for these trips
-    // We do this in chunks to avoid variable limit
-    const chunkSize = 500;
-
-    // We will store events per segment: SegmentId -> List of { time: number, duration: number }
-    const segmentEvents = new Map<string, { time: number, duration: number }[]>();
-
-    for (let i = 0; i < tripIdArray.length; i += chunkSize) {
-        const chunk = tripIdArray.slice(i, i + chunkSize);
-        const placeholders = chunk.map(() => '?').join(',');
-
-        const rows = db.prepare(`
-            SELECT st.trip_id, st.stop_id, st.stop_sequence, st.arrival_time, st.departure_time
-            FROM stop_times st
-            WHERE st.trip_id IN (${placeholders})
-            ORDER BY st.trip_id, st.stop_sequence
-        `).all(...chunk) as any[];
-
-        // Group by Trip
-        const tripsMap = new Map<string, any[]>();
-        rows.forEach(r => {
-            if (!tripsMap.has(r.trip_id)) tripsMap.set(r.trip_id, []);
-            tripsMap.get(r.trip_id)!.push(r);
-        });
-
-        // Process Trips
-        for (const [tid, stops] of tripsMap) {
-            for (let j = 0; j < stops.length - 1; j++) {
-                const from = stops[j];
-                const to = stops[j + 1];
-                const key = `${from.stop_id}-${to.stop_id}`;
-                const segId = segmentMap.get(key);
-
-                if (segId && from.departure_time && to.arrival_time) {
-                    const startSec = timeToSeconds(from.departure_time);
-                    const endSec = timeToSeconds(to.arrival_time);
-                    let travelTime = endSec - startSec;
-                    if (travelTime < 0) travelTime = 0; // Should not happen with valid GTFS
-
-                    if (!segmentEvents.has(segId)) {
-                        segmentEvents.set(segId, []);
-                    }
-                    segmentEvents.get(segId)!.push({
-                        time: startSec,
-                        duration: travelTime
-                    });
-                }
-            }
-        }
-    }
-
-    // 3. Generate Slots for each Segment
-    const insertSlot = db.prepare(`
-        INSERT INTO segment_time_slots (id, segment_id, start_time, end_time, travel_time)
-        VALUES (?, ?, ?, ?, ?)
-    `);
-
-    const transaction = db.transaction(() => {
-        for (const [segId, events] of segmentEvents) {
-            if (events.length === 0) continue;
-
-            // Sort by time
-            events.sort((a, b) => a.time - b.time);
-
-            // Filter duplicates: Keep only MAX duration for same start time
-            const uniqueEventsMap = new Map<number, number>();
-            for (const e of events) {
-                const existing = uniqueEventsMap.get(e.time);
-                if (!existing || e.duration > existing) {
-                    uniqueEventsMap.set(e.time, e.duration);
-                }
-            }
-
-            // Convert back to sorted array
-            const uniqueEvents = Array.from(uniqueEventsMap.entries())
-                .map(([time, duration]) => ({ time, duration }))
-                .sort((a, b) => a.time - b.time);
-
-            if (uniqueEvents.length === 0) continue;
-
-            // RLE (Run Length Encoding) logic
-            // We want to group continuous trips with SAME duration.
-            // Using a simple greedy approach:
-            // A slot starts at the time of the first trip in the group.
-            // It ends at the time of the *next* trip that has a DIFFERENT duration (or end of list).
-
-            let currentStart = uniqueEvents[0].time;
-            let currentDuration = uniqueEvents[0].duration;
-
-            for (let k = 1; k < uniqueEvents.length; k++) {
-                const e = uniqueEvents[k];
-                if (e.duration !== currentDuration) {
-                    // Close current slot
-                    // Slot is from currentStart to e.time
-                    insertSlot.run(uuidv4(), segId, secondsToTime(currentStart), secondsToTime(e.time), currentDuration);
-
-                    // Start new slot
-                    currentStart = e.time;
-                    currentDuration = e.duration;
-                }
-            }
-
-            // Close final slot
-            // To what time? The user example said "to the next time where it changes".
-            // Since there is no next change, we can extend it a bit or just cap it at the last trip time.
-            // Let's cap it at last trip time + travel time??
-            // Or just allow it to be valid "forever" (start_time -> 24:00+).
-            // For now, let's just use the last event time as the "start" of the last slot, 
-            // and maybe give it a theoretical generic end like 30 hours?
-            // Actually, if we just set End to currentStart + 1 hour (arbitrary) it might look weird.
-            // Let's set it to the max time found in this specific segment's events + 1 hour to cover stragglers?
-            // Or simpler: just use 30:00:00 (end of operational day usually).
-
-            insertSlot.run(uuidv4(), segId, secondsToTime(currentStart), "36:00:00", currentDuration);
-        }
-    });
-
-    transaction();
-    console.log(`Generated time slots for ${segmentEvents.size} segments.`);
+    // Observed runs per segment and service: services run different times (weekday peaks vs Sundays)
+    const observations = collectObservations(tripIdArray);
+    const services = new Set([...observations.keys()].map(key => key.slice(key.indexOf('|') + 1)));
+
+    // A feed with a single service gets slots for all days; otherwise each set is scoped to its service
+    const scoped = services.size > 1;
+    const { segments, slots } = saveCalibration(observations, DEFAULT_CALIBRATION, serviceId => ({
+        service_id: scoped ? serviceId : null,
+        day_type: null
+    }));
+    console.log(`Calibrated ${slots} time slots on ${segments} segments.`);
 }
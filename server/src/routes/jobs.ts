@@ -0,0 +1,65 @@
+import { FastifyInstance } from 'fastify';
+import jobQueue, { Job, JobLogLine } from '../services/jobQueue';
+import { openEventStream } from '../utils/sse';
+
+export default async function jobsRoutes(fastify: FastifyInstance) {
+
+    // GET /jobs?type=gtfs_import&status=queued,running&limit=20
+    fastify.get('/jobs', async (request, reply) => {
+        const { type, status, limit } = request.query as { type?: string, status?: string, limit?: string };
+        try {
+            return jobQueue.list({ type, status, limit: limit ? Math.min(500, parseInt(limit, 10) || 50) : undefined });
+        } catch (err) {
+            request.log.error(err);
+            return reply.code(500).send({ error: 'Failed to list jobs' });
+        }
+    });
+
+    // Server-sent events: 'job' on every change, 'log' for new messages.
+    // With ?id= the stream follows one job and ends with a 'done' event once it finishes.
+    fastify.get('/jobs/events', async (request, reply) => {
+        const { id, type } = request.query as { id?: string, type?: string };
+        const initial = id ? jobQueue.get(id) : null;
+        if (id && !initial) return reply.code(404).send({ error: 'Job not found' });
+
+        const stream = openEventStream(request, reply);
+        const matches = (jobId: string, jobType?: string) => id ? jobId === id : (!type || jobType === type);
+
+        const onUpdate = (job: Job) => {
+            if (!matches(job.job_id, job.type)) return;
+            stream.send('job', job);
+            if (id && jobQueue.isFinished(job)) {
+                stream.send('done', job);
+                stream.close();
+            }
+        };
+        const onLog = (line: JobLogLine) => {
+            if (matches(line.job_id, id ? undefined : jobQueue.get(line.job_id)?.type)) stream.send('log', line);
+        };
+
+        jobQueue.on('update', onUpdate);
+        jobQueue.on('log', onLog);
+        stream.onClose(() => {
+            jobQueue.off('update', onUpdate);
+            jobQueue.off('log', onLog);
+        });
+
+        if (initial) onUpdate(initial);
+    });
+
+    fastify.get('/jobs/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const job = jobQueue.get(id);
+        if (!job) return reply.code(404).send({ error: 'Job not found' });
+        return job;
+    });
+
+    fastify.post('/jobs/:id/cancel', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const job = jobQueue.get(id);
+        if (!job) return reply.code(404).send({ error: 'Job not found' });
+        if (jobQueue.isFinished(job)) return reply.code(409).send({ error: `Job already ${job.status}` });
+
+        return jobQueue.cancel(id);
+    });
+}
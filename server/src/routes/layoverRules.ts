@@ -0,0 +1,95 @@
+import { FastifyInstance } from 'fastify';
+import db from '../db';
+import { v4 as uuidv4 } from 'uuid';
+import { TerminalLayoverRule, layoverRuleError, listLayoverRules } from '../services/layoverRules';
+
+type LayoverBody = Omit<TerminalLayoverRule, 'id'>;
+
+// Empty strings from the form mean "not set"
+const normalize = (body: Partial<LayoverBody>): LayoverBody => ({
+    route_id: String(body.route_id || ''),
+    stop_id: body.stop_id || null,
+    start_time: body.start_time || null,
+    end_time: body.end_time || null,
+    min_secs: Number(body.min_secs ?? 0),
+    percent: Number(body.percent ?? 0)
+});
+
+// Two rules of a route with the same terminal and band would make the resolution ambiguous
+const duplicateRule = (rule: LayoverBody, exceptId: string | null = null) => db.prepare(`
+    SELECT 1 FROM layover_rules
+    WHERE route_id = ? AND stop_id IS ? AND start_time IS ? AND end_time IS ? AND id IS NOT ?
+`).get(rule.route_id, rule.stop_id, rule.start_time, rule.end_time, exceptId);
+
+export default async function layoverRulesRoutes(fastify: FastifyInstance) {
+
+    // GET Layover rules, optionally of one route
+    fastify.get('/layover_rules', async (request, reply) => {
+        const { route_id } = request.query as { route_id?: string };
+        try {
+            return listLayoverRules(route_id);
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch layover rules' });
+        }
+    });
+
+    // POST Create Layover Rule
+    fastify.post('/layover_rules', async (request, reply) => {
+        const rule = normalize(request.body as Partial<LayoverBody>);
+        const error = layoverRuleError(rule);
+        if (error) return reply.code(400).send({ error });
+        if (duplicateRule(rule)) return reply.code(409).send({ error: 'This route already has a layover rule for the same terminal and band' });
+
+        const id = uuidv4();
+        try {
+            db.prepare(`
+                INSERT INTO layover_rules (id, route_id, stop_id, start_time, end_time, min_secs, percent)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `).run(id, rule.route_id, rule.stop_id, rule.start_time, rule.end_time, rule.min_secs, rule.percent);
+            return { success: true, id, ...rule };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to create layover rule' });
+        }
+    });
+
+    // PUT Update Layover Rule
+    fastify.put('/layover_rules/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const rule = normalize(request.body as Partial<LayoverBody>);
+        const error = layoverRuleError(rule);
+        if (error) return reply.code(400).send({ error });
+        if (duplicateRule(rule, id)) return reply.code(409).send({ error: 'This route already has a layover rule for the same terminal and band' });
+
+        try {
+            const info = db.prepare(`
+                UPDATE layover_rules SET route_id = ?, stop_id = ?, start_time = ?, end_time = ?, min_secs = ?, percent = ?
+                WHERE id = ?
+            `).run(rule.route_id, rule.stop_id, rule.start_time, rule.end_time, rule.min_secs, rule.percent, id);
+
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Layover rule not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to update layover rule' });
+        }
+    });
+
+    // DELETE Layover Rule
+    fastify.delete('/layover_rules/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        try {
+            const info = db.prepare('DELETE FROM layover_rules WHERE id = ?').run(id);
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Layover rule not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to delete layover rule' });
+        }
+    });
+}
@@ -1,6 +1,7 @@
 
 import { FastifyInstance } from 'fastify';
 import osrmService from '../services/OsrmService';
+import { openEventStream } from '../utils/sse';
 
 export default async function mapsRoutes(fastify: FastifyInstance) {
 
@@ -18,6 +19,16 @@ export default async function mapsRoutes(fastify: FastifyInstance) {
         return osrmService.getStatus();
     });
 
+    // Server-sent events: the current status, then a 'status' event on every change
+    fastify.get('/maps/status/events', async (request, reply) => {
+        const stream = openEventStream(request, reply);
+        const onStatus = (status: unknown) => stream.send('status', status);
+
+        osrmService.on('status', onStatus);
+        stream.onClose(() => osrmService.off('status', onStatus));
+        stream.send('status', await osrmService.getStatus());
+    });
+
     fastify.post('/maps/status/clear', async (request, reply) => {
         return osrmService.clearError();
     });
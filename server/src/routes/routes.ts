@@ -2,6 +2,9 @@ import { FastifyInstance } from 'fastify';
 import db from '../db';
 import { randomUUID } from 'crypto';
 import { fetchRoute } from '../services/routing';
+import { deleteTranslations } from '../services/translations';
+import { StopRule, stopRuleError, patternRules, applyPatternRules } from '../services/stopRules';
+import { MAIN_PATTERN_NAME, listPatterns, mainPatternId, namedPattern, newPatternId, patternError, patternShapeId, patternStopIds, patternTripId } from '../services/patterns';
 
 interface RouteBody {
     route_short_name: string;
@@ -72,39 +75,34 @@ export default async function routesRoutes(fastify: FastifyInstance) {
                 LEFT JOIN agency a ON r.agency_id = a.agency_id
             `).all() as any[];
 
-            // 2. Fetch Representative Trips ONLY (One per direction per route)
-            // We use MIN(trip_id) or similar to pick one. 
-            // Ideally we'd pick the "most common" one but for structure visualization, any valid trip works.
-            const trips = db.prepare(`
-                SELECT route_id, direction_id, trip_id 
-                FROM trips 
+            // 2. Fetch the trip holding the stops of each pattern: the main pattern's template trip
+            // (or, for imported feeds without one, any trip not tied to another pattern) and the
+            // template trips of the named patterns
+            const patternTrips = `
+                SELECT route_id, direction_id,
+                       COALESCE(MAX(CASE WHEN trip_id = 't_' || route_id || '_' || direction_id THEN trip_id END), MIN(trip_id)) AS trip_id,
+                       't_' || route_id || '_' || direction_id AS pattern_id
+                FROM trips
+                WHERE pattern_id IS NULL OR pattern_id = 't_' || route_id || '_' || direction_id
                 GROUP BY route_id, direction_id
-            `).all() as any[];
-
-            // Create a set of trip_ids to fetch stop_times for
-            const relevantTripIds = trips.map(t => t.trip_id);
-
-            if (relevantTripIds.length === 0) {
+                UNION ALL
+                SELECT route_id, direction_id, pattern_id AS trip_id, pattern_id
+                FROM route_patterns
+                WHERE pattern_id != 't_' || route_id || '_' || direction_id
+            `;
+            const trips = db.prepare(patternTrips).all() as any[];
+            const patternNames = new Map((db.prepare('SELECT pattern_id, pattern_name FROM route_patterns').all() as any[]).map(p => [p.pattern_id, p.pattern_name]));
+
+            if (trips.length === 0) {
                 return routes.map(r => ({ ...r, directions: [] }));
             }
 
-            // 3. Fetch StopTimes ONLY for relevant trips
-            // SQLite limit on variables is usually 999 or 32000 depending on version. 
-            // If we have 400 routes * 2 directions = 800 trips, it fits in `IN (...)`.
-            // If it exceeds, we might need a temp table or chunking.
-            // For now, let's assume < 900 trips. If more, we can construct the query dynamically or just join?
-            // Actually, JOIN is better:
-            // SELECT st.* FROM stop_times st JOIN (SELECT trip_id FROM trips GROUP BY route_id, direction_id) t ON st.trip_id = t.trip_id
-
+            // 3. Fetch StopTimes ONLY for those trips
             const stopTimes = db.prepare(`
                 SELECT st.trip_id, st.stop_id, s.stop_name, s.stop_code, st.stop_sequence
                 FROM stop_times st
                 JOIN stops s ON st.stop_id = s.stop_id
-                WHERE st.trip_id IN (
-                    SELECT trip_id 
-                    FROM trips 
-                    GROUP BY route_id, direction_id
-                )
+                WHERE st.trip_id IN (SELECT trip_id FROM (${patternTrips}))
                 ORDER BY st.trip_id, st.stop_sequence
             `).all() as any[];
 
@@ -137,8 +135,12 @@ export default async function routesRoutes(fastify: FastifyInstance) {
             });
 
             // 6. Assemble Structure
+            const isMainPattern = (t: any) => t.pattern_id === mainPatternId(t.route_id, t.direction_id);
             const structure = routes.map(route => {
-                const routeTrips = tripsByRoute.get(route.route_id) || [];
+                // One entry per pattern, the main pattern of each direction first
+                const routeTrips = (tripsByRoute.get(route.route_id) || []).sort((a: any, b: any) =>
+                    a.direction_id - b.direction_id || Number(isMainPattern(b)) - Number(isMainPattern(a))
+                );
 
                 const directions = routeTrips.map((repTrip: any) => {
                     const stops = stopTimesByTrip.get(repTrip.trip_id) || [];
@@ -152,8 +154,12 @@ export default async function routesRoutes(fastify: FastifyInstance) {
                         if (seg) routeSegments.push(seg);
                     }
 
+                    const isMain = isMainPattern(repTrip);
                     return {
                         direction_id: repTrip.direction_id,
+                        pattern_id: repTrip.pattern_id,
+                        pattern_name: patternNames.get(repTrip.pattern_id) || (isMain ? MAIN_PATTERN_NAME : repTrip.pattern_id),
+                        is_main: isMain,
                         stops: stops.map((s: any) => ({
                             stop_id: s.stop_id,
                             stop_name: s.stop_name,
@@ -360,17 +366,30 @@ export default async function routesRoutes(fastify: FastifyInstance) {
                 const trips = db.prepare('SELECT trip_id, shape_id FROM trips WHERE route_id = ?').all(id) as { trip_id: string, shape_id: string }[];
 
                 const deleteStopTimes = db.prepare('DELETE FROM stop_times WHERE trip_id = ?');
+                const deleteFrequencies = db.prepare('DELETE FROM frequencies WHERE trip_id = ?');
                 const deleteShape = db.prepare('DELETE FROM shapes WHERE shape_id = ?');
+                const deleteTripTransfers = db.prepare('DELETE FROM transfers WHERE from_trip_id = ? OR to_trip_id = ?');
 
                 for (const trip of trips) {
+                    deleteTranslations('trips', trip.trip_id);
                     deleteStopTimes.run(trip.trip_id);
+                    deleteFrequencies.run(trip.trip_id);
+                    deleteTripTransfers.run(trip.trip_id, trip.trip_id);
                     if (trip.shape_id) {
                         deleteShape.run(trip.shape_id);
                     }
                 }
 
+                db.prepare('DELETE FROM transfers WHERE from_route_id = ? OR to_route_id = ?').run(id, id);
+                db.prepare('DELETE FROM fare_rules WHERE route_id = ?').run(id);
+                db.prepare('DELETE FROM pattern_stop_rules WHERE route_id = ?').run(id);
+                db.prepare('DELETE FROM dwell_times WHERE route_id = ?').run(id);
+                db.prepare('DELETE FROM layover_rules WHERE route_id = ?').run(id);
+                db.prepare('DELETE FROM route_patterns WHERE route_id = ?').run(id);
+                db.prepare("DELETE FROM accessibility_defaults WHERE scope = 'route' AND scope_id = ?").run(id);
                 db.prepare('DELETE FROM trips WHERE route_id = ?').run(id);
                 db.prepare('DELETE FROM routes WHERE route_id = ?').run(id);
+                deleteTranslations('routes', id);
             });
 
             deleteTransaction();
@@ -389,36 +408,21 @@ export default async function routesRoutes(fastify: FastifyInstance) {
     interface PathBody {
         direction_id: number; // 0 or 1
         ordered_stop_ids: string[];
+        pattern_id?: string; // Defaults to the main pattern
     }
 
-    // GET Route Path (Sequence of Stops)
+    // GET Route Path (Sequence of Stops) of the main pattern, or of `pattern_id`
     fastify.get('/routes/:id/path', async (request, reply) => {
         const { id } = request.params as { id: string };
-        const { direction_id } = request.query as { direction_id?: string };
+        const { direction_id, pattern_id } = request.query as { direction_id?: string, pattern_id?: string };
 
         const dir = direction_id ? parseInt(direction_id) : 0;
-        let trip_id = `t_${id}_${dir}`; // Default pattern trip ID
 
         try {
-            // 1. Try to find the specific pattern trip first
-            let stopTimes = db.prepare('SELECT stop_id FROM stop_times WHERE trip_id = ? ORDER BY stop_sequence ASC').all(trip_id) as { stop_id: string }[];
-
-            // 2. If no pattern trip found, look for ANY trip in this route/direction
-            // This supports imported GTFS data where trip_ids are arbitrary
-            if (!stopTimes || stopTimes.length === 0) {
-                const anyTrip = db.prepare('SELECT trip_id FROM trips WHERE route_id = ? AND direction_id = ? LIMIT 1').get(id, dir) as { trip_id: string };
-
-                if (anyTrip) {
-                    trip_id = anyTrip.trip_id;
-                    stopTimes = db.prepare('SELECT stop_id FROM stop_times WHERE trip_id = ? ORDER BY stop_sequence ASC').all(trip_id) as { stop_id: string }[];
-                }
-            }
-
-            if (!stopTimes || stopTimes.length === 0) {
-                return { ordered_stop_ids: [] };
+            if (pattern_id && pattern_id !== mainPatternId(id, dir) && namedPattern(pattern_id)?.route_id !== id) {
+                return reply.code(404).send({ error: 'Pattern not found' });
             }
-
-            return { ordered_stop_ids: stopTimes.map(st => st.stop_id) };
+            return { ordered_stop_ids: patternStopIds(id, dir, pattern_id) };
         } catch (error) {
             console.error('Error fetching path:', error);
             return reply.code(500).send({ error: 'Failed to fetch path' });
@@ -427,7 +431,7 @@ export default async function routesRoutes(fastify: FastifyInstance) {
 
     fastify.post('/routes/:id/path', async (request, reply) => {
         const { id } = request.params as { id: string };
-        const { direction_id, ordered_stop_ids } = request.body as PathBody;
+        const { direction_id, ordered_stop_ids, pattern_id } = request.body as PathBody;
 
         if (direction_id !== 0 && direction_id !== 1) {
             return reply.code(400).send({ error: 'direction_id must be 0 or 1' });
@@ -436,25 +440,37 @@ export default async function routesRoutes(fastify: FastifyInstance) {
             return reply.code(400).send({ error: 'ordered_stop_ids must have at least 2 stops' });
         }
 
+        // The pattern's template trip holds its stop sequence
+        const trip_id = pattern_id || mainPatternId(id, direction_id);
+        const isMain = trip_id === mainPatternId(id, direction_id);
+        if (!isMain) {
+            const pattern = namedPattern(trip_id);
+            if (!pattern || pattern.route_id !== id) {
+                return reply.code(404).send({ error: 'Pattern not found' });
+            }
+            if (pattern.direction_id !== direction_id) {
+                return reply.code(400).send({ error: `Pattern ${trip_id} is for direction ${pattern.direction_id}` });
+            }
+        }
+
         // 1. Create/Update Trip
         const service_id = 'c_1'; // Default service for now
         // ensure calendar exists
         db.prepare(`INSERT OR IGNORE INTO calendar (service_id, monday, tuesday, wednesday, thursday, friday, saturday, sunday, start_date, end_date)
                   VALUES (?, 1, 1, 1, 1, 1, 1, 1, '20240101', '20241231')`).run(service_id);
 
-        const trip_id = `t_${id}_${direction_id}`;
-
         const upsertTrip = db.prepare(`
-          INSERT INTO trips (route_id, service_id, trip_id, trip_headsign, direction_id, shape_id)
-          VALUES (?, ?, ?, ?, ?, ?)
+          INSERT INTO trips (route_id, service_id, trip_id, trip_headsign, direction_id, shape_id, pattern_id)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
           ON CONFLICT(trip_id) DO UPDATE SET 
             trip_headsign=excluded.trip_headsign,
             shape_id=excluded.shape_id
       `);
 
-        const shape_id = `sh_${id}_${direction_id}`;
+        const shape_id = patternShapeId(trip_id);
 
-        upsertTrip.run(id, service_id, trip_id, `Direction ${direction_id}`, direction_id, shape_id);
+        // Template trips of other patterns point to themselves, so they never stand in for the main one
+        upsertTrip.run(id, service_id, trip_id, `Direction ${direction_id}`, direction_id, shape_id, isMain ? null : trip_id);
 
         // 2. Process Segments and Shapes
         // Delete existing shape points for this shape_id
@@ -635,4 +651,194 @@ export default async function routesRoutes(fastify: FastifyInstance) {
 
         return { message: 'Path saved', trip_id, shape_id, stops_count: ordered_stop_ids.length };
     });
+
+    // GET Stop patterns of a route (main pattern of each direction first)
+    fastify.get('/routes/:id/patterns', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { direction_id } = request.query as { direction_id?: string };
+
+        try {
+            if (!db.prepare('SELECT 1 FROM routes WHERE route_id = ?').get(id)) {
+                return reply.code(404).send({ error: 'Route not found' });
+            }
+            return listPatterns(id, direction_id !== undefined ? parseInt(direction_id) : undefined);
+        } catch (error) {
+            console.error('Error fetching patterns:', error);
+            return reply.code(500).send({ error: 'Failed to fetch patterns' });
+        }
+    });
+
+    // CREATE pattern (branch, short turn, express...), optionally starting from the stops of another one
+    fastify.post('/routes/:id/patterns', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { direction_id, pattern_name, copy_from } = request.body as { direction_id: number, pattern_name: string, copy_from?: string };
+
+        if (direction_id !== 0 && direction_id !== 1) {
+            return reply.code(400).send({ error: 'direction_id must be 0 or 1' });
+        }
+        if (!pattern_name || !pattern_name.trim()) {
+            return reply.code(400).send({ error: 'pattern_name is required' });
+        }
+
+        try {
+            if (!db.prepare('SELECT 1 FROM routes WHERE route_id = ?').get(id)) {
+                return reply.code(404).send({ error: 'Route not found' });
+            }
+            if (copy_from && !listPatterns(id, direction_id).some(p => p.pattern_id === copy_from)) {
+                return reply.code(400).send({ error: `${copy_from} is not a pattern of this route and direction` });
+            }
+            const sourceTripId = copy_from ? patternTripId(id, direction_id, copy_from) : null;
+            const source = sourceTripId ? db.prepare('SELECT * FROM trips WHERE trip_id = ?').get(sourceTripId) as any : null;
+
+            const pattern_id = newPatternId(id, direction_id);
+            db.transaction(() => {
+                db.prepare('INSERT INTO route_patterns (pattern_id, route_id, direction_id, pattern_name) VALUES (?, ?, ?, ?)')
+                    .run(pattern_id, id, direction_id, pattern_name.trim());
+
+                if (source) {
+                    const shape_id = patternShapeId(pattern_id);
+                    db.prepare(`
+                        INSERT INTO trips (route_id, service_id, trip_id, trip_headsign, direction_id, shape_id, pattern_id)
+                        VALUES (?, ?, ?, ?, ?, ?, ?)
+                    `).run(id, source.service_id, pattern_id, source.trip_headsign, direction_id, shape_id, pattern_id);
+                    db.prepare(`
+                        INSERT INTO stop_times (trip_id, arrival_time, departure_time, stop_id, stop_sequence, shape_dist_traveled)
+                        SELECT ?, arrival_time, departure_time, stop_id, stop_sequence, shape_dist_traveled FROM stop_times WHERE trip_id = ?
+                    `).run(pattern_id, sourceTripId);
+                    if (source.shape_id) {
+                        db.prepare(`
+                            INSERT INTO shapes (shape_id, shape_pt_lat, shape_pt_lon, shape_pt_sequence, shape_dist_traveled)
+                            SELECT ?, shape_pt_lat, shape_pt_lon, shape_pt_sequence, shape_dist_traveled FROM shapes WHERE shape_id = ?
+                        `).run(shape_id, source.shape_id);
+                    }
+                }
+            })();
+
+            return listPatterns(id, direction_id).find(p => p.pattern_id === pattern_id);
+        } catch (error) {
+            console.error('Error creating pattern:', error);
+            return reply.code(500).send({ error: 'Failed to create pattern' });
+        }
+    });
+
+    // RENAME pattern (the main pattern too)
+    fastify.put('/routes/:id/patterns/:patternId', async (request, reply) => {
+        const { id, patternId } = request.params as { id: string, patternId: string };
+        const { pattern_name } = request.body as { pattern_name: string };
+
+        if (!pattern_name || !pattern_name.trim()) {
+            return reply.code(400).send({ error: 'pattern_name is required' });
+        }
+
+        try {
+            const pattern = listPatterns(id).find(p => p.pattern_id === patternId);
+            if (!pattern) {
+                return reply.code(404).send({ error: 'Pattern not found' });
+            }
+            db.prepare(`
+                INSERT INTO route_patterns (pattern_id, route_id, direction_id, pattern_name) VALUES (?, ?, ?, ?)
+                ON CONFLICT(pattern_id) DO UPDATE SET pattern_name = excluded.pattern_name
+            `).run(patternId, id, pattern.direction_id, pattern_name.trim());
+            return { ...pattern, pattern_name: pattern_name.trim() };
+        } catch (error) {
+            console.error('Error renaming pattern:', error);
+            return reply.code(500).send({ error: 'Failed to rename pattern' });
+        }
+    });
+
+    // DELETE pattern with its stops and shape; refused while trips still run on it
+    fastify.delete('/routes/:id/patterns/:patternId', async (request, reply) => {
+        const { id, patternId } = request.params as { id: string, patternId: string };
+
+        try {
+            const pattern = listPatterns(id).find(p => p.pattern_id === patternId);
+            if (!pattern) {
+                return reply.code(404).send({ error: 'Pattern not found' });
+            }
+            if (pattern.is_main) {
+                return reply.code(400).send({ error: 'The main pattern of a direction cannot be deleted' });
+            }
+            if (pattern.trip_count > 0) {
+                return reply.code(409).send({ error: `Cannot delete pattern: used by ${pattern.trip_count} trip(s). Delete or move them first.` });
+            }
+
+            db.transaction(() => {
+                db.prepare('DELETE FROM stop_times WHERE trip_id = ?').run(patternId);
+                db.prepare('DELETE FROM trips WHERE trip_id = ?').run(patternId);
+                db.prepare('DELETE FROM shapes WHERE shape_id = ?').run(patternShapeId(patternId));
+                db.prepare('DELETE FROM pattern_stop_rules WHERE pattern_id = ?').run(patternId);
+                db.prepare('DELETE FROM route_patterns WHERE pattern_id = ?').run(patternId);
+            })();
+            return { message: 'Pattern deleted' };
+        } catch (error) {
+            console.error('Error deleting pattern:', error);
+            return reply.code(500).send({ error: 'Failed to delete pattern' });
+        }
+    });
+
+    // GET Stop rules of a pattern (pickup/drop-off, timepoints and stop headsigns its trips inherit); no pattern_id: the main one
+    fastify.get('/routes/:id/stop_rules', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { direction_id, pattern_id } = request.query as { direction_id?: string, pattern_id?: string };
+        const directionId = direction_id ? parseInt(direction_id) : 0;
+
+        try {
+            const pattern = patternError(id, directionId, pattern_id);
+            if (pattern) return reply.code(400).send({ error: pattern });
+            return patternRules(pattern_id || mainPatternId(id, directionId));
+        } catch (error) {
+            console.error('Error fetching stop rules:', error);
+            return reply.code(500).send({ error: 'Failed to fetch stop rules' });
+        }
+    });
+
+    // PUT Replace the stop rules of a pattern, optionally overwriting the existing trips
+    fastify.put('/routes/:id/stop_rules', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { direction_id, pattern_id, rules, apply_to_trips } = request.body as { direction_id: number, pattern_id?: string | null, rules: StopRule[], apply_to_trips?: boolean };
+
+        if (direction_id !== 0 && direction_id !== 1) {
+            return reply.code(400).send({ error: 'direction_id must be 0 or 1' });
+        }
+        if (!Array.isArray(rules)) {
+            return reply.code(400).send({ error: 'rules must be an array' });
+        }
+        for (const rule of rules) {
+            if (!rule.stop_id || !Number.isInteger(rule.stop_sequence)) {
+                return reply.code(400).send({ error: 'Each rule needs a stop_id and a stop_sequence' });
+            }
+            const error = stopRuleError(rule);
+            if (error) return reply.code(400).send({ error: `${error} (stop ${rule.stop_id})` });
+        }
+
+        try {
+            if (!db.prepare('SELECT 1 FROM routes WHERE route_id = ?').get(id)) {
+                return reply.code(404).send({ error: 'Route not found' });
+            }
+            const pattern = patternError(id, direction_id, pattern_id);
+            if (pattern) return reply.code(400).send({ error: pattern });
+
+            const patternId = pattern_id || mainPatternId(id, direction_id);
+            // Rows without any setting are not stored
+            const isSet = (r: StopRule) => r.pickup_type != null || r.drop_off_type != null || r.timepoint != null || !!r.stop_headsign;
+            const stored = rules.filter(isSet);
+
+            db.transaction(() => {
+                db.prepare('DELETE FROM pattern_stop_rules WHERE pattern_id = ?').run(patternId);
+                const insert = db.prepare(`
+                    INSERT INTO pattern_stop_rules (pattern_id, route_id, stop_sequence, stop_id, pickup_type, drop_off_type, timepoint, stop_headsign)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+                `);
+                stored.forEach(r => insert.run(
+                    patternId, id, r.stop_sequence, r.stop_id, r.pickup_type ?? null, r.drop_off_type ?? null, r.timepoint ?? null, r.stop_headsign || null
+                ));
+            })();
+
+            const updated_trips = apply_to_trips ? applyPatternRules(id, direction_id, patternId) : 0;
+            return { message: 'Stop rules saved', count: stored.length, updated_trips };
+        } catch (error) {
+            console.error('Error saving stop rules:', error);
+            return reply.code(500).send({ error: 'Failed to save stop rules' });
+        }
+    });
 }
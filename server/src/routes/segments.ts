@@ -2,6 +2,9 @@ import { FastifyInstance } from 'fastify';
 import db from '../db';
 import { randomUUID } from 'crypto';
 import { fetchRoute } from '../services/routing';
+import { slotScopeError, slotsForService } from '../services/timeSlots';
+import { CalibrationSettings, DEFAULT_CALIBRATION, calibrationSettingsError, collectObservations, saveCalibration } from '../services/calibration';
+import { notTemplateTrip } from '../services/patterns';
 
 interface SegmentBody {
     start_node_id: string;
@@ -181,22 +184,43 @@ export default async function segmentsRoutes(fastify: FastifyInstance) {
 
     // --- TIME SLOTS ENDPOINTS ---
 
-    // GET slots for a segment
+    // GET slots for a segment (every slot set: all days, per day type, per service)
     fastify.get('/segments/:id/slots', async (request, reply) => {
         const { id } = request.params as { id: string };
         const slots = db.prepare('SELECT * FROM segment_time_slots WHERE segment_id = ? ORDER BY start_time').all(id);
         return slots;
     });
 
+    // GET the slots every segment uses for a service, in one call
+    fastify.get('/segments/slots', async (request, reply) => {
+        const { service_id } = request.query as { service_id?: string };
+        return [...slotsForService(service_id || null).values()].flat();
+    });
+
     // POST (Create) a slot
     fastify.post('/segments/:id/slots', async (request, reply) => {
         const { id } = request.params as { id: string };
-        const body = request.body as { start_time: string; end_time: string; travel_time: number };
+        const body = request.body as {
+            start_time: string; end_time: string; travel_time: number;
+            min_time?: number | null; max_time?: number | null;
+            service_id?: string | null; day_type?: string | null
+        };
         const { start_time, end_time, travel_time } = body;
+        const min_time = body.min_time ?? null;
+        const max_time = body.max_time ?? null;
+        const service_id = body.service_id || null;
+        const day_type = body.day_type?.trim() || null;
 
         if (!start_time || !end_time || travel_time === undefined) {
             return reply.code(400).send({ error: 'Missing required fields' });
         }
+        const scopeError = slotScopeError({ service_id, day_type });
+        if (scopeError) {
+            return reply.code(400).send({ error: scopeError });
+        }
+        if ((min_time !== null && min_time > travel_time) || (max_time !== null && max_time < travel_time)) {
+            return reply.code(400).send({ error: 'min_time and max_time must bracket travel_time' });
+        }
 
         // Validate format HH:MM:SS
         const timeRegex = /^\d{2}:\d{2}:\d{2}$/;
@@ -207,17 +231,60 @@ export default async function segmentsRoutes(fastify: FastifyInstance) {
         const slotId = randomUUID();
         try {
             const stmt = db.prepare(`
-                INSERT INTO segment_time_slots (id, segment_id, start_time, end_time, travel_time)
-                VALUES (?, ?, ?, ?, ?)
+                INSERT INTO segment_time_slots (id, segment_id, start_time, end_time, travel_time, min_time, max_time, service_id, day_type)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
             `);
-            stmt.run(slotId, id, start_time, end_time, travel_time);
-            return { id: slotId, segment_id: id, ...body };
+            stmt.run(slotId, id, start_time, end_time, travel_time, min_time, max_time, service_id, day_type);
+            return { id: slotId, segment_id: id, ...body, min_time, max_time, service_id, day_type };
         } catch (err) {
             request.log.error(err);
             return reply.code(500).send({ error: 'Failed to create slot' });
         }
     });
 
+    // POST recalibrate slots from the stored trips: those of a service or a day type
+    // fill that set, all trips fill the set for all days
+    fastify.post('/segments/calibrate', async (request, reply) => {
+        const body = (request.body || {}) as Partial<CalibrationSettings> & { route_ids?: string[]; service_id?: string | null; day_type?: string | null };
+        const service_id = body.service_id || null;
+        const day_type = body.day_type?.trim() || null;
+        const settings: CalibrationSettings = {
+            band_mins: body.band_mins ?? DEFAULT_CALIBRATION.band_mins,
+            min_percentile: body.min_percentile ?? DEFAULT_CALIBRATION.min_percentile,
+            opt_percentile: body.opt_percentile ?? DEFAULT_CALIBRATION.opt_percentile,
+            max_percentile: body.max_percentile ?? DEFAULT_CALIBRATION.max_percentile,
+            tolerance_secs: body.tolerance_secs ?? DEFAULT_CALIBRATION.tolerance_secs
+        };
+
+        const error = slotScopeError({ service_id, day_type }) || calibrationSettingsError(settings);
+        if (error) return reply.code(400).send({ error });
+
+        const where = [notTemplateTrip('t.trip_id')];
+        const params: string[] = [];
+        if (body.route_ids && body.route_ids.length > 0) {
+            where.push(`t.route_id IN (${body.route_ids.map(() => '?').join(',')})`);
+            params.push(...body.route_ids);
+        }
+        if (service_id) {
+            where.push('t.service_id = ?');
+            params.push(service_id);
+        } else if (day_type) {
+            where.push('t.service_id IN (SELECT service_id FROM service_day_types WHERE day_type = ?)');
+            params.push(day_type);
+        }
+        const tripIds = (db.prepare(`SELECT t.trip_id FROM trips t WHERE ${where.join(' AND ')}`).all(...params) as { trip_id: string }[])
+            .map(t => t.trip_id);
+        if (tripIds.length === 0) return reply.code(400).send({ error: 'No trips to calibrate from' });
+
+        try {
+            const { segments, slots } = saveCalibration(collectObservations(tripIds), settings, () => ({ service_id, day_type }));
+            return { message: `Calibrated ${slots} slots on ${segments} segments from ${tripIds.length} trips`, segments, slots };
+        } catch (err) {
+            request.log.error(err);
+            return reply.code(500).send({ error: 'Failed to calibrate slots' });
+        }
+    });
+
     // DELETE a slot
     fastify.delete('/segments/slots/:slotId', async (request, reply) => {
         const { slotId } = request.params as { slotId: string };
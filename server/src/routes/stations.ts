@@ -0,0 +1,308 @@
+import { FastifyInstance } from 'fastify';
+import db from '../db';
+import { v4 as uuidv4 } from 'uuid';
+import { LOCATION_TYPE, PATHWAY_MODES, stationMembers } from '../services/stations';
+
+interface StationBody {
+    stop_name: string;
+    stop_code?: string;
+    stop_lat?: number;
+    stop_lon?: number;
+    child_ids?: string[]; // existing stops to attach as platforms
+}
+
+interface LevelBody {
+    level_id: string;
+    level_index: number;
+    level_name?: string | null;
+}
+
+interface PathwayBody {
+    from_stop_id: string;
+    to_stop_id: string;
+    pathway_mode: number;
+    is_bidirectional: number;
+    length?: number | null;
+    traversal_time?: number | null;
+    stair_count?: number | null;
+    max_slope?: number | null;
+    min_width?: number | null;
+    signposted_as?: string | null;
+    reversed_signposted_as?: string | null;
+}
+
+const PATHWAY_COLUMNS: (keyof PathwayBody)[] = [
+    'from_stop_id', 'to_stop_id', 'pathway_mode', 'is_bidirectional', 'length', 'traversal_time',
+    'stair_count', 'max_slope', 'min_width', 'signposted_as', 'reversed_signposted_as'
+];
+
+// Empty strings from the form mean "not set"
+const optionalNumber = (value: unknown): number | null =>
+    value === null || value === undefined || String(value) === '' ? null : Number(value);
+const optionalText = (value: unknown): string | null =>
+    value === null || value === undefined ? null : String(value).trim() || null;
+
+const normalizeLevel = (body: LevelBody): LevelBody => ({
+    level_id: String(body.level_id || '').trim(),
+    level_index: Number(body.level_index),
+    level_name: optionalText(body.level_name)
+});
+
+const validateLevel = (l: LevelBody): string | null => {
+    if (!l.level_id) return 'level_id is required';
+    if (!Number.isFinite(l.level_index)) return 'level_index must be a number (0 = ground, negative below ground)';
+    return null;
+};
+
+const normalizePathway = (body: PathwayBody): PathwayBody => ({
+    from_stop_id: String(body.from_stop_id || ''),
+    to_stop_id: String(body.to_stop_id || ''),
+    pathway_mode: Number(body.pathway_mode),
+    is_bidirectional: Number(body.is_bidirectional) ? 1 : 0,
+    length: optionalNumber(body.length),
+    traversal_time: optionalNumber(body.traversal_time),
+    stair_count: optionalNumber(body.stair_count),
+    max_slope: optionalNumber(body.max_slope),
+    min_width: optionalNumber(body.min_width),
+    signposted_as: optionalText(body.signposted_as),
+    reversed_signposted_as: optionalText(body.reversed_signposted_as)
+});
+
+// Pathways link platforms, entrances, nodes and boarding areas, never the station itself
+const validatePathway = (p: PathwayBody): string | null => {
+    if (!p.from_stop_id || !p.to_stop_id) return 'from_stop_id and to_stop_id are required';
+    if (p.from_stop_id === p.to_stop_id) return 'A pathway must connect two different stops';
+    if (!PATHWAY_MODES[p.pathway_mode]) return 'pathway_mode must be an integer between 1 and 7';
+    if (p.pathway_mode === 7 && p.is_bidirectional) return 'Exit gates (pathway_mode 7) must be one-way';
+
+    for (const field of ['from_stop_id', 'to_stop_id'] as const) {
+        const stop = db.prepare('SELECT location_type FROM stops WHERE stop_id = ?').get(p[field]) as { location_type: number | null } | undefined;
+        if (!stop) return `${field} "${p[field]}" does not exist`;
+        if (Number(stop.location_type || 0) === LOCATION_TYPE.STATION) return `${field} cannot be a station; link its platforms or entrances`;
+    }
+
+    if (p.length !== null && p.length !== undefined && (!Number.isFinite(p.length) || p.length < 0)) return 'length must be a non-negative number of meters';
+    if (p.traversal_time !== null && p.traversal_time !== undefined && (!Number.isInteger(p.traversal_time) || p.traversal_time <= 0)) {
+        return 'traversal_time must be a positive number of seconds';
+    }
+    if (p.stair_count !== null && p.stair_count !== undefined && (!Number.isInteger(p.stair_count) || p.stair_count === 0)) {
+        return 'stair_count must be a non-zero integer (negative going down)';
+    }
+    if (p.min_width !== null && p.min_width !== undefined && (!Number.isFinite(p.min_width) || p.min_width <= 0)) return 'min_width must be a positive number of meters';
+    if (p.max_slope !== null && p.max_slope !== undefined && !Number.isFinite(p.max_slope)) return 'max_slope must be a number';
+    return null;
+};
+
+const isUniqueViolation = (err: any) => err?.code === 'SQLITE_CONSTRAINT_UNIQUE' || err?.code === 'SQLITE_CONSTRAINT_PRIMARYKEY';
+
+export default async function stationsRoutes(fastify: FastifyInstance) {
+
+    // GET All Stations (with member counts for display)
+    fastify.get('/stations', async (request, reply) => {
+        try {
+            return db.prepare(`
+                SELECT s.*,
+                    (SELECT COUNT(*) FROM stops c WHERE c.parent_station = s.stop_id AND IFNULL(c.location_type, 0) = 0) as platform_count,
+                    (SELECT COUNT(*) FROM stops c WHERE c.parent_station = s.stop_id AND c.location_type = 2) as entrance_count
+                FROM stops s
+                WHERE s.location_type = 1
+                ORDER BY s.stop_name
+            `).all();
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch stations' });
+        }
+    });
+
+    // GET Station with its members and the pathways between them
+    fastify.get('/stations/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        try {
+            const members = stationMembers(id);
+            const station = members.find(s => s.stop_id === id);
+            if (!station || Number(station.location_type) !== LOCATION_TYPE.STATION) {
+                return reply.code(404).send({ error: 'Station not found' });
+            }
+
+            const memberIds = members.map(s => s.stop_id);
+            const placeholders = memberIds.map(() => '?').join(',');
+            const pathways = db.prepare(`
+                SELECT * FROM pathways
+                WHERE from_stop_id IN (${placeholders}) OR to_stop_id IN (${placeholders})
+                ORDER BY from_stop_id, to_stop_id
+            `).all(...memberIds, ...memberIds);
+
+            return { station, children: members.filter(s => s.stop_id !== id), pathways };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch station' });
+        }
+    });
+
+    // POST Create Station, optionally attaching existing stops as its platforms
+    fastify.post('/stations', async (request, reply) => {
+        const body = request.body as StationBody;
+        const stop_name = String(body.stop_name || '').trim();
+        const childIds = body.child_ids || [];
+        if (!stop_name) return reply.code(400).send({ error: 'stop_name is required' });
+
+        const children = childIds.map(id => db.prepare('SELECT * FROM stops WHERE stop_id = ?').get(id) as any);
+        const missing = childIds.find((id, i) => !children[i]);
+        if (missing) return reply.code(400).send({ error: `Stop "${missing}" does not exist` });
+        const invalid = children.find(c => Number(c.location_type || 0) !== LOCATION_TYPE.STOP);
+        if (invalid) return reply.code(400).send({ error: `Only stops and platforms can be attached; "${invalid.stop_name}" is not one` });
+
+        // Without coordinates the station sits at the centroid of its platforms
+        let lat = optionalNumber(body.stop_lat);
+        let lon = optionalNumber(body.stop_lon);
+        if ((lat === null || lon === null) && children.length > 0) {
+            lat = children.reduce((sum, c) => sum + c.stop_lat, 0) / children.length;
+            lon = children.reduce((sum, c) => sum + c.stop_lon, 0) / children.length;
+        }
+        if (lat === null || lon === null || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+            return reply.code(400).send({ error: 'stop_lat and stop_lon are required for a station without platforms' });
+        }
+
+        const stop_id = uuidv4();
+        const stop_code = optionalText(body.stop_code) || `STA_${stop_id.substring(0, 6).toUpperCase()}`;
+        try {
+            db.transaction(() => {
+                db.prepare(`
+                    INSERT INTO stops (stop_id, stop_code, stop_name, stop_lat, stop_lon, node_type, location_type)
+                    VALUES (?, ?, ?, ?, ?, 'regular', ?)
+                `).run(stop_id, stop_code, stop_name, lat, lon, LOCATION_TYPE.STATION);
+
+                const attach = db.prepare('UPDATE stops SET parent_station = ? WHERE stop_id = ?');
+                childIds.forEach(id => attach.run(stop_id, id));
+            })();
+            return { success: true, stop_id, stop_code, stop_name, stop_lat: lat, stop_lon: lon, location_type: LOCATION_TYPE.STATION };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to create station' });
+        }
+    });
+
+    // GET All Levels (with stop counts for display)
+    fastify.get('/levels', async (request, reply) => {
+        try {
+            return db.prepare(`
+                SELECT l.*, (SELECT COUNT(*) FROM stops s WHERE s.level_id = l.level_id) as stop_count
+                FROM levels l
+                ORDER BY l.level_index, l.level_id
+            `).all();
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch levels' });
+        }
+    });
+
+    // POST Create Level
+    fastify.post('/levels', async (request, reply) => {
+        const level = normalizeLevel(request.body as LevelBody);
+        const error = validateLevel(level);
+        if (error) return reply.code(400).send({ error });
+
+        try {
+            db.prepare('INSERT INTO levels (level_id, level_index, level_name) VALUES (?, ?, ?)')
+                .run(level.level_id, level.level_index, level.level_name);
+            return { success: true, ...level };
+        } catch (err) {
+            if (isUniqueViolation(err)) return reply.code(409).send({ error: `Level "${level.level_id}" already exists` });
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to create level' });
+        }
+    });
+
+    // PUT Update Level (level_id is the key and cannot change)
+    fastify.put('/levels/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const level = normalizeLevel({ ...(request.body as LevelBody), level_id: id });
+        const error = validateLevel(level);
+        if (error) return reply.code(400).send({ error });
+
+        try {
+            const info = db.prepare('UPDATE levels SET level_index = ?, level_name = ? WHERE level_id = ?')
+                .run(level.level_index, level.level_name, id);
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Level not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to update level' });
+        }
+    });
+
+    // DELETE Level (its stops are left without a level)
+    fastify.delete('/levels/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        try {
+            const info = db.transaction(() => {
+                db.prepare('UPDATE stops SET level_id = NULL WHERE level_id = ?').run(id);
+                return db.prepare('DELETE FROM levels WHERE level_id = ?').run(id);
+            })();
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Level not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to delete level' });
+        }
+    });
+
+    // POST Create Pathway
+    fastify.post('/pathways', async (request, reply) => {
+        const pathway = normalizePathway(request.body as PathwayBody);
+        const error = validatePathway(pathway);
+        if (error) return reply.code(400).send({ error });
+
+        const pathway_id = uuidv4();
+        try {
+            db.prepare(`
+                INSERT INTO pathways (pathway_id, ${PATHWAY_COLUMNS.join(', ')})
+                VALUES (?, ${PATHWAY_COLUMNS.map(() => '?').join(', ')})
+            `).run(pathway_id, ...PATHWAY_COLUMNS.map(c => pathway[c]));
+            return { success: true, pathway_id, ...pathway };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to create pathway' });
+        }
+    });
+
+    // PUT Update Pathway
+    fastify.put('/pathways/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const pathway = normalizePathway(request.body as PathwayBody);
+        const error = validatePathway(pathway);
+        if (error) return reply.code(400).send({ error });
+
+        try {
+            const info = db.prepare(`
+                UPDATE pathways SET ${PATHWAY_COLUMNS.map(c => `${c} = ?`).join(', ')} WHERE pathway_id = ?
+            `).run(...PATHWAY_COLUMNS.map(c => pathway[c]), id);
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Pathway not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to update pathway' });
+        }
+    });
+
+    // DELETE Pathway
+    fastify.delete('/pathways/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        try {
+            const info = db.prepare('DELETE FROM pathways WHERE pathway_id = ?').run(id);
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Pathway not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to delete pathway' });
+        }
+    });
+}
@@ -2,6 +2,9 @@ import { FastifyInstance } from 'fastify';
 import db from '../db';
 import { randomUUID } from 'crypto';
 import { fetchRoute } from '../services/routing';
+import { hierarchyError } from '../services/stations';
+import { deleteTranslations } from '../services/translations';
+import { accessibilityError } from '../services/accessibility';
 
 interface StopBody {
     stop_name: string;
@@ -10,8 +13,16 @@ interface StopBody {
     stop_lon: number;
     node_type?: string;
     location_type?: number;
+    zone_id?: string | null;
+    parent_station?: string | null;
+    level_id?: string | null;
+    platform_code?: string | null;
+    wheelchair_boarding?: number | null;
 }
 
+const levelError = (levelId?: string | null): string | null =>
+    levelId && !db.prepare('SELECT 1 FROM levels WHERE level_id = ?').get(levelId) ? `level_id "${levelId}" does not exist` : null;
+
 export default async function stopsRoutes(fastify: FastifyInstance) {
 
     // GET all stops
@@ -44,6 +55,10 @@ export default async function stopsRoutes(fastify: FastifyInstance) {
             return reply.code(400).send({ error: 'Missing required fields' });
         }
 
+        const hierarchy = hierarchyError(null, Number(location_type || 0), body.parent_station || null) || levelError(body.level_id)
+            || accessibilityError('wheelchair_boarding', body.wheelchair_boarding);
+        if (hierarchy) return reply.code(400).send({ error: hierarchy });
+
         const stop_id = randomUUID();
 
         // Auto-generate stop_code if missing
@@ -53,11 +68,12 @@ export default async function stopsRoutes(fastify: FastifyInstance) {
 
         try {
             const stmt = db.prepare(`
-          INSERT INTO stops (stop_id, stop_code, stop_name, stop_lat, stop_lon, node_type, location_type)
-          VALUES (?, ?, ?, ?, ?, ?, ?)
+          INSERT INTO stops (stop_id, stop_code, stop_name, stop_lat, stop_lon, node_type, location_type, parent_station, level_id, platform_code, wheelchair_boarding)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
-            stmt.run(stop_id, stop_code, stop_name, stop_lat, stop_lon, node_type || 'regular', location_type || 0);
+            stmt.run(stop_id, stop_code, stop_name, stop_lat, stop_lon, node_type || 'regular', location_type || 0,
+                body.parent_station || null, body.level_id || null, body.platform_code || null, body.wheelchair_boarding ?? null);
 
             console.log('Stop created successfully:', stop_id);
             return { stop_id, stop_code, ...body };
@@ -73,9 +89,19 @@ export default async function stopsRoutes(fastify: FastifyInstance) {
         const body = request.body as Partial<StopBody>;
 
         // Check if exists
-        const check = db.prepare('SELECT stop_id, stop_lat, stop_lon FROM stops WHERE stop_id = ?').get(id) as { stop_id: string, stop_lat: number, stop_lon: number };
+        const check = db.prepare('SELECT stop_id, stop_lat, stop_lon, location_type, parent_station FROM stops WHERE stop_id = ?').get(id) as
+            { stop_id: string, stop_lat: number, stop_lon: number, location_type: number | null, parent_station: string | null };
         if (!check) return reply.code(404).send({ error: 'Stop not found' });
 
+        if (body.location_type !== undefined || body.parent_station !== undefined || body.level_id !== undefined) {
+            const locationType = Number(body.location_type ?? check.location_type ?? 0);
+            const parentStation = body.parent_station !== undefined ? body.parent_station || null : check.parent_station;
+            const hierarchy = hierarchyError(id, locationType, parentStation) || levelError(body.level_id);
+            if (hierarchy) return reply.code(400).send({ error: hierarchy });
+        }
+        const accessibility = accessibilityError('wheelchair_boarding', body.wheelchair_boarding);
+        if (accessibility) return reply.code(400).send({ error: accessibility });
+
         const fields = [];
         const values = [];
 
@@ -85,6 +111,11 @@ export default async function stopsRoutes(fastify: FastifyInstance) {
         if (body.stop_lon !== undefined) { fields.push('stop_lon = ?'); values.push(body.stop_lon); }
         if (body.node_type !== undefined) { fields.push('node_type = ?'); values.push(body.node_type); }
         if (body.location_type !== undefined) { fields.push('location_type = ?'); values.push(body.location_type); }
+        if (body.zone_id !== undefined) { fields.push('zone_id = ?'); values.push(body.zone_id || null); }
+        if (body.parent_station !== undefined) { fields.push('parent_station = ?'); values.push(body.parent_station || null); }
+        if (body.level_id !== undefined) { fields.push('level_id = ?'); values.push(body.level_id || null); }
+        if (body.platform_code !== undefined) { fields.push('platform_code = ?'); values.push(body.platform_code || null); }
+        if (body.wheelchair_boarding !== undefined) { fields.push('wheelchair_boarding = ?'); values.push(body.wheelchair_boarding); }
 
         if (fields.length === 0) return reply.send({ message: 'No changes' });
 
@@ -165,12 +196,31 @@ export default async function stopsRoutes(fastify: FastifyInstance) {
             return reply.code(409).send({ error: `Cannot delete stop: used in ${stopTimesDeps.count} trips (stop_times).` });
         }
 
+        const transfersDeps = db.prepare('SELECT count(*) as count FROM transfers WHERE from_stop_id = ? OR to_stop_id = ?').get(id, id) as { count: number };
+        if (transfersDeps.count > 0) {
+            return reply.code(409).send({ error: `Cannot delete stop: used in ${transfersDeps.count} transfers.` });
+        }
+
+        const childrenDeps = db.prepare('SELECT count(*) as count FROM stops WHERE parent_station = ?').get(id) as { count: number };
+        if (childrenDeps.count > 0) {
+            return reply.code(409).send({ error: `Cannot delete stop: parent of ${childrenDeps.count} platforms, entrances or boarding areas.` });
+        }
+
+        const pathwaysDeps = db.prepare('SELECT count(*) as count FROM pathways WHERE from_stop_id = ? OR to_stop_id = ?').get(id, id) as { count: number };
+        if (pathwaysDeps.count > 0) {
+            return reply.code(409).send({ error: `Cannot delete stop: used in ${pathwaysDeps.count} pathways.` });
+        }
+
         const stmt = db.prepare('DELETE FROM stops WHERE stop_id = ?');
         const result = stmt.run(id);
 
         if (result.changes === 0) {
             return reply.code(404).send({ error: 'Stop not found' });
         }
+        deleteTranslations('stops', id);
+        db.prepare('DELETE FROM pattern_stop_rules WHERE stop_id = ?').run(id);
+        db.prepare('DELETE FROM dwell_times WHERE stop_id = ?').run(id);
+        db.prepare('DELETE FROM layover_rules WHERE stop_id = ?').run(id);
 
         return { message: 'Stop deleted' };
     });
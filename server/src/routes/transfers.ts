@@ -0,0 +1,175 @@
+import { FastifyInstance } from 'fastify';
+import db from '../db';
+import { v4 as uuidv4 } from 'uuid';
+import { suggestTransfers, DEFAULT_SUGGESTION_OPTIONS } from '../services/transferSuggestions';
+
+interface TransferBody {
+    from_stop_id?: string | null;
+    to_stop_id?: string | null;
+    from_route_id?: string | null;
+    to_route_id?: string | null;
+    from_trip_id?: string | null;
+    to_trip_id?: string | null;
+    transfer_type: number;
+    min_transfer_time?: number | null;
+}
+
+const REFERENCES: { field: keyof TransferBody, table: string, key: string }[] = [
+    { field: 'from_stop_id', table: 'stops', key: 'stop_id' },
+    { field: 'to_stop_id', table: 'stops', key: 'stop_id' },
+    { field: 'from_route_id', table: 'routes', key: 'route_id' },
+    { field: 'to_route_id', table: 'routes', key: 'route_id' },
+    { field: 'from_trip_id', table: 'trips', key: 'trip_id' },
+    { field: 'to_trip_id', table: 'trips', key: 'trip_id' }
+];
+
+// Empty strings from the form mean "not set"
+const normalize = (body: TransferBody): TransferBody => {
+    const clean: TransferBody = { transfer_type: Number(body.transfer_type) };
+    REFERENCES.forEach(({ field }) => {
+        (clean as any)[field] = body[field] || null;
+    });
+    clean.min_transfer_time = body.min_transfer_time === null || body.min_transfer_time === undefined || String(body.min_transfer_time) === ''
+        ? null
+        : Number(body.min_transfer_time);
+    return clean;
+};
+
+// Conditional requirements of transfers.txt, plus existence of every referenced entity
+const validateTransfer = (t: TransferBody): string | null => {
+    if (!Number.isInteger(t.transfer_type) || t.transfer_type < 0 || t.transfer_type > 5) {
+        return 'transfer_type must be an integer between 0 and 5';
+    }
+    if (t.transfer_type <= 3 && (!t.from_stop_id || !t.to_stop_id)) {
+        return 'from_stop_id and to_stop_id are required';
+    }
+    if (t.transfer_type >= 4 && (!t.from_trip_id || !t.to_trip_id)) {
+        return 'from_trip_id and to_trip_id are required for in-seat transfers';
+    }
+    if (t.min_transfer_time !== null && t.min_transfer_time !== undefined && (!Number.isInteger(t.min_transfer_time) || t.min_transfer_time < 0)) {
+        return 'min_transfer_time must be a non-negative number of seconds';
+    }
+    if (t.transfer_type === 2 && (t.min_transfer_time === null || t.min_transfer_time === undefined)) {
+        return 'min_transfer_time is required for transfer_type 2';
+    }
+
+    for (const ref of REFERENCES) {
+        const id = t[ref.field];
+        if (id && !db.prepare(`SELECT 1 FROM ${ref.table} WHERE ${ref.key} = ?`).get(id)) {
+            return `${ref.field} "${id}" does not exist`;
+        }
+    }
+    return null;
+};
+
+const isUniqueViolation = (err: any) => err?.code === 'SQLITE_CONSTRAINT_UNIQUE';
+
+export default async function transfersRoutes(fastify: FastifyInstance) {
+
+    // GET All Transfers (with names for display)
+    fastify.get('/transfers', async (request, reply) => {
+        try {
+            return db.prepare(`
+                SELECT tr.*,
+                    fs.stop_name as from_stop_name, ts.stop_name as to_stop_name,
+                    fr.route_short_name as from_route_short_name, tor.route_short_name as to_route_short_name
+                FROM transfers tr
+                LEFT JOIN stops fs ON fs.stop_id = tr.from_stop_id
+                LEFT JOIN stops ts ON ts.stop_id = tr.to_stop_id
+                LEFT JOIN routes fr ON fr.route_id = tr.from_route_id
+                LEFT JOIN routes tor ON tor.route_id = tr.to_route_id
+                ORDER BY fs.stop_name, ts.stop_name
+            `).all();
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch transfers' });
+        }
+    });
+
+    // GET Candidate transfers at shared stops and within walking distance
+    fastify.get('/transfers/suggestions', async (request, reply) => {
+        const { max_distance, walk_speed } = request.query as { max_distance?: string, walk_speed?: string };
+        const maxDistance = max_distance !== undefined ? Number(max_distance) : DEFAULT_SUGGESTION_OPTIONS.maxDistance;
+        const walkSpeed = walk_speed !== undefined ? Number(walk_speed) : DEFAULT_SUGGESTION_OPTIONS.walkSpeed;
+
+        if (!Number.isFinite(maxDistance) || maxDistance < 0 || maxDistance > 1000) {
+            return reply.code(400).send({ error: 'max_distance must be between 0 and 1000 meters' });
+        }
+        if (!Number.isFinite(walkSpeed) || walkSpeed <= 0) {
+            return reply.code(400).send({ error: 'walk_speed must be a positive number of meters per second' });
+        }
+
+        try {
+            return suggestTransfers({ maxDistance, walkSpeed });
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to compute transfer suggestions' });
+        }
+    });
+
+    // POST Create Transfer
+    fastify.post('/transfers', async (request, reply) => {
+        const transfer = normalize(request.body as TransferBody);
+        const error = validateTransfer(transfer);
+        if (error) return reply.code(400).send({ error });
+
+        const transfer_id = uuidv4();
+        try {
+            db.prepare(`
+                INSERT INTO transfers (transfer_id, from_stop_id, to_stop_id, from_route_id, to_route_id, from_trip_id, to_trip_id, transfer_type, min_transfer_time)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `).run(
+                transfer_id, transfer.from_stop_id, transfer.to_stop_id, transfer.from_route_id, transfer.to_route_id,
+                transfer.from_trip_id, transfer.to_trip_id, transfer.transfer_type, transfer.min_transfer_time
+            );
+            return { success: true, transfer_id, ...transfer };
+        } catch (err) {
+            if (isUniqueViolation(err)) return reply.code(409).send({ error: 'A transfer with the same stops, routes and trips already exists' });
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to create transfer' });
+        }
+    });
+
+    // PUT Update Transfer
+    fastify.put('/transfers/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const transfer = normalize(request.body as TransferBody);
+        const error = validateTransfer(transfer);
+        if (error) return reply.code(400).send({ error });
+
+        try {
+            const info = db.prepare(`
+                UPDATE transfers
+                SET from_stop_id = ?, to_stop_id = ?, from_route_id = ?, to_route_id = ?, from_trip_id = ?, to_trip_id = ?, transfer_type = ?, min_transfer_time = ?
+                WHERE transfer_id = ?
+            `).run(
+                transfer.from_stop_id, transfer.to_stop_id, transfer.from_route_id, transfer.to_route_id,
+                transfer.from_trip_id, transfer.to_trip_id, transfer.transfer_type, transfer.min_transfer_time, id
+            );
+
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Transfer not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            if (isUniqueViolation(err)) return reply.code(409).send({ error: 'A transfer with the same stops, routes and trips already exists' });
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to update transfer' });
+        }
+    });
+
+    // DELETE Transfer
+    fastify.delete('/transfers/:id', async (request, reply) => {
+        const { id } = request.params as { id: string };
+        try {
+            const info = db.prepare('DELETE FROM transfers WHERE transfer_id = ?').run(id);
+            if (info.changes === 0) {
+                return reply.code(404).send({ error: 'Transfer not found' });
+            }
+            return { success: true };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to delete transfer' });
+        }
+    });
+}
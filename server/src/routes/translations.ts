@@ -0,0 +1,85 @@
+import { FastifyInstance } from 'fastify';
+import db from '../db';
+import { v4 as uuidv4 } from 'uuid';
+import { TRANSLATABLE, LANG_RE, isTranslatable, recordExists, defaultLanguage } from '../services/translations';
+
+interface TranslationBody {
+    field_name: string;
+    language: string;
+    translation: string;
+}
+
+export default async function translationsRoutes(fastify: FastifyInstance) {
+
+    // GET Default language, languages in use and translatable fields
+    fastify.get('/translations/meta', async (request, reply) => {
+        try {
+            const languages = (db.prepare('SELECT DISTINCT language FROM translations ORDER BY language').all() as { language: string }[])
+                .map(l => l.language);
+            return { default_lang: defaultLanguage(), languages, fields: TRANSLATABLE };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch translation settings' });
+        }
+    });
+
+    // GET Translations, optionally of one table or record
+    fastify.get('/translations', async (request, reply) => {
+        const { table_name, record_id } = request.query as { table_name?: string, record_id?: string };
+        const where: string[] = [];
+        const params: string[] = [];
+        if (table_name) { where.push('table_name = ?'); params.push(table_name); }
+        if (record_id) { where.push('record_id = ?'); params.push(record_id); }
+
+        try {
+            return db.prepare(`
+                SELECT * FROM translations
+                ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+                ORDER BY table_name, record_id, field_value, field_name, language
+            `).all(...params);
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to fetch translations' });
+        }
+    });
+
+    // PUT Replace the translations of one record
+    fastify.put('/translations/:table/:recordId', async (request, reply) => {
+        const { table, recordId } = request.params as { table: string, recordId: string };
+        const body = request.body as { translations?: TranslationBody[] };
+
+        if (!TRANSLATABLE[table]) {
+            return reply.code(400).send({ error: `table must be one of: ${Object.keys(TRANSLATABLE).join(', ')}` });
+        }
+        if (!Array.isArray(body?.translations)) return reply.code(400).send({ error: 'translations must be a list' });
+
+        // Blank translations mean "remove"
+        const translations = body.translations
+            .map(t => ({ field_name: String(t.field_name || ''), language: String(t.language || '').trim(), translation: String(t.translation ?? '').trim() }))
+            .filter(t => t.translation !== '');
+
+        for (const t of translations) {
+            if (!isTranslatable(table, t.field_name)) return reply.code(400).send({ error: `${t.field_name} of ${table} cannot be translated` });
+            if (!LANG_RE.test(t.language)) return reply.code(400).send({ error: `"${t.language}" is not a language code such as "en" or "es-MX"` });
+        }
+        const keys = new Set(translations.map(t => `${t.field_name}|${t.language}`));
+        if (keys.size !== translations.length) return reply.code(400).send({ error: 'Each field can only have one translation per language' });
+
+        try {
+            if (!recordExists(table, recordId)) return reply.code(404).send({ error: 'Record not found' });
+
+            db.transaction(() => {
+                db.prepare('DELETE FROM translations WHERE table_name = ? AND record_id = ?').run(table, recordId);
+                const insert = db.prepare(`
+                    INSERT INTO translations (translation_id, table_name, field_name, language, translation, record_id)
+                    VALUES (?, ?, ?, ?, ?, ?)
+                `);
+                translations.forEach(t => insert.run(uuidv4(), table, t.field_name, t.language, t.translation, recordId));
+            })();
+            return { success: true, count: translations.length };
+        } catch (err) {
+            console.error(err);
+            return reply.code(500).send({ error: 'Failed to save translations' });
+        }
+    });
+}
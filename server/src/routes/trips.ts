@@ -1,6 +1,12 @@
 import { FastifyInstance } from 'fastify';
 import db from '../db';
 import { randomUUID } from 'crypto';
+import { deleteTranslations } from '../services/translations';
+import { stopRuleError, patternRules, matchRules, RULE_FIELDS } from '../services/stopRules';
+import { accessibilityError } from '../services/accessibility';
+import { mainPatternId, patternError } from '../services/patterns';
+import { generateTimetable, saveTimetable, timetablePatternError, timetableRequestError, TimetableRequest } from '../services/timetable';
+import { bulkEditError, runBulkEdit, BulkEditRequest } from '../services/timetableEdits';
 
 interface Trip {
     trip_id: string;
@@ -9,6 +15,9 @@ interface Trip {
     trip_headsign: string;
     direction_id: number;
     shape_id: string;
+    wheelchair_accessible?: number | null;
+    bikes_allowed?: number | null;
+    pattern_id?: string | null; // Empty: the main pattern of the direction
 }
 
 interface StopTime {
@@ -17,8 +26,23 @@ interface StopTime {
     stop_sequence: number;
     arrival_time: string;
     departure_time: string;
+    stop_headsign?: string | null;
+    pickup_type?: number | null;
+    drop_off_type?: number | null;
+    timepoint?: number | null;
+    shape_dist_traveled?: number | null;
 }
 
+interface Frequency {
+    trip_id: string;
+    start_time: string;
+    end_time: string;
+    headway_secs: number;
+    exact_times: number;
+}
+
+const TIME_RE = /^\d{1,2}:\d{2}:\d{2}$/;
+
 export default async function tripsRoutes(server: FastifyInstance) {
 
     // GET /routes/:route_id/trips - Fetch all trips + stop_times for a route
@@ -42,11 +66,13 @@ export default async function tripsRoutes(server: FastifyInstance) {
             if (trips.length > 0) {
                 const tripIds = trips.map(t => `'${t.trip_id}'`).join(',');
                 const stopTimes = db.prepare(`SELECT * FROM stop_times WHERE trip_id IN (${tripIds}) ORDER BY trip_id, stop_sequence`).all() as StopTime[];
+                const frequencies = db.prepare(`SELECT * FROM frequencies WHERE trip_id IN (${tripIds}) ORDER BY trip_id, start_time`).all() as Frequency[];
 
-                // Attach stop_times to trips
+                // Attach stop_times (and headway windows, if any) to trips
                 const tripsWithTimes = trips.map(trip => ({
                     ...trip,
-                    stop_times: stopTimes.filter(st => st.trip_id === trip.trip_id)
+                    stop_times: stopTimes.filter(st => st.trip_id === trip.trip_id),
+                    frequencies: frequencies.filter(f => f.trip_id === trip.trip_id)
                 }));
                 return tripsWithTimes;
             }
@@ -61,20 +87,29 @@ export default async function tripsRoutes(server: FastifyInstance) {
     // POST /routes/:route_id/trips - Create a new trip
     server.post<{ Params: { route_id: string }, Body: Partial<Trip> }>('/routes/:route_id/trips', async (request, reply) => {
         const { route_id } = request.params;
-        const { service_id, trip_headsign, direction_id, shape_id, trip_id } = request.body;
+        const { service_id, trip_headsign, direction_id, shape_id, trip_id, wheelchair_accessible, bikes_allowed, pattern_id } = request.body;
 
         if (!service_id) {
             return reply.status(400).send({ error: 'service_id is required' });
         }
+        const accessibility = accessibilityError('wheelchair_accessible', wheelchair_accessible) || accessibilityError('bikes_allowed', bikes_allowed);
+        if (accessibility) {
+            return reply.status(400).send({ error: accessibility });
+        }
 
         const newTripId = trip_id || randomUUID();
 
         try {
+            const pattern = patternError(route_id, direction_id || 0, pattern_id);
+            if (pattern) {
+                return reply.status(400).send({ error: pattern });
+            }
+
             const stmt = db.prepare(`
-                INSERT INTO trips (trip_id, route_id, service_id, trip_headsign, direction_id, shape_id)
-                VALUES (?, ?, ?, ?, ?, ?)
+                INSERT INTO trips (trip_id, route_id, service_id, trip_headsign, direction_id, shape_id, wheelchair_accessible, bikes_allowed, pattern_id)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
             `);
-            stmt.run(newTripId, route_id, service_id, trip_headsign || '', direction_id || 0, shape_id || null);
+            stmt.run(newTripId, route_id, service_id, trip_headsign || '', direction_id || 0, shape_id || null, wheelchair_accessible ?? null, bikes_allowed ?? null, pattern_id || null);
             return { message: 'Trip created', trip_id: newTripId };
         } catch (err) {
             server.log.error(err);
@@ -82,18 +117,84 @@ export default async function tripsRoutes(server: FastifyInstance) {
         }
     });
 
+    // POST /routes/:route_id/trips/generate - Build a timetable from headway bands and save it in one transaction,
+    // so a dropped connection never leaves half of it behind. Stop times follow segment travel times and time slots.
+    server.post<{ Params: { route_id: string }, Body: TimetableRequest }>('/routes/:route_id/trips/generate', async (request, reply) => {
+        const { route_id } = request.params;
+        const body = request.body || {} as TimetableRequest;
+
+        if (!db.prepare('SELECT 1 FROM routes WHERE route_id = ?').get(route_id)) {
+            return reply.status(404).send({ error: 'Route not found' });
+        }
+        const error = timetableRequestError(body) || timetablePatternError(route_id, body);
+        if (error) {
+            return reply.status(400).send({ error });
+        }
+
+        try {
+            const { trips, skipped } = generateTimetable(route_id, body);
+            saveTimetable(route_id, body, trips);
+            return { message: `Created ${trips.length} trips`, trip_ids: trips.map(t => t.trip_id), skipped };
+        } catch (err) {
+            server.log.error(err);
+            return reply.status(500).send({ error: 'Failed to generate timetable' });
+        }
+    });
+
+    // POST /routes/:route_id/trips/bulk - Shift, stretch, copy to another service or delete the trips matching
+    // a direction / service / pattern / departure window, in one transaction. With preview, only lists them.
+    server.post<{ Params: { route_id: string }, Body: BulkEditRequest }>('/routes/:route_id/trips/bulk', async (request, reply) => {
+        const { route_id } = request.params;
+        const body = request.body || {} as BulkEditRequest;
+
+        if (!db.prepare('SELECT 1 FROM routes WHERE route_id = ?').get(route_id)) {
+            return reply.status(404).send({ error: 'Route not found' });
+        }
+        const error = bulkEditError(body);
+        if (error) {
+            return reply.status(400).send({ error });
+        }
+
+        try {
+            const result = runBulkEdit(route_id, body);
+            if ('error' in result) {
+                return reply.status(400).send({ error: result.error });
+            }
+            return result;
+        } catch (err) {
+            server.log.error(err);
+            return reply.status(500).send({ error: 'Failed to edit trips' });
+        }
+    });
+
     // PUT /trips/:trip_id - Update trip details
     server.put<{ Params: { trip_id: string }, Body: Partial<Trip> }>('/trips/:trip_id', async (request, reply) => {
         const { trip_id } = request.params;
-        const { service_id, trip_headsign, shape_id } = request.body;
+        const { service_id, trip_headsign, shape_id, wheelchair_accessible, bikes_allowed, pattern_id } = request.body;
+
+        const accessibility = accessibilityError('wheelchair_accessible', wheelchair_accessible) || accessibilityError('bikes_allowed', bikes_allowed);
+        if (accessibility) {
+            return reply.status(400).send({ error: accessibility });
+        }
 
         try {
+            if (pattern_id !== undefined) {
+                const trip = db.prepare('SELECT route_id, direction_id FROM trips WHERE trip_id = ?').get(trip_id) as { route_id: string, direction_id: number | null } | undefined;
+                const pattern = trip ? patternError(trip.route_id, trip.direction_id || 0, pattern_id) : null;
+                if (pattern) {
+                    return reply.status(400).send({ error: pattern });
+                }
+            }
+
             const updates = [];
             const params = [];
 
             if (service_id !== undefined) { updates.push('service_id = ?'); params.push(service_id); }
             if (trip_headsign !== undefined) { updates.push('trip_headsign = ?'); params.push(trip_headsign); }
             if (shape_id !== undefined) { updates.push('shape_id = ?'); params.push(shape_id); }
+            if (wheelchair_accessible !== undefined) { updates.push('wheelchair_accessible = ?'); params.push(wheelchair_accessible); }
+            if (bikes_allowed !== undefined) { updates.push('bikes_allowed = ?'); params.push(bikes_allowed); }
+            if (pattern_id !== undefined) { updates.push('pattern_id = ?'); params.push(pattern_id || null); }
 
             if (updates.length === 0) return { message: 'No changes' };
 
@@ -111,6 +212,7 @@ export default async function tripsRoutes(server: FastifyInstance) {
     // POST /trips/:trip_id/stop_times - Save stop times for a trip
     // This expects a full list of stop times for the trip to replace existing ones, or upsert.
     // For simplicity, we'll delete existing and insert new ones (full replace) for that trip.
+    // Pickup/drop-off, timepoint and headsign fields that are left out come from the pattern's stop rules.
     server.post<{ Params: { trip_id: string }, Body: { stop_times: StopTime[] } }>('/trips/:trip_id/stop_times', async (request, reply) => {
         const { trip_id } = request.params;
         const { stop_times } = request.body;
@@ -118,19 +220,31 @@ export default async function tripsRoutes(server: FastifyInstance) {
         if (!Array.isArray(stop_times)) {
             return reply.status(400).send({ error: 'stop_times must be an array' });
         }
+        for (const st of stop_times) {
+            const error = stopRuleError(st);
+            if (error) return reply.status(400).send({ error: `${error} (stop ${st.stop_id})` });
+        }
+
+        const trip = db.prepare('SELECT route_id, direction_id, pattern_id FROM trips WHERE trip_id = ?').get(trip_id) as { route_id: string, direction_id: number | null, pattern_id: string | null } | undefined;
+        const rules = trip ? matchRules(stop_times.map(st => st.stop_id), patternRules(trip.pattern_id || mainPatternId(trip.route_id, trip.direction_id || 0))) : [];
 
         const insertStmt = db.prepare(`
-            INSERT INTO stop_times (trip_id, stop_id, stop_sequence, arrival_time, departure_time, shape_dist_traveled)
-            VALUES (?, ?, ?, ?, ?, ?)
+            INSERT INTO stop_times (trip_id, stop_id, stop_sequence, arrival_time, departure_time, stop_headsign, pickup_type, drop_off_type, timepoint, shape_dist_traveled)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         const deleteStmt = db.prepare('DELETE FROM stop_times WHERE trip_id = ?');
 
         const transaction = db.transaction((times: StopTime[]) => {
             deleteStmt.run(trip_id);
-            for (const st of times) {
-                insertStmt.run(trip_id, st.stop_id, st.stop_sequence, st.arrival_time, st.departure_time, 0); // TODO: Calculate shape_dist?
-            }
+            times.forEach((st, idx) => {
+                const value = (field: typeof RULE_FIELDS[number]) => st[field] !== undefined ? st[field] : rules[idx]?.[field] ?? null;
+                insertStmt.run(
+                    trip_id, st.stop_id, st.stop_sequence, st.arrival_time, st.departure_time,
+                    value('stop_headsign') || null, value('pickup_type'), value('drop_off_type'), value('timepoint'),
+                    st.shape_dist_traveled ?? null // Recomputed from the shape on export
+                );
+            });
         });
 
         try {
@@ -142,12 +256,82 @@ export default async function tripsRoutes(server: FastifyInstance) {
         }
     });
 
+    // GET /trips/:trip_id/frequencies - Headway windows of a frequency-based trip
+    server.get<{ Params: { trip_id: string } }>('/trips/:trip_id/frequencies', async (request, reply) => {
+        const { trip_id } = request.params;
+        try {
+            return db.prepare('SELECT * FROM frequencies WHERE trip_id = ? ORDER BY start_time').all(trip_id);
+        } catch (err) {
+            server.log.error(err);
+            return reply.status(500).send({ error: 'Failed to fetch frequencies' });
+        }
+    });
+
+    // POST /trips/:trip_id/frequencies - Save headway windows for a trip (full replace, like stop_times).
+    // The trip's own stop_times act as the template: GTFS consumers only use the offsets between stops.
+    server.post<{ Params: { trip_id: string }, Body: { frequencies: Frequency[] } }>('/trips/:trip_id/frequencies', async (request, reply) => {
+        const { trip_id } = request.params;
+        const { frequencies } = request.body;
+
+        if (!Array.isArray(frequencies)) {
+            return reply.status(400).send({ error: 'frequencies must be an array' });
+        }
+
+        const trip = db.prepare('SELECT trip_id FROM trips WHERE trip_id = ?').get(trip_id);
+        if (!trip) {
+            return reply.status(404).send({ error: 'Trip not found' });
+        }
+
+        for (const f of frequencies) {
+            if (!TIME_RE.test(f.start_time) || !TIME_RE.test(f.end_time)) {
+                return reply.status(400).send({ error: 'start_time and end_time must be HH:MM:SS' });
+            }
+            if (f.start_time.padStart(8, '0') >= f.end_time.padStart(8, '0')) {
+                return reply.status(400).send({ error: `end_time must be after start_time (${f.start_time})` });
+            }
+            if (!Number.isInteger(Number(f.headway_secs)) || Number(f.headway_secs) <= 0) {
+                return reply.status(400).send({ error: 'headway_secs must be a positive integer' });
+            }
+        }
+
+        // Windows of the same trip must not overlap
+        const sorted = [...frequencies].sort((a, b) => a.start_time.padStart(8, '0').localeCompare(b.start_time.padStart(8, '0')));
+        for (let i = 1; i < sorted.length; i++) {
+            if (sorted[i].start_time.padStart(8, '0') < sorted[i - 1].end_time.padStart(8, '0')) {
+                return reply.status(400).send({ error: `Frequency windows overlap at ${sorted[i].start_time}` });
+            }
+        }
+
+        const insertStmt = db.prepare(`
+            INSERT INTO frequencies (trip_id, start_time, end_time, headway_secs, exact_times)
+            VALUES (?, ?, ?, ?, ?)
+        `);
+
+        const transaction = db.transaction((rows: Frequency[]) => {
+            db.prepare('DELETE FROM frequencies WHERE trip_id = ?').run(trip_id);
+            for (const f of rows) {
+                insertStmt.run(trip_id, f.start_time, f.end_time, Number(f.headway_secs), f.exact_times ? 1 : 0);
+            }
+        });
+
+        try {
+            transaction(frequencies);
+            return { message: 'Frequencies saved', count: frequencies.length };
+        } catch (err) {
+            server.log.error(err);
+            return reply.status(500).send({ error: 'Failed to save frequencies' });
+        }
+    });
+
     // DELETE /trips/:trip_id
     server.delete<{ Params: { trip_id: string } }>('/trips/:trip_id', async (request, reply) => {
         const { trip_id } = request.params;
         try {
+            db.prepare('DELETE FROM frequencies WHERE trip_id = ?').run(trip_id);
+            db.prepare('DELETE FROM transfers WHERE from_trip_id = ? OR to_trip_id = ?').run(trip_id, trip_id);
             db.prepare('DELETE FROM stop_times WHERE trip_id = ?').run(trip_id);
             db.prepare('DELETE FROM trips WHERE trip_id = ?').run(trip_id);
+            deleteTranslations('trips', trip_id);
             return { message: 'Trip deleted' };
         } catch (err) {
             server.log.error(err);
@@ -12,6 +12,17 @@ import tripsRoutes from './routes/trips';
 import agencyRoutes from './routes/agency';
 import mapsRoutes from './routes/maps';
 import importRoutes from './routes/import';
+import jobsRoutes from './routes/jobs';
+import transfersRoutes from './routes/transfers';
+import faresRoutes from './routes/fares';
+import feedInfoRoutes from './routes/feedInfo';
+import stationsRoutes from './routes/stations';
+import translationsRoutes from './routes/translations';
+import accessibilityRoutes from './routes/accessibility';
+import avlRoutes from './routes/avl';
+import dwellTimesRoutes from './routes/dwellTimes';
+import layoverRulesRoutes from './routes/layoverRules';
+import jobQueue from './services/jobQueue';
 import fastifyStatic from '@fastify/static';
 import fastifyMultipart from '@fastify/multipart';
 import path from 'path';
@@ -62,10 +73,22 @@ server.register(tripsRoutes, { prefix: '/api' });
 server.register(agencyRoutes, { prefix: '/api' });
 server.register(mapsRoutes, { prefix: '/api' });
 server.register(importRoutes, { prefix: '/api' });
+server.register(jobsRoutes, { prefix: '/api' });
+server.register(transfersRoutes, { prefix: '/api' });
+server.register(faresRoutes, { prefix: '/api' });
+server.register(feedInfoRoutes, { prefix: '/api' });
+server.register(stationsRoutes, { prefix: '/api' });
+server.register(translationsRoutes, { prefix: '/api' });
+server.register(accessibilityRoutes, { prefix: '/api' });
+server.register(avlRoutes, { prefix: '/api' });
+server.register(dwellTimesRoutes, { prefix: '/api' });
+server.register(layoverRulesRoutes, { prefix: '/api' });
 
 // Initialize DB
 try {
     initDB();
+    // Resume queued background jobs (handlers are registered when the route modules load)
+    jobQueue.start();
 } catch (err) {
     server.log.error(err);
     process.exit(1);
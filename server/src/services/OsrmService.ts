@@ -1,11 +1,13 @@
 
 import { exec } from 'child_process';
+import { EventEmitter } from 'events';
 import fs from 'fs';
 import path from 'path';
 import https from 'https';
 import http from 'http';
 import { promisify } from 'util';
 import { URL } from 'url';
+import jobQueue, { JobCancelledError, JobContext } from './jobQueue';
 
 const execAsync = promisify(exec);
 
@@ -105,12 +107,31 @@ let currentStatus: OsrmStatus = {
     activeRegion: 'unknown'
 };
 
-class OsrmService {
+interface SetupParams {
+    regionKey: string;
+    url: string;
+    filename: string;
+    pbfPath: string;
+    mirrors: string[];
+    force: boolean;
+}
+
+// Emits 'status' with a copy of the status whenever it changes (see /maps/status/events)
+class OsrmService extends EventEmitter {
+    private lastPublished = '';
+
+    constructor() {
+        super();
+        this.setMaxListeners(0); // one listener per open event stream
+        // Setup runs as a background job so it shows up in /jobs and can be cancelled
+        jobQueue.register('osrm_setup', ctx => this.runSetupProcess(ctx));
+    }
 
     async getStatus() {
         // optimistically check if container is running to update 'idle' state
         if (currentStatus.status === 'idle') {
             await this.checkActiveContainer();
+            this.publish();
         }
         return currentStatus;
     }
@@ -118,6 +139,7 @@ class OsrmService {
     clearError() {
         if (currentStatus.status === 'error') {
             currentStatus = { status: 'idle', message: 'Ready', activeRegion: 'unknown' };
+            this.publish();
         }
         return currentStatus;
     }
@@ -226,13 +248,15 @@ class OsrmService {
                 currentStatus.status = 'idle';
                 currentStatus.message = 'No Map Active';
             }
+            this.publish();
         }
 
         return { message: `Map files for ${regionKey} deleted` };
     }
 
     async downloadAndSetup(regionKey: string, customUrl?: string, customName?: string, force: boolean = false) {
-        if (currentStatus.status === 'downloading' || currentStatus.status === 'processing') {
+        const pending = jobQueue.list({ type: 'osrm_setup', status: 'queued,running', limit: 1 });
+        if (pending.length > 0 || currentStatus.status === 'downloading' || currentStatus.status === 'processing') {
             throw new Error('A process is already running');
         }
 
@@ -268,14 +292,25 @@ class OsrmService {
         // Update active region tracking
         const activeKey = customUrl ? filename : regionKey;
 
-        this.runSetupProcess(activeKey, url, filename, pbfPath, mirrors, force);
+        const params: SetupParams = { regionKey: activeKey, url, filename, pbfPath, mirrors, force };
+        const job = jobQueue.enqueue('osrm_setup', params, `Setting up ${name}...`);
 
-        return { message: 'Setup process started' };
+        return { message: 'Setup process started', jobId: job.job_id };
     }
 
     // --- Private Process Logic ---
 
-    private async runSetupProcess(regionKey: string, url: string, filename: string, pbfPath: string, mirrors: string[], force: boolean) {
+    private async runSetupProcess(ctx: JobContext) {
+        const { regionKey, url, filename, pbfPath, mirrors, force } = ctx.params as SetupParams;
+
+        // Mirror every status change into the job so /jobs and /maps/status agree
+        const setStatus = (status: OsrmStatus) => {
+            currentStatus = status;
+            this.publish();
+            if (status.progress !== undefined) ctx.setProgress(status.progress, status.message);
+            else ctx.setMessage(status.message);
+        };
+
         try {
             if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
 
@@ -290,12 +325,12 @@ class OsrmService {
             }
 
             if (shouldDownload) {
-                currentStatus = { status: 'downloading', message: `Downloading ${filename}...`, activeRegion: regionKey, progress: 0 };
-                await this.downloadFileWithRetry(url, mirrors || [], pbfPath);
+                setStatus({ status: 'downloading', message: `Downloading ${filename}...`, activeRegion: regionKey, progress: 0 });
+                await this.downloadFileWithRetry(url, mirrors || [], pbfPath, ctx);
             }
 
             // 2. Stop existing container
-            currentStatus = { status: 'processing', message: 'Stopping existing OSRM container...', activeRegion: regionKey, progress: 100 };
+            setStatus({ status: 'processing', message: 'Stopping existing OSRM container...', activeRegion: regionKey, progress: 100 });
             try {
                 await execAsync(`docker rm -f ${CONTAINER_NAME}`);
             } catch (e) { /* ignore */ }
@@ -311,7 +346,7 @@ class OsrmService {
             // Detect and clean corrupt data
             if (fs.existsSync(osrmPath) && !fs.existsSync(edgesPath)) {
                 console.log("Found base .osrm file but missing index files (.edges). Data is corrupt. Re-extracting...");
-                currentStatus = { status: 'processing', message: 'Cleaning corrupt map data...', activeRegion: regionKey };
+                setStatus({ status: 'processing', message: 'Cleaning corrupt map data...', activeRegion: regionKey });
                 try {
                     fs.readdirSync(DATA_DIR).forEach(file => {
                         if (file.startsWith(osrmName) && file !== filename) {
@@ -325,51 +360,59 @@ class OsrmService {
 
             // Setup OSRM if not already extracted
             if (!fs.existsSync(osrmPath) || !fs.existsSync(edgesPath)) {
-                currentStatus = { status: 'processing', message: 'Extracting map data (this may take a while)...', activeRegion: regionKey };
+                setStatus({ status: 'processing', message: 'Extracting map data (this may take a while)...', activeRegion: regionKey });
                 await execAsync(`docker run -t -v "${volume}" -v "${profilesVolume}" osrm/osrm-backend osrm-extract -p /profiles/bus.lua /data/${filename}`);
 
-                currentStatus = { status: 'processing', message: 'Partitioning map data...', activeRegion: regionKey };
+                setStatus({ status: 'processing', message: 'Partitioning map data...', activeRegion: regionKey });
                 await execAsync(`docker run -t -v "${volume}" osrm/osrm-backend osrm-partition /data/${osrmName}`);
 
-                currentStatus = { status: 'processing', message: 'Customizing map data...', activeRegion: regionKey };
+                setStatus({ status: 'processing', message: 'Customizing map data...', activeRegion: regionKey });
                 await execAsync(`docker run -t -v "${volume}" osrm/osrm-backend osrm-customize /data/${osrmName}`);
             }
 
             // 4. Start Server
-            currentStatus = { status: 'processing', message: 'Starting OSRM Server...', activeRegion: regionKey };
+            setStatus({ status: 'processing', message: 'Starting OSRM Server...', activeRegion: regionKey });
             await execAsync(`docker run -d --restart always --name ${CONTAINER_NAME} -p ${PORT}:5000 -v "${volume}" osrm/osrm-backend osrm-routed --algorithm mld /data/${osrmName}`);
 
-            currentStatus = { status: 'running', message: 'OSRM Ready', activeRegion: regionKey, progress: 100 };
+            setStatus({ status: 'running', message: 'OSRM Ready', activeRegion: regionKey, progress: 100 });
 
         } catch (error) {
-            console.error('OSRM Setup Failed:', error);
-            currentStatus = { status: 'error', message: error instanceof Error ? error.message : 'Unknown error', activeRegion: regionKey };
+            if (error instanceof JobCancelledError || ctx.signal.aborted) {
+                currentStatus = { status: 'idle', message: 'Setup cancelled', activeRegion: 'unknown' };
+            } else {
+                console.error('OSRM Setup Failed:', error);
+                currentStatus = { status: 'error', message: error instanceof Error ? error.message : 'Unknown error', activeRegion: regionKey };
+            }
+            this.publish();
+            throw error;
         }
     }
 
-    private async downloadFileWithRetry(url: string, mirrors: string[], dest: string): Promise<void> {
+    private async downloadFileWithRetry(url: string, mirrors: string[], dest: string, ctx: JobContext): Promise<void> {
         const allUrls = [url, ...mirrors];
 
         for (const downloadUrl of allUrls) {
             try {
-                await this.downloadSingle(downloadUrl, dest);
+                await this.downloadSingle(downloadUrl, dest, ctx);
                 return;
             } catch (e) {
+                ctx.throwIfCancelled();
                 console.warn(`Download failed from ${downloadUrl}, trying next...`);
             }
         }
         throw new Error('All download mirrors failed.');
     }
 
-    private downloadSingle(url: string, dest: string): Promise<void> {
+    private downloadSingle(url: string, dest: string, ctx: JobContext): Promise<void> {
         return new Promise((resolve, reject) => {
             const file = fs.createWriteStream(dest);
             const proto = url.startsWith('https') ? https : http;
 
-            const req = proto.get(url, { headers: { 'User-Agent': 'GTFS-Generator/1.0' }, rejectUnauthorized: false }, (res) => {
+            // Cancelling the job aborts the transfer; the error handler removes the partial file
+            const req = proto.get(url, { headers: { 'User-Agent': 'GTFS-Generator/1.0' }, rejectUnauthorized: false, signal: ctx.signal }, (res) => {
                 if (res.statusCode === 301 || res.statusCode === 302) {
                     if (res.headers.location) {
-                        this.downloadSingle(res.headers.location, dest).then(resolve).catch(reject);
+                        this.downloadSingle(res.headers.location, dest, ctx).then(resolve).catch(reject);
                         return;
                     }
                 }
@@ -388,6 +431,12 @@ class OsrmService {
                     if (totalLength > 0) {
                         const percent = Math.round((downloaded / totalLength) * 100);
                         currentStatus.progress = percent;
+                        this.publish();
+                        try {
+                            ctx.setProgress(percent);
+                        } catch (e) {
+                            // Cancelled; the aborted request rejects the promise
+                        }
                     }
                 });
 
@@ -404,6 +453,14 @@ class OsrmService {
         });
     }
 
+    // Skips unchanged states; download progress reports every chunk
+    private publish() {
+        const snapshot = JSON.stringify(currentStatus);
+        if (snapshot === this.lastPublished) return;
+        this.lastPublished = snapshot;
+        this.emit('status', { ...currentStatus });
+    }
+
     private async checkActiveContainer() {
         try {
             const { stdout } = await execAsync(`docker ps --filter "name=${CONTAINER_NAME}" --format "{{.Status}}"`);
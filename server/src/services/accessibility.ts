@@ -0,0 +1,120 @@
+import db from '../db';
+import { notTemplateTrip } from './patterns';
+
+// wheelchair_boarding, wheelchair_accessible and bikes_allowed share the same values
+export const ACCESSIBILITY_VALUES: Record<number, string> = {
+    0: 'no information',
+    1: 'yes',
+    2: 'no'
+};
+
+export const DEFAULT_SCOPES = ['route', 'service'] as const;
+export type DefaultScope = typeof DEFAULT_SCOPES[number];
+
+type TripField = 'wheelchair_accessible' | 'bikes_allowed';
+
+interface Defaults {
+    wheelchair_accessible: number | null;
+    bikes_allowed: number | null;
+}
+
+const AUDIT_LIST_LIMIT = 1000;
+
+export const accessibilityError = (field: string, value: unknown): string | null =>
+    value === null || value === undefined || (Number.isInteger(value) && ACCESSIBILITY_VALUES[value as number])
+        ? null
+        : `${field} must be 0 (no information), 1 (yes) or 2 (no)`;
+
+export function loadDefaults(): Record<DefaultScope, Map<string, Defaults>> {
+    const defaults = { route: new Map<string, Defaults>(), service: new Map<string, Defaults>() };
+    (db.prepare('SELECT * FROM accessibility_defaults').all() as (Defaults & { scope: DefaultScope, scope_id: string })[])
+        .forEach(d => defaults[d.scope]?.set(d.scope_id, d));
+    return defaults;
+}
+
+/**
+ * Accessibility a trip is published with: its own value when it has one (1 or 2), else
+ * the route default, else the service default. Route comes first because it describes
+ * the vehicles of one line, while a service spans the whole network.
+ */
+export function inheritAccessibility(trip: { route_id: string, service_id: string } & Partial<Record<TripField, number | null>>, defaults: ReturnType<typeof loadDefaults>) {
+    const pick = (field: TripField) =>
+        trip[field] || defaults.route.get(trip.route_id)?.[field] || defaults.service.get(trip.service_id)?.[field] || null;
+    return { wheelchair_accessible: pick('wheelchair_accessible'), bikes_allowed: pick('bikes_allowed') };
+}
+
+/**
+ * Coverage report: served stops and trips whose wheelchair access is unknown, and per
+ * route the share of accessible trips (after inheriting defaults). Pattern trips drawn in
+ * the editor are not part of the timetable and are left out.
+ */
+export function accessibilityAudit() {
+    // A platform without its own value takes the one of its station
+    const stops = db.prepare(`
+        SELECT s.stop_id, s.stop_code, s.stop_name, s.parent_station,
+               COALESCE(NULLIF(s.wheelchair_boarding, 0), NULLIF(p.wheelchair_boarding, 0), 0) AS wheelchair_boarding
+        FROM stops s
+        LEFT JOIN stops p ON p.stop_id = s.parent_station
+        WHERE s.stop_id IN (SELECT DISTINCT stop_id FROM stop_times WHERE ${notTemplateTrip()})
+        ORDER BY s.stop_name
+    `).all() as any[];
+
+    const defaults = loadDefaults();
+    const trips = db.prepare(`
+        SELECT trip_id, route_id, service_id, trip_headsign, direction_id, wheelchair_accessible, bikes_allowed
+        FROM trips WHERE ${notTemplateTrip()}
+        ORDER BY route_id, trip_id
+    `).all() as any[];
+    const routes = db.prepare('SELECT route_id, route_short_name, route_long_name FROM routes ORDER BY route_short_name, route_id').all() as any[];
+
+    const byRoute = new Map<string, { trips: number, accessible: number, not_accessible: number, unknown: number, bikes_allowed: number }>();
+    routes.forEach(r => byRoute.set(r.route_id, { trips: 0, accessible: 0, not_accessible: 0, unknown: 0, bikes_allowed: 0 }));
+
+    const unknownTrips: any[] = [];
+    const tripTotals = { total: trips.length, accessible: 0, not_accessible: 0, unknown: 0 };
+    trips.forEach(trip => {
+        const effective = inheritAccessibility(trip, defaults);
+        const counts = byRoute.get(trip.route_id);
+        if (counts) {
+            counts.trips++;
+            if (effective.bikes_allowed === 1) counts.bikes_allowed++;
+        }
+
+        if (effective.wheelchair_accessible === 1) {
+            tripTotals.accessible++;
+            if (counts) counts.accessible++;
+        } else if (effective.wheelchair_accessible === 2) {
+            tripTotals.not_accessible++;
+            if (counts) counts.not_accessible++;
+        } else {
+            tripTotals.unknown++;
+            if (counts) counts.unknown++;
+            if (unknownTrips.length < AUDIT_LIST_LIMIT) {
+                unknownTrips.push({ trip_id: trip.trip_id, route_id: trip.route_id, service_id: trip.service_id, trip_headsign: trip.trip_headsign, direction_id: trip.direction_id });
+            }
+        }
+    });
+
+    const unknownStops = stops.filter(s => s.wheelchair_boarding !== 1 && s.wheelchair_boarding !== 2);
+    const share = (part: number, total: number) => total > 0 ? Number((part / total).toFixed(4)) : null;
+
+    return {
+        generated_at: new Date().toISOString(),
+        stops: {
+            total: stops.length,
+            accessible: stops.filter(s => s.wheelchair_boarding === 1).length,
+            not_accessible: stops.filter(s => s.wheelchair_boarding === 2).length,
+            unknown: unknownStops.length
+        },
+        trips: { ...tripTotals, accessible_share: share(tripTotals.accessible, tripTotals.total) },
+        routes: routes
+            .map(r => {
+                const counts = byRoute.get(r.route_id)!;
+                return { ...r, ...counts, accessible_share: share(counts.accessible, counts.trips) };
+            })
+            .filter(r => r.trips > 0),
+        unknown_stops: unknownStops.slice(0, AUDIT_LIST_LIMIT).map(s => ({ stop_id: s.stop_id, stop_code: s.stop_code, stop_name: s.stop_name })),
+        unknown_trips: unknownTrips,
+        truncated: unknownStops.length > AUDIT_LIST_LIMIT || tripTotals.unknown > AUDIT_LIST_LIMIT
+    };
+}
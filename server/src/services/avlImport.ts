@@ -0,0 +1,302 @@
+import db from '../db';
+import * as fs from 'fs';
+import csv from 'csv-parser';
+import { JobContext } from './jobQueue';
+import { CalibratedSlot, CalibrationScope, CalibrationSettings, Observation, calibrateBands } from './calibration';
+import { TimeSlot } from './timeSlots';
+
+export interface AvlImportParams {
+    filePath: string;
+    timezone: string; // Zone of the time of day runs are binned by; pings with an offset are converted to it
+    stop_radius_m: number; // A ping this close to a stop counts as passing it
+    corridor_m: number; // Pings between two stops must stay this close to the segment
+    settings: CalibrationSettings;
+    scope: CalibrationScope;
+}
+
+/** Proposed slot set of one segment, reviewed before it replaces the current one */
+export interface SlotProposal {
+    segment_id: string;
+    from_stop_id: string;
+    to_stop_id: string;
+    from_name: string;
+    to_name: string;
+    runs: number;
+    current: TimeSlot[]; // Slots of the target set the proposal replaces
+    proposed: CalibratedSlot[];
+}
+
+export interface AvlImportResult {
+    pings: number;
+    skipped_rows: number;
+    vehicles: number;
+    passages: number;
+    matched_runs: number;
+    off_corridor_runs: number;
+    proposals: SlotProposal[];
+}
+
+interface Ping {
+    at: number; // ms, for ordering and durations
+    tod: number; // seconds since midnight in the import's zone
+    lat: number;
+    lon: number;
+}
+
+// Visit of a vehicle at a stop, from its first to its last ping near it
+interface Passage {
+    stop_id: string;
+    first: number; // Positions in the vehicle's trace
+    last: number;
+}
+
+const MAX_RUN_SECS = 2 * 3600; // Longer gaps are outages or the vehicle out of service
+const MIN_ON_CORRIDOR = 0.8; // Share of in-between pings that must follow the segment
+const GRID_DEG = 0.005; // Stop lookup cell, about 500 m
+
+const getDistMeters = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+    const R = 6371000; // meters
+    const dLat = (lat2 - lat1) * Math.PI / 180;
+    const dLon = (lon2 - lon1) * Math.PI / 180;
+    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+        Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+        Math.sin(dLon / 2) * Math.sin(dLon / 2);
+    return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Distance from a point to a polyline of [lon, lat] pairs, on a local flat projection
+const distToLine = (lat: number, lon: number, coords: number[][]) => {
+    const mPerLat = 111320;
+    const mPerLon = 111320 * Math.cos(lat * Math.PI / 180);
+    let best = Infinity;
+    for (let i = 0; i < coords.length - 1; i++) {
+        const ax = (coords[i][0] - lon) * mPerLon, ay = (coords[i][1] - lat) * mPerLat;
+        const bx = (coords[i + 1][0] - lon) * mPerLon, by = (coords[i + 1][1] - lat) * mPerLat;
+        const dx = bx - ax, dy = by - ay;
+        const len2 = dx * dx + dy * dy;
+        const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2));
+        best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+    }
+    return best;
+};
+
+const parseLineString = (geometry: unknown): number[][] | null => {
+    if (!geometry) return null;
+    try {
+        const geo = typeof geometry === 'string' ? JSON.parse(geometry) : geometry;
+        if (geo && geo.type === 'LineString' && Array.isArray(geo.coordinates) && geo.coordinates.length >= 2) {
+            return geo.coordinates as number[][];
+        }
+    } catch (e) {
+        // Invalid geometry -> straight line between the stops
+    }
+    return null;
+};
+
+export function avlParamsError(params: { timezone?: string, stop_radius_m?: number, corridor_m?: number }): string | null {
+    try {
+        new Intl.DateTimeFormat('en-GB', { timeZone: params.timezone });
+    } catch (e) {
+        return `Unknown timezone ${params.timezone}`;
+    }
+    if (!Number.isFinite(params.stop_radius_m) || params.stop_radius_m! < 5 || params.stop_radius_m! > 200) return 'stop_radius_m must be between 5 and 200';
+    if (!Number.isFinite(params.corridor_m) || params.corridor_m! < 10 || params.corridor_m! > 500) return 'corridor_m must be between 10 and 500';
+    return null;
+}
+
+/**
+ * Timestamp parser for the zone of the import. Epoch seconds or milliseconds and ISO
+ * times with an offset are converted to the zone; times without one are read as its
+ * local time.
+ */
+const timestampParser = (timezone: string) => {
+    const clock = new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23' });
+    const LOCAL_RE = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?$/;
+
+    return (value: string): { at: number, tod: number } | null => {
+        const text = value.trim();
+        const local = LOCAL_RE.exec(text);
+        if (local) {
+            const [, y, mo, d, h, mi, s] = local.map(Number);
+            return { at: Date.UTC(y, mo - 1, d, h, mi, s || 0), tod: h * 3600 + mi * 60 + (s || 0) };
+        }
+        const at = /^\d+(\.\d+)?$/.test(text)
+            ? Number(text) * (Number(text) < 1e12 ? 1000 : 1)
+            : Date.parse(text);
+        if (!Number.isFinite(at)) return null;
+        const [h, mi, s] = clock.format(new Date(at)).split(':').map(Number);
+        return { at, tod: h * 3600 + mi * 60 + s };
+    };
+};
+
+// Reads the pings grouped per vehicle, in time order
+async function readPings(filePath: string, timezone: string): Promise<{ traces: Map<string, Ping[]>, pings: number, skipped: number }> {
+    const parseTime = timestampParser(timezone);
+    const traces = new Map<string, Ping[]>();
+    let pings = 0;
+    let skipped = 0;
+
+    await new Promise<void>((resolve, reject) => {
+        fs.createReadStream(filePath)
+            .pipe(csv({ mapHeaders: ({ header }) => header.trim().toLowerCase().replace(/^\uFEFF/, '') }))
+            .on('data', (row: Record<string, string>) => {
+                const vehicle = (row.vehicle_id || row.vehicle || '').trim();
+                const time = parseTime(row.timestamp || row.time || '');
+                const lat = parseFloat(row.lat ?? row.latitude);
+                const lon = parseFloat(row.lon ?? row.lng ?? row.longitude);
+                if (!vehicle || !time || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+                    skipped++;
+                    return;
+                }
+                if (!traces.has(vehicle)) traces.set(vehicle, []);
+                traces.get(vehicle)!.push({ ...time, lat, lon });
+                pings++;
+            })
+            .on('end', () => resolve())
+            .on('error', reject);
+    });
+
+    traces.forEach(trace => trace.sort((a, b) => a.at - b.at));
+    return { traces, pings, skipped };
+}
+
+/**
+ * Stops a trace passes, in order. Consecutive pings near the same stop are one visit, so
+ * the run to the next stop starts at its last ping and dwell stays out of running times.
+ */
+function detectPassages(trace: Ping[], nearStop: (p: Ping) => string | null): Passage[] {
+    const passages: Passage[] = [];
+    let visit: Passage | null = null;
+
+    trace.forEach((ping, index) => {
+        const stopId = nearStop(ping);
+        if (visit && stopId === visit.stop_id) {
+            visit.last = index;
+            return;
+        }
+        if (visit) passages.push(visit);
+        visit = stopId ? { stop_id: stopId, first: index, last: index } : null;
+    });
+    if (visit) passages.push(visit);
+    return passages;
+}
+
+/**
+ * Job handler: matches the GPS pings of an uploaded CSV (vehicle_id, timestamp, lat, lon)
+ * to segments and proposes slots calibrated from the observed runs. Nothing is written;
+ * the proposals are applied after review.
+ */
+export async function processAvlImport(ctx: JobContext): Promise<AvlImportResult> {
+    const params = ctx.params as AvlImportParams;
+
+    ctx.setProgress(5, 'Reading GPS pings...');
+    const { traces, pings, skipped } = await readPings(params.filePath, params.timezone);
+    ctx.throwIfCancelled();
+
+    // Stops on a coarse grid, so each ping only looks at the stops around it
+    const stops = db.prepare('SELECT stop_id, stop_name, stop_lat, stop_lon FROM stops').all() as { stop_id: string, stop_name: string, stop_lat: number, stop_lon: number }[];
+    const stopsById = new Map(stops.map(s => [s.stop_id, s]));
+    const grid = new Map<string, typeof stops>();
+    const cell = (lat: number, lon: number) => `${Math.floor(lat / GRID_DEG)}|${Math.floor(lon / GRID_DEG)}`;
+    stops.forEach(s => {
+        const key = cell(s.stop_lat, s.stop_lon);
+        if (!grid.has(key)) grid.set(key, []);
+        grid.get(key)!.push(s);
+    });
+    const nearStop = (p: Ping) => {
+        let best: string | null = null;
+        let bestDist = params.stop_radius_m;
+        const row = Math.floor(p.lat / GRID_DEG);
+        const col = Math.floor(p.lon / GRID_DEG);
+        for (let dr = -1; dr <= 1; dr++) {
+            for (let dc = -1; dc <= 1; dc++) {
+                for (const s of grid.get(`${row + dr}|${col + dc}`) || []) {
+                    const dist = getDistMeters(p.lat, p.lon, s.stop_lat, s.stop_lon);
+                    if (dist <= bestDist) {
+                        best = s.stop_id;
+                        bestDist = dist;
+                    }
+                }
+            }
+        }
+        return best;
+    };
+
+    const segments = new Map<string, { segment_id: string, geometry: number[][] | null }>();
+    (db.prepare('SELECT segment_id, start_node_id, end_node_id, geometry FROM segments').all() as { segment_id: string, start_node_id: string, end_node_id: string, geometry: string | null }[])
+        .forEach(s => segments.set(`${s.start_node_id}|${s.end_node_id}`, { segment_id: s.segment_id, geometry: parseLineString(s.geometry) }));
+
+    ctx.setProgress(30, `Matching ${pings} pings of ${traces.size} vehicles...`);
+    const observations = new Map<string, Observation[]>();
+    let passages = 0;
+    let matchedRuns = 0;
+    let offCorridorRuns = 0;
+    let done = 0;
+
+    for (const trace of traces.values()) {
+        const visits = detectPassages(trace, nearStop);
+        passages += visits.length;
+
+        for (let i = 0; i < visits.length - 1; i++) {
+            const from = visits[i];
+            const to = visits[i + 1];
+            const segment = segments.get(`${from.stop_id}|${to.stop_id}`);
+            const departure = trace[from.last];
+            const duration = Math.round((trace[to.first].at - departure.at) / 1000);
+            if (!segment || duration <= 0 || duration > MAX_RUN_SECS) continue;
+
+            // Map-match: the pings in between have to follow the segment, not a parallel street
+            const a = stopsById.get(from.stop_id)!;
+            const b = stopsById.get(to.stop_id)!;
+            const line = segment.geometry || [[a.stop_lon, a.stop_lat], [b.stop_lon, b.stop_lat]];
+            const between = trace.slice(from.last + 1, to.first);
+            const onLine = between.filter(p => distToLine(p.lat, p.lon, line) <= params.corridor_m).length;
+            if (between.length > 0 && onLine / between.length < MIN_ON_CORRIDOR) {
+                offCorridorRuns++;
+                continue;
+            }
+
+            if (!observations.has(segment.segment_id)) observations.set(segment.segment_id, []);
+            observations.get(segment.segment_id)!.push({ time: departure.tod, duration });
+            matchedRuns++;
+        }
+
+        done++;
+        if (done % 50 === 0) {
+            ctx.throwIfCancelled();
+            ctx.setProgress(30 + Math.round(60 * done / traces.size));
+        }
+    }
+
+    ctx.setProgress(90, `Calibrating ${observations.size} segments...`);
+    const segmentNodes = db.prepare('SELECT start_node_id, end_node_id FROM segments WHERE segment_id = ?');
+    const currentSlots = db.prepare(`
+        SELECT * FROM segment_time_slots
+        WHERE segment_id = ? AND service_id IS ? AND day_type IS ?
+        ORDER BY start_time
+    `);
+    const proposals: SlotProposal[] = [...observations].map(([segmentId, runs]) => {
+        const nodes = segmentNodes.get(segmentId) as { start_node_id: string, end_node_id: string };
+        return {
+            segment_id: segmentId,
+            from_stop_id: nodes.start_node_id,
+            to_stop_id: nodes.end_node_id,
+            from_name: stopsById.get(nodes.start_node_id)?.stop_name || nodes.start_node_id,
+            to_name: stopsById.get(nodes.end_node_id)?.stop_name || nodes.end_node_id,
+            runs: runs.length,
+            current: currentSlots.all(segmentId, params.scope.service_id, params.scope.day_type) as TimeSlot[],
+            proposed: calibrateBands(runs, params.settings)
+        };
+    }).sort((a, b) => a.from_name.localeCompare(b.from_name) || a.to_name.localeCompare(b.to_name));
+
+    ctx.setProgress(100, `Matched ${matchedRuns} runs on ${proposals.length} segments`);
+    return {
+        pings,
+        skipped_rows: skipped,
+        vehicles: traces.size,
+        passages,
+        matched_runs: matchedRuns,
+        off_corridor_runs: offCorridorRuns,
+        proposals
+    };
+}
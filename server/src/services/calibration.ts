@@ -0,0 +1,179 @@
+import db from '../db';
+import { randomUUID } from 'crypto';
+import { timeToSeconds, secondsToTime } from './timetable';
+
+/**
+ * How observed running times become slots: durations are binned into bands of
+ * `band_mins`, each band yields its percentiles, and neighbouring bands whose
+ * medians are within `tolerance_secs` merge into one slot.
+ */
+export interface CalibrationSettings {
+    band_mins: number;
+    min_percentile: number;
+    opt_percentile: number;
+    max_percentile: number;
+    tolerance_secs: number;
+}
+
+export const DEFAULT_CALIBRATION: CalibrationSettings = {
+    band_mins: 60,
+    min_percentile: 15,
+    opt_percentile: 50,
+    max_percentile: 85,
+    tolerance_secs: 30
+};
+
+/** One observed run over a segment: departure time and duration, in seconds */
+export interface Observation {
+    time: number;
+    duration: number;
+}
+
+export interface CalibratedSlot {
+    start: number;
+    end: number;
+    min_time: number;
+    travel_time: number;
+    max_time: number;
+    samples: number;
+}
+
+/** Slot set calibrated slots are written to; both null for the slots for all days */
+export interface CalibrationScope {
+    service_id: string | null;
+    day_type: string | null;
+}
+
+export function calibrationSettingsError(settings: Partial<CalibrationSettings>): string | null {
+    const { band_mins, min_percentile, opt_percentile, max_percentile, tolerance_secs } = { ...DEFAULT_CALIBRATION, ...settings };
+    if (!Number.isFinite(band_mins) || band_mins < 5 || band_mins > 360) return 'band_mins must be between 5 and 360';
+    for (const [name, p] of [['min_percentile', min_percentile], ['opt_percentile', opt_percentile], ['max_percentile', max_percentile]] as const) {
+        if (!Number.isFinite(p) || p < 0 || p > 100) return `${name} must be between 0 and 100`;
+    }
+    if (!(min_percentile <= opt_percentile && opt_percentile <= max_percentile)) return 'Percentiles must be in order: min <= opt <= max';
+    if (!Number.isFinite(tolerance_secs) || tolerance_secs < 0) return 'tolerance_secs must be 0 or more';
+    return null;
+}
+
+/** Percentile of sorted values, interpolated between the two nearest ranks */
+export function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return Math.round(sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower));
+}
+
+/**
+ * Slots of one segment from its observations. Slots are contiguous from the first
+ * band with runs to the last: a band without runs belongs to the slot before it.
+ */
+export function calibrateBands(observations: Observation[], settings: CalibrationSettings): CalibratedSlot[] {
+    const bandSecs = settings.band_mins * 60;
+    const bands = new Map<number, number[]>();
+    observations.forEach(o => {
+        const band = Math.floor(o.time / bandSecs);
+        if (!bands.has(band)) bands.set(band, []);
+        bands.get(band)!.push(o.duration);
+    });
+
+    const groups: { start: number, end: number, durations: number[] }[] = [];
+    [...bands.keys()].sort((a, b) => a - b).forEach(band => {
+        const durations = bands.get(band)!.sort((a, b) => a - b);
+        const last = groups[groups.length - 1];
+        if (last && Math.abs(percentile(last.durations, 50) - percentile(durations, 50)) <= settings.tolerance_secs) {
+            last.durations = [...last.durations, ...durations].sort((a, b) => a - b);
+            last.end = (band + 1) * bandSecs;
+            return;
+        }
+        if (last) last.end = band * bandSecs;
+        groups.push({ start: band * bandSecs, end: (band + 1) * bandSecs, durations });
+    });
+
+    return groups.map(g => ({
+        start: g.start,
+        end: g.end,
+        min_time: percentile(g.durations, settings.min_percentile),
+        travel_time: percentile(g.durations, settings.opt_percentile),
+        max_time: percentile(g.durations, settings.max_percentile),
+        samples: g.durations.length
+    }));
+}
+
+/** Observed segment runs of the given trips, keyed "segmentId|serviceId" */
+export function collectObservations(tripIds: string[]): Map<string, Observation[]> {
+    const segmentIds = new Map<string, string>();
+    (db.prepare('SELECT segment_id, start_node_id, end_node_id FROM segments').all() as { segment_id: string, start_node_id: string, end_node_id: string }[])
+        .forEach(s => segmentIds.set(`${s.start_node_id}|${s.end_node_id}`, s.segment_id));
+
+    const observations = new Map<string, Observation[]>();
+    const chunkSize = 500; // Stays under SQLite's variable limit
+    for (let i = 0; i < tripIds.length; i += chunkSize) {
+        const chunk = tripIds.slice(i, i + chunkSize);
+        const rows = db.prepare(`
+            SELECT st.trip_id, st.stop_id, st.arrival_time, st.departure_time, t.service_id
+            FROM stop_times st
+            JOIN trips t ON t.trip_id = st.trip_id
+            WHERE st.trip_id IN (${chunk.map(() => '?').join(',')})
+            ORDER BY st.trip_id, st.stop_sequence
+        `).all(...chunk) as { trip_id: string, stop_id: string, arrival_time: string | null, departure_time: string | null, service_id: string }[];
+
+        for (let j = 0; j < rows.length - 1; j++) {
+            const from = rows[j];
+            const to = rows[j + 1];
+            if (from.trip_id !== to.trip_id || !from.departure_time || !to.arrival_time) continue;
+            const segmentId = segmentIds.get(`${from.stop_id}|${to.stop_id}`);
+            if (!segmentId) continue;
+
+            const time = timeToSeconds(from.departure_time);
+            const key = `${segmentId}|${from.service_id}`;
+            if (!observations.has(key)) observations.set(key, []);
+            observations.get(key)!.push({ time, duration: Math.max(0, timeToSeconds(to.arrival_time) - time) });
+        }
+    }
+    return observations;
+}
+
+/**
+ * Replaces the slots of each observed segment in the set `scopeOf` picks for the
+ * service of the runs; slots of other sets are left alone.
+ */
+export function saveCalibration(
+    observations: Map<string, Observation[]>,
+    settings: CalibrationSettings,
+    scopeOf: (serviceId: string) => CalibrationScope
+): { segments: number, slots: number } {
+    const groups = new Map<string, { segmentId: string, scope: CalibrationScope, observations: Observation[] }>();
+    observations.forEach((runs, key) => {
+        const segmentId = key.slice(0, key.indexOf('|')); // Segment ids are UUIDs; service ids may hold a '|'
+        const scope = scopeOf(key.slice(segmentId.length + 1));
+        const groupKey = `${segmentId}|${scope.service_id ?? ''}|${scope.day_type ?? ''}`;
+        const group = groups.get(groupKey) || { segmentId, scope, observations: [] };
+        runs.forEach(run => group.observations.push(run));
+        groups.set(groupKey, group);
+    });
+
+    let slots = 0;
+    db.transaction(() => {
+        groups.forEach(({ segmentId, scope, observations }) => {
+            const calibrated = calibrateBands(observations, settings);
+            replaceSlots(segmentId, scope, calibrated);
+            slots += calibrated.length;
+        });
+    })();
+    return { segments: new Set([...groups.values()].map(g => g.segmentId)).size, slots };
+}
+
+/** Replaces the slots of a segment in one set with calibrated ones; run it inside a transaction */
+export function replaceSlots(segmentId: string, scope: CalibrationScope, slots: CalibratedSlot[]) {
+    db.prepare('DELETE FROM segment_time_slots WHERE segment_id = ? AND service_id IS ? AND day_type IS ?')
+        .run(segmentId, scope.service_id, scope.day_type);
+    const insertSlot = db.prepare(`
+        INSERT INTO segment_time_slots (id, segment_id, start_time, end_time, travel_time, min_time, max_time, samples, service_id, day_type)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    slots.forEach(slot => insertSlot.run(
+        randomUUID(), segmentId, secondsToTime(slot.start), secondsToTime(slot.end),
+        slot.travel_time, slot.min_time, slot.max_time, slot.samples, scope.service_id, scope.day_type
+    ));
+}
@@ -0,0 +1,78 @@
+import db from '../db';
+import { timeToSeconds } from './timetable';
+
+const TIME_RE = /^\d{1,2}:\d{2}:\d{2}$/;
+const DAY_SECS = 24 * 3600;
+
+export interface DwellRule {
+    id: string;
+    stop_id: string;
+    route_id: string | null; // NULL for every route
+    start_time: string | null; // Both NULL for the whole day
+    end_time: string | null;
+    dwell_secs: number;
+}
+
+export function dwellRuleError(rule: Partial<DwellRule>): string | null {
+    if (!rule.stop_id) return 'stop_id is required';
+    if (!db.prepare('SELECT 1 FROM stops WHERE stop_id = ?').get(rule.stop_id)) return `Stop ${rule.stop_id} not found`;
+    if (rule.route_id && !db.prepare('SELECT 1 FROM routes WHERE route_id = ?').get(rule.route_id)) return `Route ${rule.route_id} not found`;
+    if (!Number.isInteger(rule.dwell_secs) || rule.dwell_secs! < 0) return 'dwell_secs must be a whole number of seconds, zero or more';
+    if (!rule.start_time !== !rule.end_time) return 'A time band needs both start_time and end_time';
+    if (rule.start_time && rule.end_time) {
+        if (!TIME_RE.test(rule.start_time) || !TIME_RE.test(rule.end_time)) return 'start_time and end_time must be HH:MM:SS';
+        if (timeToSeconds(rule.start_time) >= timeToSeconds(rule.end_time)) return 'The time band must end after it starts';
+    }
+    return null;
+}
+
+export function listDwellRules(filter: { stop_id?: string, route_id?: string } = {}): DwellRule[] {
+    const where: string[] = [];
+    const params: string[] = [];
+    if (filter.stop_id) {
+        where.push('stop_id = ?');
+        params.push(filter.stop_id);
+    }
+    if (filter.route_id) {
+        where.push('(route_id IS NULL OR route_id = ?)');
+        params.push(filter.route_id);
+    }
+    return db.prepare(`
+        SELECT * FROM dwell_times ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+        ORDER BY stop_id, route_id IS NOT NULL, route_id, start_time
+    `).all(...params) as DwellRule[];
+}
+
+/**
+ * Dwell at a stop for a route at a time of day. The most specific rule wins: route and
+ * band, then route, then band, then the stop's default; stops without rules take 0.
+ * Rules are read once per generation.
+ */
+export function dwellModel(routeId: string) {
+    const byStop = new Map<string, { route: boolean, start: number | null, end: number | null, secs: number }[]>();
+    listDwellRules({ route_id: routeId }).forEach(rule => {
+        const rules = byStop.get(rule.stop_id) || [];
+        rules.push({
+            route: rule.route_id !== null,
+            start: rule.start_time ? timeToSeconds(rule.start_time) : null,
+            end: rule.end_time ? timeToSeconds(rule.end_time) : null,
+            secs: rule.dwell_secs
+        });
+        byStop.set(rule.stop_id, rules);
+    });
+
+    return (stopId: string, atSecs: number): number => {
+        const rules = byStop.get(stopId);
+        if (!rules) return 0;
+        // Bands describe a service day, like time slots
+        const timeOfDay = atSecs % DAY_SECS;
+        let best: { rank: number, secs: number } | null = null;
+        for (const rule of rules) {
+            const banded = rule.start !== null && rule.end !== null;
+            if (banded && !(timeOfDay >= rule.start! && timeOfDay < rule.end!)) continue;
+            const rank = (rule.route ? 2 : 0) + (banded ? 1 : 0);
+            if (!best || rank > best.rank) best = { rank, secs: rule.secs };
+        }
+        return best ? best.secs : 0;
+    };
+}
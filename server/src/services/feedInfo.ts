@@ -0,0 +1,82 @@
+import db from '../db';
+
+export type VersionMode = 'date' | 'increment' | 'manual';
+export const VERSION_MODES: VersionMode[] = ['date', 'increment', 'manual'];
+
+export interface FeedInfoSettings {
+    feed_publisher_name: string | null;
+    feed_publisher_url: string | null;
+    feed_lang: string | null;
+    default_lang: string | null;
+    feed_contact_email: string | null;
+    feed_contact_url: string | null;
+    version_mode: VersionMode;
+    feed_version: string | null;
+    version_counter: number;
+    last_version: string | null;
+    last_exported_at: string | null;
+}
+
+export type EditableFeedInfo = Omit<FeedInfoSettings, 'version_counter' | 'last_version' | 'last_exported_at'>;
+
+export const EDITABLE_FIELDS: (keyof EditableFeedInfo)[] = [
+    'feed_publisher_name', 'feed_publisher_url', 'feed_lang', 'default_lang',
+    'feed_contact_email', 'feed_contact_url', 'version_mode', 'feed_version'
+];
+
+export const getFeedInfo = (): FeedInfoSettings =>
+    db.prepare('SELECT * FROM feed_info WHERE id = 1').get() as FeedInfoSettings;
+
+export const saveFeedInfo = (settings: EditableFeedInfo) => {
+    db.prepare(`
+        UPDATE feed_info SET ${EDITABLE_FIELDS.map(f => `${f} = ?`).join(', ')} WHERE id = 1
+    `).run(...EDITABLE_FIELDS.map(f => settings[f]));
+};
+
+// feed_info.txt can only be written once its required fields are known
+export const isFeedInfoComplete = (s: FeedInfoSettings) =>
+    !!s.feed_publisher_name && !!s.feed_publisher_url && !!s.feed_lang;
+
+const today = () => {
+    const d = new Date();
+    return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Version the next export gets. Date stamps get a .2, .3... suffix when the same day
+ * was already exported, so two releases never share a version.
+ */
+export const nextFeedVersion = (s: FeedInfoSettings): string => {
+    const prefix = s.feed_version || '';
+    if (s.version_mode === 'manual') return prefix;
+    if (s.version_mode === 'increment') return `${prefix}${s.version_counter + 1}`;
+
+    const stamp = `${prefix}${today()}`;
+    if (!s.last_version || (s.last_version !== stamp && !s.last_version.startsWith(`${stamp}.`))) return stamp;
+    const lastSuffix = s.last_version === stamp ? 1 : parseInt(s.last_version.slice(stamp.length + 1), 10) || 1;
+    return `${stamp}.${lastSuffix + 1}`;
+};
+
+/** Takes the next version (or the given override) and records it as the last export */
+export const claimFeedVersion = (override?: string): string => db.transaction(() => {
+    const settings = getFeedInfo();
+    const version = override?.trim() || nextFeedVersion(settings);
+    const counter = !override?.trim() && settings.version_mode === 'increment' ? settings.version_counter + 1 : settings.version_counter;
+    db.prepare(`
+        UPDATE feed_info SET version_counter = ?, last_version = ?, last_exported_at = CURRENT_TIMESTAMP WHERE id = 1
+    `).run(counter, version);
+    return version;
+})();
+
+/**
+ * First and last service day of the exported calendars: the calendar ranges, widened by
+ * dates added through calendar_dates. Dates are YYYYMMDD, so string order is date order.
+ */
+export const validityWindow = (calendars: any[], calendarDates: any[]): { start: string | null, end: string | null } => {
+    const dates = [
+        ...calendars.flatMap(c => [c.start_date, c.end_date]),
+        ...calendarDates.filter(cd => Number(cd.exception_type) === 1).map(cd => cd.date)
+    ].filter(d => !!d).map(String).sort();
+
+    return { start: dates[0] || null, end: dates[dates.length - 1] || null };
+};
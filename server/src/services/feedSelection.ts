@@ -0,0 +1,284 @@
+import db from '../db';
+import { randomUUID } from 'crypto';
+import { loadDefaults, inheritAccessibility } from './accessibility';
+import { notTemplateTrip } from './patterns';
+
+export interface FeedFilters {
+    agency_ids?: string[];
+    service_ids?: string[];
+    route_ids?: string[];
+}
+
+const PAGE_SIZE = 500;
+const INSERT_CHUNK = 500;
+
+/**
+ * Resolves the agency / service / route filters of the export dialog into the rows
+ * that end up in the feed. Shared by the exporter and the validator so both see
+ * exactly the same data.
+ *
+ * The selected ids live in per-instance TEMP tables so large networks never hit
+ * SQLite's bound-variable limit, and the big tables (trips, stop_times) are read
+ * in keyset pages instead of being loaded at once. No statement is left open
+ * between pages, so other requests can keep writing while an export streams.
+ * Call dispose() when done.
+ */
+export class FeedSelection {
+    readonly agencies: any[] = [];
+    readonly routes: any[] = [];
+    readonly calendars: any[] = [];
+    readonly calendarDates: any[] = [];
+    readonly tripCount: number = 0;
+
+    private suffix = randomUUID().replace(/-/g, '').slice(0, 12);
+    private routesTable = `feed_routes_${this.suffix}`;
+    private servicesTable = `feed_services_${this.suffix}`;
+    private tripsTable = `feed_trips_${this.suffix}`;
+    private filterTable = `feed_filter_${this.suffix}`;
+    private disposed = false;
+    private stopRows: any[] | null = null;
+
+    constructor(filters: FeedFilters) {
+        const { agency_ids, service_ids, route_ids } = filters;
+
+        db.exec(`
+            CREATE TEMP TABLE ${this.routesTable} (route_id TEXT PRIMARY KEY);
+            CREATE TEMP TABLE ${this.servicesTable} (service_id TEXT PRIMARY KEY);
+            CREATE TEMP TABLE ${this.tripsTable} (trip_id TEXT PRIMARY KEY);
+            CREATE TEMP TABLE ${this.filterTable} (kind TEXT NOT NULL, id TEXT NOT NULL, PRIMARY KEY(kind, id));
+        `);
+
+        this.fillFilter('agency', agency_ids);
+        this.fillFilter('service', service_ids);
+        this.fillFilter('route', route_ids);
+
+        const hasFilter = (ids?: string[]) => !!ids && ids.length > 0;
+        const filtered = (kind: string) => `(SELECT id FROM ${this.filterTable} WHERE kind = '${kind}')`;
+
+        // 1. Filter Agencies
+        this.agencies = db.prepare(`
+            SELECT * FROM agency
+            ${hasFilter(agency_ids) ? `WHERE agency_id IN ${filtered('agency')}` : ''}
+        `).all() as any[];
+
+        // FIX: Validate Timezones
+        this.agencies.forEach(a => {
+            if (a.agency_timezone === 'America/Mexico') a.agency_timezone = 'America/Mexico_City';
+        });
+
+        // No agencies selected/found -> Empty feed
+        if (this.agencies.length === 0) return;
+
+        // 2. Filter Routes (by Agency AND optional specific route_ids)
+        this.routes = db.prepare(`
+            SELECT * FROM routes
+            WHERE agency_id IN (SELECT agency_id FROM agency ${hasFilter(agency_ids) ? `WHERE agency_id IN ${filtered('agency')}` : ''})
+            ${hasFilter(route_ids) ? `AND route_id IN ${filtered('route')}` : ''}
+        `).all() as any[];
+
+        // 3. Filter Calendar (Service IDs)
+        this.calendars = db.prepare(`
+            SELECT * FROM calendar
+            ${hasFilter(service_ids) ? `WHERE service_id IN ${filtered('service')}` : ''}
+        `).all() as any[];
+
+        this.fillTable(this.routesTable, this.routes.map(r => r.route_id));
+        this.fillTable(this.servicesTable, this.calendars.map(c => c.service_id));
+
+        // 3b. Service Exceptions for the selected services
+        this.calendarDates = db.prepare(`
+            SELECT service_id, date, exception_type FROM calendar_dates
+            WHERE service_id IN (SELECT service_id FROM ${this.servicesTable})
+            ORDER BY service_id, date
+        `).all();
+
+        // 4. Filter Trips (by Routes AND Services)
+        db.prepare(`
+            INSERT INTO ${this.tripsTable} (trip_id)
+            SELECT trip_id FROM trips
+            WHERE route_id IN (SELECT route_id FROM ${this.routesTable})
+            AND service_id IN (SELECT service_id FROM ${this.servicesTable})
+            AND ${notTemplateTrip()}
+        `).run();
+
+        this.tripCount = (db.prepare(`SELECT COUNT(*) as count FROM ${this.tripsTable}`).get() as { count: number }).count;
+    }
+
+    private fillFilter(kind: string, ids?: string[]) {
+        if (!ids || ids.length === 0) return;
+        const insert = db.prepare(`INSERT OR IGNORE INTO ${this.filterTable} (kind, id) VALUES (?, ?)`);
+        db.transaction(() => ids.forEach(id => insert.run(kind, id)))();
+    }
+
+    private fillTable(table: string, ids: string[]) {
+        for (let i = 0; i < ids.length; i += INSERT_CHUNK) {
+            const chunk = ids.slice(i, i + INSERT_CHUNK);
+            db.prepare(`INSERT OR IGNORE INTO ${table} VALUES ${chunk.map(() => '(?)').join(',')}`).run(...chunk);
+        }
+    }
+
+    /** Selected trips, one page (ordered by trip_id) at a time, with inherited accessibility */
+    *tripPages(): Generator<any[]> {
+        const defaults = loadDefaults();
+        const page = db.prepare(`
+            SELECT t.* FROM ${this.tripsTable} ft
+            JOIN trips t ON t.trip_id = ft.trip_id
+            WHERE ft.trip_id > ?
+            ORDER BY ft.trip_id
+            LIMIT ${PAGE_SIZE}
+        `);
+
+        let lastId = '';
+        while (true) {
+            const rows = page.all(lastId) as any[];
+            if (rows.length === 0) return;
+            rows.forEach(t => Object.assign(t, inheritAccessibility(t, defaults)));
+            yield rows;
+            lastId = rows[rows.length - 1].trip_id;
+        }
+    }
+
+    /** Stop times of a page of trips, grouped by trip_id and sorted by stop_sequence */
+    stopTimesFor(trips: any[]): Map<string, any[]> {
+        const grouped = new Map<string, any[]>();
+        if (trips.length === 0) return grouped;
+
+        const rows = db.prepare(`
+            SELECT * FROM stop_times WHERE trip_id IN (${trips.map(() => '?').join(',')})
+            ORDER BY trip_id, stop_sequence
+        `).all(...trips.map(t => t.trip_id)) as any[];
+
+        rows.forEach(st => {
+            if (!grouped.has(st.trip_id)) grouped.set(st.trip_id, []);
+            grouped.get(st.trip_id)?.push(st);
+        });
+        return grouped;
+    }
+
+    // 5b. Headway windows of frequency-based trips
+    frequencies(): any[] {
+        return db.prepare(`
+            SELECT f.trip_id, f.start_time, f.end_time, f.headway_secs, f.exact_times FROM frequencies f
+            JOIN ${this.tripsTable} ft ON ft.trip_id = f.trip_id
+            ORDER BY f.trip_id, f.start_time
+        `).all();
+    }
+
+    // 5c. Transfers whose stops, routes and trips all made it into the feed
+    transfers(): any[] {
+        return db.prepare(`
+            WITH feed_stops AS (
+                SELECT DISTINCT st.stop_id FROM stop_times st
+                JOIN ${this.tripsTable} ft ON ft.trip_id = st.trip_id
+            )
+            SELECT tr.* FROM transfers tr
+            WHERE (tr.from_stop_id IS NULL OR tr.from_stop_id IN feed_stops)
+            AND (tr.to_stop_id IS NULL OR tr.to_stop_id IN feed_stops)
+            AND (tr.from_route_id IS NULL OR tr.from_route_id IN (SELECT route_id FROM ${this.routesTable}))
+            AND (tr.to_route_id IS NULL OR tr.to_route_id IN (SELECT route_id FROM ${this.routesTable}))
+            AND (tr.from_trip_id IS NULL OR tr.from_trip_id IN (SELECT trip_id FROM ${this.tripsTable}))
+            AND (tr.to_trip_id IS NULL OR tr.to_trip_id IN (SELECT trip_id FROM ${this.tripsTable}))
+            ORDER BY tr.from_stop_id, tr.to_stop_id
+        `).all();
+    }
+
+    // 5d. Fares of the selected agencies (or of none); a fare whose rules all point at
+    // other routes is dropped, since without rules it would apply to every trip
+    fareAttributes(): any[] {
+        const agencyIds = new Set(this.agencies.map(a => a.agency_id));
+        const fares = db.prepare(`
+            SELECT fa.* FROM fare_attributes fa
+            WHERE NOT EXISTS (SELECT 1 FROM fare_rules fr WHERE fr.fare_id = fa.fare_id)
+            OR EXISTS (
+                SELECT 1 FROM fare_rules fr WHERE fr.fare_id = fa.fare_id
+                AND (fr.route_id IS NULL OR fr.route_id IN (SELECT route_id FROM ${this.routesTable}))
+            )
+            ORDER BY fa.fare_id
+        `).all() as any[];
+        return this.agencies.length === 0 ? [] : fares.filter(f => !f.agency_id || agencyIds.has(f.agency_id));
+    }
+
+    // 5e. Rules of the exported fares, for every route or one of the selected routes
+    fareRules(): any[] {
+        const fareIds = new Set(this.fareAttributes().map(f => f.fare_id));
+        return (db.prepare(`
+            SELECT fr.* FROM fare_rules fr
+            WHERE fr.route_id IS NULL OR fr.route_id IN (SELECT route_id FROM ${this.routesTable})
+            ORDER BY fr.fare_id, fr.route_id, fr.origin_id, fr.destination_id, fr.contains_id
+        `).all() as any[]).filter(r => fareIds.has(r.fare_id));
+    }
+
+    // 6. Filter Stops (by Stop Times), plus the whole station of every served platform or
+    // boarding area: the station itself, its entrances, nodes and other platforms
+    stops(): any[] {
+        if (this.stopRows) return this.stopRows;
+        this.stopRows = db.prepare(`
+            WITH served AS (
+                SELECT DISTINCT st.stop_id FROM stop_times st
+                JOIN ${this.tripsTable} ft ON ft.trip_id = st.trip_id
+            ),
+            stations AS (
+                SELECT s.parent_station AS stop_id FROM stops s
+                WHERE s.stop_id IN served AND IFNULL(s.location_type, 0) = 0 AND IFNULL(s.parent_station, '') <> ''
+                UNION
+                SELECT p.parent_station FROM stops s
+                JOIN stops p ON p.stop_id = s.parent_station
+                WHERE s.stop_id IN served AND s.location_type = 4 AND IFNULL(p.parent_station, '') <> ''
+            )
+            SELECT * FROM stops
+            WHERE stop_id IN served
+            OR stop_id IN stations
+            OR parent_station IN stations
+            OR parent_station IN (SELECT stop_id FROM stops WHERE parent_station IN stations)
+        `).all() as any[];
+        return this.stopRows;
+    }
+
+    // 6b. Levels used by the exported stops
+    levels(): any[] {
+        const levelIds = new Set(this.stops().map(s => s.level_id).filter(id => !!id));
+        return (db.prepare('SELECT * FROM levels ORDER BY level_index, level_id').all() as any[])
+            .filter(l => levelIds.has(l.level_id));
+    }
+
+    // 6c. Pathways between exported stops
+    pathways(): any[] {
+        const stopIds = new Set(this.stops().map(s => s.stop_id));
+        return (db.prepare('SELECT * FROM pathways ORDER BY from_stop_id, to_stop_id').all() as any[])
+            .filter(p => stopIds.has(p.from_stop_id) && stopIds.has(p.to_stop_id));
+    }
+
+    // 6d. Translations of exported agencies, stops, routes and trips. Translations by
+    // field_value apply to every record with that value; headsigns are kept only when an
+    // exported trip uses them.
+    translations(): any[] {
+        const agencyIds = new Set(this.agencies.map(a => a.agency_id));
+        const stopIds = new Set(this.stops().map(s => s.stop_id));
+        const routeIds = new Set(this.routes.map(r => r.route_id));
+        const rows = db.prepare(`
+            SELECT tr.* FROM translations tr
+            WHERE tr.table_name <> 'trips'
+            OR (tr.record_id IS NOT NULL AND tr.record_id IN (SELECT trip_id FROM ${this.tripsTable}))
+            OR (tr.record_id IS NULL AND EXISTS (
+                SELECT 1 FROM trips t JOIN ${this.tripsTable} ft ON ft.trip_id = t.trip_id
+                WHERE (tr.field_name = 'trip_headsign' AND t.trip_headsign = tr.field_value)
+                OR (tr.field_name = 'trip_short_name' AND t.trip_short_name = tr.field_value)
+            ))
+            ORDER BY tr.table_name, tr.record_id, tr.field_value, tr.field_name, tr.language
+        `).all() as any[];
+
+        const exported: Record<string, Set<string>> = { agency: agencyIds, stops: stopIds, routes: routeIds };
+        return this.agencies.length === 0 ? [] : rows.filter(t => !t.record_id || !exported[t.table_name] || exported[t.table_name].has(t.record_id));
+    }
+
+    dispose() {
+        if (this.disposed) return;
+        this.disposed = true;
+        db.exec(`
+            DROP TABLE IF EXISTS ${this.routesTable};
+            DROP TABLE IF EXISTS ${this.servicesTable};
+            DROP TABLE IF EXISTS ${this.tripsTable};
+            DROP TABLE IF EXISTS ${this.filterTable};
+        `);
+    }
+}
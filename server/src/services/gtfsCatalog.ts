@@ -0,0 +1,102 @@
+import db from '../db';
+
+// Standard fields of each GTFS Schedule file, in the order of the reference.
+// `required` marks unconditionally required fields; conditionally required ones
+// (e.g. stops.stop_name, agency.agency_id) are left to the validator.
+
+export interface GtfsField {
+    name: string;
+    required: boolean;
+}
+
+const fields = (order: string[], required: string[]): GtfsField[] =>
+    order.map(name => ({ name, required: required.includes(name) }));
+
+const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const GTFS_CATALOG: Record<string, GtfsField[]> = {
+    'agency.txt': fields(
+        ['agency_id', 'agency_name', 'agency_url', 'agency_timezone', 'agency_lang', 'agency_phone', 'agency_fare_url', 'agency_email'],
+        ['agency_name', 'agency_url', 'agency_timezone']
+    ),
+    'stops.txt': fields(
+        ['stop_id', 'stop_code', 'stop_name', 'tts_stop_name', 'stop_desc', 'stop_lat', 'stop_lon', 'zone_id', 'stop_url', 'location_type', 'parent_station', 'stop_timezone', 'wheelchair_boarding', 'level_id', 'platform_code'],
+        ['stop_id']
+    ),
+    'routes.txt': fields(
+        ['route_id', 'agency_id', 'route_short_name', 'route_long_name', 'route_desc', 'route_type', 'route_url', 'route_color', 'route_text_color', 'route_sort_order', 'continuous_pickup', 'continuous_drop_off', 'network_id'],
+        ['route_id', 'route_type']
+    ),
+    'trips.txt': fields(
+        ['route_id', 'service_id', 'trip_id', 'trip_headsign', 'trip_short_name', 'direction_id', 'block_id', 'shape_id', 'wheelchair_accessible', 'bikes_allowed'],
+        ['route_id', 'service_id', 'trip_id']
+    ),
+    'stop_times.txt': fields(
+        ['trip_id', 'arrival_time', 'departure_time', 'stop_id', 'stop_sequence', 'stop_headsign', 'pickup_type', 'drop_off_type', 'continuous_pickup', 'continuous_drop_off', 'shape_dist_traveled', 'timepoint'],
+        ['trip_id', 'stop_id', 'stop_sequence']
+    ),
+    'calendar.txt': fields(
+        ['service_id', ...DAYS, 'start_date', 'end_date'],
+        ['service_id', ...DAYS, 'start_date', 'end_date']
+    ),
+    'calendar_dates.txt': fields(
+        ['service_id', 'date', 'exception_type'],
+        ['service_id', 'date', 'exception_type']
+    ),
+    'shapes.txt': fields(
+        ['shape_id', 'shape_pt_lat', 'shape_pt_lon', 'shape_pt_sequence', 'shape_dist_traveled'],
+        ['shape_id', 'shape_pt_lat', 'shape_pt_lon', 'shape_pt_sequence']
+    ),
+    'frequencies.txt': fields(
+        ['trip_id', 'start_time', 'end_time', 'headway_secs', 'exact_times'],
+        ['trip_id', 'start_time', 'end_time', 'headway_secs']
+    ),
+    'transfers.txt': fields(
+        ['from_stop_id', 'to_stop_id', 'from_route_id', 'to_route_id', 'from_trip_id', 'to_trip_id', 'transfer_type', 'min_transfer_time'],
+        ['transfer_type']
+    ),
+    'fare_attributes.txt': fields(
+        ['fare_id', 'price', 'currency_type', 'payment_method', 'transfers', 'agency_id', 'transfer_duration'],
+        ['fare_id', 'price', 'currency_type', 'payment_method', 'transfers']
+    ),
+    'fare_rules.txt': fields(
+        ['fare_id', 'route_id', 'origin_id', 'destination_id', 'contains_id'],
+        ['fare_id']
+    ),
+    'feed_info.txt': fields(
+        ['feed_publisher_name', 'feed_publisher_url', 'feed_lang', 'default_lang', 'feed_start_date', 'feed_end_date', 'feed_version', 'feed_contact_email', 'feed_contact_url'],
+        ['feed_publisher_name', 'feed_publisher_url', 'feed_lang']
+    ),
+    'levels.txt': fields(
+        ['level_id', 'level_index', 'level_name'],
+        ['level_id', 'level_index']
+    ),
+    'pathways.txt': fields(
+        ['pathway_id', 'from_stop_id', 'to_stop_id', 'pathway_mode', 'is_bidirectional', 'length', 'traversal_time', 'stair_count', 'max_slope', 'min_width', 'signposted_as', 'reversed_signposted_as'],
+        ['pathway_id', 'from_stop_id', 'to_stop_id', 'pathway_mode', 'is_bidirectional']
+    ),
+    'translations.txt': fields(
+        ['table_name', 'field_name', 'language', 'translation', 'record_id', 'record_sub_id', 'field_value'],
+        ['table_name', 'field_name', 'language', 'translation']
+    )
+};
+
+const tableColumns = (table: string): string[] =>
+    (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+
+/**
+ * Header of an exported file: the catalog fields stored in `table`, in canonical order.
+ * Required fields are always kept. With `includeExtensions`, the table's non-standard
+ * columns (node_type, allowed_materials, ...) follow in table order.
+ */
+export const exportColumns = (fileName: string, table: string | null, includeExtensions: boolean = false): string[] => {
+    const catalog = GTFS_CATALOG[fileName];
+    if (!catalog) throw new Error(`${fileName} is not in the GTFS catalog`);
+    if (!table) return catalog.map(f => f.name);
+
+    const stored = tableColumns(table);
+    const standard = catalog.filter(f => f.required || stored.includes(f.name)).map(f => f.name);
+    if (!includeExtensions) return standard;
+
+    return [...standard, ...stored.filter(c => !standard.includes(c) && !catalog.some(f => f.name === c))];
+};
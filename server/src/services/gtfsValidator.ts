@@ -0,0 +1,509 @@
+import db from '../db';
+import { FeedSelection } from './feedSelection';
+import { getFeedInfo, isFeedInfoComplete, validityWindow } from './feedInfo';
+import { defaultLanguage } from './translations';
+import { layoverSecs, travelTimeModel } from './timetable';
+import { layoverModel, listLayoverRules } from './layoverRules';
+import { notTemplateTrip } from './patterns';
+
+export type Severity = 'error' | 'warning';
+
+export interface ValidationIssue {
+    severity: Severity;
+    rule: string;
+    file: string;
+    entity_id?: string;
+    message: string;
+}
+
+export interface ValidationReport {
+    valid: boolean; // true when there are no errors (warnings are allowed)
+    summary: {
+        errors: number;
+        warnings: number;
+        by_rule: Record<string, number>;
+    };
+    issues: ValidationIssue[];
+    truncated: boolean;
+}
+
+// Ends of a trip run by one vehicle (its block, or a chain of the route's trips), kept for the layover check
+interface BlockLeg {
+    trip_id: string;
+    route_id: string;
+    service_id: string;
+    first_stop_id: string;
+    departure: number;
+    last_stop_id: string;
+    arrival: number;
+}
+
+// Large feeds can produce thousands of identical findings; keep the report readable.
+const MAX_ISSUES_PER_RULE = 50;
+
+const COLOR_RE = /^[0-9A-Fa-f]{6}$/;
+const DATE_RE = /^\d{8}$/;
+const TIME_RE = /^\d{1,3}:\d{2}:\d{2}$/;
+// Deadhead assumed between terminals with no segment when chaining trips, as in the simulation
+const UNLINKED_REPOSITIONING_SECS = 600;
+
+export class GtfsValidator {
+    private issues: ValidationIssue[] = [];
+    private counts: Record<string, number> = {};
+    private errors = 0;
+    private warnings = 0;
+    private timezoneCache = new Map<string, boolean>();
+    private blockLegs = new Map<string, BlockLeg[]>(); // "serviceId|blockId" -> legs
+    private unblockedLegs = new Map<string, BlockLeg[]>(); // "serviceId|routeId" -> legs of trips without block_id
+
+    // --- Helpers ---
+
+    private report(severity: Severity, rule: string, file: string, message: string, entity_id?: string) {
+        this.counts[rule] = (this.counts[rule] || 0) + 1;
+        if (severity === 'error') this.errors++;
+        else this.warnings++;
+
+        if (this.counts[rule] <= MAX_ISSUES_PER_RULE) {
+            this.issues.push({ severity, rule, file, entity_id, message });
+        }
+    }
+
+    private isBlank(value: unknown): boolean {
+        return value === null || value === undefined || String(value).trim() === '';
+    }
+
+    private timeToSeconds(timeStr: string): number {
+        const [h, m, s] = timeStr.split(':').map(Number);
+        return h * 3600 + m * 60 + s;
+    }
+
+    private formatSecs(secs: number): string {
+        const sign = secs < 0 ? '-' : '';
+        const abs = Math.abs(secs);
+        return `${sign}${Math.floor(abs / 60)}:${String(abs % 60).padStart(2, '0')} min`;
+    }
+
+    private isValidTimezone(tz: string): boolean {
+        let valid = this.timezoneCache.get(tz);
+        if (valid === undefined) {
+            try {
+                new Intl.DateTimeFormat('en-US', { timeZone: tz });
+                // Intl also accepts offsets like "+01:00", which GTFS does not
+                valid = tz.includes('/') || tz === 'UTC';
+            } catch {
+                valid = false;
+            }
+            this.timezoneCache.set(tz, valid);
+        }
+        return valid;
+    }
+
+    // --- Rules ---
+
+    private checkAgencies(agencies: any[]) {
+        agencies.forEach(a => {
+            if (this.isBlank(a.agency_name)) this.report('error', 'missing_required_field', 'agency.txt', 'agency_name is required', a.agency_id);
+            if (this.isBlank(a.agency_url)) this.report('error', 'missing_required_field', 'agency.txt', 'agency_url is required', a.agency_id);
+
+            if (this.isBlank(a.agency_timezone)) {
+                this.report('error', 'missing_required_field', 'agency.txt', 'agency_timezone is required', a.agency_id);
+            } else if (!this.isValidTimezone(a.agency_timezone)) {
+                this.report('error', 'invalid_timezone', 'agency.txt', `"${a.agency_timezone}" is not a valid IANA timezone`, a.agency_id);
+            }
+        });
+
+        const timezones = new Set(agencies.map(a => a.agency_timezone).filter(Boolean));
+        if (timezones.size > 1) {
+            this.report('error', 'inconsistent_timezone', 'agency.txt', `All agencies must share the same timezone (found ${[...timezones].join(', ')})`);
+        }
+    }
+
+    private checkRoutes(routes: any[], routesWithTrips: Set<string>) {
+        routes.forEach(r => {
+            if (this.isBlank(r.route_short_name) && this.isBlank(r.route_long_name)) {
+                this.report('error', 'missing_required_field', 'routes.txt', 'route_short_name or route_long_name is required', r.route_id);
+            }
+            if (this.isBlank(r.route_type)) {
+                this.report('error', 'missing_required_field', 'routes.txt', 'route_type is required', r.route_id);
+            }
+
+            for (const field of ['route_color', 'route_text_color']) {
+                if (!this.isBlank(r[field]) && !COLOR_RE.test(r[field])) {
+                    this.report('error', 'invalid_color', 'routes.txt', `${field} "${r[field]}" must be a 6-digit hex color without #`, r.route_id);
+                }
+            }
+
+            if (!routesWithTrips.has(r.route_id)) {
+                this.report('warning', 'route_without_trips', 'routes.txt', 'Route has no trips for the selected services', r.route_id);
+            }
+        });
+    }
+
+    private checkStops(stops: any[]) {
+        stops.forEach(s => {
+            if (this.isBlank(s.stop_name)) {
+                this.report('error', 'missing_required_field', 'stops.txt', 'stop_name is required', s.stop_id);
+            }
+            if (this.isBlank(s.stop_lat) || this.isBlank(s.stop_lon)) {
+                this.report('error', 'missing_required_field', 'stops.txt', 'stop_lat and stop_lon are required', s.stop_id);
+                return;
+            }
+
+            const lat = Number(s.stop_lat);
+            const lon = Number(s.stop_lon);
+            if (!(lat >= -90 && lat <= 90) || !(lon >= -180 && lon <= 180)) {
+                this.report('error', 'coordinates_out_of_range', 'stops.txt', `Coordinates (${s.stop_lat}, ${s.stop_lon}) are out of range`, s.stop_id);
+            } else if (lat === 0 && lon === 0) {
+                this.report('warning', 'coordinates_out_of_range', 'stops.txt', 'Stop is located at (0, 0)', s.stop_id);
+            }
+        });
+    }
+
+    private checkUnusedStops() {
+        // Stops are not scoped by agency, so "unused" means unused by any trip in the database
+        const unused = db.prepare(`
+            SELECT stop_id, stop_name FROM stops
+            WHERE stop_id NOT IN (SELECT DISTINCT stop_id FROM stop_times)
+            AND stop_id NOT IN (SELECT parent_station FROM stops WHERE parent_station IS NOT NULL)
+            AND IFNULL(location_type, 0) = 0
+        `).all() as { stop_id: string, stop_name: string }[];
+
+        unused.forEach(s => {
+            this.report('warning', 'unused_stop', 'stops.txt', `Stop "${s.stop_name || s.stop_id}" is not served by any trip`, s.stop_id);
+        });
+    }
+
+    private checkStations(stops: any[], levels: any[], pathways: any[]) {
+        const byId = new Map(stops.map(s => [s.stop_id, s]));
+        const levelIds = new Set(levels.map(l => l.level_id));
+        const typeOf = (s: any) => Number(s.location_type || 0);
+
+        stops.forEach(s => {
+            const type = typeOf(s);
+            if (!this.isBlank(s.level_id) && !levelIds.has(s.level_id)) {
+                this.report('error', 'unknown_level', 'stops.txt', `level_id "${s.level_id}" is not defined in levels.txt`, s.stop_id);
+            }
+
+            if (this.isBlank(s.parent_station)) {
+                if (type >= 2) this.report('error', 'missing_required_field', 'stops.txt', `parent_station is required for location_type ${type}`, s.stop_id);
+                return;
+            }
+            const parent = byId.get(s.parent_station);
+            if (type === 1) {
+                this.report('error', 'invalid_parent_station', 'stops.txt', 'A station cannot have a parent_station', s.stop_id);
+            } else if (!parent) {
+                this.report('error', 'invalid_parent_station', 'stops.txt', `parent_station "${s.parent_station}" is not in the feed`, s.stop_id);
+            } else if (type === 4 ? typeOf(parent) !== 0 : typeOf(parent) !== 1) {
+                this.report('error', 'invalid_parent_station', 'stops.txt', `parent_station "${s.parent_station}" must be a ${type === 4 ? 'platform' : 'station'}`, s.stop_id);
+            }
+        });
+
+        const linked = new Set<string>();
+        pathways.forEach(p => {
+            [p.from_stop_id, p.to_stop_id].forEach(id => {
+                linked.add(id);
+                const stop = byId.get(id);
+                if (stop && typeOf(stop) === 1) {
+                    this.report('error', 'invalid_pathway', 'pathways.txt', `Pathway connects station "${stop.stop_name || id}"; link its platforms or entrances instead`, p.pathway_id);
+                }
+            });
+            if (Number(p.pathway_mode) === 7 && Number(p.is_bidirectional)) {
+                this.report('error', 'invalid_pathway', 'pathways.txt', 'Exit gates (pathway_mode 7) must be one-way', p.pathway_id);
+            }
+        });
+
+        // Once a station has pathways, routers only reach its platforms and entrances through them
+        const stationsWithPathways = new Set(stops.filter(s => linked.has(s.stop_id) && typeOf(s) !== 4).map(s => s.parent_station));
+        stops.forEach(s => {
+            if (stationsWithPathways.has(s.parent_station) && [0, 2].includes(typeOf(s)) && !linked.has(s.stop_id)) {
+                this.report('warning', 'pathway_unreachable', 'pathways.txt', `"${s.stop_name || s.stop_id}" is in a station with pathways but no pathway reaches it`, s.stop_id);
+            }
+        });
+    }
+
+    private checkCalendars(calendars: any[], calendarDates: any[], servicesWithTrips: Set<string>) {
+        const addedDates = new Set(calendarDates.filter(cd => cd.exception_type === 1).map(cd => cd.service_id));
+
+        calendars.forEach(c => {
+            if (!DATE_RE.test(c.start_date) || !DATE_RE.test(c.end_date)) {
+                this.report('error', 'invalid_date', 'calendar.txt', 'start_date and end_date must be YYYYMMDD', c.service_id);
+            } else if (c.end_date < c.start_date) {
+                this.report('error', 'invalid_date', 'calendar.txt', `end_date ${c.end_date} is before start_date ${c.start_date}`, c.service_id);
+            }
+
+            const days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+            if (days.every(d => !c[d]) && !addedDates.has(c.service_id)) {
+                this.report('warning', 'service_never_active', 'calendar.txt', 'Service has no active weekdays and no added dates', c.service_id);
+            }
+
+            if (!servicesWithTrips.has(c.service_id)) {
+                this.report('warning', 'orphan_service_id', 'calendar.txt', 'Service is not used by any exported trip', c.service_id);
+            }
+        });
+    }
+
+    private checkFeedInfo(calendars: any[], calendarDates: any[]) {
+        if (!isFeedInfoComplete(getFeedInfo())) {
+            this.report('warning', 'missing_feed_info', 'feed_info.txt', 'Publisher name, URL and language are not set in the feed settings; feed_info.txt will not be written');
+        }
+
+        const { end } = validityWindow(calendars, calendarDates);
+        const d = new Date();
+        const today = `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+        if (end && DATE_RE.test(end) && end < today) {
+            this.report('warning', 'feed_expired', 'feed_info.txt', `The last service day of the feed (${end}) is in the past`);
+        }
+    }
+
+    private checkOrphanTripServices(routes: any[]) {
+        // Trips whose service_id has no calendar entry are silently dropped by the export.
+        // Grouped over the whole table and filtered here, so the route selection needs no IN list.
+        if (routes.length === 0) return;
+        const selectedRoutes = new Set(routes.map(r => r.route_id));
+
+        const orphans = db.prepare(`
+            SELECT route_id, service_id, COUNT(*) as trip_count FROM trips
+            WHERE ${notTemplateTrip()}
+            AND service_id NOT IN (SELECT service_id FROM calendar)
+            GROUP BY route_id, service_id
+        `).all() as { route_id: string, service_id: string, trip_count: number }[];
+
+        const byService = new Map<string, number>();
+        orphans.filter(o => selectedRoutes.has(o.route_id)).forEach(o => {
+            byService.set(o.service_id, (byService.get(o.service_id) || 0) + o.trip_count);
+        });
+
+        byService.forEach((tripCount, serviceId) => {
+            this.report('error', 'orphan_service_id', 'trips.txt', `${tripCount} trip(s) reference service_id "${serviceId}" which has no calendar; they will be omitted`, serviceId);
+        });
+    }
+
+    private checkTranslations(translations: any[]) {
+        if (translations.length === 0) return;
+
+        const settings = getFeedInfo();
+        if (!isFeedInfoComplete(settings)) {
+            this.report('error', 'missing_feed_info', 'translations.txt', 'translations.txt requires feed_info.txt; set the publisher name, URL and language in the feed settings');
+        }
+        if (!settings.default_lang && !defaultLanguage()) {
+            this.report('warning', 'missing_default_language', 'agency.txt', 'Set agency_lang so consumers know the language of the untranslated names');
+        }
+    }
+
+    private checkTransfers(transfers: any[]) {
+        transfers.forEach(t => {
+            const type = Number(t.transfer_type);
+            const label = `${t.from_stop_id || t.from_trip_id} -> ${t.to_stop_id || t.to_trip_id}`;
+
+            if (type >= 1 && type <= 3 && (this.isBlank(t.from_stop_id) || this.isBlank(t.to_stop_id))) {
+                this.report('error', 'missing_required_field', 'transfers.txt', `from_stop_id and to_stop_id are required for transfer_type ${type}`, label);
+            }
+            if ((type === 4 || type === 5) && (this.isBlank(t.from_trip_id) || this.isBlank(t.to_trip_id))) {
+                this.report('error', 'missing_required_field', 'transfers.txt', `from_trip_id and to_trip_id are required for transfer_type ${type}`, label);
+            }
+            if (type === 2 && this.isBlank(t.min_transfer_time)) {
+                this.report('error', 'missing_required_field', 'transfers.txt', 'min_transfer_time is required for transfer_type 2', label);
+            }
+        });
+    }
+
+    private checkFares(fares: any[], rules: any[], agencyCount: number, stops: any[]) {
+        if (agencyCount > 1) {
+            fares.filter(f => this.isBlank(f.agency_id)).forEach(f => {
+                this.report('error', 'missing_required_field', 'fare_attributes.txt', 'agency_id is required when the feed has more than one agency', f.fare_id);
+            });
+        }
+
+        // Zones are only defined by stops.zone_id, so a rule on a zone without exported stops never matches
+        const zones = new Set(stops.map(s => s.zone_id).filter(z => !this.isBlank(z)));
+        rules.forEach(r => {
+            (['origin_id', 'destination_id', 'contains_id'] as const).forEach(field => {
+                if (!this.isBlank(r[field]) && !zones.has(r[field])) {
+                    this.report('warning', 'unknown_zone', 'fare_rules.txt', `${field} "${r[field]}" is not the zone_id of any exported stop`, r.fare_id);
+                }
+            });
+        });
+    }
+
+    private checkStopTimes(trips: any[], byTrip: Map<string, any[]>) {
+        trips.forEach(trip => {
+            const tripStops = byTrip.get(trip.trip_id) || [];
+
+            if (tripStops.length < 2) {
+                this.report('error', 'too_few_stop_times', 'stop_times.txt', `Trip has ${tripStops.length} stop time(s); at least 2 are required`, trip.trip_id);
+                return;
+            }
+
+            const first = tripStops[0];
+            const last = tripStops[tripStops.length - 1];
+            if (this.isBlank(first.departure_time) || this.isBlank(last.arrival_time)) {
+                this.report('error', 'missing_required_field', 'stop_times.txt', 'First and last stop of a trip must have times', trip.trip_id);
+            }
+
+            let lastSecs = -1;
+            for (const st of tripStops) {
+                if (Number(st.timepoint) === 1 && (this.isBlank(st.arrival_time) || this.isBlank(st.departure_time))) {
+                    this.report('error', 'missing_required_field', 'stop_times.txt', `Timepoint at sequence ${st.stop_sequence} has no time`, trip.trip_id);
+                }
+                for (const field of ['arrival_time', 'departure_time']) {
+                    const value = st[field];
+                    if (this.isBlank(value)) continue;
+                    if (!TIME_RE.test(value)) {
+                        this.report('error', 'invalid_time', 'stop_times.txt', `${field} "${value}" at sequence ${st.stop_sequence} is not HH:MM:SS`, trip.trip_id);
+                        continue;
+                    }
+
+                    const secs = this.timeToSeconds(value);
+                    if (lastSecs !== -1 && secs < lastSecs) {
+                        // The exporter adds 24h when times go backwards; only a large drop is a genuine midnight crossing
+                        if (lastSecs - secs > 12 * 3600) {
+                            this.report('warning', 'time_wraps_midnight', 'stop_times.txt', `Times restart after midnight at sequence ${st.stop_sequence}; they will be exported past 24:00:00`, trip.trip_id);
+                        } else {
+                            this.report('error', 'non_increasing_time', 'stop_times.txt', `${field} ${value} at sequence ${st.stop_sequence} is earlier than the previous stop`, trip.trip_id);
+                        }
+                    }
+                    lastSecs = secs;
+                }
+            }
+        });
+    }
+
+    private collectBlockLegs(trips: any[], byTrip: Map<string, any[]>, routesWithRules: Set<string>) {
+        trips.forEach(trip => {
+            const blocked = !this.isBlank(trip.block_id);
+            if (!blocked && !routesWithRules.has(trip.route_id)) return;
+            const tripStops = byTrip.get(trip.trip_id) || [];
+            const first = tripStops[0];
+            const last = tripStops[tripStops.length - 1];
+            if (tripStops.length < 2 || !TIME_RE.test(first.departure_time || '') || !TIME_RE.test(last.arrival_time || '')) return;
+
+            const departure = this.timeToSeconds(first.departure_time);
+            let arrival = this.timeToSeconds(last.arrival_time);
+            if (arrival < departure) arrival += 24 * 3600; // Wrapped past midnight, as the exporter reads it
+
+            // Trips without a block (generated or created by hand) are chained per route later on
+            const legs = blocked ? this.blockLegs : this.unblockedLegs;
+            const key = `${trip.service_id}|${blocked ? trip.block_id : trip.route_id}`;
+            if (!legs.has(key)) legs.set(key, []);
+            legs.get(key)!.push({
+                trip_id: trip.trip_id,
+                route_id: trip.route_id,
+                service_id: trip.service_id,
+                first_stop_id: first.stop_id,
+                departure,
+                last_stop_id: last.stop_id,
+                arrival
+            });
+        });
+    }
+
+    /**
+     * Vehicles of a route's unblocked trips, chained like the simulation does: each vehicle takes
+     * the earliest trip it can reach after its last arrival, layover and repositioning included.
+     */
+    private chainLegs(legs: BlockLeg[], repositioning: (prev: BlockLeg, next: BlockLeg) => number, layover: (leg: BlockLeg) => number): BlockLeg[][] {
+        const unassigned = [...legs].sort((a, b) => a.departure - b.departure);
+        const vehicles: BlockLeg[][] = [];
+
+        while (unassigned.length > 0) {
+            const chain = [unassigned.shift()!];
+            for (;;) {
+                const last = chain[chain.length - 1];
+                const earliestStart = last.arrival + layover(last);
+                const nextIndex = unassigned.findIndex(leg => {
+                    const deadhead = last.last_stop_id === leg.first_stop_id ? 0 : repositioning(last, leg) || UNLINKED_REPOSITIONING_SECS;
+                    return leg.departure >= earliestStart + deadhead;
+                });
+                if (nextIndex === -1) break;
+                chain.push(unassigned.splice(nextIndex, 1)[0]);
+            }
+            vehicles.push(chain);
+        }
+        return vehicles;
+    }
+
+    private checkLayovers(routesWithRules: Set<string>) {
+        // Consecutive trips of a vehicle: the gap between them, less any repositioning,
+        // is the layover the driver actually gets at the terminal
+        const models = new Map<string, ReturnType<typeof layoverModel>>();
+        const travelTimes = new Map<string, ReturnType<typeof travelTimeModel>>();
+        const repositioning = (prev: BlockLeg, next: BlockLeg) => {
+            if (prev.last_stop_id === next.first_stop_id) return 0;
+            if (!travelTimes.has(prev.service_id)) travelTimes.set(prev.service_id, travelTimeModel(prev.service_id));
+            return travelTimes.get(prev.service_id)!(prev.last_stop_id, next.first_stop_id, prev.arrival);
+        };
+        const requiredLayover = (leg: BlockLeg) => {
+            if (!models.has(leg.route_id)) models.set(leg.route_id, layoverModel(leg.route_id));
+            return layoverSecs(models.get(leg.route_id)!(leg.last_stop_id, leg.arrival), leg.arrival - leg.departure);
+        };
+
+        const checkVehicle = (legs: BlockLeg[]) => {
+            for (let i = 1; i < legs.length; i++) {
+                const prev = legs[i - 1];
+                const next = legs[i];
+                if (!routesWithRules.has(prev.route_id) || next.departure < prev.arrival) continue;
+
+                const required = requiredLayover(prev);
+                const layover = next.departure - prev.arrival - repositioning(prev, next);
+
+                if (layover < required) {
+                    this.report('warning', 'layover_too_short', 'trips.txt', `Only ${this.formatSecs(layover)} of layover at stop ${prev.last_stop_id} after trip ${prev.trip_id}; route ${prev.route_id} requires ${this.formatSecs(required)}`, next.trip_id);
+                }
+            }
+        };
+
+        this.blockLegs.forEach(legs => checkVehicle(legs.sort((a, b) => a.departure - b.departure)));
+        this.unblockedLegs.forEach(legs => this.chainLegs(legs, repositioning, requiredLayover).forEach(checkVehicle));
+        this.blockLegs.clear();
+        this.unblockedLegs.clear();
+    }
+
+    // --- Entry point ---
+
+    validate(feed: FeedSelection): ValidationReport {
+        // Trips are checked page by page so large feeds never sit in memory at once
+        const routesWithTrips = new Set<string>();
+        const servicesWithTrips = new Set<string>();
+        const routesWithLayoverRules = new Set(listLayoverRules().map(r => r.route_id));
+        for (const trips of feed.tripPages()) {
+            trips.forEach(t => {
+                routesWithTrips.add(t.route_id);
+                servicesWithTrips.add(t.service_id);
+            });
+            const stopTimes = feed.stopTimesFor(trips);
+            this.checkStopTimes(trips, stopTimes);
+            if (routesWithLayoverRules.size > 0) this.collectBlockLegs(trips, stopTimes, routesWithLayoverRules);
+        }
+        this.checkLayovers(routesWithLayoverRules);
+
+        this.checkAgencies(feed.agencies);
+        this.checkRoutes(feed.routes, routesWithTrips);
+        const stops = feed.stops();
+        this.checkStops(stops);
+        this.checkUnusedStops();
+        this.checkStations(stops, feed.levels(), feed.pathways());
+        this.checkCalendars(feed.calendars, feed.calendarDates, servicesWithTrips);
+        this.checkOrphanTripServices(feed.routes);
+        this.checkFeedInfo(feed.calendars, feed.calendarDates);
+        this.checkTranslations(feed.translations());
+        this.checkTransfers(feed.transfers());
+        this.checkFares(feed.fareAttributes(), feed.fareRules(), feed.agencies.length, stops);
+
+        if (feed.agencies.length === 0) {
+            this.report('error', 'empty_feed', 'agency.txt', 'No agencies selected');
+        } else if (feed.tripCount === 0) {
+            this.report('error', 'empty_feed', 'trips.txt', 'The selection contains no trips');
+        }
+
+        return {
+            valid: this.errors === 0,
+            summary: {
+                errors: this.errors,
+                warnings: this.warnings,
+                by_rule: this.counts
+            },
+            issues: this.issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1)),
+            truncated: Object.values(this.counts).some(c => c > MAX_ISSUES_PER_RULE)
+        };
+    }
+}
@@ -0,0 +1,271 @@
+import { EventEmitter } from 'events';
+import db from '../db';
+import { v4 as uuidv4 } from 'uuid';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'error' | 'cancelled';
+
+export interface Job {
+    job_id: string;
+    type: string;
+    status: JobStatus;
+    progress: number;
+    message: string | null;
+    params: any;
+    result: any;
+    error: string | null;
+    created_at: string;
+    started_at: string | null;
+    finished_at: string | null;
+}
+
+export interface JobContext {
+    jobId: string;
+    params: any;
+    signal: AbortSignal; // aborted when the job is cancelled
+    setProgress(progress: number, message?: string): void;
+    setMessage(message: string): void;
+    throwIfCancelled(): void;
+}
+
+// Resolves to the job's result payload
+export type JobHandler = (ctx: JobContext) => Promise<unknown>;
+
+// Emitted as 'log' whenever a job's message changes
+export interface JobLogLine {
+    job_id: string;
+    message: string;
+    time: string;
+}
+
+interface JobType {
+    handler: JobHandler;
+    cleanup?: (job: Job) => void; // release files etc. when a finished job is pruned
+}
+
+export class JobCancelledError extends Error {
+    constructor() {
+        super('Job cancelled');
+        this.name = 'JobCancelledError';
+    }
+}
+
+// Finished jobs are kept this long so the UI can still show their outcome
+const RETENTION_DAYS = 7;
+const FINISHED: JobStatus[] = ['completed', 'error', 'cancelled'];
+
+const toJob = (row: any): Job => ({
+    ...row,
+    params: row.params ? JSON.parse(row.params) : null,
+    result: row.result ? JSON.parse(row.result) : null
+});
+
+/**
+ * Background jobs persisted in the `jobs` table.
+ * Jobs of the same type run one at a time, in creation order; different types run side by side.
+ * Handlers are registered per type at module load, so queued jobs survive a restart and are
+ * picked up again by start(). Jobs that were running when the process died are marked as failed.
+ *
+ * Every state change is emitted as 'update' (the full job) and every new message as 'log',
+ * which is what the /jobs/events stream forwards to the browser.
+ */
+class JobQueue extends EventEmitter {
+    private types = new Map<string, JobType>();
+    private running = new Map<string, AbortController>(); // job_id -> controller
+    private busyTypes = new Set<string>();
+    private started = false;
+
+    constructor() {
+        super();
+        this.setMaxListeners(0); // one listener per open event stream
+    }
+
+    register(type: string, handler: JobHandler, cleanup?: (job: Job) => void) {
+        this.types.set(type, { handler, cleanup });
+    }
+
+    start() {
+        const now = new Date().toISOString();
+        const interrupted = db.prepare(`
+            UPDATE jobs SET status = 'error', error = 'Interrupted by server restart', finished_at = ?
+            WHERE status = 'running'
+        `).run(now);
+        if (interrupted.changes > 0) console.warn(`Jobs: marked ${interrupted.changes} interrupted job(s) as failed`);
+
+        this.prune();
+        this.started = true;
+        this.pump();
+    }
+
+    enqueue(type: string, params: any = null, message: string = 'Queued'): Job {
+        if (!this.types.has(type)) throw new Error(`Unknown job type: ${type}`);
+        this.prune();
+
+        const jobId = uuidv4();
+        db.prepare(`
+            INSERT INTO jobs (job_id, type, status, progress, message, params, created_at)
+            VALUES (?, ?, 'queued', 0, ?, ?, ?)
+        `).run(jobId, type, message, params === null ? null : JSON.stringify(params), new Date().toISOString());
+
+        setImmediate(() => this.pump());
+        return this.publish(jobId, message) as Job;
+    }
+
+    get(jobId: string): Job | null {
+        const row = db.prepare('SELECT * FROM jobs WHERE job_id = ?').get(jobId);
+        return row ? toJob(row) : null;
+    }
+
+    list(filters: { type?: string, status?: string, limit?: number } = {}): Job[] {
+        const where: string[] = [];
+        const args: any[] = [];
+        if (filters.type) {
+            where.push('type = ?');
+            args.push(filters.type);
+        }
+        if (filters.status) {
+            const statuses = filters.status.split(',');
+            where.push(`status IN (${statuses.map(() => '?').join(',')})`);
+            args.push(...statuses);
+        }
+
+        const rows = db.prepare(`
+            SELECT * FROM jobs ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+            ORDER BY created_at DESC LIMIT ?
+        `).all(...args, filters.limit || 50);
+        return rows.map(toJob);
+    }
+
+    isFinished(job: Job) {
+        return FINISHED.includes(job.status);
+    }
+
+    /** Queued jobs are cancelled at once; running ones are asked to stop and end as 'cancelled' */
+    cancel(jobId: string): Job | null {
+        const job = this.get(jobId);
+        if (!job || this.isFinished(job)) return job;
+
+        if (job.status === 'queued') {
+            this.finish(jobId, 'cancelled', { message: 'Cancelled before start' });
+        } else {
+            this.running.get(jobId)?.abort();
+            db.prepare(`UPDATE jobs SET message = 'Cancelling...' WHERE job_id = ?`).run(jobId);
+            this.publish(jobId, 'Cancelling...');
+        }
+        return this.get(jobId);
+    }
+
+    // --- Private ---
+
+    private pump() {
+        if (!this.started) return;
+
+        const queued = db.prepare(`SELECT * FROM jobs WHERE status = 'queued' ORDER BY created_at`).all().map(toJob);
+        queued.forEach(job => {
+            if (this.busyTypes.has(job.type) || !this.types.has(job.type)) return;
+            this.run(job);
+        });
+    }
+
+    private async run(job: Job) {
+        const { handler } = this.types.get(job.type) as JobType;
+        const controller = new AbortController();
+        this.busyTypes.add(job.type);
+        this.running.set(job.job_id, controller);
+
+        db.prepare(`UPDATE jobs SET status = 'running', started_at = ?, message = 'Starting...' WHERE job_id = ?`)
+            .run(new Date().toISOString(), job.job_id);
+        this.publish(job.job_id, 'Starting...');
+
+        const updateJob = db.prepare('UPDATE jobs SET progress = ?, message = ? WHERE job_id = ?');
+        let progress = 0;
+        let message = 'Starting...';
+
+        const ctx: JobContext = {
+            jobId: job.job_id,
+            params: job.params,
+            signal: controller.signal,
+            throwIfCancelled: () => {
+                if (controller.signal.aborted) throw new JobCancelledError();
+            },
+            setProgress: (value: number, msg?: string) => {
+                ctx.throwIfCancelled();
+                const next = Math.max(0, Math.min(100, Math.round(value)));
+                // Progress callbacks can be very chatty (downloads); only write real changes
+                if (next === progress && (msg === undefined || msg === message)) return;
+                const changedMessage = msg !== undefined && msg !== message;
+                progress = next;
+                if (msg !== undefined) message = msg;
+                updateJob.run(progress, message, job.job_id);
+                this.publish(job.job_id, changedMessage ? message : undefined);
+            },
+            setMessage: (msg: string) => ctx.setProgress(progress, msg)
+        };
+
+        try {
+            const result = await handler(ctx);
+            if (controller.signal.aborted) {
+                this.finish(job.job_id, 'cancelled', { message: 'Cancelled' });
+            } else {
+                this.finish(job.job_id, 'completed', { message: message === 'Starting...' ? 'Completed' : message, result });
+            }
+        } catch (err) {
+            if (controller.signal.aborted || err instanceof JobCancelledError) {
+                this.finish(job.job_id, 'cancelled', { message: 'Cancelled' });
+            } else {
+                console.error(`Job ${job.type} ${job.job_id} failed`, err);
+                this.finish(job.job_id, 'error', { message, error: err instanceof Error ? err.message : String(err) });
+            }
+        } finally {
+            this.running.delete(job.job_id);
+            this.busyTypes.delete(job.type);
+            this.pump();
+        }
+    }
+
+    private finish(jobId: string, status: JobStatus, fields: { message?: string, result?: unknown, error?: string }) {
+        db.prepare(`
+            UPDATE jobs SET status = ?, message = COALESCE(?, message), result = ?, error = ?, finished_at = ?,
+                progress = CASE WHEN ? = 'completed' THEN 100 ELSE progress END
+            WHERE job_id = ?
+        `).run(
+            status,
+            fields.message ?? null,
+            fields.result === undefined ? null : JSON.stringify(fields.result),
+            fields.error ?? null,
+            new Date().toISOString(),
+            status,
+            jobId
+        );
+        this.publish(jobId, fields.error ?? fields.message);
+    }
+
+    // Emits the current state of a job, plus a log line when its message changed
+    private publish(jobId: string, logMessage?: string): Job | null {
+        const job = this.get(jobId);
+        if (!job) return null;
+        if (logMessage) {
+            const line: JobLogLine = { job_id: jobId, message: logMessage, time: new Date().toISOString() };
+            this.emit('log', line);
+        }
+        this.emit('update', job);
+        return job;
+    }
+
+    private prune() {
+        const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 3600 * 1000).toISOString();
+        const expired = db.prepare(`
+            SELECT * FROM jobs WHERE status IN ('completed', 'error', 'cancelled') AND finished_at < ?
+        `).all(cutoff).map(toJob);
+
+        expired.forEach(job => {
+            try {
+                this.types.get(job.type)?.cleanup?.(job);
+            } catch (e) {
+                console.error(`Failed to clean up job ${job.job_id}`, e);
+            }
+        });
+        db.prepare(`DELETE FROM jobs WHERE status IN ('completed', 'error', 'cancelled') AND finished_at < ?`).run(cutoff);
+    }
+}
+
+export default new JobQueue();
@@ -0,0 +1,64 @@
+import db from '../db';
+import { LayoverRule, timeToSeconds } from './timetable';
+
+const TIME_RE = /^\d{1,2}:\d{2}:\d{2}$/;
+const DAY_SECS = 24 * 3600;
+
+/** Layover a route guarantees at its terminals, e.g. by union contract */
+export interface TerminalLayoverRule {
+    id: string;
+    route_id: string;
+    stop_id: string | null; // NULL for every terminal of the route
+    start_time: string | null; // Band of the arrival at the terminal; both NULL for the whole day
+    end_time: string | null;
+    min_secs: number;
+    percent: number;
+}
+
+export function layoverRuleError(rule: Partial<TerminalLayoverRule>): string | null {
+    if (!rule.route_id) return 'route_id is required';
+    if (!db.prepare('SELECT 1 FROM routes WHERE route_id = ?').get(rule.route_id)) return `Route ${rule.route_id} not found`;
+    if (rule.stop_id && !db.prepare('SELECT 1 FROM stops WHERE stop_id = ?').get(rule.stop_id)) return `Stop ${rule.stop_id} not found`;
+    if (!Number.isInteger(rule.min_secs) || rule.min_secs! < 0) return 'min_secs must be a whole number of seconds, zero or more';
+    if (!Number.isFinite(rule.percent) || rule.percent! < 0) return 'percent must be zero or more';
+    if (!rule.start_time !== !rule.end_time) return 'A time band needs both start_time and end_time';
+    if (rule.start_time && rule.end_time) {
+        if (!TIME_RE.test(rule.start_time) || !TIME_RE.test(rule.end_time)) return 'start_time and end_time must be HH:MM:SS';
+        if (timeToSeconds(rule.start_time) >= timeToSeconds(rule.end_time)) return 'The time band must end after it starts';
+    }
+    return null;
+}
+
+export function listLayoverRules(routeId?: string): TerminalLayoverRule[] {
+    return db.prepare(`
+        SELECT * FROM layover_rules ${routeId ? 'WHERE route_id = ?' : ''}
+        ORDER BY route_id, stop_id IS NOT NULL, stop_id, start_time
+    `).all(...(routeId ? [routeId] : [])) as TerminalLayoverRule[];
+}
+
+/**
+ * Layover rule of a route at a terminal for an arrival time. The most specific rule wins:
+ * terminal and band, then terminal, then band, then the route's default; without rules
+ * there is no layover to keep. Rules are read once per call.
+ */
+export function layoverModel(routeId: string) {
+    const rules = listLayoverRules(routeId).map(rule => ({
+        stop_id: rule.stop_id,
+        start: rule.start_time ? timeToSeconds(rule.start_time) : null,
+        end: rule.end_time ? timeToSeconds(rule.end_time) : null,
+        layover: { min_secs: rule.min_secs, percent: rule.percent }
+    }));
+
+    return (stopId: string, arrivalSecs: number): LayoverRule => {
+        const timeOfDay = arrivalSecs % DAY_SECS;
+        let best: { rank: number, layover: LayoverRule } | null = null;
+        for (const rule of rules) {
+            if (rule.stop_id && rule.stop_id !== stopId) continue;
+            const banded = rule.start !== null && rule.end !== null;
+            if (banded && !(timeOfDay >= rule.start! && timeOfDay < rule.end!)) continue;
+            const rank = (rule.stop_id ? 2 : 0) + (banded ? 1 : 0);
+            if (!best || rank > best.rank) best = { rank, layover: rule.layover };
+        }
+        return best ? best.layover : {};
+    };
+}
@@ -0,0 +1,102 @@
+import db from '../db';
+
+export const MAIN_PATTERN_NAME = 'Main';
+
+export interface RoutePattern {
+    pattern_id: string;
+    route_id: string;
+    direction_id: number;
+    pattern_name: string;
+    is_main: boolean;
+    stop_count: number;
+    trip_count: number;
+}
+
+/** Template trip holding the stop sequence of the main pattern of a route direction */
+export const mainPatternId = (routeId: string, directionId: number) => `t_${routeId}_${directionId}`;
+
+/**
+ * SQL condition that leaves out template trips (t_ROUTE_DIR, t_ROUTE_DIR_pN). Compared with
+ * substr, not LIKE 't_%': `_` is a LIKE wildcard and LIKE ignores case, which also hid "T1-..." trips.
+ */
+export const notTemplateTrip = (column = 'trip_id') => `substr(${column}, 1, 2) <> 't_'`;
+
+// sh_ROUTE_DIR for the main pattern, sh_ROUTE_DIR_pN for the others
+export const patternShapeId = (patternId: string) => patternId.replace(/^t_/, 'sh_');
+
+export const namedPattern = (patternId: string) =>
+    db.prepare('SELECT * FROM route_patterns WHERE pattern_id = ?').get(patternId) as { pattern_id: string, route_id: string, direction_id: number, pattern_name: string } | undefined;
+
+/**
+ * Trip holding the stop sequence of a pattern. Imported feeds have no template trip for the
+ * main pattern, so any trip of the direction that is not tied to another pattern stands in for it.
+ */
+export function patternTripId(routeId: string, directionId: number, patternId?: string): string | null {
+    const main = mainPatternId(routeId, directionId);
+    if (patternId && patternId !== main) return patternId;
+    if (db.prepare('SELECT 1 FROM stop_times WHERE trip_id = ? LIMIT 1').get(main)) return main;
+
+    const anyTrip = db.prepare(`
+        SELECT trip_id FROM trips
+        WHERE route_id = ? AND direction_id = ? AND (pattern_id IS NULL OR pattern_id = ?)
+        LIMIT 1
+    `).get(routeId, directionId, main) as { trip_id: string } | undefined;
+    return anyTrip?.trip_id || null;
+}
+
+export function patternStopIds(routeId: string, directionId: number, patternId?: string): string[] {
+    const tripId = patternTripId(routeId, directionId, patternId);
+    if (!tripId) return [];
+    return (db.prepare('SELECT stop_id FROM stop_times WHERE trip_id = ? ORDER BY stop_sequence ASC').all(tripId) as { stop_id: string }[])
+        .map(st => st.stop_id);
+}
+
+/** Patterns of a route, the main one of each direction first */
+export function listPatterns(routeId: string, directionId?: number): RoutePattern[] {
+    const named = db.prepare('SELECT * FROM route_patterns WHERE route_id = ? ORDER BY direction_id, rowid').all(routeId) as { pattern_id: string, direction_id: number, pattern_name: string }[];
+    const tripCount = db.prepare(`
+        SELECT COUNT(*) AS n FROM trips
+        WHERE route_id = ? AND direction_id = ? AND ${notTemplateTrip()}
+          AND (pattern_id = ? OR (? AND pattern_id IS NULL))
+    `);
+
+    const patterns: RoutePattern[] = [];
+    for (const dir of directionId === undefined ? [0, 1] : [directionId]) {
+        const main = mainPatternId(routeId, dir);
+        const entries = [
+            { pattern_id: main, pattern_name: named.find(p => p.pattern_id === main)?.pattern_name || MAIN_PATTERN_NAME },
+            ...named.filter(p => p.direction_id === dir && p.pattern_id !== main)
+        ];
+        entries.forEach(p => {
+            const isMain = p.pattern_id === main;
+            patterns.push({
+                pattern_id: p.pattern_id,
+                route_id: routeId,
+                direction_id: dir,
+                pattern_name: p.pattern_name,
+                is_main: isMain,
+                stop_count: patternStopIds(routeId, dir, p.pattern_id).length,
+                trip_count: (tripCount.get(routeId, dir, p.pattern_id, isMain ? 1 : 0) as { n: number }).n
+            });
+        });
+    }
+    return patterns;
+}
+
+/** Next free id for a new pattern of a route direction: t_ROUTE_DIR_p1, _p2... */
+export function newPatternId(routeId: string, directionId: number): string {
+    const exists = db.prepare('SELECT 1 FROM route_patterns WHERE pattern_id = ? UNION SELECT 1 FROM trips WHERE trip_id = ?');
+    const id = (n: number) => `${mainPatternId(routeId, directionId)}_p${n}`;
+    let n = 1;
+    while (exists.get(id(n), id(n))) n++;
+    return id(n);
+}
+
+/** Validation of the pattern a trip is built from; empty means the main pattern */
+export function patternError(routeId: string, directionId: number, patternId: string | null | undefined): string | null {
+    if (!patternId || patternId === mainPatternId(routeId, directionId)) return null;
+    const pattern = namedPattern(patternId);
+    if (!pattern || pattern.route_id !== routeId) return `Pattern ${patternId} does not belong to route ${routeId}`;
+    if (pattern.direction_id !== directionId) return `Pattern ${patternId} is for direction ${pattern.direction_id}`;
+    return null;
+}
@@ -0,0 +1,196 @@
+import db from '../db';
+
+// Where the geometry of shapes.txt comes from
+//  - stops:    straight lines between consecutive stops
+//  - segments: the routed LineString stored on each segments row
+//  - stored:   the trip's own points in the shapes table (imported, or written by POST /routes/:id/path)
+export type ShapeSource = 'stops' | 'segments' | 'stored';
+
+export const SHAPE_SOURCES: ShapeSource[] = ['stops', 'segments', 'stored'];
+
+interface LatLon {
+    lat: number;
+    lon: number;
+}
+
+export interface BuiltShape {
+    points: LatLon[];
+    pointDistances: number[]; // km from the first point, strictly increasing
+    stopDistances: number[];  // km along the shape for each stop of the trip, non-decreasing
+}
+
+const getDistMeters = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+    const R = 6371000; // meters
+    const dLat = (lat2 - lat1) * Math.PI / 180;
+    const dLon = (lon2 - lon1) * Math.PI / 180;
+    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+        Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+        Math.sin(dLon / 2) * Math.sin(dLon / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return R * c;
+};
+
+const parseLineString = (geometry: unknown): number[][] | null => {
+    if (!geometry) return null;
+    try {
+        const geo = typeof geometry === 'string' ? JSON.parse(geometry) : geometry;
+        if (geo && geo.type === 'LineString' && Array.isArray(geo.coordinates) && geo.coordinates.length >= 2) {
+            return geo.coordinates as number[][];
+        }
+    } catch (e) {
+        // Invalid geometry -> caller falls back to a straight line
+    }
+    return null;
+};
+
+export class ShapeBuilder {
+    private segmentLookup = new Map<string, any>(); // start_id|end_id -> segment
+    private storedShapes = new Map<string, LatLon[] | null>();
+    private getStoredPoints = db.prepare('SELECT shape_pt_lat, shape_pt_lon FROM shapes WHERE shape_id = ? ORDER BY shape_pt_sequence');
+
+    constructor(private source: ShapeSource, private stopsMap: Map<string, any>) {
+        if (source !== 'stops') {
+            const segments = db.prepare('SELECT start_node_id, end_node_id, geometry FROM segments').all() as any[];
+            segments.forEach(seg => this.segmentLookup.set(`${seg.start_node_id}|${seg.end_node_id}`, seg));
+        }
+    }
+
+    /**
+     * Builds the polyline for a stop sequence. `storedShapeIds` are tried in order
+     * when the source is 'stored'; if none has points, segment geometry is used.
+     */
+    build(stopIds: string[], storedShapeIds: string[] = []): BuiltShape | null {
+        const stops = stopIds.map(id => this.stopsMap.get(id));
+        if (stops.length < 2 || stops.some(s => !s)) return null;
+
+        if (this.source === 'stored') {
+            for (const shapeId of storedShapeIds) {
+                const points = this.loadStoredShape(shapeId);
+                if (points) return this.fromStoredPoints(points, stops);
+            }
+        }
+
+        if (this.source === 'stops') {
+            return this.fromStops(stops);
+        }
+
+        return this.fromSegments(stopIds, stops);
+    }
+
+    private loadStoredShape(shapeId: string): LatLon[] | null {
+        if (!shapeId) return null;
+        if (!this.storedShapes.has(shapeId)) {
+            const rows = this.getStoredPoints.all(shapeId) as { shape_pt_lat: number, shape_pt_lon: number }[];
+            this.storedShapes.set(shapeId, rows.length >= 2 ? rows.map(r => ({ lat: r.shape_pt_lat, lon: r.shape_pt_lon })) : null);
+        }
+        return this.storedShapes.get(shapeId) || null;
+    }
+
+    private fromStops(stops: any[]): BuiltShape {
+        const shape = this.emptyShape();
+        stops.forEach(stop => {
+            this.pushPoint(shape, { lat: stop.stop_lat, lon: stop.stop_lon });
+            shape.stopDistances.push(this.currentDistance(shape));
+        });
+        return shape;
+    }
+
+    private fromSegments(stopIds: string[], stops: any[]): BuiltShape {
+        const shape = this.emptyShape();
+        this.pushPoint(shape, { lat: stops[0].stop_lat, lon: stops[0].stop_lon });
+        shape.stopDistances.push(0);
+
+        for (let i = 0; i < stopIds.length - 1; i++) {
+            const fromId = stopIds[i];
+            const toId = stopIds[i + 1];
+
+            // Look for segment in either direction, reversing the geometry when travelled backwards
+            let coords: number[][] | null = null;
+            const forward = this.segmentLookup.get(`${fromId}|${toId}`);
+            if (forward) {
+                coords = parseLineString(forward.geometry);
+            } else {
+                const reverse = this.segmentLookup.get(`${toId}|${fromId}`);
+                const reversedCoords = reverse ? parseLineString(reverse.geometry) : null;
+                if (reversedCoords) coords = [...reversedCoords].reverse();
+            }
+
+            if (coords) {
+                // coords are [lon, lat]; the first one is (close to) the previous stop
+                coords.forEach(c => this.pushPoint(shape, { lat: c[1], lon: c[0] }));
+            } else {
+                // Fallback: Straight line to next stop
+                this.pushPoint(shape, { lat: stops[i + 1].stop_lat, lon: stops[i + 1].stop_lon });
+            }
+
+            shape.stopDistances.push(this.currentDistance(shape));
+        }
+
+        return shape;
+    }
+
+    private fromStoredPoints(points: LatLon[], stops: any[]): BuiltShape {
+        const shape = this.emptyShape();
+        points.forEach(p => this.pushPoint(shape, p));
+
+        // Project each stop on the polyline, only moving forward so loops don't snap to the wrong pass
+        let edgeIdx = 0;
+        stops.forEach(stop => {
+            let best = { dist: Infinity, edge: edgeIdx, along: shape.pointDistances[edgeIdx] };
+            for (let k = edgeIdx; k < shape.points.length - 1; k++) {
+                const candidate = this.projectOnEdge(shape, k, stop.stop_lat, stop.stop_lon);
+                if (candidate.dist < best.dist) best = { ...candidate, edge: k };
+            }
+            const previous = shape.stopDistances[shape.stopDistances.length - 1] ?? 0;
+            shape.stopDistances.push(Math.max(previous, best.along));
+            edgeIdx = best.edge;
+        });
+
+        return shape;
+    }
+
+    private projectOnEdge(shape: BuiltShape, k: number, lat: number, lon: number) {
+        const a = shape.points[k];
+        const b = shape.points[k + 1];
+
+        // Local equirectangular plane is accurate enough at edge scale
+        const cosLat = Math.cos(a.lat * Math.PI / 180);
+        const bx = (b.lon - a.lon) * cosLat, by = b.lat - a.lat;
+        const px = (lon - a.lon) * cosLat, py = lat - a.lat;
+        const lenSq = bx * bx + by * by;
+        const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, (px * bx + py * by) / lenSq));
+
+        const projLat = a.lat + t * (b.lat - a.lat);
+        const projLon = a.lon + t * (b.lon - a.lon);
+        const edgeLen = shape.pointDistances[k + 1] - shape.pointDistances[k];
+
+        return {
+            dist: getDistMeters(lat, lon, projLat, projLon),
+            along: shape.pointDistances[k] + t * edgeLen
+        };
+    }
+
+    private emptyShape(): BuiltShape {
+        return { points: [], pointDistances: [], stopDistances: [] };
+    }
+
+    private currentDistance(shape: BuiltShape): number {
+        return shape.pointDistances[shape.pointDistances.length - 1] ?? 0;
+    }
+
+    // Appends a point, skipping exact repeats so shape_dist_traveled keeps increasing
+    private pushPoint(shape: BuiltShape, point: LatLon) {
+        const last = shape.points[shape.points.length - 1];
+        if (!last) {
+            shape.points.push(point);
+            shape.pointDistances.push(0);
+            return;
+        }
+
+        const step = getDistMeters(last.lat, last.lon, point.lat, point.lon) / 1000;
+        if (step <= 0) return;
+
+        shape.points.push(point);
+        shape.pointDistances.push(this.currentDistance(shape) + step);
+    }
+}
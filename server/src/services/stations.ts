@@ -0,0 +1,80 @@
+import db from '../db';
+
+// stops.location_type
+export const LOCATION_TYPE = {
+    STOP: 0,        // stop or platform
+    STATION: 1,
+    ENTRANCE: 2,    // entrance / exit
+    GENERIC_NODE: 3,
+    BOARDING_AREA: 4
+} as const;
+
+// pathways.pathway_mode
+export const PATHWAY_MODES: Record<number, string> = {
+    1: 'walkway',
+    2: 'stairs',
+    3: 'moving sidewalk',
+    4: 'escalator',
+    5: 'elevator',
+    6: 'fare gate',
+    7: 'exit gate'
+};
+
+const getStop = (id: string) =>
+    db.prepare('SELECT stop_id, location_type, parent_station FROM stops WHERE stop_id = ?').get(id) as
+        { stop_id: string, location_type: number | null, parent_station: string | null } | undefined;
+
+/**
+ * GTFS station rules for a stop that is about to get `locationType` and `parentId`:
+ * entrances, nodes and boarding areas need a parent, stations cannot have one, a
+ * boarding area hangs from a platform and everything else from a station. Stations,
+ * entrances and nodes cannot be served by trips.
+ */
+export function hierarchyError(stopId: string | null, locationType: number, parentId: string | null): string | null {
+    if (!Number.isInteger(locationType) || locationType < 0 || locationType > 4) {
+        return 'location_type must be an integer between 0 and 4';
+    }
+
+    if (locationType === LOCATION_TYPE.STATION) {
+        if (parentId) return 'A station cannot have a parent_station';
+    } else if (!parentId) {
+        if (locationType !== LOCATION_TYPE.STOP) return 'parent_station is required for entrances, generic nodes and boarding areas';
+    } else {
+        if (parentId === stopId) return 'A stop cannot be its own parent_station';
+        const parent = getStop(parentId);
+        if (!parent) return `parent_station "${parentId}" does not exist`;
+
+        const parentType = Number(parent.location_type || 0);
+        if (locationType === LOCATION_TYPE.BOARDING_AREA) {
+            if (parentType !== LOCATION_TYPE.STOP || !parent.parent_station) return 'The parent of a boarding area must be a platform of a station';
+        } else if (parentType !== LOCATION_TYPE.STATION) {
+            return 'parent_station must be a station (location_type 1)';
+        }
+    }
+
+    if (stopId) {
+        const served = locationType !== LOCATION_TYPE.STOP && locationType !== LOCATION_TYPE.BOARDING_AREA
+            && db.prepare('SELECT 1 FROM stop_times WHERE stop_id = ? LIMIT 1').get(stopId);
+        if (served) return 'Stops served by trips must be a stop/platform or a boarding area';
+
+        const childTypes = (db.prepare('SELECT location_type FROM stops WHERE parent_station = ?').all(stopId) as { location_type: number | null }[])
+            .map(c => Number(c.location_type || 0));
+        if (childTypes.some(t => t === LOCATION_TYPE.BOARDING_AREA) && locationType !== LOCATION_TYPE.STOP) {
+            return 'This platform has boarding areas; detach them before changing its location_type';
+        }
+        if (childTypes.some(t => t !== LOCATION_TYPE.BOARDING_AREA) && locationType !== LOCATION_TYPE.STATION) {
+            return 'This station has platforms or entrances; detach them before changing its location_type';
+        }
+    }
+    return null;
+}
+
+/** A station and every stop under it (platforms, entrances, nodes and the platforms' boarding areas) */
+export function stationMembers(stationId: string): any[] {
+    return db.prepare(`
+        SELECT * FROM stops WHERE stop_id = ?
+        OR parent_station = ?
+        OR parent_station IN (SELECT stop_id FROM stops WHERE parent_station = ?)
+        ORDER BY location_type, stop_name
+    `).all(stationId, stationId, stationId) as any[];
+}
@@ -0,0 +1,86 @@
+import db from '../db';
+import { mainPatternId } from './patterns';
+
+// stop_times.pickup_type / drop_off_type
+export const BOARDING_TYPES: Record<number, string> = {
+    0: 'regular',
+    1: 'none',
+    2: 'phone agency',
+    3: 'coordinate with driver'
+};
+
+export interface StopRule {
+    stop_sequence: number;
+    stop_id: string;
+    pickup_type: number | null;
+    drop_off_type: number | null;
+    timepoint: number | null;
+    stop_headsign: string | null;
+}
+
+// Fields a trip inherits from its pattern
+export const RULE_FIELDS = ['pickup_type', 'drop_off_type', 'timepoint', 'stop_headsign'] as const;
+
+/** Range checks shared by the trip editor and the pattern rules; null/undefined means "not set" */
+export function stopRuleError(rule: Partial<Record<typeof RULE_FIELDS[number], unknown>>): string | null {
+    for (const field of ['pickup_type', 'drop_off_type'] as const) {
+        const value = rule[field];
+        if (value !== null && value !== undefined && !(Number.isInteger(value) && BOARDING_TYPES[value as number])) {
+            return `${field} must be one of 0 (regular), 1 (none), 2 (phone agency) or 3 (coordinate with driver)`;
+        }
+    }
+    const timepoint = rule.timepoint;
+    if (timepoint !== null && timepoint !== undefined && timepoint !== 0 && timepoint !== 1) {
+        return 'timepoint must be 0 (approximate) or 1 (exact)';
+    }
+    if (rule.stop_headsign !== null && rule.stop_headsign !== undefined && typeof rule.stop_headsign !== 'string') {
+        return 'stop_headsign must be text';
+    }
+    return null;
+}
+
+export const patternRules = (patternId: string) =>
+    db.prepare('SELECT * FROM pattern_stop_rules WHERE pattern_id = ? ORDER BY stop_sequence')
+        .all(patternId) as StopRule[];
+
+/**
+ * Pairs each stop of a trip with the pattern rule of the same stop: the n-th visit of a
+ * stop in the trip takes the rule of its n-th visit in the pattern, so loops and trips
+ * that skip part of the pattern still line up.
+ */
+export function matchRules(stopIds: string[], rules: StopRule[]): (StopRule | undefined)[] {
+    const byStop = new Map<string, StopRule[]>();
+    rules.forEach(r => byStop.set(r.stop_id, [...(byStop.get(r.stop_id) || []), r]));
+
+    const seen = new Map<string, number>();
+    return stopIds.map(stopId => {
+        const visit = seen.get(stopId) || 0;
+        seen.set(stopId, visit + 1);
+        return byStop.get(stopId)?.[visit];
+    });
+}
+
+/** Overwrites the rule fields of every trip of the pattern; stops without a rule are reset. Returns the trips updated */
+export function applyPatternRules(routeId: string, directionId: number, patternId: string): number {
+    const rules = patternRules(patternId);
+    // Trips without a pattern_id run on the main pattern of their direction
+    const trips = db.prepare('SELECT trip_id FROM trips WHERE route_id = ? AND IFNULL(direction_id, 0) = ? AND IFNULL(pattern_id, ?) = ?')
+        .all(routeId, directionId, mainPatternId(routeId, directionId), patternId) as { trip_id: string }[];
+    const stopTimes = db.prepare('SELECT stop_id, stop_sequence FROM stop_times WHERE trip_id = ? ORDER BY stop_sequence');
+    const update = db.prepare(`
+        UPDATE stop_times SET pickup_type = ?, drop_off_type = ?, timepoint = ?, stop_headsign = ?
+        WHERE trip_id = ? AND stop_sequence = ?
+    `);
+
+    db.transaction(() => {
+        trips.forEach(({ trip_id }) => {
+            const tripStops = stopTimes.all(trip_id) as { stop_id: string, stop_sequence: number }[];
+            const matched = matchRules(tripStops.map(st => st.stop_id), rules);
+            tripStops.forEach((st, idx) => {
+                const rule = matched[idx];
+                update.run(rule?.pickup_type ?? null, rule?.drop_off_type ?? null, rule?.timepoint ?? null, rule?.stop_headsign ?? null, trip_id, st.stop_sequence);
+            });
+        });
+    })();
+    return trips.length;
+}
@@ -0,0 +1,83 @@
+import db from '../db';
+
+export interface TimeSlot {
+    id: string;
+    segment_id: string;
+    start_time: string;
+    end_time: string;
+    travel_time: number; // Optimal running time
+    min_time: number | null; // Fast and slow bounds, from calibration
+    max_time: number | null;
+    samples: number | null; // Runs the slot was calibrated from
+    service_id: string | null;
+    day_type: string | null;
+}
+
+export const serviceDayType = (serviceId: string) =>
+    (db.prepare('SELECT day_type FROM service_day_types WHERE service_id = ?').get(serviceId) as { day_type: string } | undefined)?.day_type || null;
+
+/** Assigns a service to a day type; empty removes it from its day type */
+export function setServiceDayType(serviceId: string, dayType: string | null | undefined) {
+    if (dayType?.trim()) {
+        db.prepare(`
+            INSERT INTO service_day_types (service_id, day_type) VALUES (?, ?)
+            ON CONFLICT(service_id) DO UPDATE SET day_type = excluded.day_type
+        `).run(serviceId, dayType.trim());
+    } else {
+        db.prepare('DELETE FROM service_day_types WHERE service_id = ?').run(serviceId);
+    }
+}
+
+/** Day types in use by services or slots, with their services */
+export function listDayTypes(): { day_type: string, service_ids: string[] }[] {
+    const byType = new Map<string, string[]>();
+    (db.prepare('SELECT DISTINCT day_type FROM segment_time_slots WHERE day_type IS NOT NULL').all() as { day_type: string }[])
+        .forEach(r => byType.set(r.day_type, []));
+    (db.prepare('SELECT service_id, day_type FROM service_day_types ORDER BY service_id').all() as { service_id: string, day_type: string }[])
+        .forEach(r => byType.set(r.day_type, [...(byType.get(r.day_type) || []), r.service_id]));
+    return [...byType]
+        .map(([day_type, service_ids]) => ({ day_type, service_ids }))
+        .sort((a, b) => a.day_type.localeCompare(b.day_type));
+}
+
+export function slotScopeError(scope: { service_id?: string | null, day_type?: string | null }): string | null {
+    if (scope.service_id && scope.day_type) return 'A slot is scoped to a service_id or a day_type, not both';
+    if (scope.service_id && !db.prepare('SELECT 1 FROM calendar WHERE service_id = ? UNION SELECT 1 FROM calendar_dates WHERE service_id = ?').get(scope.service_id, scope.service_id)) {
+        return `Service ${scope.service_id} not found`;
+    }
+    if (scope.day_type !== undefined && scope.day_type !== null && typeof scope.day_type !== 'string') return 'day_type must be text';
+    return null;
+}
+
+/**
+ * Slot set each segment uses for a service: its slots for that service when it has some,
+ * else those of the service's day type, else the slots for all days. Sets never mix, so
+ * a Sunday set only has to cover the hours it changes. Without a service, only the slots
+ * for all days apply.
+ */
+export function slotsForService(serviceId?: string | null, segmentIds?: string[]): Map<string, TimeSlot[]> {
+    const dayType = serviceId ? serviceDayType(serviceId) : null;
+    const rows = (segmentIds
+        ? segmentIds.length === 0 ? [] : db.prepare(`SELECT * FROM segment_time_slots WHERE segment_id IN (${segmentIds.map(() => '?').join(',')})`).all(...segmentIds)
+        : db.prepare('SELECT * FROM segment_time_slots').all()) as TimeSlot[];
+
+    const sets = new Map<string, { service: TimeSlot[], dayType: TimeSlot[], all: TimeSlot[] }>();
+    rows.forEach(slot => {
+        const set = sets.get(slot.segment_id) || { service: [], dayType: [], all: [] };
+        if (slot.service_id) {
+            if (slot.service_id === serviceId) set.service.push(slot);
+        } else if (slot.day_type) {
+            if (slot.day_type === dayType) set.dayType.push(slot);
+        } else {
+            set.all.push(slot);
+        }
+        sets.set(slot.segment_id, set);
+    });
+
+    const bySegment = new Map<string, TimeSlot[]>();
+    sets.forEach((set, segmentId) => {
+        const slots = set.service.length > 0 ? set.service : set.dayType.length > 0 ? set.dayType : set.all;
+        if (slots.length > 0) bySegment.set(segmentId, slots.sort((a, b) => a.start_time.localeCompare(b.start_time)));
+    });
+    return bySegment;
+}
@@ -0,0 +1,323 @@
+import db from '../db';
+import { patternRules, matchRules } from './stopRules';
+import { mainPatternId, notTemplateTrip, patternError, patternStopIds } from './patterns';
+import { slotsForService } from './timeSlots';
+import { dwellModel } from './dwellTimes';
+import { layoverModel } from './layoverRules';
+
+const TIME_RE = /^\d{1,2}:\d{2}:\d{2}$/;
+const DAY_SECS = 24 * 3600;
+
+export type GenerationMode = 'interval' | 'buses';
+
+/** Time band of a timetable: departures every `value` minutes, or enough departures for `value` buses */
+export interface HeadwayBand {
+    start_time: string;
+    end_time: string;
+    value: number;
+}
+
+/** Recovery time at each terminal: the larger of a fixed minimum and a share of the running time just driven */
+export interface LayoverRule {
+    min_secs?: number;
+    percent?: number;
+}
+
+export interface TimetableRequest {
+    service_id: string;
+    mode: GenerationMode;
+    bands: HeadwayBand[];
+    output?: 'trips' | 'frequencies';
+    pattern_ids?: Partial<Record<0 | 1, string | null>>; // Empty: the main pattern of the direction
+    directions?: number[]; // [0] for outbound only; both by default when direction 1 has stops
+    layover?: LayoverRule;
+    trip_headsign?: string;
+}
+
+export interface GeneratedStopTime {
+    stop_id: string;
+    stop_sequence: number;
+    arrival_time: string;
+    departure_time: string;
+    stop_headsign: string | null;
+    pickup_type: number | null;
+    drop_off_type: number | null;
+    timepoint: number | null;
+}
+
+export interface GeneratedTrip {
+    trip_id: string;
+    direction_id: number;
+    pattern_id: string | null;
+    stop_times: GeneratedStopTime[];
+    frequencies: { start_time: string, end_time: string, headway_secs: number }[];
+}
+
+export const timeToSeconds = (time: string) => {
+    const [h, m, s] = time.split(':').map(Number);
+    return (h || 0) * 3600 + (m || 0) * 60 + (s || 0);
+};
+
+export const secondsToTime = (secs: number) =>
+    [Math.floor(secs / 3600), Math.floor((secs % 3600) / 60), secs % 60].map(v => v.toString().padStart(2, '0')).join(':');
+
+export function timetableRequestError(body: Partial<TimetableRequest>): string | null {
+    if (!body.service_id) return 'service_id is required';
+    if (!db.prepare('SELECT 1 FROM calendar WHERE service_id = ? UNION SELECT 1 FROM calendar_dates WHERE service_id = ?').get(body.service_id, body.service_id)) {
+        return `Service ${body.service_id} not found`;
+    }
+    if (body.mode !== 'interval' && body.mode !== 'buses') return 'mode must be interval or buses';
+    if (body.output !== undefined && body.output !== 'trips' && body.output !== 'frequencies') return 'output must be trips or frequencies';
+    if (!Array.isArray(body.bands) || body.bands.length === 0) return 'bands must be a non-empty array';
+    for (const band of body.bands) {
+        if (!TIME_RE.test(band.start_time) || !TIME_RE.test(band.end_time)) return 'start_time and end_time of every band must be HH:MM:SS';
+        if (timeToSeconds(band.start_time) >= timeToSeconds(band.end_time)) return `Band ${band.start_time} must end after it starts`;
+        if (!(Number(band.value) > 0)) return `Band ${band.start_time} needs a positive ${body.mode === 'buses' ? 'number of buses' : 'interval'}`;
+    }
+    const layover = body.layover || {};
+    if (layover.min_secs !== undefined && !(Number(layover.min_secs) >= 0)) return 'layover.min_secs must be zero or more';
+    if (layover.percent !== undefined && !(Number(layover.percent) >= 0)) return 'layover.percent must be zero or more';
+    if (body.directions !== undefined && (!Array.isArray(body.directions) || body.directions.some(d => d !== 0 && d !== 1))) {
+        return 'directions must only contain 0 and 1';
+    }
+    return null;
+}
+
+/**
+ * Travel time between two consecutive stops at a time of day: the time slot of the segment
+ * covering that time (from the slot set of the service), else the segment's base travel
+ * time. Stops without a segment take 0, like the trip editor does. Slots are read once per generation.
+ */
+export function travelTimeModel(serviceId?: string) {
+    const segments = new Map<string, { segment_id: string, travel_time: number | null }>();
+    (db.prepare("SELECT segment_id, start_node_id, end_node_id, travel_time FROM segments ORDER BY type = 'revenue' DESC").all() as any[])
+        .forEach(s => {
+            const key = `${s.start_node_id}|${s.end_node_id}`;
+            if (!segments.has(key)) segments.set(key, s);
+        });
+
+    const slots = new Map<string, { start: number, end: number, travel_time: number }[]>();
+    slotsForService(serviceId).forEach((segmentSlots, segmentId) => slots.set(segmentId, segmentSlots.map(slot => ({
+        start: timeToSeconds(slot.start_time), end: timeToSeconds(slot.end_time), travel_time: slot.travel_time
+    }))));
+
+    return (fromStopId: string, toStopId: string, atSecs: number): number => {
+        const segment = segments.get(`${fromStopId}|${toStopId}`);
+        if (!segment) return 0;
+        // Slots describe a service day; times past midnight use the slots of the early hours
+        const timeOfDay = atSecs % DAY_SECS;
+        const slot = slots.get(segment.segment_id)?.find(s => timeOfDay >= s.start && timeOfDay < s.end);
+        return slot ? slot.travel_time : segment.travel_time || 0;
+    };
+}
+
+type TravelTime = ReturnType<typeof travelTimeModel>;
+
+type Dwell = ReturnType<typeof dwellModel>;
+
+/**
+ * Arrival and departure at every stop of a pattern for a departure from its first stop.
+ * Vehicles dwell at the stops in between; the terminals get the layover instead.
+ */
+function stopSecs(stopIds: string[], departure: number, travelTime: TravelTime, dwell: Dwell): { arrival: number, departure: number }[] {
+    const times: { arrival: number, departure: number }[] = [];
+    let current = departure;
+    stopIds.forEach((stopId, i) => {
+        if (i > 0) current += travelTime(stopIds[i - 1], stopId, current);
+        const arrival = current;
+        if (i > 0 && i < stopIds.length - 1) current += dwell(stopId, arrival);
+        times.push({ arrival, departure: current });
+    });
+    return times;
+}
+
+/** Direction the departures of the bands are for, and the one chained after it (if any) */
+function chainedDirections(request: TimetableRequest, stopIds: Record<0 | 1, string[]>) {
+    const wanted = request.directions || [0, 1];
+    const outbound: 0 | 1 = wanted.includes(0) ? 0 : 1;
+    const inbound: 1 | null = outbound === 0 && wanted.includes(1) && stopIds[1].length > 1 ? 1 : null;
+    return { outbound, inbound };
+}
+
+export const layoverSecs = (rule: LayoverRule, runningSecs: number) =>
+    Math.round(Math.max(Number(rule.min_secs) || 0, runningSecs * (Number(rule.percent) || 0) / 100));
+
+/**
+ * Unique readable trip id: gen-ROUTE-SERVICE-DIR-HHMMSS, with a -2, -3... suffix on collision.
+ * The prefix keeps it clear of the t_ scheme of template trips whatever the route id.
+ */
+export function tripIdFactory(routeId: string, serviceId: string) {
+    const exists = db.prepare('SELECT 1 FROM trips WHERE trip_id = ?');
+    const taken = new Set<string>();
+    return (directionId: number, departure: number) => {
+        const base = `gen-${routeId}-${serviceId}-${directionId}-${secondsToTime(departure).replace(/:/g, '')}`;
+        let id = base;
+        for (let n = 2; taken.has(id) || exists.get(id); n++) id = `${base}-${n}`;
+        taken.add(id);
+        return id;
+    };
+}
+
+/**
+ * Builds the trips of a timetable without saving them. Outbound departures come from the
+ * bands; each return trip leaves the far terminal after the turnaround segment (if any) and
+ * the layover: that of the request, but never less than the route's rule for the terminal.
+ * In bus mode the headway of a band is the cycle time at its start divided by
+ * the number of buses. Departures already in the timetable (same service, direction, pattern
+ * and first departure) are skipped.
+ */
+export function generateTimetable(routeId: string, request: TimetableRequest) {
+    const travelTime = travelTimeModel(request.service_id);
+    const dwell = dwellModel(routeId);
+    const layover = request.layover || {};
+    const terminalLayover = layoverModel(routeId);
+    const patternOf = (dir: 0 | 1) => request.pattern_ids?.[dir] || mainPatternId(routeId, dir);
+    const stopIds = { 0: patternStopIds(routeId, 0, patternOf(0)), 1: patternStopIds(routeId, 1, patternOf(1)) };
+    const { outbound, inbound } = chainedDirections(request, stopIds);
+
+    // Departure of the next trip after arriving at the last stop of `from`
+    const turnaround = (from: string[], to: string[], arrival: number, runningSecs: number) => {
+        const terminal = from[from.length - 1];
+        const rest = Math.max(layoverSecs(layover, runningSecs), layoverSecs(terminalLayover(terminal, arrival), runningSecs));
+        return arrival + travelTime(terminal, to[0], arrival) + rest;
+    };
+
+    const cycleSecs = (departure: number) => {
+        const out = stopSecs(stopIds[outbound], departure, travelTime, dwell);
+        const outRunning = out[out.length - 1].arrival - departure;
+        if (inbound === null) {
+            return turnaround(stopIds[outbound], stopIds[outbound], out[out.length - 1].arrival, outRunning) - departure;
+        }
+        const backDeparture = turnaround(stopIds[outbound], stopIds[inbound], out[out.length - 1].arrival, outRunning);
+        const back = stopSecs(stopIds[inbound], backDeparture, travelTime, dwell);
+        return turnaround(stopIds[inbound], stopIds[outbound], back[back.length - 1].arrival, back[back.length - 1].arrival - backDeparture) - departure;
+    };
+
+    const bands = [...request.bands]
+        .map(band => {
+            const start = timeToSeconds(band.start_time);
+            const headway = request.mode === 'interval' ? Number(band.value) * 60 : cycleSecs(start) / Number(band.value);
+            return { start, end: timeToSeconds(band.end_time), headway: Math.round(headway) };
+        })
+        .filter(band => band.headway > 0)
+        .sort((a, b) => a.start - b.start);
+
+    const rules = { 0: patternRules(patternOf(0)), 1: patternRules(patternOf(1)) };
+    const toStopTimes = (dir: 0 | 1, times: { arrival: number, departure: number }[]): GeneratedStopTime[] => {
+        const matched = matchRules(stopIds[dir], rules[dir]);
+        return stopIds[dir].map((stopId, i) => ({
+            stop_id: stopId,
+            stop_sequence: i + 1,
+            arrival_time: secondsToTime(times[i].arrival),
+            departure_time: secondsToTime(times[i].departure),
+            stop_headsign: matched[i]?.stop_headsign || null,
+            pickup_type: matched[i]?.pickup_type ?? null,
+            drop_off_type: matched[i]?.drop_off_type ?? null,
+            timepoint: matched[i]?.timepoint ?? null
+        }));
+    };
+    const storedPatternId = (dir: 0 | 1) => patternOf(dir) === mainPatternId(routeId, dir) ? null : patternOf(dir);
+    const nextTripId = tripIdFactory(routeId, request.service_id);
+    const trips: GeneratedTrip[] = [];
+
+    if (request.output === 'frequencies') {
+        // One trip per direction, repeated over the band windows (frequencies.txt)
+        const first = bands[0];
+        if (!first) return { trips, skipped: [] as string[] };
+        const out = stopSecs(stopIds[outbound], first.start, travelTime, dwell);
+        const windows = bands.map(b => ({ start_time: secondsToTime(b.start), end_time: secondsToTime(b.end), headway_secs: b.headway }));
+        trips.push({ trip_id: nextTripId(outbound, first.start), direction_id: outbound, pattern_id: storedPatternId(outbound), stop_times: toStopTimes(outbound, out), frequencies: windows });
+
+        if (inbound !== null) {
+            const backDeparture = turnaround(stopIds[outbound], stopIds[inbound], out[out.length - 1].arrival, out[out.length - 1].arrival - first.start);
+            const offset = backDeparture - first.start;
+            trips.push({
+                trip_id: nextTripId(inbound, backDeparture),
+                direction_id: inbound,
+                pattern_id: storedPatternId(inbound),
+                stop_times: toStopTimes(inbound, stopSecs(stopIds[inbound], backDeparture, travelTime, dwell)),
+                frequencies: bands.map(b => ({ start_time: secondsToTime(b.start + offset), end_time: secondsToTime(b.end + offset), headway_secs: b.headway }))
+            });
+        }
+        return { trips, skipped: [] as string[] };
+    }
+
+    // Departures of every band, its end time included
+    const departures = new Set<number>();
+    bands.forEach(band => {
+        for (let t = band.start; t <= band.end; t += band.headway) departures.add(t);
+    });
+
+    const existing = new Set((db.prepare(`
+        SELECT st.departure_time FROM trips t
+        JOIN stop_times st ON st.trip_id = t.trip_id
+        WHERE t.route_id = ? AND t.service_id = ? AND IFNULL(t.direction_id, 0) = ? AND IFNULL(t.pattern_id, ?) = ?
+          AND ${notTemplateTrip('t.trip_id')}
+          AND st.stop_sequence = (SELECT MIN(stop_sequence) FROM stop_times WHERE trip_id = t.trip_id)
+    `).all(routeId, request.service_id, outbound, mainPatternId(routeId, outbound), patternOf(outbound)) as { departure_time: string }[])
+        .map(row => timeToSeconds(row.departure_time)));
+
+    const skipped: string[] = [];
+    [...departures].sort((a, b) => a - b).forEach(departure => {
+        if (existing.has(departure)) {
+            skipped.push(secondsToTime(departure));
+            return;
+        }
+        const out = stopSecs(stopIds[outbound], departure, travelTime, dwell);
+        trips.push({ trip_id: nextTripId(outbound, departure), direction_id: outbound, pattern_id: storedPatternId(outbound), stop_times: toStopTimes(outbound, out), frequencies: [] });
+
+        if (inbound !== null) {
+            const backDeparture = turnaround(stopIds[outbound], stopIds[inbound], out[out.length - 1].arrival, out[out.length - 1].arrival - departure);
+            trips.push({
+                trip_id: nextTripId(inbound, backDeparture),
+                direction_id: inbound,
+                pattern_id: storedPatternId(inbound),
+                stop_times: toStopTimes(inbound, stopSecs(stopIds[inbound], backDeparture, travelTime, dwell)),
+                frequencies: []
+            });
+        }
+    });
+
+    return { trips, skipped };
+}
+
+/** Checks the patterns of a request against the route; empty means the main patterns */
+export function timetablePatternError(routeId: string, request: TimetableRequest): string | null {
+    for (const dir of [0, 1] as const) {
+        const error = patternError(routeId, dir, request.pattern_ids?.[dir]);
+        if (error) return error;
+    }
+    const stopIds = { 0: patternStopIds(routeId, 0, request.pattern_ids?.[0] || undefined), 1: patternStopIds(routeId, 1, request.pattern_ids?.[1] || undefined) };
+    const { outbound } = chainedDirections(request, stopIds);
+    return stopIds[outbound].length < 2 ? `The pattern of direction ${outbound} has fewer than 2 stops` : null;
+}
+
+/** Saves generated trips with their stop_times and frequencies in one transaction */
+export function saveTimetable(routeId: string, request: TimetableRequest, trips: GeneratedTrip[]) {
+    const route = db.prepare('SELECT route_short_name, route_long_name FROM routes WHERE route_id = ?').get(routeId) as { route_short_name: string | null, route_long_name: string | null };
+    const headsign = request.trip_headsign ?? (route.route_long_name || route.route_short_name || '');
+
+    const insertTrip = db.prepare(`
+        INSERT INTO trips (trip_id, route_id, service_id, trip_headsign, direction_id, shape_id, pattern_id)
+        VALUES (?, ?, ?, ?, ?, NULL, ?)
+    `);
+    const insertStopTime = db.prepare(`
+        INSERT INTO stop_times (trip_id, stop_id, stop_sequence, arrival_time, departure_time, stop_headsign, pickup_type, drop_off_type, timepoint)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertFrequency = db.prepare(`
+        INSERT INTO frequencies (trip_id, start_time, end_time, headway_secs, exact_times)
+        VALUES (?, ?, ?, ?, 0)
+    `);
+
+    db.transaction(() => {
+        trips.forEach(trip => {
+            insertTrip.run(trip.trip_id, routeId, request.service_id, headsign, trip.direction_id, trip.pattern_id);
+            trip.stop_times.forEach(st => insertStopTime.run(
+                trip.trip_id, st.stop_id, st.stop_sequence, st.arrival_time, st.departure_time,
+                st.stop_headsign, st.pickup_type, st.drop_off_type, st.timepoint
+            ));
+            trip.frequencies.forEach(f => insertFrequency.run(trip.trip_id, f.start_time, f.end_time, f.headway_secs));
+        });
+    })();
+}
@@ -0,0 +1,231 @@
+import db from '../db';
+import { deleteTranslations } from './translations';
+import { mainPatternId, notTemplateTrip } from './patterns';
+import { secondsToTime, timeToSeconds, tripIdFactory } from './timetable';
+
+const TIME_RE = /^\d{1,2}:\d{2}:\d{2}$/;
+
+export const BULK_OPERATIONS = ['shift', 'stretch', 'copy', 'delete'] as const;
+export type BulkOperation = typeof BULK_OPERATIONS[number];
+
+/** Trips of a route a bulk edit applies to; every criterion left out matches all trips */
+export interface TripFilter {
+    direction_id?: number | null;
+    service_id?: string | null;
+    pattern_id?: string | null;
+    from_time?: string | null; // First departure, inclusive
+    to_time?: string | null;
+}
+
+export interface BulkEditRequest extends TripFilter {
+    operation: BulkOperation;
+    preview?: boolean; // Only list the matching trips
+    minutes?: number; // shift: minutes to add (negative moves earlier)
+    percent?: number; // stretch: change of the running times, +10 makes them 10% longer
+    target_service_id?: string; // copy
+    min_headway_mins?: number; // copy: keep one trip every N minutes at most, per direction
+}
+
+interface MatchedTrip {
+    trip_id: string;
+    direction_id: number;
+    pattern_id: string | null;
+    departure: number | null; // Seconds; null for trips without stop times
+}
+
+export function bulkEditError(body: Partial<BulkEditRequest>): string | null {
+    if (!BULK_OPERATIONS.includes(body.operation as BulkOperation)) return `operation must be one of ${BULK_OPERATIONS.join(', ')}`;
+    for (const field of ['from_time', 'to_time'] as const) {
+        if (body[field] && !TIME_RE.test(body[field] as string)) return `${field} must be HH:MM:SS`;
+    }
+    if (body.direction_id !== undefined && body.direction_id !== null && body.direction_id !== 0 && body.direction_id !== 1) {
+        return 'direction_id must be 0 or 1';
+    }
+    if (body.preview) return null;
+    if (body.operation === 'shift' && (!Number.isFinite(Number(body.minutes)) || Number(body.minutes) === 0)) {
+        return 'minutes must be a non-zero number';
+    }
+    if (body.operation === 'stretch' && (!Number.isFinite(Number(body.percent)) || Number(body.percent) <= -100 || Number(body.percent) === 0)) {
+        return 'percent must be a non-zero number above -100';
+    }
+    if (body.operation === 'copy') {
+        if (!body.target_service_id) return 'target_service_id is required';
+        if (body.target_service_id === body.service_id) return 'target_service_id must differ from service_id';
+        if (!db.prepare('SELECT 1 FROM calendar WHERE service_id = ? UNION SELECT 1 FROM calendar_dates WHERE service_id = ?').get(body.target_service_id, body.target_service_id)) {
+            return `Service ${body.target_service_id} not found`;
+        }
+        if (body.min_headway_mins !== undefined && body.min_headway_mins !== null && !(Number(body.min_headway_mins) > 0)) {
+            return 'min_headway_mins must be a positive number';
+        }
+    }
+    return null;
+}
+
+/** Timetable trips of a route matching the filter, by direction and first departure. Pattern trips are never matched */
+export function matchTrips(routeId: string, filter: TripFilter): MatchedTrip[] {
+    const where = ["t.route_id = ?", notTemplateTrip('t.trip_id')];
+    const params: (string | number)[] = [routeId];
+    if (filter.direction_id !== undefined && filter.direction_id !== null) { where.push('IFNULL(t.direction_id, 0) = ?'); params.push(filter.direction_id); }
+    if (filter.service_id) { where.push('t.service_id = ?'); params.push(filter.service_id); }
+
+    const trips = db.prepare(`
+        SELECT t.trip_id, IFNULL(t.direction_id, 0) AS direction_id, t.pattern_id,
+               (SELECT departure_time FROM stop_times WHERE trip_id = t.trip_id ORDER BY stop_sequence LIMIT 1) AS first_departure
+        FROM trips t
+        WHERE ${where.join(' AND ')}
+    `).all(...params) as { trip_id: string, direction_id: number, pattern_id: string | null, first_departure: string | null }[];
+
+    const from = filter.from_time ? timeToSeconds(filter.from_time) : null;
+    const to = filter.to_time ? timeToSeconds(filter.to_time) : null;
+    return trips
+        .map(t => ({
+            trip_id: t.trip_id,
+            direction_id: t.direction_id,
+            pattern_id: t.pattern_id,
+            departure: t.first_departure ? timeToSeconds(t.first_departure) : null
+        }))
+        // Trips without a pattern_id belong to the main pattern of their direction
+        .filter(t => !filter.pattern_id || (t.pattern_id || mainPatternId(routeId, t.direction_id)) === filter.pattern_id)
+        .filter(t => (from === null && to === null) || (t.departure !== null && (from === null || t.departure >= from) && (to === null || t.departure <= to)))
+        .sort((a, b) => a.direction_id - b.direction_id || (a.departure ?? -1) - (b.departure ?? -1));
+}
+
+const shiftTime = (time: string | null, secs: number) => time ? secondsToTime(timeToSeconds(time) + secs) : time;
+
+/** Moves the stop times (and headway windows) of the trips by a number of minutes; fails when a time would fall before midnight */
+function shiftTrips(trips: MatchedTrip[], minutes: number): string | null {
+    const secs = Math.round(minutes * 60);
+    const stopTimes = db.prepare('SELECT stop_sequence, arrival_time, departure_time FROM stop_times WHERE trip_id = ?');
+    for (const { trip_id } of trips) {
+        const times = (stopTimes.all(trip_id) as { arrival_time: string | null, departure_time: string | null }[])
+            .flatMap(st => [st.arrival_time, st.departure_time])
+            .filter((t): t is string => !!t);
+        if (times.some(t => timeToSeconds(t) + secs < 0)) return `Trip ${trip_id} would start before 00:00:00`;
+    }
+
+    const updateStopTime = db.prepare('UPDATE stop_times SET arrival_time = ?, departure_time = ? WHERE trip_id = ? AND stop_sequence = ?');
+    const frequencies = db.prepare('SELECT start_time, end_time FROM frequencies WHERE trip_id = ?');
+    const updateFrequency = db.prepare('UPDATE frequencies SET start_time = ?, end_time = ? WHERE trip_id = ? AND start_time = ?');
+
+    db.transaction(() => {
+        trips.forEach(({ trip_id }) => {
+            (stopTimes.all(trip_id) as { stop_sequence: number, arrival_time: string | null, departure_time: string | null }[])
+                .forEach(st => updateStopTime.run(shiftTime(st.arrival_time, secs), shiftTime(st.departure_time, secs), trip_id, st.stop_sequence));
+            // Later windows first when moving later (and the other way round), so a moved window never takes the start_time of another
+            (frequencies.all(trip_id) as { start_time: string, end_time: string }[])
+                .sort((a, b) => (timeToSeconds(b.start_time) - timeToSeconds(a.start_time)) * Math.sign(secs))
+                .forEach(f => updateFrequency.run(shiftTime(f.start_time, secs), shiftTime(f.end_time, secs), trip_id, f.start_time));
+        });
+    })();
+    return null;
+}
+
+/** Scales the time every stop is reached after the first departure; the first departure stays put */
+function stretchTrips(trips: MatchedTrip[], percent: number) {
+    const factor = 1 + percent / 100;
+    const stopTimes = db.prepare('SELECT stop_sequence, arrival_time, departure_time FROM stop_times WHERE trip_id = ?');
+    const update = db.prepare('UPDATE stop_times SET arrival_time = ?, departure_time = ? WHERE trip_id = ? AND stop_sequence = ?');
+    const scale = (time: string | null, origin: number) =>
+        time ? secondsToTime(origin + Math.round((timeToSeconds(time) - origin) * factor)) : time;
+
+    db.transaction(() => {
+        trips.forEach(({ trip_id, departure }) => {
+            if (departure === null) return;
+            (stopTimes.all(trip_id) as { stop_sequence: number, arrival_time: string | null, departure_time: string | null }[])
+                .forEach(st => update.run(scale(st.arrival_time, departure), scale(st.departure_time, departure), trip_id, st.stop_sequence));
+        });
+    })();
+}
+
+/** Copies every column of a row, replacing some of them; columns added by migrations come along */
+function copyRow(table: string, row: Record<string, unknown>, changes: Record<string, unknown>) {
+    const values = { ...row, ...changes };
+    const columns = Object.keys(values);
+    db.prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+        .run(...columns.map(c => values[c]));
+}
+
+/**
+ * Copies the trips to another service, with their stop times and headway windows. With a
+ * minimum headway only the first trip of every N minutes of each direction is copied (e.g.
+ * a weekday timetable thinned out for Saturdays). Departures the target service already has
+ * for the same direction and pattern are skipped.
+ */
+function copyTrips(routeId: string, trips: MatchedTrip[], targetServiceId: string, minHeadwayMins?: number | null) {
+    const existing = new Set(matchTrips(routeId, { service_id: targetServiceId })
+        .map(t => `${t.direction_id}|${t.pattern_id || ''}|${t.departure}`));
+    const nextTripId = tripIdFactory(routeId, targetServiceId);
+    const lastKept = new Map<number, number>();
+    const skipped: string[] = [];
+    const created: string[] = [];
+
+    const tripRow = db.prepare('SELECT * FROM trips WHERE trip_id = ?');
+    const stopTimes = db.prepare('SELECT * FROM stop_times WHERE trip_id = ? ORDER BY stop_sequence');
+    const frequencies = db.prepare('SELECT * FROM frequencies WHERE trip_id = ?');
+
+    db.transaction(() => {
+        trips.forEach(trip => {
+            if (minHeadwayMins && trip.departure !== null) {
+                const last = lastKept.get(trip.direction_id);
+                if (last !== undefined && trip.departure - last < minHeadwayMins * 60) return;
+                lastKept.set(trip.direction_id, trip.departure);
+            }
+            if (existing.has(`${trip.direction_id}|${trip.pattern_id || ''}|${trip.departure}`)) {
+                skipped.push(trip.trip_id);
+                return;
+            }
+
+            const newTripId = nextTripId(trip.direction_id, trip.departure ?? 0);
+            copyRow('trips', tripRow.get(trip.trip_id) as Record<string, unknown>, { trip_id: newTripId, service_id: targetServiceId });
+            (stopTimes.all(trip.trip_id) as Record<string, unknown>[]).forEach(st => copyRow('stop_times', st, { trip_id: newTripId }));
+            (frequencies.all(trip.trip_id) as Record<string, unknown>[]).forEach(f => copyRow('frequencies', f, { trip_id: newTripId }));
+            created.push(newTripId);
+        });
+    })();
+    return { created, skipped };
+}
+
+/** Same cleanup as deleting the trips one by one */
+function deleteTrips(trips: MatchedTrip[]) {
+    const deleteFrequencies = db.prepare('DELETE FROM frequencies WHERE trip_id = ?');
+    const deleteTransfers = db.prepare('DELETE FROM transfers WHERE from_trip_id = ? OR to_trip_id = ?');
+    const deleteStopTimes = db.prepare('DELETE FROM stop_times WHERE trip_id = ?');
+    const deleteTrip = db.prepare('DELETE FROM trips WHERE trip_id = ?');
+
+    db.transaction(() => {
+        trips.forEach(({ trip_id }) => {
+            deleteFrequencies.run(trip_id);
+            deleteTransfers.run(trip_id, trip_id);
+            deleteStopTimes.run(trip_id);
+            deleteTrip.run(trip_id);
+            deleteTranslations('trips', trip_id);
+        });
+    })();
+}
+
+/** Runs a validated bulk edit; returns an error message or the outcome */
+export function runBulkEdit(routeId: string, request: BulkEditRequest) {
+    const trips = matchTrips(routeId, request);
+    const trip_ids = trips.map(t => t.trip_id);
+    if (request.preview || trips.length === 0) {
+        return { message: `${trips.length} trips match`, trip_ids };
+    }
+
+    switch (request.operation) {
+        case 'shift': {
+            const error = shiftTrips(trips, Number(request.minutes));
+            if (error) return { error };
+            return { message: `Shifted ${trips.length} trips by ${Number(request.minutes)} min`, trip_ids };
+        }
+        case 'stretch':
+            stretchTrips(trips, Number(request.percent));
+            return { message: `Scaled the running times of ${trips.length} trips by ${Number(request.percent)}%`, trip_ids };
+        case 'copy': {
+            const { created, skipped } = copyTrips(routeId, trips, request.target_service_id as string, request.min_headway_mins);
+            return { message: `Copied ${created.length} trips to ${request.target_service_id}`, trip_ids: created, skipped };
+        }
+        case 'delete':
+            deleteTrips(trips);
+            return { message: `Deleted ${trips.length} trips`, trip_ids };
+    }
+}
@@ -0,0 +1,135 @@
+import db from '../db';
+
+export interface SuggestionOptions {
+    maxDistance: number; // meters of walking between two stops
+    walkSpeed: number;   // meters per second
+}
+
+interface SuggestedStop {
+    stop_id: string;
+    stop_name: string;
+    routes: { route_id: string, route_short_name: string | null }[];
+}
+
+export interface TransferSuggestion {
+    kind: 'shared_stop' | 'walk';
+    from: SuggestedStop;
+    to: SuggestedStop;
+    distance: number;                 // meters, 0 for a shared stop
+    suggested_min_transfer_time: number; // seconds of walking, rounded up to 30s
+    existing: boolean;                // a transfer between these stops already exists (either way)
+}
+
+export const DEFAULT_SUGGESTION_OPTIONS: SuggestionOptions = { maxDistance: 150, walkSpeed: 1.2 };
+
+const MAX_SUGGESTIONS = 500;
+
+const getDistMeters = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+    const R = 6371000; // meters
+    const dLat = (lat2 - lat1) * Math.PI / 180;
+    const dLon = (lon2 - lon1) * Math.PI / 180;
+    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+        Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+        Math.sin(dLon / 2) * Math.sin(dLon / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return R * c;
+};
+
+/**
+ * Candidate transfers between routes: stops served by more than one route, and pairs of
+ * stops of different routes within walking distance. Pairs are unordered (from < to);
+ * the client decides whether to author one or both directions.
+ */
+export function suggestTransfers(options: SuggestionOptions = DEFAULT_SUGGESTION_OPTIONS): TransferSuggestion[] {
+    const routeStops = db.prepare(`
+        SELECT DISTINCT t.route_id, st.stop_id, r.route_short_name
+        FROM stop_times st
+        JOIN trips t ON t.trip_id = st.trip_id
+        JOIN routes r ON r.route_id = t.route_id
+    `).all() as { route_id: string, stop_id: string, route_short_name: string | null }[];
+
+    const routesByStop = new Map<string, SuggestedStop['routes']>();
+    routeStops.forEach(rs => {
+        if (!routesByStop.has(rs.stop_id)) routesByStop.set(rs.stop_id, []);
+        routesByStop.get(rs.stop_id)!.push({ route_id: rs.route_id, route_short_name: rs.route_short_name });
+    });
+    if (routesByStop.size === 0) return [];
+
+    const stops = (db.prepare('SELECT stop_id, stop_name, stop_lat, stop_lon FROM stops').all() as any[])
+        .filter(s => routesByStop.has(s.stop_id));
+
+    const existingPairs = new Set<string>();
+    (db.prepare('SELECT from_stop_id, to_stop_id FROM transfers WHERE from_stop_id IS NOT NULL AND to_stop_id IS NOT NULL').all() as any[])
+        .forEach(t => existingPairs.add([t.from_stop_id, t.to_stop_id].sort().join('|')));
+
+    const toSuggested = (s: any): SuggestedStop => ({ stop_id: s.stop_id, stop_name: s.stop_name, routes: routesByStop.get(s.stop_id) || [] });
+    const walkTime = (meters: number) => Math.max(30, Math.ceil(meters / options.walkSpeed / 30) * 30);
+    const suggestions: TransferSuggestion[] = [];
+
+    // 1. Interchanges at a single stop
+    stops.forEach(s => {
+        if ((routesByStop.get(s.stop_id) || []).length < 2) return;
+        suggestions.push({
+            kind: 'shared_stop',
+            from: toSuggested(s),
+            to: toSuggested(s),
+            distance: 0,
+            suggested_min_transfer_time: 0,
+            existing: existingPairs.has(`${s.stop_id}|${s.stop_id}`)
+        });
+    });
+
+    // 2. Walking transfers; bucket stops in a grid of roughly maxDistance so only neighbouring cells are compared
+    if (options.maxDistance > 0) {
+        const located = stops.filter(s => s.stop_lat !== null && s.stop_lon !== null);
+        const meanLat = located.reduce((sum, s) => sum + s.stop_lat, 0) / Math.max(1, located.length);
+        // Same cell width for every stop, widened a little so the spread of latitudes can't shrink it below maxDistance
+        const cellLat = options.maxDistance / 111320;
+        const cellLon = cellLat / Math.max(0.1, Math.cos(meanLat * Math.PI / 180)) * 1.1;
+        const cellKey = (x: number, y: number) => `${x}:${y}`;
+        const cellOf = (s: any) => ({ x: Math.floor(s.stop_lon / cellLon), y: Math.floor(s.stop_lat / cellLat) });
+
+        const grid = new Map<string, any[]>();
+        located.forEach(s => {
+            const { x, y } = cellOf(s);
+            const key = cellKey(x, y);
+            if (!grid.has(key)) grid.set(key, []);
+            grid.get(key)!.push(s);
+        });
+
+        located.forEach(a => {
+            const aRoutes = new Set((routesByStop.get(a.stop_id) || []).map(r => r.route_id));
+            const { x, y } = cellOf(a);
+
+            for (let dx = -1; dx <= 1; dx++) {
+                for (let dy = -1; dy <= 1; dy++) {
+                    (grid.get(cellKey(x + dx, y + dy)) || []).forEach(b => {
+                        if (b.stop_id <= a.stop_id) return; // each unordered pair once
+
+                        // Only worth a transfer when b offers a route a doesn't (or the other way round)
+                        const bRoutes = (routesByStop.get(b.stop_id) || []).map(r => r.route_id);
+                        const differs = bRoutes.some(r => !aRoutes.has(r)) || bRoutes.length < aRoutes.size;
+                        if (!differs) return;
+
+                        const distance = getDistMeters(a.stop_lat, a.stop_lon, b.stop_lat, b.stop_lon);
+                        if (distance > options.maxDistance) return;
+
+                        suggestions.push({
+                            kind: 'walk',
+                            from: toSuggested(a),
+                            to: toSuggested(b),
+                            distance: Math.round(distance),
+                            suggested_min_transfer_time: walkTime(distance),
+                            existing: existingPairs.has(`${a.stop_id}|${b.stop_id}`)
+                        });
+                    });
+                }
+            }
+        });
+    }
+
+    // Busiest interchanges first, then the shortest walks
+    return suggestions
+        .sort((a, b) => (b.from.routes.length + b.to.routes.length) - (a.from.routes.length + a.to.routes.length) || a.distance - b.distance)
+        .slice(0, MAX_SUGGESTIONS);
+}
@@ -0,0 +1,29 @@
+import db from '../db';
+
+// Tables (as named in translations.txt) whose text fields can be translated, with their key column
+export const TRANSLATABLE: Record<string, { key: string, fields: string[] }> = {
+    agency: { key: 'agency_id', fields: ['agency_name', 'agency_url'] },
+    stops: { key: 'stop_id', fields: ['stop_name', 'stop_desc'] },
+    routes: { key: 'route_id', fields: ['route_short_name', 'route_long_name', 'route_desc'] },
+    trips: { key: 'trip_id', fields: ['trip_headsign', 'trip_short_name'] }
+};
+
+export const LANG_RE = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i; // IETF BCP 47 (en, es-MX)
+
+export const isTranslatable = (table: string, field: string) => !!TRANSLATABLE[table]?.fields.includes(field);
+
+export const recordExists = (table: string, recordId: string) =>
+    !!db.prepare(`SELECT 1 FROM ${table} WHERE ${TRANSLATABLE[table].key} = ?`).get(recordId);
+
+/** Language of the untranslated names: the agency_lang of the (first) agency */
+export const defaultLanguage = (): string | null => {
+    const row = db.prepare(`
+        SELECT agency_lang FROM agency WHERE IFNULL(agency_lang, '') <> '' ORDER BY agency_id LIMIT 1
+    `).get() as { agency_lang: string } | undefined;
+    return row ? row.agency_lang : null;
+};
+
+// Called when a record is deleted; value-based translations are shared and stay
+export const deleteTranslations = (table: string, recordId: string) => {
+    db.prepare('DELETE FROM translations WHERE table_name = ? AND record_id = ?').run(table, recordId);
+};
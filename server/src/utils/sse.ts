@@ -0,0 +1,55 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { OutgoingHttpHeaders } from 'http';
+
+export interface EventStream {
+    send(event: string, data: unknown): void;
+    close(): void;
+    onClose(fn: () => void): void;
+}
+
+// Proxies drop idle connections, so send a comment line now and then
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Turns a request into a server-sent events stream (text/event-stream).
+ * The reply is hijacked, so headers already set by plugins (CORS) are copied over by hand.
+ * onClose handlers run once, whether the client disconnects or close() is called.
+ */
+export const openEventStream = (request: FastifyRequest, reply: FastifyReply): EventStream => {
+    reply.hijack();
+    const raw = reply.raw;
+    raw.writeHead(200, {
+        ...(reply.getHeaders() as OutgoingHttpHeaders),
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    raw.write(': connected\n\n');
+
+    const closeHandlers: (() => void)[] = [];
+    let closed = false;
+    const heartbeat = setInterval(() => raw.write(': ping\n\n'), HEARTBEAT_MS);
+
+    const cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        closeHandlers.forEach(fn => fn());
+    };
+    request.raw.on('close', cleanup);
+
+    return {
+        send(event, data) {
+            if (closed) return;
+            raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        },
+        close() {
+            cleanup();
+            raw.end();
+        },
+        onClose(fn) {
+            closeHandlers.push(fn);
+        }
+    };
+};